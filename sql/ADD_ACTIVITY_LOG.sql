@@ -0,0 +1,330 @@
+-- =====================================================
+-- ONE ACTIVITY LOG
+-- =====================================================
+-- This script:
+-- 1. Makes user_activities the only activity table: activity_type becomes
+--    TEXT, a description column is added, and rows from the old
+--    user_activity table are moved over (the table is then dropped)
+-- 2. Creates record_activity() - the one internal writer, which never
+--    makes the change it describes fail
+-- 3. Logs task changes with a trigger: creation, deletion and every
+--    change to the fields below, with their before and after values, in
+--    activity_data.changes. The app shows these as a task's history.
+-- 4. Points log_user_activity() at user_activities for older clients and
+--    drops the task triggers this replaces
+-- 5. Sets the policies (members see their workspaces' activity and their
+--    own) and adds user_activities to realtime
+--
+-- Needs ADD_TASK_FIELDS_AND_TAGS.sql and ADD_WORKFLOW_STATUSES.sql.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ACTIVITY TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS user_activities (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    activity_type TEXT NOT NULL,
+    activity_data JSONB DEFAULT '{}',
+    resource_type TEXT,
+    resource_id UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    -- Older setups created activity_type as an enum of a few fixed values
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_activities' AND column_name = 'activity_type' AND data_type = 'USER-DEFINED'
+    ) THEN
+        ALTER TABLE user_activities ALTER COLUMN activity_type TYPE TEXT USING activity_type::text;
+        RAISE NOTICE 'Changed user_activities.activity_type to TEXT';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_activities' AND column_name = 'activity_data'
+    ) THEN
+        ALTER TABLE user_activities ADD COLUMN activity_data JSONB DEFAULT '{}';
+        RAISE NOTICE 'Added activity_data column to user_activities';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_activities' AND column_name = 'description'
+    ) THEN
+        ALTER TABLE user_activities ADD COLUMN description TEXT;
+        RAISE NOTICE 'Added description column to user_activities';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_activities' AND column_name = 'resource_type'
+    ) THEN
+        ALTER TABLE user_activities ADD COLUMN resource_type TEXT;
+        ALTER TABLE user_activities ADD COLUMN resource_id UUID;
+        RAISE NOTICE 'Added resource columns to user_activities';
+    END IF;
+
+    -- Some setups stored the payload in a details column
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_activities' AND column_name = 'details'
+    ) THEN
+        EXECUTE 'UPDATE user_activities
+                 SET activity_data = COALESCE(details, ''{}'') || COALESCE(activity_data, ''{}''), details = NULL
+                 WHERE details IS NOT NULL';
+        RAISE NOTICE 'Merged user_activities.details into activity_data';
+    END IF;
+END $$;
+
+-- Move the old user_activity rows over. Rows about a task are filed under it.
+DO $$
+DECLARE
+    v_data TEXT := 'COALESCE(a.metadata, ''{}'')';
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'user_activity'
+    ) THEN
+        IF EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'user_activity' AND column_name = 'details'
+        ) THEN
+            v_data := v_data || ' || COALESCE(a.details, ''{}'')';
+        END IF;
+
+        EXECUTE format(
+            'INSERT INTO user_activities (user_id, workspace_id, activity_type, description, resource_type, resource_id, activity_data, created_at)
+             SELECT a.user_id, a.workspace_id, a.activity_type, a.activity_description,
+                    CASE WHEN %1$s ? ''task_id'' THEN ''task'' ELSE a.resource_type END,
+                    CASE WHEN %1$s ? ''task_id'' THEN (%1$s->>''task_id'')::uuid ELSE a.resource_id END,
+                    %1$s,
+                    COALESCE(a.created_at, NOW())
+             FROM user_activity a',
+            v_data
+        );
+
+        DROP TABLE user_activity;
+        RAISE NOTICE 'Moved user_activity rows into user_activities and dropped user_activity';
+    END IF;
+END $$;
+
+-- Task activity logged without a workspace (timers, comments) belongs to the task's
+UPDATE user_activities a
+SET workspace_id = t.workspace_id
+FROM tasks t
+WHERE a.workspace_id IS NULL
+AND a.resource_type = 'task'
+AND a.resource_id = t.id;
+
+CREATE INDEX IF NOT EXISTS idx_user_activities_resource ON user_activities(resource_type, resource_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_activities_workspace_created ON user_activities(workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_activities_user_created ON user_activities(user_id, created_at DESC);
+
+-- =====================================================
+-- 2. RECORD ACTIVITY
+-- =====================================================
+
+-- Internal: a failed log line is reported as a warning instead of undoing
+-- the change it describes (e.g. while a whole workspace is being deleted)
+CREATE OR REPLACE FUNCTION public.record_activity(
+    p_user_id UUID,
+    p_workspace_id UUID,
+    p_activity_type TEXT,
+    p_resource_type TEXT,
+    p_resource_id UUID,
+    p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO user_activities (user_id, workspace_id, activity_type, resource_type, resource_id, activity_data)
+    VALUES (p_user_id, p_workspace_id, p_activity_type, p_resource_type, p_resource_id, COALESCE(p_data, '{}'::jsonb));
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Could not record % activity: %', p_activity_type, SQLERRM;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_activity(UUID, UUID, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- 3. TASK HISTORY
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_changes JSONB := '[]'::jsonb;
+    v_old_status TEXT;
+    v_new_status TEXT;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.record_activity(
+            COALESCE(auth.uid(), NEW.created_by), NEW.workspace_id, 'task_created', 'task', NEW.id,
+            jsonb_build_object('resource_title', NEW.title)
+        );
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.record_activity(
+            COALESCE(auth.uid(), OLD.created_by), OLD.workspace_id, 'task_deleted', 'task', OLD.id,
+            jsonb_build_object('resource_title', OLD.title)
+        );
+        RETURN NULL;
+    END IF;
+
+    -- Status as the workflow status id the app shows; tasks without one
+    -- map onto the default workflow's ids
+    v_old_status := COALESCE(OLD.workflow_status, CASE OLD.status
+        WHEN 'in_progress' THEN 'progress' WHEN 'completed' THEN 'done' WHEN 'cancelled' THEN 'cancelled' ELSE 'todo' END);
+    v_new_status := COALESCE(NEW.workflow_status, CASE NEW.status
+        WHEN 'in_progress' THEN 'progress' WHEN 'completed' THEN 'done' WHEN 'cancelled' THEN 'cancelled' ELSE 'todo' END);
+
+    IF NEW.title IS DISTINCT FROM OLD.title THEN
+        v_changes := v_changes || jsonb_build_object('field', 'title', 'before', OLD.title, 'after', NEW.title);
+    END IF;
+    IF NEW.description IS DISTINCT FROM OLD.description THEN
+        v_changes := v_changes || jsonb_build_object('field', 'description', 'before', left(OLD.description, 500), 'after', left(NEW.description, 500));
+    END IF;
+    IF v_new_status IS DISTINCT FROM v_old_status THEN
+        v_changes := v_changes || jsonb_build_object('field', 'status', 'before', v_old_status, 'after', v_new_status);
+    END IF;
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+        v_changes := v_changes || jsonb_build_object('field', 'priority', 'before', OLD.priority, 'after', NEW.priority);
+    END IF;
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        v_changes := v_changes || jsonb_build_object('field', 'assigned_to', 'before', OLD.assigned_to, 'after', NEW.assigned_to);
+    END IF;
+    IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+        v_changes := v_changes || jsonb_build_object('field', 'due_date', 'before', OLD.due_date, 'after', NEW.due_date);
+    END IF;
+    IF NEW.start_date IS DISTINCT FROM OLD.start_date THEN
+        v_changes := v_changes || jsonb_build_object('field', 'start_date', 'before', OLD.start_date, 'after', NEW.start_date);
+    END IF;
+    IF NEW.page_id IS DISTINCT FROM OLD.page_id THEN
+        v_changes := v_changes || jsonb_build_object('field', 'page_id', 'before', OLD.page_id, 'after', NEW.page_id);
+    END IF;
+    IF NEW.estimated_hours IS DISTINCT FROM OLD.estimated_hours THEN
+        v_changes := v_changes || jsonb_build_object('field', 'estimated_hours', 'before', OLD.estimated_hours, 'after', NEW.estimated_hours);
+    END IF;
+    IF NEW.tags IS DISTINCT FROM OLD.tags THEN
+        v_changes := v_changes || jsonb_build_object('field', 'tags', 'before', to_jsonb(OLD.tags), 'after', to_jsonb(NEW.tags));
+    END IF;
+
+    -- Ordering, progress and tracked time changes aren't history
+    IF jsonb_array_length(v_changes) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.record_activity(
+        COALESCE(auth.uid(), NEW.created_by), NEW.workspace_id, 'task_updated', 'task', NEW.id,
+        jsonb_build_object('resource_title', NEW.title, 'changes', v_changes)
+    );
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_task_activity ON tasks;
+CREATE TRIGGER log_task_activity
+    AFTER INSERT OR UPDATE OR DELETE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION public.log_task_activity();
+
+-- =====================================================
+-- 4. OLDER WRITERS
+-- =====================================================
+
+-- Replaced by log_task_activity
+DROP TRIGGER IF EXISTS log_task_created_trigger ON tasks;
+DROP TRIGGER IF EXISTS log_task_completed_trigger ON tasks;
+
+-- Kept for clients that still call it; only logs for the caller
+CREATE OR REPLACE FUNCTION public.log_user_activity(
+    p_user_id UUID,
+    p_activity_type TEXT,
+    p_activity_description TEXT,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_activity_id UUID;
+BEGIN
+    IF p_user_id IS NULL OR p_user_id IS DISTINCT FROM auth.uid() THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO user_activities (user_id, activity_type, description, activity_data)
+    VALUES (p_user_id, p_activity_type, p_activity_description, COALESCE(p_metadata, '{}'::jsonb))
+    RETURNING id INTO v_activity_id;
+
+    RETURN v_activity_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_user_activity(UUID, TEXT, TEXT, JSONB) TO authenticated;
+
+-- =====================================================
+-- 5. POLICIES AND REALTIME
+-- =====================================================
+
+ALTER TABLE user_activities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_activities_select" ON user_activities;
+DROP POLICY IF EXISTS "user_activities_insert" ON user_activities;
+DROP POLICY IF EXISTS "activities_select_policy" ON user_activities;
+DROP POLICY IF EXISTS "activities_insert_policy" ON user_activities;
+DROP POLICY IF EXISTS "Users can view workspace activities" ON user_activities;
+DROP POLICY IF EXISTS "Users can create their activities" ON user_activities;
+
+CREATE POLICY "user_activities_select" ON user_activities
+FOR SELECT TO authenticated
+USING (
+    user_id = auth.uid()
+    OR workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+);
+
+CREATE POLICY "user_activities_insert" ON user_activities
+FOR INSERT TO authenticated
+WITH CHECK (
+    user_id = auth.uid()
+    AND (workspace_id IS NULL OR workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())))
+);
+
+GRANT SELECT, INSERT ON user_activities TO authenticated;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'user_activities'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE user_activities;
+    END IF;
+END;
+$$;
+
+SELECT '✅ Activity log ready!' as status;
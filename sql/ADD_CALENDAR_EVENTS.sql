@@ -0,0 +1,94 @@
+-- =====================================================
+-- WORKSPACE CALENDAR EVENTS
+-- =====================================================
+-- This script:
+-- 1. Creates calendar_events - meetings, reminders and goals shown
+--    on the Calendar page next to task due dates. Attendees are
+--    workspace members (attendee_ids holds their user ids).
+-- 2. Adds the table to the realtime publication so every member's
+--    calendar updates live
+--
+-- Any member can add events; the creator and workspace admins can
+-- edit or delete them.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. CALENDAR EVENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+    description TEXT NOT NULL DEFAULT '',
+    event_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    event_type TEXT NOT NULL DEFAULT 'meeting' CHECK (event_type IN ('meeting', 'reminder', 'goal')),
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+    status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled')),
+    attendee_ids UUID[] NOT NULL DEFAULT '{}',
+    meeting_link TEXT,
+    location TEXT,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_workspace_date ON calendar_events(workspace_id, event_date);
+
+DROP TRIGGER IF EXISTS update_calendar_events_updated_at ON calendar_events;
+CREATE TRIGGER update_calendar_events_updated_at
+    BEFORE UPDATE ON calendar_events
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE calendar_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "calendar_events_select" ON calendar_events;
+DROP POLICY IF EXISTS "calendar_events_insert" ON calendar_events;
+DROP POLICY IF EXISTS "calendar_events_update" ON calendar_events;
+DROP POLICY IF EXISTS "calendar_events_delete" ON calendar_events;
+
+CREATE POLICY "calendar_events_select" ON calendar_events
+FOR SELECT TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+CREATE POLICY "calendar_events_insert" ON calendar_events
+FOR INSERT TO authenticated
+WITH CHECK (
+    workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    AND created_by = auth.uid()
+);
+
+CREATE POLICY "calendar_events_update" ON calendar_events
+FOR UPDATE TO authenticated
+USING (created_by = auth.uid() OR public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "calendar_events_delete" ON calendar_events
+FOR DELETE TO authenticated
+USING (created_by = auth.uid() OR public.is_workspace_admin(workspace_id));
+
+-- =====================================================
+-- 2. REALTIME
+-- =====================================================
+-- REPLICA IDENTITY FULL so DELETE payloads still carry workspace_id.
+
+ALTER TABLE calendar_events REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'calendar_events'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE calendar_events;
+    END IF;
+END;
+$$;
+
+SELECT '✅ Calendar events ready!' as status;
@@ -0,0 +1,182 @@
+-- =====================================================
+-- ICALENDAR FEED
+-- =====================================================
+-- This script:
+-- 1. Creates calendar_feed_tokens - one secret token per user and
+--    workspace, used in the subscription URL served by the
+--    calendar-feed edge function
+-- 2. Adds get_calendar_feed_token() / regenerate_calendar_feed_token()
+--    for the signed-in user
+-- 3. Adds get_calendar_feed(), which the edge function calls with
+--    just the token (calendar apps cannot sign in) and which returns
+--    the workspace's dated tasks and calendar events as JSON
+--
+-- Requires ADD_CALENDAR_EVENTS.sql and ADD_RECURRING_TASKS.sql.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. FEED TOKENS TABLE
+-- =====================================================
+-- gen_random_bytes() comes from pgcrypto, which Supabase installs in the
+-- extensions schema; functions below run with search_path = public.
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_accessed_at TIMESTAMPTZ,
+    UNIQUE(workspace_id, user_id)
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are only handed out through the functions below
+DROP POLICY IF EXISTS "calendar_feed_tokens_select" ON calendar_feed_tokens;
+
+CREATE POLICY "calendar_feed_tokens_select" ON calendar_feed_tokens
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- =====================================================
+-- 2. GET / REGENERATE THE SIGNED-IN USER'S TOKEN
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token(p_workspace_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT;
+BEGIN
+    IF p_workspace_id NOT IN (SELECT public.get_user_workspace_ids(auth.uid())) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not a member of this workspace');
+    END IF;
+
+    INSERT INTO calendar_feed_tokens (workspace_id, user_id)
+    VALUES (p_workspace_id, auth.uid())
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+    SELECT token INTO v_token
+    FROM calendar_feed_tokens
+    WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+
+    RETURN jsonb_build_object('success', true, 'token', v_token);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed_token(UUID) TO authenticated;
+
+-- Invalidates the old URL, e.g. after it was shared by mistake
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token(p_workspace_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_token TEXT;
+BEGIN
+    IF p_workspace_id NOT IN (SELECT public.get_user_workspace_ids(auth.uid())) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not a member of this workspace');
+    END IF;
+
+    INSERT INTO calendar_feed_tokens (workspace_id, user_id)
+    VALUES (p_workspace_id, auth.uid())
+    ON CONFLICT (workspace_id, user_id) DO UPDATE
+    SET token = encode(extensions.gen_random_bytes(24), 'hex'),
+        created_at = NOW(),
+        last_accessed_at = NULL
+    RETURNING token INTO v_token;
+
+    RETURN jsonb_build_object('success', true, 'token', v_token);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.regenerate_calendar_feed_token(UUID) TO authenticated;
+
+-- =====================================================
+-- 3. FEED CONTENTS FOR A TOKEN
+-- =====================================================
+-- Callable without signing in: the token is the secret. A token
+-- stops working once its owner leaves the workspace.
+
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_feed calendar_feed_tokens%ROWTYPE;
+    v_workspace_name TEXT;
+BEGIN
+    SELECT * INTO v_feed FROM calendar_feed_tokens WHERE token = p_token;
+
+    IF v_feed.id IS NULL OR v_feed.workspace_id NOT IN (SELECT public.get_user_workspace_ids(v_feed.user_id)) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid feed token');
+    END IF;
+
+    UPDATE calendar_feed_tokens SET last_accessed_at = NOW() WHERE id = v_feed.id;
+
+    SELECT name INTO v_workspace_name FROM workspaces WHERE id = v_feed.workspace_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'workspace_name', v_workspace_name,
+        'tasks', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', t.id,
+                'title', t.title,
+                'description', t.description,
+                'status', t.status,
+                'priority', t.priority,
+                'due_date', t.due_date,
+                'start_date', t.start_date,
+                'tags', t.tags,
+                'link', t.link,
+                'recurrence', t.recurrence,
+                'updated_at', t.updated_at
+            ))
+            FROM tasks t
+            WHERE t.workspace_id = v_feed.workspace_id
+            AND t.due_date IS NOT NULL
+        ), '[]'::jsonb),
+        'events', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', e.id,
+                'title', e.title,
+                'description', e.description,
+                'event_date', e.event_date,
+                'start_time', e.start_time,
+                'end_time', e.end_time,
+                'event_type', e.event_type,
+                'priority', e.priority,
+                'status', e.status,
+                'meeting_link', e.meeting_link,
+                'location', e.location,
+                'updated_at', e.updated_at,
+                'attendees', COALESCE((
+                    SELECT jsonb_agg(jsonb_build_object(
+                        'email', u.email,
+                        'name', COALESCE(u.raw_user_meta_data->>'full_name', u.email)
+                    ))
+                    FROM auth.users u
+                    WHERE u.id = ANY(e.attendee_ids)
+                ), '[]'::jsonb)
+            ))
+            FROM calendar_events e
+            WHERE e.workspace_id = v_feed.workspace_id
+        ), '[]'::jsonb)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(TEXT) TO anon, authenticated;
+
+SELECT '✅ Calendar feed ready!' as status;
@@ -0,0 +1,36 @@
+-- =====================================================
+-- COMMENT MENTIONS
+-- =====================================================
+-- This script:
+-- 1. Adds task_comments.mentions - the ids of the users @mentioned
+--    in a comment
+-- 2. Indexes it so "comments that mention me" stays fast
+--
+-- In the comment text a mention is stored as @[Display Name](user-id)
+-- (see src/utils/mentions.ts); the app renders it as a chip.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD MENTIONS TO TASK_COMMENTS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_comments' AND column_name = 'mentions'
+    ) THEN
+        ALTER TABLE task_comments ADD COLUMN mentions UUID[] NOT NULL DEFAULT '{}';
+        RAISE NOTICE 'Added mentions column to task_comments';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_mentions ON task_comments USING GIN (mentions);
+
+SELECT '✅ Comment mentions ready!' as status;
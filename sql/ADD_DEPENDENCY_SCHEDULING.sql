@@ -0,0 +1,93 @@
+-- =====================================================
+-- DEPENDENCY-AWARE SCHEDULING
+-- =====================================================
+-- This script:
+-- 1. Adds get_workspace_task_dependencies() so the app can load the
+--    whole dependency graph of a workspace in one call (the table
+--    has no workspace_id of its own)
+-- 2. Adds a trigger that rejects dependencies that would close a
+--    cycle anywhere in the graph, not just between two tasks
+--
+-- Blocked-task enforcement and date suggestions happen in the app
+-- (src/utils/dependencies.ts).
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. LOAD A WORKSPACE'S DEPENDENCIES
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_workspace_task_dependencies(p_workspace_id UUID)
+RETURNS TABLE (
+    id UUID,
+    task_id UUID,
+    depends_on_task_id UUID,
+    dependency_type TEXT,
+    created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_workspace_id NOT IN (SELECT public.get_user_workspace_ids(auth.uid())) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT d.id, d.task_id, d.depends_on_task_id, d.dependency_type::text, d.created_at
+    FROM task_dependencies d
+    JOIN tasks t ON t.id = d.task_id
+    WHERE t.workspace_id = p_workspace_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workspace_task_dependencies(UUID) TO authenticated;
+
+-- =====================================================
+-- 2. REJECT CIRCULAR DEPENDENCIES
+-- =====================================================
+-- A new edge task -> depends_on closes a cycle when depends_on can
+-- already reach task by following existing edges.
+
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.task_id = NEW.depends_on_task_id THEN
+        RAISE EXCEPTION 'Circular dependency: a task cannot depend on itself';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE reachable(task_id) AS (
+            SELECT d.depends_on_task_id
+            FROM task_dependencies d
+            WHERE d.task_id = NEW.depends_on_task_id
+            AND d.id IS DISTINCT FROM NEW.id
+            UNION
+            SELECT d.depends_on_task_id
+            FROM task_dependencies d
+            JOIN reachable r ON d.task_id = r.task_id
+            WHERE d.id IS DISTINCT FROM NEW.id
+        )
+        SELECT 1 FROM reachable WHERE task_id = NEW.task_id
+    ) THEN
+        RAISE EXCEPTION 'Circular dependency: this task already comes before the one it would depend on';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS task_dependencies_prevent_cycle ON task_dependencies;
+
+CREATE TRIGGER task_dependencies_prevent_cycle
+    BEFORE INSERT OR UPDATE OF task_id, depends_on_task_id ON task_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+SELECT '✅ Dependency scheduling ready!' as status;
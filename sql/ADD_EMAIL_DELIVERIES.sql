@@ -0,0 +1,60 @@
+-- =====================================================
+-- EMAIL DELIVERY LOG
+-- =====================================================
+-- This script:
+-- 1. Creates email_deliveries - one row per email handed to the
+--    send-email edge function, with the provider used, its message
+--    id, the delivery status and how many attempts it took
+--
+-- The plain-text part and the unsubscribe URL are kept with the HTML,
+-- so a retry sends the same email, List-Unsubscribe headers included.
+--
+-- Rows are written by the edge function with the service role key;
+-- users can only read the deliveries they triggered.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. EMAIL DELIVERIES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.email_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    to_email TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    html TEXT NOT NULL DEFAULT '',
+    text TEXT, -- Plain-text alternative, when the sender gave one
+    unsubscribe_url TEXT, -- Sent as List-Unsubscribe
+    email_type TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed')),
+    provider_message_id TEXT,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables created before the text part and unsubscribe URL were stored
+ALTER TABLE email_deliveries ADD COLUMN IF NOT EXISTS text TEXT;
+ALTER TABLE email_deliveries ADD COLUMN IF NOT EXISTS unsubscribe_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_user_created ON email_deliveries(user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_email_deliveries_updated_at ON email_deliveries;
+CREATE TRIGGER update_email_deliveries_updated_at
+    BEFORE UPDATE ON email_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "email_deliveries_select" ON email_deliveries;
+
+CREATE POLICY "email_deliveries_select" ON email_deliveries
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+SELECT '✅ Email delivery log ready!' as status;
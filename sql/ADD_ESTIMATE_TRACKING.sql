@@ -0,0 +1,136 @@
+-- =====================================================
+-- ACTUAL HOURS FROM TIME ENTRIES
+-- =====================================================
+-- This script:
+-- 1. Adds actual_hours to tasks and subtask_id to task_time_entries, so
+--    time can be logged against a subtask and still count towards its task
+-- 2. Creates a trigger that keeps tasks.actual_hours equal to the task's
+--    tracked time (its own entries plus its subtasks'), whoever logs it.
+--    Running timers count once they stop; idle time counts once assigned.
+-- 3. Fills actual_hours in from the time already tracked
+--
+-- Needs ADD_TIMESHEETS.sql and ADD_GLOBAL_TIMER.sql (is_idle).
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'actual_hours'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN actual_hours NUMERIC(8, 2) NOT NULL DEFAULT 0;
+        RAISE NOTICE 'Added actual_hours column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_time_entries' AND column_name = 'subtask_id'
+    ) THEN
+        ALTER TABLE task_time_entries ADD COLUMN subtask_id UUID REFERENCES subtasks(id) ON DELETE SET NULL;
+        RAISE NOTICE 'Added subtask_id column to task_time_entries';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON task_time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_subtask_id ON task_time_entries(subtask_id);
+
+-- =====================================================
+-- 2. ROLL UP TRACKED TIME
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.refresh_task_actual_hours(p_task_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_hours NUMERIC(8, 2);
+BEGIN
+    SELECT ROUND(COALESCE(SUM(duration_minutes), 0) / 60.0, 2) INTO v_hours
+    FROM task_time_entries
+    WHERE task_id = p_task_id AND NOT is_idle;
+
+    -- Skipped when nothing changed, so starting a timer doesn't touch the task
+    UPDATE tasks
+    SET actual_hours = v_hours
+    WHERE id = p_task_id AND actual_hours IS DISTINCT FROM v_hours;
+END;
+$$;
+
+-- Internal: only the sync_task_actual_hours trigger calls it
+REVOKE EXECUTE ON FUNCTION public.refresh_task_actual_hours(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Time on a subtask is filed under the subtask's task
+CREATE OR REPLACE FUNCTION public.match_time_entry_subtask()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.subtask_id IS NOT NULL THEN
+        SELECT parent_task_id INTO NEW.task_id FROM subtasks WHERE id = NEW.subtask_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS match_time_entry_subtask ON task_time_entries;
+CREATE TRIGGER match_time_entry_subtask
+    BEFORE INSERT OR UPDATE OF subtask_id, task_id ON task_time_entries
+    FOR EACH ROW EXECUTE FUNCTION public.match_time_entry_subtask();
+
+CREATE OR REPLACE FUNCTION public.sync_task_actual_hours()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM public.refresh_task_actual_hours(OLD.task_id);
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.refresh_task_actual_hours(NEW.task_id);
+
+    -- Also the task an entry was moved away from
+    IF TG_OP = 'UPDATE' THEN
+        IF OLD.task_id IS DISTINCT FROM NEW.task_id THEN
+            PERFORM public.refresh_task_actual_hours(OLD.task_id);
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_task_actual_hours ON task_time_entries;
+CREATE TRIGGER sync_task_actual_hours
+    AFTER INSERT OR UPDATE OR DELETE ON task_time_entries
+    FOR EACH ROW EXECUTE FUNCTION public.sync_task_actual_hours();
+
+-- =====================================================
+-- 3. BACKFILL
+-- =====================================================
+
+UPDATE tasks t
+SET actual_hours = totals.hours
+FROM (
+    SELECT task_id, ROUND(COALESCE(SUM(duration_minutes), 0) / 60.0, 2) AS hours
+    FROM task_time_entries
+    WHERE NOT is_idle
+    GROUP BY task_id
+) totals
+WHERE totals.task_id = t.id
+AND t.actual_hours IS DISTINCT FROM totals.hours;
+
+SELECT '✅ Estimate tracking ready!' as status;
@@ -0,0 +1,188 @@
+-- =====================================================
+-- ONE RUNNING TIMER PER USER
+-- =====================================================
+-- This script:
+-- 1. Stops all but the newest running time entry of each user, left
+--    over from timers started in several tabs
+-- 2. Adds a unique index so a user can only ever have one running entry
+--    (end_time IS NULL), whichever tab or device starts it
+-- 3. Creates start_time_entry() - stops the user's running entry and
+--    starts a new one on a task in one transaction. The app passes the
+--    user's local date as the work date, which the database can't know.
+-- 4. Adds is_idle to time entries: time the user was away, kept out of
+--    the timesheet and the task's actual hours until they assign it
+-- 5. Creates split_idle_time_entry() - ends the running entry when the
+--    user went idle, files the idle stretch as an is_idle entry and
+--    starts the timer again, all in one transaction
+--
+-- Needs ADD_TIMESHEETS.sql (workspace_id and work_date on time entries).
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. STOP DUPLICATE RUNNING ENTRIES
+-- =====================================================
+
+UPDATE task_time_entries e
+SET end_time = NOW(),
+    duration_minutes = GREATEST(ROUND(EXTRACT(EPOCH FROM (NOW() - e.start_time)) / 60), 0),
+    updated_at = NOW()
+WHERE e.end_time IS NULL
+AND EXISTS (
+    SELECT 1 FROM task_time_entries newer
+    WHERE newer.user_id = e.user_id
+    AND newer.end_time IS NULL
+    AND (newer.start_time, newer.id) > (e.start_time, e.id)
+);
+
+-- =====================================================
+-- 2. ONE RUNNING ENTRY PER USER
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running
+    ON task_time_entries(user_id) WHERE end_time IS NULL;
+
+-- =====================================================
+-- 3. IDLE TIME FLAG
+-- =====================================================
+
+ALTER TABLE task_time_entries ADD COLUMN IF NOT EXISTS is_idle BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_idle
+    ON task_time_entries(workspace_id, user_id) WHERE is_idle;
+
+-- =====================================================
+-- 4. START A TIMER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.start_time_entry(
+    p_task_id UUID,
+    p_work_date DATE DEFAULT NULL,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_workspace_id UUID;
+    v_stopped task_time_entries;
+    v_entry task_time_entries;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT workspace_id INTO v_workspace_id FROM tasks WHERE id = p_task_id;
+
+    IF v_workspace_id IS NULL OR v_workspace_id NOT IN (SELECT public.get_user_workspace_ids(v_user_id)) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Task not found');
+    END IF;
+
+    UPDATE task_time_entries
+    SET end_time = NOW(),
+        duration_minutes = GREATEST(ROUND(EXTRACT(EPOCH FROM (NOW() - start_time)) / 60), 0),
+        updated_at = NOW()
+    WHERE user_id = v_user_id AND end_time IS NULL
+    RETURNING * INTO v_stopped;
+
+    INSERT INTO task_time_entries (task_id, workspace_id, user_id, start_time, work_date, description)
+    VALUES (p_task_id, v_workspace_id, v_user_id, NOW(), COALESCE(p_work_date, CURRENT_DATE), NULLIF(trim(p_description), ''))
+    RETURNING * INTO v_entry;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'entry', to_jsonb(v_entry),
+        'stopped', CASE WHEN v_stopped.id IS NULL THEN NULL ELSE to_jsonb(v_stopped) END
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_time_entry(UUID, DATE, TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. SPLIT OFF IDLE TIME
+-- =====================================================
+-- The idle stretch keeps the running entry's task so the user can assign
+-- it there or elsewhere from the timesheet; until then it counts nowhere.
+
+CREATE OR REPLACE FUNCTION public.split_idle_time_entry(
+    p_entry_id UUID,
+    p_idle_since TIMESTAMPTZ,
+    p_idle_work_date DATE DEFAULT NULL,
+    p_work_date DATE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_running task_time_entries;
+    v_idle_since TIMESTAMPTZ;
+    v_stopped task_time_entries;
+    v_idle task_time_entries;
+    v_entry task_time_entries;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT * INTO v_running
+    FROM task_time_entries
+    WHERE id = p_entry_id AND user_id = v_user_id AND end_time IS NULL
+    FOR UPDATE;
+
+    IF v_running.id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'The timer is no longer running');
+    END IF;
+
+    v_idle_since := LEAST(GREATEST(p_idle_since, v_running.start_time), NOW());
+
+    UPDATE task_time_entries
+    SET end_time = v_idle_since,
+        duration_minutes = GREATEST(ROUND(EXTRACT(EPOCH FROM (v_idle_since - start_time)) / 60), 0),
+        updated_at = NOW()
+    WHERE id = v_running.id
+    RETURNING * INTO v_stopped;
+
+    INSERT INTO task_time_entries (task_id, workspace_id, user_id, start_time, end_time, duration_minutes, work_date, description, is_idle)
+    VALUES (
+        v_running.task_id,
+        v_running.workspace_id,
+        v_user_id,
+        v_idle_since,
+        NOW(),
+        GREATEST(ROUND(EXTRACT(EPOCH FROM (NOW() - v_idle_since)) / 60), 0),
+        COALESCE(p_idle_work_date, v_idle_since::DATE),
+        'Idle time',
+        true
+    )
+    RETURNING * INTO v_idle;
+
+    INSERT INTO task_time_entries (task_id, workspace_id, user_id, start_time, work_date)
+    VALUES (v_running.task_id, v_running.workspace_id, v_user_id, NOW(), COALESCE(p_work_date, CURRENT_DATE))
+    RETURNING * INTO v_entry;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'entry', to_jsonb(v_entry),
+        'stopped', to_jsonb(v_stopped),
+        'idle', to_jsonb(v_idle)
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.split_idle_time_entry(UUID, TIMESTAMPTZ, DATE, DATE) TO authenticated;
+
+SELECT '✅ Global timer ready!' as status;
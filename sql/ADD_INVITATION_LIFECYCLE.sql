@@ -0,0 +1,310 @@
+-- =====================================================
+-- INVITATION LIFECYCLE & MULTI-USE INVITE LINKS
+-- =====================================================
+-- This script:
+-- 1. Adds is_workspace_admin() for owner/admin checks in policies
+-- 2. Lets admins revoke and resend invitations
+--    (new 'revoked' status, revoked_at column)
+-- 3. Adds regenerate_workspace_invite_code() so old links stop working
+-- 4. Creates workspace_invite_links - shareable codes with an
+--    optional maximum number of uses and expiry date
+-- 5. Adds redeem_workspace_invite_link(), which joins the caller and
+--    records the redemption in user_activities
+-- 6. Teaches get_workspace_by_invite_code() about invite links
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADMIN CHECK HELPER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.is_workspace_admin(p_workspace_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM workspaces
+        WHERE id = p_workspace_id AND owner_id = auth.uid()
+    ) OR EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = p_workspace_id
+        AND user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_workspace_admin(UUID) TO authenticated;
+
+-- =====================================================
+-- 2. REVOKE / RESEND INVITATIONS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'workspace_invitations' AND column_name = 'revoked_at'
+    ) THEN
+        ALTER TABLE workspace_invitations ADD COLUMN revoked_at TIMESTAMPTZ;
+        RAISE NOTICE 'Added revoked_at column to workspace_invitations';
+    END IF;
+END $$;
+
+ALTER TABLE workspace_invitations DROP CONSTRAINT IF EXISTS workspace_invitations_status_check;
+ALTER TABLE workspace_invitations ADD CONSTRAINT workspace_invitations_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'revoked'));
+
+DROP POLICY IF EXISTS "workspace_invitations_admin_select" ON workspace_invitations;
+DROP POLICY IF EXISTS "workspace_invitations_admin_update" ON workspace_invitations;
+
+CREATE POLICY "workspace_invitations_admin_select" ON workspace_invitations
+FOR SELECT TO authenticated
+USING (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "workspace_invitations_admin_update" ON workspace_invitations
+FOR UPDATE TO authenticated
+USING (public.is_workspace_admin(workspace_id));
+
+-- =====================================================
+-- 3. ROTATE THE WORKSPACE INVITE CODE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.regenerate_workspace_invite_code(p_workspace_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    IF NOT public.is_workspace_admin(p_workspace_id) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You do not have permission to change the invite code');
+    END IF;
+
+    v_code := substr(md5(random()::text || clock_timestamp()::text), 1, 26);
+
+    UPDATE workspaces
+    SET invite_code = v_code, updated_at = NOW()
+    WHERE id = p_workspace_id;
+
+    RETURN jsonb_build_object('success', true, 'invite_code', v_code);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.regenerate_workspace_invite_code(UUID) TO authenticated;
+
+-- =====================================================
+-- 4. MULTI-USE INVITE LINKS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_invite_links (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    code TEXT NOT NULL UNIQUE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'guest')),
+    max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+    use_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invite_links_workspace ON workspace_invite_links(workspace_id);
+
+ALTER TABLE workspace_invite_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workspace_invite_links_select" ON workspace_invite_links;
+DROP POLICY IF EXISTS "workspace_invite_links_insert" ON workspace_invite_links;
+DROP POLICY IF EXISTS "workspace_invite_links_update" ON workspace_invite_links;
+
+-- Redemption goes through redeem_workspace_invite_link(), so only
+-- admins need direct access
+CREATE POLICY "workspace_invite_links_select" ON workspace_invite_links
+FOR SELECT TO authenticated
+USING (public.is_workspace_admin(workspace_id));
+
+CREATE POLICY "workspace_invite_links_insert" ON workspace_invite_links
+FOR INSERT TO authenticated
+WITH CHECK (public.is_workspace_admin(workspace_id) AND created_by = auth.uid());
+
+CREATE POLICY "workspace_invite_links_update" ON workspace_invite_links
+FOR UPDATE TO authenticated
+USING (public.is_workspace_admin(workspace_id));
+
+-- =====================================================
+-- 5. REDEEM AN INVITE LINK
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.redeem_workspace_invite_link(p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_link RECORD;
+    v_workspace_name TEXT;
+    v_email TEXT;
+    v_name TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    -- Lock the row so concurrent redemptions cannot overshoot max_uses
+    SELECT * INTO v_link FROM workspace_invite_links WHERE code = p_code FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid invite code or workspace not found');
+    END IF;
+
+    IF v_link.revoked_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'This invite link has been revoked');
+    END IF;
+
+    IF v_link.expires_at IS NOT NULL AND v_link.expires_at <= NOW() THEN
+        RETURN jsonb_build_object('success', false, 'error', 'This invite link has expired');
+    END IF;
+
+    IF v_link.max_uses IS NOT NULL AND v_link.use_count >= v_link.max_uses THEN
+        RETURN jsonb_build_object('success', false, 'error', 'This invite link has reached its maximum number of uses');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = v_link.workspace_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You are already a member of this workspace');
+    END IF;
+
+    SELECT name INTO v_workspace_name FROM workspaces WHERE id = v_link.workspace_id;
+
+    SELECT email, COALESCE(raw_user_meta_data->>'full_name', split_part(email, '@', 1))
+    INTO v_email, v_name
+    FROM auth.users WHERE id = v_user_id;
+
+    INSERT INTO workspace_members (workspace_id, user_id, role, joined_at, display_name, email)
+    VALUES (v_link.workspace_id, v_user_id, v_link.role, NOW(), v_name, v_email);
+
+    UPDATE workspace_invite_links SET use_count = use_count + 1 WHERE id = v_link.id;
+
+    INSERT INTO user_activities (workspace_id, user_id, activity_type, activity_data)
+    VALUES (
+        v_link.workspace_id,
+        v_user_id,
+        'invite_link_redeemed',
+        jsonb_build_object(
+            'workspace_name', v_workspace_name,
+            'link_id', v_link.id,
+            'role', v_link.role,
+            'use_count', v_link.use_count + 1,
+            'max_uses', v_link.max_uses
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'workspace_id', v_link.workspace_id,
+        'workspace_name', v_workspace_name,
+        'role', v_link.role
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.redeem_workspace_invite_link(TEXT) TO authenticated;
+
+-- =====================================================
+-- 6. RESOLVE INVITE LINKS ON THE JOIN PAGE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_workspace_by_invite_code(p_invite_code TEXT)
+RETURNS TABLE (
+    workspace_id UUID,
+    workspace_name TEXT,
+    workspace_description TEXT,
+    member_count BIGINT,
+    inviter_name TEXT,
+    role TEXT,
+    invite_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Personal invitations
+    RETURN QUERY
+    SELECT
+        wi.workspace_id,
+        COALESCE(w.name, wi.workspace_name) as workspace_name,
+        w.description as workspace_description,
+        (SELECT COUNT(*)::bigint FROM public.workspace_members wm WHERE wm.workspace_id = wi.workspace_id) as member_count,
+        wi.invited_by_name as inviter_name,
+        wi.role,
+        wi.invite_code
+    FROM public.workspace_invitations wi
+    LEFT JOIN public.workspaces w ON w.id = wi.workspace_id
+    WHERE wi.invite_code = p_invite_code
+    AND wi.status = 'pending'
+    AND (wi.expires_at IS NULL OR wi.expires_at > NOW())
+    LIMIT 1;
+
+    -- Multi-use invite links that are still usable
+    IF NOT FOUND THEN
+        RETURN QUERY
+        SELECT
+            l.workspace_id,
+            w.name as workspace_name,
+            w.description as workspace_description,
+            (SELECT COUNT(*)::bigint FROM public.workspace_members wm WHERE wm.workspace_id = l.workspace_id) as member_count,
+            COALESCE((SELECT u.name FROM public.users u WHERE u.id = l.created_by), 'Workspace Admin') as inviter_name,
+            l.role,
+            l.code as invite_code
+        FROM public.workspace_invite_links l
+        JOIN public.workspaces w ON w.id = l.workspace_id
+        WHERE l.code = p_invite_code
+        AND l.revoked_at IS NULL
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (l.max_uses IS NULL OR l.use_count < l.max_uses)
+        LIMIT 1;
+    END IF;
+
+    -- The workspace's own invite code
+    IF NOT FOUND THEN
+        RETURN QUERY
+        SELECT
+            w.id as workspace_id,
+            w.name as workspace_name,
+            w.description as workspace_description,
+            (SELECT COUNT(*)::bigint FROM public.workspace_members wm WHERE wm.workspace_id = w.id) as member_count,
+            COALESCE((SELECT u.name FROM public.users u WHERE u.id = w.owner_id), 'Workspace Owner') as inviter_name,
+            'member'::text as role,
+            w.invite_code
+        FROM public.workspaces w
+        WHERE w.invite_code = p_invite_code
+        LIMIT 1;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workspace_by_invite_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_workspace_by_invite_code(TEXT) TO anon;
+
+SELECT '✅ Invitation lifecycle and invite links ready!' as status;
@@ -0,0 +1,128 @@
+-- =====================================================
+-- ACCEPT / DECLINE INVITATIONS IN-APP
+-- =====================================================
+-- This script adds:
+-- 1. expire_my_workspace_invitations() - marks the caller's pending
+--    invitations past expires_at as 'expired'
+-- 2. respond_to_workspace_invitation() - accepts or declines one
+--    invitation addressed to the caller's email
+--
+-- Both resolve the caller from auth.uid(), so a user can only answer
+-- invitations sent to their own email address.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. EXPIRE STALE INVITATIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.expire_my_workspace_invitations()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email TEXT;
+    v_expired INTEGER;
+BEGIN
+    SELECT email INTO v_email FROM auth.users WHERE id = auth.uid();
+
+    IF v_email IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE workspace_invitations
+    SET status = 'expired'
+    WHERE lower(invitee_email) = lower(v_email)
+    AND status = 'pending'
+    AND expires_at IS NOT NULL
+    AND expires_at <= NOW();
+
+    GET DIAGNOSTICS v_expired = ROW_COUNT;
+    RETURN v_expired;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.expire_my_workspace_invitations() TO authenticated;
+
+-- =====================================================
+-- 2. RESPOND TO AN INVITATION
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.respond_to_workspace_invitation(
+    p_invitation_id UUID,
+    p_accept BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_email TEXT;
+    v_invitation RECORD;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT email INTO v_email FROM auth.users WHERE id = v_user_id;
+
+    SELECT * INTO v_invitation
+    FROM workspace_invitations
+    WHERE id = p_invitation_id
+    AND lower(invitee_email) = lower(v_email);
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invitation not found');
+    END IF;
+
+    IF v_invitation.status <> 'pending' THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'status', v_invitation.status,
+            'error', 'This invitation has already been ' || v_invitation.status
+        );
+    END IF;
+
+    IF v_invitation.expires_at IS NOT NULL AND v_invitation.expires_at <= NOW() THEN
+        UPDATE workspace_invitations SET status = 'expired' WHERE id = p_invitation_id;
+        RETURN jsonb_build_object('success', false, 'status', 'expired', 'error', 'This invitation has expired');
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE workspace_invitations SET status = 'declined' WHERE id = p_invitation_id;
+        RETURN jsonb_build_object(
+            'success', true,
+            'status', 'declined',
+            'workspace_id', v_invitation.workspace_id
+        );
+    END IF;
+
+    INSERT INTO workspace_members (workspace_id, user_id, role, joined_at, email)
+    VALUES (v_invitation.workspace_id, v_user_id, v_invitation.role, NOW(), v_email)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+    UPDATE workspace_invitations
+    SET status = 'accepted',
+        accepted_at = NOW()
+    WHERE id = p_invitation_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'status', 'accepted',
+        'workspace_id', v_invitation.workspace_id,
+        'role', v_invitation.role
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_workspace_invitation(UUID, BOOLEAN) TO authenticated;
+
+SELECT '✅ In-app invitation responses ready!' as status;
@@ -0,0 +1,289 @@
+-- =====================================================
+-- JOIN-REQUEST APPROVAL
+-- =====================================================
+-- When workspaces.settings.requireApprovalForJoining is true, joining
+-- by invite code files a request instead of adding the member.
+-- This script:
+-- 1. Creates workspace_join_requests
+-- 2. Adds request_to_join_workspace() - files a pending request with
+--    the role the workspace settings give new joiners
+--    (defaultMemberRole; guest only while allowGuestAccess is on)
+-- 3. Adds review_workspace_join_request() - owners and admins
+--    approve (adding the member) or reject a request
+-- 4. Adds join_workspace_by_code() - joins right away, or files a
+--    request when the workspace requires approval
+-- 5. Limits direct inserts into workspace_members to the workspace
+--    owner, so joining by code has to go through the function above
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. JOIN REQUESTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_join_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    display_name TEXT,
+    email TEXT,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'guest')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ
+);
+
+-- Only one open request per user per workspace
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspace_join_requests_pending
+    ON workspace_join_requests(workspace_id, user_id)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_workspace_join_requests_workspace
+    ON workspace_join_requests(workspace_id, status);
+
+ALTER TABLE workspace_join_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workspace_join_requests_select" ON workspace_join_requests;
+
+-- Requesters see their own requests; members see their workspace's.
+-- Writes go through the functions below.
+CREATE POLICY "workspace_join_requests_select" ON workspace_join_requests
+FOR SELECT TO authenticated
+USING (
+    user_id = auth.uid()
+    OR workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+);
+
+-- =====================================================
+-- 2. FILE A JOIN REQUEST
+-- =====================================================
+
+-- Role for someone joining by invite code
+CREATE OR REPLACE FUNCTION public.get_join_role(p_settings JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_settings->>'defaultMemberRole' = 'guest'
+            AND (p_settings->>'allowGuestAccess')::boolean IS NOT TRUE THEN 'member'
+        WHEN p_settings->>'defaultMemberRole' IN ('admin', 'member', 'guest') THEN p_settings->>'defaultMemberRole'
+        ELSE 'member'
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_to_join_workspace(p_workspace_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_settings JSONB;
+    v_role TEXT;
+    v_email TEXT;
+    v_name TEXT;
+    v_request_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT COALESCE(settings, '{}'::jsonb) INTO v_settings FROM workspaces WHERE id = p_workspace_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Workspace not found');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = p_workspace_id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You are already a member of this workspace');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM workspace_join_requests
+        WHERE workspace_id = p_workspace_id AND user_id = v_user_id AND status = 'pending'
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Your request to join is already waiting for approval');
+    END IF;
+
+    v_role := public.get_join_role(v_settings);
+
+    SELECT email, COALESCE(raw_user_meta_data->>'full_name', split_part(email, '@', 1))
+    INTO v_email, v_name
+    FROM auth.users WHERE id = v_user_id;
+
+    INSERT INTO workspace_join_requests (workspace_id, user_id, display_name, email, role)
+    VALUES (p_workspace_id, v_user_id, v_name, v_email, v_role)
+    RETURNING id INTO v_request_id;
+
+    RETURN jsonb_build_object('success', true, 'request_id', v_request_id, 'role', v_role);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_to_join_workspace(UUID) TO authenticated;
+
+-- =====================================================
+-- 3. APPROVE OR REJECT A JOIN REQUEST
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.review_workspace_join_request(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_role TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_id UUID := auth.uid();
+    v_request RECORD;
+    v_owner_id UUID;
+    v_actor_role TEXT;
+    v_role TEXT;
+BEGIN
+    IF v_actor_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT * INTO v_request FROM workspace_join_requests WHERE id = p_request_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Join request not found');
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'This request has already been ' || v_request.status);
+    END IF;
+
+    SELECT owner_id INTO v_owner_id FROM workspaces WHERE id = v_request.workspace_id;
+
+    SELECT CASE WHEN v_actor_id = v_owner_id THEN 'owner' ELSE role END INTO v_actor_role
+    FROM workspace_members
+    WHERE workspace_id = v_request.workspace_id AND user_id = v_actor_id;
+
+    IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You do not have permission to review join requests');
+    END IF;
+
+    v_role := COALESCE(p_role, v_request.role);
+
+    IF v_role NOT IN ('admin', 'member', 'guest') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid role');
+    END IF;
+
+    IF p_approve THEN
+        INSERT INTO workspace_members (workspace_id, user_id, role, joined_at, display_name, email)
+        VALUES (v_request.workspace_id, v_request.user_id, v_role, NOW(), v_request.display_name, v_request.email)
+        ON CONFLICT (workspace_id, user_id) DO NOTHING;
+    END IF;
+
+    UPDATE workspace_join_requests
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        role = v_role,
+        reviewed_by = v_actor_id,
+        reviewed_at = NOW()
+    WHERE id = p_request_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'status', CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        'role', v_role
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_workspace_join_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- =====================================================
+-- 4. JOIN BY INVITE CODE
+-- =====================================================
+-- status is 'joined', or 'requested' when the workspace requires approval
+
+CREATE OR REPLACE FUNCTION public.join_workspace_by_code(p_invite_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_workspace RECORD;
+    v_result JSONB;
+    v_role TEXT;
+    v_email TEXT;
+    v_name TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT id, name, COALESCE(settings, '{}'::jsonb) AS settings INTO v_workspace
+    FROM workspaces WHERE invite_code = p_invite_code;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid invite code');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = v_workspace.id AND user_id = v_user_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You are already a member of this workspace');
+    END IF;
+
+    IF (v_workspace.settings->>'requireApprovalForJoining')::boolean IS TRUE THEN
+        v_result := public.request_to_join_workspace(v_workspace.id);
+        IF (v_result->>'success')::boolean THEN
+            v_result := v_result || jsonb_build_object('status', 'requested', 'workspace_id', v_workspace.id);
+        END IF;
+        RETURN v_result;
+    END IF;
+
+    v_role := public.get_join_role(v_workspace.settings);
+
+    SELECT email, COALESCE(raw_user_meta_data->>'full_name', split_part(email, '@', 1))
+    INTO v_email, v_name
+    FROM auth.users WHERE id = v_user_id;
+
+    INSERT INTO workspace_members (workspace_id, user_id, role, joined_at, display_name, email)
+    VALUES (v_workspace.id, v_user_id, v_role, NOW(), v_name, v_email);
+
+    RETURN jsonb_build_object('success', true, 'status', 'joined', 'workspace_id', v_workspace.id, 'role', v_role);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.join_workspace_by_code(TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. MEMBER INSERTS
+-- =====================================================
+-- Before this, anyone could insert themselves into any workspace and skip
+-- approval. The owner still adds themselves when creating a workspace and
+-- can add members directly; everyone else joins through the SECURITY
+-- DEFINER functions (join by code, invitations, invite links, approvals).
+
+DROP POLICY IF EXISTS "Users can insert their own membership" ON workspace_members;
+DROP POLICY IF EXISTS "workspace_members_insert_policy" ON workspace_members;
+
+CREATE POLICY "workspace_members_insert_policy" ON workspace_members
+FOR INSERT TO authenticated
+WITH CHECK (public.is_workspace_owner(workspace_id, auth.uid()));
+
+SELECT '✅ Join-request approval ready!' as status;
@@ -0,0 +1,120 @@
+-- =====================================================
+-- MEMBER ROLE MANAGEMENT
+-- =====================================================
+-- This script adds update_workspace_member_role(), which changes a
+-- member's role with the same guard rails the app applies:
+-- 1. Only owners and admins can change roles
+-- 2. Admins cannot change an owner's role or make someone an owner
+-- 3. A workspace always keeps at least one owner
+-- When the owner recorded on workspaces.owner_id is demoted,
+-- ownership moves to another remaining owner.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.update_workspace_member_role(
+    p_workspace_id UUID,
+    p_user_id UUID,
+    p_role TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_id UUID := auth.uid();
+    v_owner_id UUID;
+    v_actor_role TEXT;
+    v_target_role TEXT;
+    v_owner_count INTEGER;
+    v_next_owner UUID;
+BEGIN
+    IF v_actor_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    IF p_role NOT IN ('owner', 'admin', 'member', 'guest') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid role');
+    END IF;
+
+    -- Locked so concurrent role changes in the workspace take turns
+    SELECT owner_id INTO v_owner_id FROM workspaces WHERE id = p_workspace_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Workspace not found');
+    END IF;
+
+    -- The workspace owner column wins over a stale member row
+    SELECT CASE WHEN v_actor_id = v_owner_id THEN 'owner' ELSE role END INTO v_actor_role
+    FROM workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = v_actor_id;
+
+    SELECT CASE WHEN p_user_id = v_owner_id THEN 'owner' ELSE role END INTO v_target_role
+    FROM workspace_members
+    WHERE workspace_id = p_workspace_id AND user_id = p_user_id;
+
+    IF v_actor_role IS NULL OR v_actor_role NOT IN ('owner', 'admin') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You do not have permission to change roles');
+    END IF;
+
+    IF v_target_role IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Member not found');
+    END IF;
+
+    IF v_actor_role = 'admin' AND (v_target_role = 'owner' OR p_role = 'owner') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only owners can change owner roles');
+    END IF;
+
+    IF v_target_role = p_role THEN
+        RETURN jsonb_build_object('success', true, 'role', p_role);
+    END IF;
+
+    IF v_target_role = 'owner' THEN
+        -- Lock the owner rows first, so two owners demoting each other at
+        -- the same time can't both see the other as the remaining owner
+        PERFORM 1
+        FROM workspace_members
+        WHERE workspace_id = p_workspace_id
+        AND (role = 'owner' OR user_id = v_owner_id)
+        FOR UPDATE;
+
+        SELECT COUNT(*) INTO v_owner_count
+        FROM workspace_members
+        WHERE workspace_id = p_workspace_id
+        AND (role = 'owner' OR user_id = v_owner_id);
+
+        IF v_owner_count <= 1 THEN
+            RETURN jsonb_build_object('success', false, 'error', 'A workspace must always have at least one owner');
+        END IF;
+    END IF;
+
+    UPDATE workspace_members
+    SET role = p_role
+    WHERE workspace_id = p_workspace_id AND user_id = p_user_id;
+
+    -- Hand workspaces.owner_id to another owner when its holder is demoted
+    IF p_user_id = v_owner_id AND p_role <> 'owner' THEN
+        SELECT user_id INTO v_next_owner
+        FROM workspace_members
+        WHERE workspace_id = p_workspace_id
+        AND role = 'owner'
+        AND user_id <> p_user_id
+        ORDER BY joined_at ASC
+        LIMIT 1;
+
+        UPDATE workspaces
+        SET owner_id = v_next_owner, updated_at = NOW()
+        WHERE id = p_workspace_id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'role', p_role);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_workspace_member_role(UUID, UUID, TEXT) TO authenticated;
+
+SELECT '✅ Member role management ready!' as status;
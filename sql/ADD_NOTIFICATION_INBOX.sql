@@ -0,0 +1,63 @@
+-- =====================================================
+-- NOTIFICATION INBOX: ARCHIVE AND SNOOZE
+-- =====================================================
+-- This script:
+-- 1. Adds archived_at and snoozed_until to notifications. Archived
+--    notifications leave the inbox but are kept; snoozed ones are
+--    hidden until snoozed_until and then come back unread.
+-- 2. Indexes the inbox query (a user's unarchived notifications)
+-- 3. Adds notifications to the realtime publication so reads, archives
+--    and snoozes sync between tabs and devices
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD ARCHIVE AND SNOOZE COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'notifications' AND column_name = 'archived_at'
+    ) THEN
+        ALTER TABLE notifications ADD COLUMN archived_at TIMESTAMPTZ;
+        RAISE NOTICE 'Added archived_at column to notifications';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'notifications' AND column_name = 'snoozed_until'
+    ) THEN
+        ALTER TABLE notifications ADD COLUMN snoozed_until TIMESTAMPTZ;
+        RAISE NOTICE 'Added snoozed_until column to notifications';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_inbox
+    ON notifications(user_id, created_at DESC)
+    WHERE archived_at IS NULL;
+
+-- =====================================================
+-- 3. REALTIME
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END;
+$$;
+
+SELECT '✅ Notification inbox ready!' as status;
@@ -0,0 +1,118 @@
+-- =====================================================
+-- NOTIFICATION PREFERENCES
+-- =====================================================
+-- This script:
+-- 1. Creates user_notification_preferences - one row per user and
+--    workspace, holding which channels (in_app, email, push) are on
+--    for each event type (see src/utils/notificationPreferences.ts)
+-- 2. Adds get_notification_recipients(), which senders call to learn
+--    how each recipient wants to hear about an event
+--
+-- Events or channels missing from a row use the app's defaults. The
+-- global Email / Push switches in user_settings still turn a channel
+-- off everywhere.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. USER NOTIFICATION PREFERENCES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.user_notification_preferences (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    preferences JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, workspace_id)
+);
+
+DROP TRIGGER IF EXISTS update_user_notification_preferences_updated_at ON user_notification_preferences;
+CREATE TRIGGER update_user_notification_preferences_updated_at
+    BEFORE UPDATE ON user_notification_preferences
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE user_notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notification_preferences_select" ON user_notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_insert" ON user_notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_update" ON user_notification_preferences;
+DROP POLICY IF EXISTS "notification_preferences_delete" ON user_notification_preferences;
+
+CREATE POLICY "notification_preferences_select" ON user_notification_preferences
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "notification_preferences_insert" ON user_notification_preferences
+FOR INSERT TO authenticated
+WITH CHECK (
+    user_id = auth.uid()
+    AND workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+);
+
+CREATE POLICY "notification_preferences_update" ON user_notification_preferences
+FOR UPDATE TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "notification_preferences_delete" ON user_notification_preferences
+FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+-- =====================================================
+-- 2. LOOK UP RECIPIENTS
+-- =====================================================
+-- Returns, for each requested user who is a member of the workspace,
+-- their email, their stored preferences for the workspace and the
+-- global email/push switches. Callers must be members themselves.
+
+CREATE OR REPLACE FUNCTION public.get_notification_recipients(
+    p_workspace_id UUID,
+    p_user_ids UUID[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_recipients JSONB;
+BEGIN
+    -- Scheduled edge functions (send-reminders) call this with the service role
+    IF auth.role() IS DISTINCT FROM 'service_role' THEN
+        IF auth.uid() IS NULL THEN
+            RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+        END IF;
+
+        IF p_workspace_id NOT IN (SELECT public.get_user_workspace_ids(auth.uid())) THEN
+            RETURN jsonb_build_object('success', false, 'error', 'Workspace not found');
+        END IF;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'user_id', wm.user_id,
+        'email', u.email,
+        'preferences', COALESCE(p.preferences, '{}'::jsonb),
+        'email_enabled', COALESCE(s.email_notifications, true),
+        'push_enabled', COALESCE(s.push_notifications, true)
+    )), '[]'::jsonb)
+    INTO v_recipients
+    FROM workspace_members wm
+    JOIN auth.users u ON u.id = wm.user_id
+    LEFT JOIN user_notification_preferences p
+        ON p.user_id = wm.user_id AND p.workspace_id = wm.workspace_id
+    LEFT JOIN user_settings s ON s.user_id = wm.user_id
+    WHERE wm.workspace_id = p_workspace_id
+    AND wm.user_id = ANY(p_user_ids);
+
+    RETURN jsonb_build_object('success', true, 'recipients', v_recipients);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_notification_recipients(UUID, UUID[]) TO authenticated, service_role;
+
+SELECT '✅ Notification preferences ready!' as status;
@@ -0,0 +1,144 @@
+-- =====================================================
+-- RECURRING TASKS
+-- =====================================================
+-- This script:
+-- 1. Adds tasks.recurrence (RRULE-style rule as JSON, see
+--    src/utils/recurrence.ts) and the series columns linking
+--    every occurrence back to the first task
+-- 2. Adds create_next_task_occurrence(), called when an occurrence
+--    is completed. It copies the task with a new due date and
+--    copies its subtasks with their progress reset
+--
+-- The app works out the next date; the unique index makes sure an
+-- occurrence is only ever created once, even if the task is
+-- reopened and completed again.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD RECURRENCE COLUMNS TO TASKS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'recurrence'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN recurrence JSONB;
+        RAISE NOTICE 'Added recurrence column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'recurrence_series_id'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN recurrence_series_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+        RAISE NOTICE 'Added recurrence_series_id column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'recurrence_index'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN recurrence_index INTEGER NOT NULL DEFAULT 1;
+        RAISE NOTICE 'Added recurrence_index column to tasks';
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_recurrence_occurrence
+    ON tasks(recurrence_series_id, recurrence_index)
+    WHERE recurrence_series_id IS NOT NULL;
+
+-- =====================================================
+-- 2. CREATE THE NEXT OCCURRENCE
+-- =====================================================
+-- Returns the new task, or the existing one if this occurrence was
+-- already created.
+
+CREATE OR REPLACE FUNCTION public.create_next_task_occurrence(
+    p_task_id UUID,
+    p_due_date DATE,
+    p_recurrence_index INTEGER,
+    p_workflow_status TEXT DEFAULT NULL,
+    p_sort_order DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_task tasks%ROWTYPE;
+    v_next tasks%ROWTYPE;
+    v_series_id UUID;
+    v_start_date TIMESTAMPTZ;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+    IF NOT FOUND OR v_task.workspace_id NOT IN (SELECT public.get_user_workspace_ids(v_user_id)) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Task not found');
+    END IF;
+
+    IF v_task.recurrence IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Task does not repeat');
+    END IF;
+
+    v_series_id := COALESCE(v_task.recurrence_series_id, v_task.id);
+
+    -- The first occurrence becomes the head of its own series
+    IF v_task.recurrence_series_id IS NULL THEN
+        UPDATE tasks SET recurrence_series_id = v_series_id WHERE id = v_task.id;
+    END IF;
+
+    SELECT * INTO v_next
+    FROM tasks
+    WHERE recurrence_series_id = v_series_id
+    AND recurrence_index = p_recurrence_index;
+
+    IF FOUND THEN
+        RETURN jsonb_build_object('success', true, 'created', false, 'task', to_jsonb(v_next));
+    END IF;
+
+    -- Keep the gap between start and due date
+    IF v_task.start_date IS NOT NULL AND v_task.due_date IS NOT NULL THEN
+        v_start_date := p_due_date::timestamptz - (v_task.due_date - v_task.start_date);
+    END IF;
+
+    INSERT INTO tasks (
+        workspace_id, page_id, title, description, status, workflow_status, priority,
+        assigned_to, created_by, due_date, sort_order, tags, link, attached_image,
+        estimated_hours, start_date, custom_fields,
+        recurrence, recurrence_series_id, recurrence_index
+    )
+    VALUES (
+        v_task.workspace_id, v_task.page_id, v_task.title, v_task.description, 'pending',
+        p_workflow_status, v_task.priority, v_task.assigned_to, v_user_id, p_due_date::timestamptz,
+        p_sort_order, v_task.tags, v_task.link, v_task.attached_image,
+        v_task.estimated_hours, v_start_date, v_task.custom_fields,
+        v_task.recurrence, v_series_id, p_recurrence_index
+    )
+    RETURNING * INTO v_next;
+
+    -- Same checklist, nothing ticked off
+    INSERT INTO subtasks (parent_task_id, title, description, assigned_to, created_by, order_index)
+    SELECT v_next.id, title, description, assigned_to, v_user_id, order_index
+    FROM subtasks
+    WHERE parent_task_id = v_task.id;
+
+    RETURN jsonb_build_object('success', true, 'created', true, 'task', to_jsonb(v_next));
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_next_task_occurrence(UUID, DATE, INTEGER, TEXT, DOUBLE PRECISION) TO authenticated;
+
+SELECT '✅ Recurring tasks ready!' as status;
@@ -0,0 +1,191 @@
+-- =====================================================
+-- RICH COMMENTS: REACTIONS, REVISIONS AND TASK NUMBERS
+-- =====================================================
+-- This script:
+-- 1. Adds tasks.task_number - a per-workspace sequence so comments can
+--    reference a task as #TASK-123
+-- 2. Creates task_comment_reactions - one row per comment, user and
+--    emoji, added to the realtime publication
+-- 3. Creates task_comment_revisions - the previous text of a comment,
+--    saved by a trigger every time its content changes
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. TASK NUMBERS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'task_number'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN task_number INTEGER;
+        RAISE NOTICE 'Added task_number column to tasks';
+    END IF;
+END $$;
+
+-- Number existing tasks in the order they were created
+WITH numbered AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY workspace_id ORDER BY created_at, id) AS task_number
+    FROM tasks
+    WHERE task_number IS NULL
+)
+UPDATE tasks t
+SET task_number = numbered.task_number + COALESCE((
+    SELECT MAX(task_number) FROM tasks existing
+    WHERE existing.workspace_id = t.workspace_id AND existing.task_number IS NOT NULL
+), 0)
+FROM numbered
+WHERE t.id = numbered.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_workspace_task_number ON tasks(workspace_id, task_number);
+
+CREATE OR REPLACE FUNCTION public.assign_task_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.task_number IS NULL THEN
+        -- Serialize inserts per workspace so two tasks never get the same number
+        PERFORM pg_advisory_xact_lock(hashtext('task_number:' || NEW.workspace_id::text));
+
+        SELECT COALESCE(MAX(task_number), 0) + 1
+        INTO NEW.task_number
+        FROM tasks
+        WHERE workspace_id = NEW.workspace_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_task_number_trigger ON tasks;
+CREATE TRIGGER assign_task_number_trigger
+    BEFORE INSERT ON tasks
+    FOR EACH ROW EXECUTE FUNCTION public.assign_task_number();
+
+-- =====================================================
+-- 2. COMMENT REACTIONS TABLE
+-- =====================================================
+-- task_id is copied from the comment so the app can subscribe to one
+-- task's reactions.
+
+CREATE TABLE IF NOT EXISTS public.task_comment_reactions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    comment_id UUID NOT NULL REFERENCES task_comments(id) ON DELETE CASCADE,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    emoji TEXT NOT NULL CHECK (length(emoji) BETWEEN 1 AND 16),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(comment_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comment_reactions_task ON task_comment_reactions(task_id);
+
+ALTER TABLE task_comment_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "comment_reactions_select" ON task_comment_reactions;
+DROP POLICY IF EXISTS "comment_reactions_insert" ON task_comment_reactions;
+DROP POLICY IF EXISTS "comment_reactions_delete" ON task_comment_reactions;
+
+CREATE POLICY "comment_reactions_select" ON task_comment_reactions
+FOR SELECT TO authenticated
+USING (
+    task_id IN (
+        SELECT id FROM tasks
+        WHERE workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    )
+);
+
+CREATE POLICY "comment_reactions_insert" ON task_comment_reactions
+FOR INSERT TO authenticated
+WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM task_comments c
+        JOIN tasks t ON t.id = c.task_id
+        WHERE c.id = comment_id
+        AND c.task_id = task_comment_reactions.task_id
+        AND t.workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    )
+);
+
+CREATE POLICY "comment_reactions_delete" ON task_comment_reactions
+FOR DELETE TO authenticated
+USING (user_id = auth.uid());
+
+-- REPLICA IDENTITY FULL so DELETE payloads still carry task_id
+ALTER TABLE task_comment_reactions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'task_comment_reactions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE task_comment_reactions;
+    END IF;
+END;
+$$;
+
+-- =====================================================
+-- 3. COMMENT REVISIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.task_comment_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    comment_id UUID NOT NULL REFERENCES task_comments(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    edited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comment_revisions_comment ON task_comment_revisions(comment_id, created_at);
+
+ALTER TABLE task_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only written by the trigger below
+DROP POLICY IF EXISTS "comment_revisions_select" ON task_comment_revisions;
+
+CREATE POLICY "comment_revisions_select" ON task_comment_revisions
+FOR SELECT TO authenticated
+USING (
+    comment_id IN (
+        SELECT c.id FROM task_comments c
+        JOIN tasks t ON t.id = c.task_id
+        WHERE t.workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.save_comment_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        INSERT INTO task_comment_revisions (comment_id, content, edited_by)
+        VALUES (OLD.id, OLD.content, auth.uid());
+
+        NEW.is_edited := true;
+        NEW.updated_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS save_comment_revision_trigger ON task_comments;
+CREATE TRIGGER save_comment_revision_trigger
+    BEFORE UPDATE ON task_comments
+    FOR EACH ROW EXECUTE FUNCTION public.save_comment_revision();
+
+SELECT '✅ Comment reactions, revisions and task numbers ready!' as status;
@@ -0,0 +1,293 @@
+-- =====================================================
+-- PERSIST ALL TASK FIELDS & WORKSPACE TAG CATALOG
+-- =====================================================
+-- This script:
+-- 1. Adds the task columns the frontend already edits
+--    (tags, link, attached image, estimate, start date, progress,
+--    custom fields) so they survive a reload
+-- 2. Creates workspace_tags - one row per tag name per workspace
+--    with a color and a usage count kept in sync by trigger
+-- 3. Adds rename/merge functions that rewrite tasks.tags too
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD MISSING COLUMNS TO TASKS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'tags'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+        RAISE NOTICE 'Added tags column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'link'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN link TEXT;
+        RAISE NOTICE 'Added link column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'attached_image'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN attached_image TEXT;
+        RAISE NOTICE 'Added attached_image column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'estimated_hours'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN estimated_hours NUMERIC(8, 2);
+        RAISE NOTICE 'Added estimated_hours column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'start_date'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN start_date TIMESTAMPTZ;
+        RAISE NOTICE 'Added start_date column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'progress'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN progress INTEGER CHECK (progress BETWEEN 0 AND 100);
+        RAISE NOTICE 'Added progress column to tasks';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'custom_fields'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}';
+        RAISE NOTICE 'Added custom_fields column to tasks';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_tags ON tasks USING GIN (tags);
+
+SELECT '✅ Tasks table columns updated!' as status;
+
+-- =====================================================
+-- 2. WORKSPACE TAG CATALOG
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.workspace_tags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    color TEXT NOT NULL DEFAULT '#6366f1',
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (workspace_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_tags_workspace ON workspace_tags(workspace_id);
+
+ALTER TABLE workspace_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workspace_tags_select" ON workspace_tags;
+DROP POLICY IF EXISTS "workspace_tags_insert" ON workspace_tags;
+DROP POLICY IF EXISTS "workspace_tags_update" ON workspace_tags;
+DROP POLICY IF EXISTS "workspace_tags_delete" ON workspace_tags;
+
+CREATE POLICY "workspace_tags_select" ON workspace_tags
+FOR SELECT TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+CREATE POLICY "workspace_tags_insert" ON workspace_tags
+FOR INSERT TO authenticated
+WITH CHECK (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+CREATE POLICY "workspace_tags_update" ON workspace_tags
+FOR UPDATE TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+CREATE POLICY "workspace_tags_delete" ON workspace_tags
+FOR DELETE TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON workspace_tags TO authenticated;
+
+SELECT '✅ Workspace tag catalog created!' as status;
+
+-- =====================================================
+-- 3. KEEP CATALOG IN SYNC WITH TASKS.TAGS
+-- =====================================================
+-- Recounts only the tags touched by the changed row, and adds
+-- catalog entries for tags typed on a task for the first time.
+
+CREATE OR REPLACE FUNCTION public.refresh_workspace_tag_counts(p_workspace_id UUID, p_names TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_names IS NULL OR array_length(p_names, 1) IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO workspace_tags (workspace_id, name)
+    SELECT p_workspace_id, tag_name
+    FROM unnest(p_names) AS tag_name
+    ON CONFLICT (workspace_id, name) DO NOTHING;
+
+    UPDATE workspace_tags wt
+    SET usage_count = (
+            SELECT COUNT(*) FROM tasks t
+            WHERE t.workspace_id = p_workspace_id
+            AND wt.name = ANY(t.tags)
+        ),
+        updated_at = NOW()
+    WHERE wt.workspace_id = p_workspace_id
+    AND wt.name = ANY(p_names);
+END;
+$$;
+
+-- Internal: only the trigger below and the rename/merge functions call it
+REVOKE EXECUTE ON FUNCTION public.refresh_workspace_tag_counts(UUID, TEXT[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_task_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_workspace_tag_counts(OLD.workspace_id, OLD.tags);
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        IF OLD.tags IS NOT DISTINCT FROM NEW.tags THEN
+            RETURN NEW;
+        END IF;
+        PERFORM refresh_workspace_tag_counts(
+            NEW.workspace_id,
+            ARRAY(SELECT DISTINCT unnest(COALESCE(OLD.tags, '{}') || COALESCE(NEW.tags, '{}')))
+        );
+        RETURN NEW;
+    END IF;
+
+    PERFORM refresh_workspace_tag_counts(NEW.workspace_id, NEW.tags);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_task_tags ON tasks;
+CREATE TRIGGER trg_sync_task_tags
+    AFTER INSERT OR UPDATE OF tags OR DELETE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION public.sync_task_tags();
+
+-- =====================================================
+-- 4. RENAME & MERGE TAGS
+-- =====================================================
+
+-- Rename a tag everywhere; renaming onto an existing tag merges them
+CREATE OR REPLACE FUNCTION public.rename_workspace_tag(
+    p_workspace_id UUID,
+    p_old_name TEXT,
+    p_new_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN merge_workspace_tags(p_workspace_id, ARRAY[p_old_name], p_new_name);
+END;
+$$;
+
+-- Replace every source tag with the target tag on all tasks
+CREATE OR REPLACE FUNCTION public.merge_workspace_tags(
+    p_workspace_id UUID,
+    p_source_names TEXT[],
+    p_target_name TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_target TEXT := trim(p_target_name);
+    v_sources TEXT[];
+    v_color TEXT;
+    v_updated INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM workspace_members
+        WHERE workspace_id = p_workspace_id AND user_id = auth.uid()
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Not a member of this workspace');
+    END IF;
+
+    IF v_target IS NULL OR length(v_target) = 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Tag name is required');
+    END IF;
+
+    v_sources := ARRAY(
+        SELECT DISTINCT s FROM unnest(p_source_names) AS s WHERE s <> v_target
+    );
+
+    IF array_length(v_sources, 1) IS NULL THEN
+        RETURN jsonb_build_object('success', true, 'tasks_updated', 0);
+    END IF;
+
+    -- Keep the color of the first source when the target is new
+    SELECT color INTO v_color FROM workspace_tags
+    WHERE workspace_id = p_workspace_id AND name = v_sources[1];
+
+    INSERT INTO workspace_tags (workspace_id, name, color)
+    VALUES (p_workspace_id, v_target, COALESCE(v_color, '#6366f1'))
+    ON CONFLICT (workspace_id, name) DO NOTHING;
+
+    UPDATE tasks
+    SET tags = ARRAY(
+            SELECT DISTINCT CASE WHEN tag = ANY(v_sources) THEN v_target ELSE tag END
+            FROM unnest(tags) AS tag
+        ),
+        updated_at = NOW()
+    WHERE workspace_id = p_workspace_id
+    AND tags && v_sources;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    DELETE FROM workspace_tags
+    WHERE workspace_id = p_workspace_id AND name = ANY(v_sources);
+
+    PERFORM refresh_workspace_tag_counts(p_workspace_id, ARRAY[v_target]);
+
+    RETURN jsonb_build_object('success', true, 'tasks_updated', v_updated);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rename_workspace_tag(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_workspace_tags(UUID, TEXT[], TEXT) TO authenticated;
+
+-- =====================================================
+-- 5. BACKFILL CATALOG FROM EXISTING TASKS
+-- =====================================================
+
+INSERT INTO workspace_tags (workspace_id, name, usage_count)
+SELECT workspace_id, tag_name, COUNT(*)
+FROM tasks, unnest(tags) AS tag_name
+GROUP BY workspace_id, tag_name
+ON CONFLICT (workspace_id, name) DO UPDATE SET usage_count = EXCLUDED.usage_count;
+
+SELECT '🎉 TASK FIELDS & TAG CATALOG READY!' as result;
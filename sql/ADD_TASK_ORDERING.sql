@@ -0,0 +1,54 @@
+-- =====================================================
+-- ADD PERSISTENT TASK ORDERING
+-- =====================================================
+-- Tasks are ordered by a fractional rank (sort_order).
+-- Reordering a task writes only the moved row: the client picks a
+-- rank halfway between the new neighbours in its page/status column.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD SORT_ORDER COLUMN TO TASKS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'sort_order'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN sort_order DOUBLE PRECISION;
+        RAISE NOTICE 'Added sort_order column to tasks';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. BACKFILL EXISTING TASKS
+-- =====================================================
+-- Existing rows keep their creation order within each
+-- page/status column, spaced 1024 apart to leave room for moves.
+
+WITH ranked AS (
+    SELECT
+        id,
+        ROW_NUMBER() OVER (
+            PARTITION BY workspace_id, page_id, status
+            ORDER BY created_at ASC
+        ) * 1024 AS new_order
+    FROM tasks
+    WHERE sort_order IS NULL
+)
+UPDATE tasks
+SET sort_order = ranked.new_order
+FROM ranked
+WHERE tasks.id = ranked.id;
+
+-- =====================================================
+-- 3. INDEX FOR ORDERED COLUMN READS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_tasks_column_order
+    ON tasks(workspace_id, page_id, status, sort_order);
+
+SELECT '✅ Task ordering enabled!' as status;
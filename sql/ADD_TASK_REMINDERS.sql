@@ -0,0 +1,223 @@
+-- =====================================================
+-- DUE-DATE REMINDERS
+-- =====================================================
+-- This script:
+-- 1. Adds the reminder preferences to user_settings: how long before
+--    the due date to remind, optional quiet hours, and the timezone
+--    they are read in (the app keeps it in step with the browser)
+-- 2. Adds the 'task_reminder' notification type
+-- 3. Creates task_reminders - one row per task, user, threshold
+--    ('upcoming' or 'overdue') and due date that was reminded
+-- 4. Adds claim_task_reminder() and mark_task_reminder_sent() for the
+--    send-reminders edge function
+-- 5. Schedules send-reminders every 5 minutes with pg_cron
+--
+-- Reminders go out from supabase/functions/send-reminders, so they
+-- arrive whether or not the app is open. Claiming a reminder before
+-- sending means overlapping runs only send it once; a claim that is
+-- never marked sent (the email failed, or the run died) can be taken
+-- again after 15 minutes, up to 5 attempts. Moving the due date allows
+-- a fresh reminder for the new date.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD REMINDER PREFERENCES TO USER_SETTINGS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'reminder_lead_hours'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN reminder_lead_hours INTEGER NOT NULL DEFAULT 24;
+        RAISE NOTICE 'Added reminder_lead_hours column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_enabled'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false;
+        RAISE NOTICE 'Added quiet_hours_enabled column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_start'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN quiet_hours_start TIME NOT NULL DEFAULT '22:00';
+        RAISE NOTICE 'Added quiet_hours_start column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'quiet_hours_end'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN quiet_hours_end TIME NOT NULL DEFAULT '08:00';
+        RAISE NOTICE 'Added quiet_hours_end column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'timezone'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC';
+        RAISE NOTICE 'Added timezone column to user_settings';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. TASK REMINDER NOTIFICATION TYPE
+-- =====================================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'task_reminder';
+
+-- =====================================================
+-- 3. TASK REMINDERS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.task_reminders (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    threshold TEXT NOT NULL CHECK (threshold IN ('upcoming', 'overdue')),
+    due_date TIMESTAMPTZ NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ, -- NULL until the reminder went out
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(task_id, user_id, threshold, due_date)
+);
+
+-- Tables from before reminders were sent by the edge function only
+-- recorded reminders that had gone out
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_reminders' AND column_name = 'sent_at'
+    ) THEN
+        ALTER TABLE task_reminders ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE task_reminders ADD COLUMN claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+        ALTER TABLE task_reminders ADD COLUMN sent_at TIMESTAMPTZ;
+        UPDATE task_reminders SET claimed_at = created_at, sent_at = created_at;
+        RAISE NOTICE 'Added attempts, claimed_at and sent_at columns to task_reminders';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_task_reminders_user_id ON task_reminders(user_id);
+
+ALTER TABLE task_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "task_reminders_select" ON task_reminders;
+
+-- Rows are only written by the send-reminders edge function
+CREATE POLICY "task_reminders_select" ON task_reminders
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- =====================================================
+-- 4. CLAIM A REMINDER AND MARK IT SENT
+-- =====================================================
+-- claim_task_reminder() returns claimed = true when the caller should
+-- send the reminder: the first call per task, user, threshold and due
+-- date, or a retry of a claim that was not marked sent within 15
+-- minutes. Only the service role (the edge function) may call these.
+
+-- The earlier version claimed for auth.uid() from the browser
+DROP FUNCTION IF EXISTS public.claim_task_reminder(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.claim_task_reminder(
+    p_task_id UUID,
+    p_user_id UUID,
+    p_threshold TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_task tasks%ROWTYPE;
+    v_id UUID;
+BEGIN
+    SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+    -- Reminders go to the assignee, or the creator of an unassigned task
+    IF NOT FOUND OR v_task.due_date IS NULL
+       OR COALESCE(v_task.assigned_to, v_task.created_by) IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Task not found');
+    END IF;
+
+    INSERT INTO task_reminders (task_id, user_id, threshold, due_date)
+    VALUES (p_task_id, p_user_id, p_threshold, v_task.due_date)
+    ON CONFLICT (task_id, user_id, threshold, due_date) DO UPDATE
+    SET attempts = task_reminders.attempts + 1,
+        claimed_at = NOW()
+    WHERE task_reminders.sent_at IS NULL
+    AND task_reminders.attempts < 5
+    AND task_reminders.claimed_at < NOW() - INTERVAL '15 minutes'
+    RETURNING id INTO v_id;
+
+    RETURN jsonb_build_object('success', true, 'claimed', v_id IS NOT NULL, 'reminder_id', v_id);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_task_reminder_sent(p_reminder_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE task_reminders SET sent_at = NOW() WHERE id = p_reminder_id;
+
+    RETURN jsonb_build_object('success', FOUND);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_task_reminder(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_task_reminder_sent(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_task_reminder(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_task_reminder_sent(UUID) TO service_role;
+
+-- =====================================================
+-- 5. SCHEDULE THE SEND-REMINDERS FUNCTION
+-- =====================================================
+-- Deploy the function first:
+--   supabase functions deploy send-reminders --no-verify-jwt
+-- and store the project URL and service role key in Vault (once):
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+-- Scheduling again under the same name replaces the job.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+    'send-task-reminders',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/send-reminders',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb,
+        timeout_milliseconds := 60000
+    );
+    $$
+);
+
+SELECT '✅ Due-date reminders ready!' as status;
@@ -0,0 +1,172 @@
+-- =====================================================
+-- PERSISTED TASK TEMPLATES
+-- =====================================================
+-- This script:
+-- 1. Creates task_templates - custom templates per workspace.
+--    Private templates (is_public = false) are only visible to
+--    their creator; public ones to every workspace member.
+-- 2. Adds create_task_from_template(), which inserts the task and
+--    its subtasks rows in one transaction and bumps usage_count
+--
+-- Variables ({{client}}) and relative due dates (+3d) are filled in
+-- by the app before calling the function.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. TASK TEMPLATES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.task_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    description TEXT NOT NULL DEFAULT '',
+    category TEXT NOT NULL DEFAULT 'Work',
+    priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+    estimated_hours NUMERIC(8, 2),
+    due_offset TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    subtasks JSONB NOT NULL DEFAULT '[]',
+    custom_fields JSONB NOT NULL DEFAULT '{}',
+    is_public BOOLEAN NOT NULL DEFAULT false,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_workspace ON task_templates(workspace_id);
+
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "task_templates_select" ON task_templates;
+DROP POLICY IF EXISTS "task_templates_insert" ON task_templates;
+DROP POLICY IF EXISTS "task_templates_update" ON task_templates;
+DROP POLICY IF EXISTS "task_templates_delete" ON task_templates;
+
+CREATE POLICY "task_templates_select" ON task_templates
+FOR SELECT TO authenticated
+USING (
+    workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    AND (is_public OR created_by = auth.uid())
+);
+
+CREATE POLICY "task_templates_insert" ON task_templates
+FOR INSERT TO authenticated
+WITH CHECK (
+    workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    AND created_by = auth.uid()
+);
+
+CREATE POLICY "task_templates_update" ON task_templates
+FOR UPDATE TO authenticated
+USING (created_by = auth.uid());
+
+CREATE POLICY "task_templates_delete" ON task_templates
+FOR DELETE TO authenticated
+USING (created_by = auth.uid());
+
+-- =====================================================
+-- 2. CREATE A TASK (AND SUBTASKS) FROM A TEMPLATE
+-- =====================================================
+-- p_task uses the tasks column names; p_subtasks is an array of
+-- {title, description, due_date}. p_template_id may be NULL for
+-- built-in templates that are not stored in task_templates.
+
+CREATE OR REPLACE FUNCTION public.create_task_from_template(
+    p_template_id UUID,
+    p_task JSONB,
+    p_subtasks JSONB DEFAULT '[]'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_input tasks%ROWTYPE;
+    v_task tasks%ROWTYPE;
+    v_role TEXT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    -- Typed view of the payload (casts status/priority into their column types)
+    v_input := jsonb_populate_record(NULL::tasks, p_task);
+
+    IF v_input.workspace_id IS NULL OR v_input.workspace_id NOT IN (SELECT public.get_user_workspace_ids(v_user_id)) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You are not a member of this workspace');
+    END IF;
+
+    -- Same rule as the task.create permission in src/utils/permissions.ts:
+    -- guests are read-only
+    SELECT CASE WHEN w.owner_id = v_user_id THEN 'owner' ELSE wm.role END INTO v_role
+    FROM workspaces w
+    LEFT JOIN workspace_members wm ON wm.workspace_id = w.id AND wm.user_id = v_user_id
+    WHERE w.id = v_input.workspace_id;
+
+    IF v_role IS NULL OR v_role NOT IN ('owner', 'admin', 'member') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'You do not have permission to create tasks in this workspace');
+    END IF;
+
+    IF v_input.page_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pages
+        WHERE id = v_input.page_id AND workspace_id = v_input.workspace_id
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Page not found in this workspace');
+    END IF;
+
+    IF p_template_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM task_templates
+        WHERE id = p_template_id
+        AND workspace_id = v_input.workspace_id
+        AND (is_public OR created_by = v_user_id)
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Template not found');
+    END IF;
+
+    INSERT INTO tasks (
+        workspace_id, page_id, title, description, status, workflow_status, priority,
+        created_by, due_date, sort_order, tags, estimated_hours, start_date,
+        custom_fields, assigned_to
+    )
+    VALUES (
+        v_input.workspace_id, v_input.page_id, v_input.title, v_input.description,
+        v_input.status, v_input.workflow_status, v_input.priority,
+        v_user_id, v_input.due_date, v_input.sort_order, COALESCE(v_input.tags, '{}'),
+        v_input.estimated_hours, v_input.start_date,
+        COALESCE(v_input.custom_fields, '{}'), v_input.assigned_to
+    )
+    RETURNING * INTO v_task;
+
+    INSERT INTO subtasks (parent_task_id, title, description, due_date, order_index, created_by)
+    SELECT
+        v_task.id,
+        subtask->>'title',
+        NULLIF(subtask->>'description', ''),
+        NULLIF(subtask->>'due_date', '')::timestamptz,
+        (position - 1)::integer,
+        v_user_id
+    FROM jsonb_array_elements(COALESCE(p_subtasks, '[]')) WITH ORDINALITY AS items(subtask, position)
+    WHERE COALESCE(trim(subtask->>'title'), '') <> '';
+
+    IF p_template_id IS NOT NULL THEN
+        UPDATE task_templates
+        SET usage_count = usage_count + 1
+        WHERE id = p_template_id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'task', to_jsonb(v_task));
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_task_from_template(UUID, JSONB, JSONB) TO authenticated;
+
+SELECT '✅ Task templates ready!' as status;
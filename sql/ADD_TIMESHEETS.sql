@@ -0,0 +1,355 @@
+-- =====================================================
+-- WORKSPACE TIMESHEETS, BILLABLE RATES AND WEEK APPROVAL
+-- =====================================================
+-- This script:
+-- 1. Adds workspace_id and work_date to task_time_entries so a whole
+--    workspace's week can be loaded in one query. work_date is the day
+--    the time counts towards; it defaults to the start time's date.
+-- 2. Creates timesheet_rates - hourly rates per member and per page.
+--    A page rate wins over the member's rate. Only admins can see or
+--    change rates.
+-- 3. Creates timesheet_weeks - a member's week that an admin has locked
+--    or approved (approving also locks). Locked weeks reject any new,
+--    changed or deleted time entry until an admin reopens them. Deleting
+--    the task, workspace or member still removes their entries.
+-- 4. Replaces the open time entry policy with workspace-scoped ones:
+--    members see the workspace's time, edit their own, admins edit all
+-- 5. Adds time entries and timesheet weeks to realtime
+--
+-- Weeks start on Monday (ISO weeks, as date_trunc('week') returns).
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. TIME ENTRY COLUMNS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_time_entries' AND column_name = 'workspace_id'
+    ) THEN
+        ALTER TABLE task_time_entries ADD COLUMN workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+        RAISE NOTICE 'Added workspace_id column to task_time_entries';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_time_entries' AND column_name = 'work_date'
+    ) THEN
+        ALTER TABLE task_time_entries ADD COLUMN work_date DATE;
+        RAISE NOTICE 'Added work_date column to task_time_entries';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'task_time_entries' AND column_name = 'billable'
+    ) THEN
+        ALTER TABLE task_time_entries ADD COLUMN billable BOOLEAN NOT NULL DEFAULT false;
+        RAISE NOTICE 'Added billable column to task_time_entries';
+    END IF;
+END $$;
+
+UPDATE task_time_entries e
+SET workspace_id = t.workspace_id
+FROM tasks t
+WHERE e.task_id = t.id AND e.workspace_id IS NULL;
+
+UPDATE task_time_entries
+SET work_date = start_time::date
+WHERE work_date IS NULL;
+
+UPDATE task_time_entries
+SET duration_minutes = GREATEST(ROUND(EXTRACT(EPOCH FROM (end_time - start_time)) / 60), 0)
+WHERE end_time IS NOT NULL AND duration_minutes IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_workspace_date ON task_time_entries(workspace_id, work_date);
+
+-- =====================================================
+-- 2. HOURLY RATES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.timesheet_rates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    page_id UUID REFERENCES pages(id) ON DELETE CASCADE,
+    hourly_rate NUMERIC(10, 2) NOT NULL CHECK (hourly_rate >= 0),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    -- A rate is either a member's or a page's
+    CHECK ((user_id IS NULL) <> (page_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timesheet_rates_member
+    ON timesheet_rates(workspace_id, user_id) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_timesheet_rates_page
+    ON timesheet_rates(workspace_id, page_id) WHERE page_id IS NOT NULL;
+
+ALTER TABLE timesheet_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "timesheet_rates_select" ON timesheet_rates;
+
+CREATE POLICY "timesheet_rates_select" ON timesheet_rates
+FOR SELECT TO authenticated
+USING (public.is_workspace_admin(workspace_id));
+
+-- Set or clear (p_hourly_rate NULL) a member's or a page's rate
+CREATE OR REPLACE FUNCTION public.set_timesheet_rate(
+    p_workspace_id UUID,
+    p_user_id UUID,
+    p_page_id UUID,
+    p_hourly_rate NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    IF NOT public.is_workspace_admin(p_workspace_id) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only workspace admins can change rates');
+    END IF;
+
+    IF (p_user_id IS NULL) = (p_page_id IS NULL) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Choose either a member or a page');
+    END IF;
+
+    IF p_hourly_rate IS NOT NULL AND p_hourly_rate < 0 THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Rates cannot be negative');
+    END IF;
+
+    DELETE FROM timesheet_rates
+    WHERE workspace_id = p_workspace_id
+    AND user_id IS NOT DISTINCT FROM p_user_id
+    AND page_id IS NOT DISTINCT FROM p_page_id;
+
+    IF p_hourly_rate IS NOT NULL THEN
+        INSERT INTO timesheet_rates (workspace_id, user_id, page_id, hourly_rate, updated_by)
+        VALUES (p_workspace_id, p_user_id, p_page_id, p_hourly_rate, auth.uid());
+    END IF;
+
+    RETURN jsonb_build_object('success', true);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_timesheet_rate(UUID, UUID, UUID, NUMERIC) TO authenticated;
+
+-- =====================================================
+-- 3. LOCKED AND APPROVED WEEKS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.timesheet_weeks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+    status TEXT NOT NULL CHECK (status IN ('locked', 'approved')),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (workspace_id, user_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheet_weeks_workspace_week ON timesheet_weeks(workspace_id, week_start);
+
+ALTER TABLE timesheet_weeks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "timesheet_weeks_select" ON timesheet_weeks;
+
+CREATE POLICY "timesheet_weeks_select" ON timesheet_weeks
+FOR SELECT TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+-- Lock or approve members' weeks; p_status NULL reopens them
+CREATE OR REPLACE FUNCTION public.set_timesheet_week_status(
+    p_workspace_id UUID,
+    p_user_ids UUID[],
+    p_week_start DATE,
+    p_status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_week_start DATE := date_trunc('week', p_week_start)::date;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'User not authenticated');
+    END IF;
+
+    IF NOT public.is_workspace_admin(p_workspace_id) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Only workspace admins can lock or approve timesheets');
+    END IF;
+
+    IF p_status IS NOT NULL AND p_status NOT IN ('locked', 'approved') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Invalid status');
+    END IF;
+
+    IF p_status IS NULL THEN
+        DELETE FROM timesheet_weeks
+        WHERE workspace_id = p_workspace_id
+        AND week_start = v_week_start
+        AND user_id = ANY(p_user_ids);
+    ELSE
+        INSERT INTO timesheet_weeks (workspace_id, user_id, week_start, status, reviewed_by, reviewed_at)
+        SELECT p_workspace_id, u.user_id, v_week_start, p_status, auth.uid(), NOW()
+        FROM unnest(p_user_ids) AS u(user_id)
+        ON CONFLICT (workspace_id, user_id, week_start)
+        DO UPDATE SET status = EXCLUDED.status, reviewed_by = EXCLUDED.reviewed_by, reviewed_at = EXCLUDED.reviewed_at;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'status', p_status);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_timesheet_week_status(UUID, UUID[], DATE, TEXT) TO authenticated;
+
+-- Fills in workspace_id, work_date and duration, and keeps locked weeks closed
+CREATE OR REPLACE FUNCTION public.check_time_entry_week()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- A cascade from deleting the task, workspace or user runs after the
+    -- parent row is gone; a locked week must not block that delete
+    IF TG_OP = 'DELETE' AND (
+        NOT EXISTS (SELECT 1 FROM tasks WHERE id = OLD.task_id)
+        OR NOT EXISTS (SELECT 1 FROM workspaces WHERE id = OLD.workspace_id)
+        OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = OLD.user_id)
+    ) THEN
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+        SELECT 1 FROM timesheet_weeks
+        WHERE workspace_id = OLD.workspace_id
+        AND user_id = OLD.user_id
+        AND week_start = date_trunc('week', OLD.work_date)::date
+    ) THEN
+        RAISE EXCEPTION 'The timesheet for the week of % is locked', date_trunc('week', OLD.work_date)::date;
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+
+    IF NEW.workspace_id IS NULL THEN
+        SELECT workspace_id INTO NEW.workspace_id FROM tasks WHERE id = NEW.task_id;
+    END IF;
+
+    NEW.work_date := COALESCE(NEW.work_date, NEW.start_time::date);
+
+    IF NEW.end_time IS NOT NULL AND NEW.duration_minutes IS NULL THEN
+        NEW.duration_minutes := GREATEST(ROUND(EXTRACT(EPOCH FROM (NEW.end_time - NEW.start_time)) / 60), 0);
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM timesheet_weeks
+        WHERE workspace_id = NEW.workspace_id
+        AND user_id = NEW.user_id
+        AND week_start = date_trunc('week', NEW.work_date)::date
+    ) THEN
+        RAISE EXCEPTION 'The timesheet for the week of % is locked', date_trunc('week', NEW.work_date)::date;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_time_entry_week ON task_time_entries;
+CREATE TRIGGER check_time_entry_week
+    BEFORE INSERT OR UPDATE OR DELETE ON task_time_entries
+    FOR EACH ROW EXECUTE FUNCTION public.check_time_entry_week();
+
+-- =====================================================
+-- 4. TIME ENTRY POLICIES
+-- =====================================================
+
+DROP POLICY IF EXISTS "time_entries_all_policy" ON task_time_entries;
+DROP POLICY IF EXISTS "time_entries_select" ON task_time_entries;
+DROP POLICY IF EXISTS "time_entries_insert" ON task_time_entries;
+DROP POLICY IF EXISTS "time_entries_update" ON task_time_entries;
+DROP POLICY IF EXISTS "time_entries_delete" ON task_time_entries;
+
+CREATE POLICY "time_entries_select" ON task_time_entries
+FOR SELECT TO authenticated
+USING (workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid())));
+
+-- Entries stay on a task of their own workspace
+CREATE POLICY "time_entries_insert" ON task_time_entries
+FOR INSERT TO authenticated
+WITH CHECK (
+    workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    AND (user_id = auth.uid() OR public.is_workspace_admin(workspace_id))
+    AND EXISTS (
+        SELECT 1 FROM tasks
+        WHERE tasks.id = task_time_entries.task_id
+        AND tasks.workspace_id = task_time_entries.workspace_id
+    )
+);
+
+CREATE POLICY "time_entries_update" ON task_time_entries
+FOR UPDATE TO authenticated
+USING (user_id = auth.uid() OR public.is_workspace_admin(workspace_id))
+WITH CHECK (
+    workspace_id IN (SELECT public.get_user_workspace_ids(auth.uid()))
+    AND (user_id = auth.uid() OR public.is_workspace_admin(workspace_id))
+    AND EXISTS (
+        SELECT 1 FROM tasks
+        WHERE tasks.id = task_time_entries.task_id
+        AND tasks.workspace_id = task_time_entries.workspace_id
+    )
+);
+
+CREATE POLICY "time_entries_delete" ON task_time_entries
+FOR DELETE TO authenticated
+USING (user_id = auth.uid() OR public.is_workspace_admin(workspace_id));
+
+-- =====================================================
+-- 5. REALTIME
+-- =====================================================
+-- REPLICA IDENTITY FULL so DELETE payloads still carry workspace_id.
+
+ALTER TABLE task_time_entries REPLICA IDENTITY FULL;
+ALTER TABLE timesheet_weeks REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'task_time_entries'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE task_time_entries;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'timesheet_weeks'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE timesheet_weeks;
+    END IF;
+END;
+$$;
+
+SELECT '✅ Timesheets ready!' as status;
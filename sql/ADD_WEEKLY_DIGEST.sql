@@ -0,0 +1,224 @@
+-- =====================================================
+-- WEEKLY DIGEST
+-- =====================================================
+-- This script:
+-- 1. Adds the digest schedule to user_settings (weekday and hour in
+--    the user's timezone) and a per-user unsubscribe token
+-- 2. Creates weekly_digests - one row per user, workspace and week
+--    a digest was sent for
+-- 3. Adds claim_weekly_digest() and mark_weekly_digest_sent() for the
+--    send-digests edge function
+-- 4. Adds unsubscribe_weekly_digest(), used by the digest-unsubscribe
+--    edge function so the link in the email works without signing in
+-- 5. Schedules send-digests every 15 minutes with pg_cron
+--
+-- Digests are built and sent by supabase/functions/send-digests, in the
+-- timezone stored in user_settings (run ADD_TASK_REMINDERS.sql first).
+-- As with reminders, a claim that is never marked sent can be taken
+-- again after 15 minutes, up to 5 attempts.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD DIGEST SCHEDULE TO USER_SETTINGS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'digest_weekday'
+    ) THEN
+        -- 0 = Sunday ... 6 = Saturday
+        ALTER TABLE user_settings ADD COLUMN digest_weekday SMALLINT NOT NULL DEFAULT 1
+            CHECK (digest_weekday BETWEEN 0 AND 6);
+        RAISE NOTICE 'Added digest_weekday column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'digest_hour'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN digest_hour SMALLINT NOT NULL DEFAULT 9
+            CHECK (digest_hour BETWEEN 0 AND 23);
+        RAISE NOTICE 'Added digest_hour column to user_settings';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_settings' AND column_name = 'digest_unsubscribe_token'
+    ) THEN
+        ALTER TABLE user_settings ADD COLUMN digest_unsubscribe_token TEXT NOT NULL UNIQUE
+            DEFAULT encode(extensions.gen_random_bytes(24), 'hex');
+        RAISE NOTICE 'Added digest_unsubscribe_token column to user_settings';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. WEEKLY DIGESTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.weekly_digests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    week_of DATE NOT NULL, -- Scheduled send date in the user's timezone
+    attempts INTEGER NOT NULL DEFAULT 1,
+    claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMPTZ, -- NULL until the digest went out
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, workspace_id, week_of)
+);
+
+-- Tables from before digests were sent by the edge function only
+-- recorded digests that had gone out
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'weekly_digests' AND column_name = 'sent_at'
+    ) THEN
+        ALTER TABLE weekly_digests ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE weekly_digests ADD COLUMN claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+        ALTER TABLE weekly_digests ADD COLUMN sent_at TIMESTAMPTZ;
+        UPDATE weekly_digests SET claimed_at = created_at, sent_at = created_at;
+        RAISE NOTICE 'Added attempts, claimed_at and sent_at columns to weekly_digests';
+    END IF;
+END $$;
+
+ALTER TABLE weekly_digests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "weekly_digests_select" ON weekly_digests;
+
+-- Rows are only written by the send-digests edge function
+CREATE POLICY "weekly_digests_select" ON weekly_digests
+FOR SELECT TO authenticated
+USING (user_id = auth.uid());
+
+-- =====================================================
+-- 3. CLAIM A DIGEST AND MARK IT SENT
+-- =====================================================
+-- claim_weekly_digest() returns claimed = true when the caller should
+-- send the digest: the first call per user, workspace and week, or a
+-- retry of a claim that was not marked sent within 15 minutes. Only the
+-- service role (the edge function) may call these.
+
+-- The earlier version claimed for auth.uid() from the browser
+DROP FUNCTION IF EXISTS public.claim_weekly_digest(UUID, DATE);
+
+CREATE OR REPLACE FUNCTION public.claim_weekly_digest(
+    p_user_id UUID,
+    p_workspace_id UUID,
+    p_week_of DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    IF p_workspace_id NOT IN (SELECT public.get_user_workspace_ids(p_user_id)) THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Workspace not found');
+    END IF;
+
+    INSERT INTO weekly_digests (user_id, workspace_id, week_of)
+    VALUES (p_user_id, p_workspace_id, p_week_of)
+    ON CONFLICT (user_id, workspace_id, week_of) DO UPDATE
+    SET attempts = weekly_digests.attempts + 1,
+        claimed_at = NOW()
+    WHERE weekly_digests.sent_at IS NULL
+    AND weekly_digests.attempts < 5
+    AND weekly_digests.claimed_at < NOW() - INTERVAL '15 minutes'
+    RETURNING id INTO v_id;
+
+    RETURN jsonb_build_object('success', true, 'claimed', v_id IS NOT NULL, 'digest_id', v_id);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_weekly_digest_sent(p_digest_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE weekly_digests SET sent_at = NOW() WHERE id = p_digest_id;
+
+    RETURN jsonb_build_object('success', FOUND);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_weekly_digest(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_weekly_digest_sent(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_weekly_digest(UUID, UUID, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_weekly_digest_sent(UUID) TO service_role;
+
+-- =====================================================
+-- 4. ONE-CLICK UNSUBSCRIBE
+-- =====================================================
+-- The token is the only credential, so this is granted to anon.
+
+CREATE OR REPLACE FUNCTION public.unsubscribe_weekly_digest(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE user_settings
+    SET weekly_digest = false
+    WHERE digest_unsubscribe_token = p_token;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Unknown unsubscribe link');
+    END IF;
+
+    RETURN jsonb_build_object('success', true);
+EXCEPTION
+    WHEN OTHERS THEN
+        RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.unsubscribe_weekly_digest(TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- 5. SCHEDULE THE SEND-DIGESTS FUNCTION
+-- =====================================================
+-- Deploy the function first:
+--   supabase functions deploy send-digests --no-verify-jwt
+-- It uses the same Vault secrets as the reminder job in
+-- ADD_TASK_REMINDERS.sql (project_url and service_role_key).
+-- Every 15 minutes, so digests go out close to the chosen hour in
+-- timezones with half-hour offsets too.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+    'send-weekly-digests',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/send-digests',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb,
+        timeout_milliseconds := 60000
+    );
+    $$
+);
+
+SELECT '✅ Weekly digest ready!' as status;
@@ -0,0 +1,46 @@
+-- =====================================================
+-- CONFIGURABLE WORKFLOW STATUSES
+-- =====================================================
+-- Workflows are defined per workspace in workspaces.settings.workflow
+-- (statuses with a category, order, color and allowed transitions).
+-- tasks.status keeps holding the category (pending / in_progress /
+-- completed / cancelled); tasks.workflow_status holds the id of the
+-- workspace-defined status the task is in.
+--
+-- Run this ENTIRE script in Supabase SQL Editor
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD WORKFLOW_STATUS COLUMN TO TASKS
+-- =====================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'tasks' AND column_name = 'workflow_status'
+    ) THEN
+        ALTER TABLE tasks ADD COLUMN workflow_status TEXT;
+        RAISE NOTICE 'Added workflow_status column to tasks';
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. BACKFILL EXISTING TASKS
+-- =====================================================
+-- Existing rows map onto the default workflow, whose status ids
+-- match the legacy local statuses.
+
+UPDATE tasks
+SET workflow_status = CASE status
+        WHEN 'pending' THEN 'todo'
+        WHEN 'in_progress' THEN 'progress'
+        WHEN 'completed' THEN 'done'
+        WHEN 'cancelled' THEN 'cancelled'
+    END
+WHERE workflow_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_workflow_status
+    ON tasks(workspace_id, workflow_status);
+
+SELECT '✅ Workflow statuses enabled!' as status;
@@ -15,6 +15,7 @@ import { SupabaseWorkspaceProvider } from "./contexts/SupabaseWorkspaceContext";
 import { TaskProvider } from "./contexts/TaskContext";
 import { NotificationProvider } from "./contexts/NotificationContext";
 import { SearchProvider, useSearch } from "./contexts/SearchContext";
+import { TimerProvider } from "./contexts/TimerContext";
 import ErrorBoundary from "./components/ErrorBoundary";
 import AsyncErrorBoundary from "./components/AsyncErrorBoundary";
 import ProtectedRoute from "./components/ProtectedRoute";
@@ -22,6 +23,7 @@ import CollaborationOverlay from "./components/CollaborationOverlay";
 import Navbar from "./components/Navbar";
 import SearchCommandPalette from "./components/SearchCommandPalette";
 import GlobalSearchModal from "./components/GlobalSearchModal";
+import { useTimezoneSync } from "./hooks/useTimezoneSync";
 
 // Lazy-loaded components
 import {
@@ -32,6 +34,7 @@ import {
   LazyWorkspaceManagement,
   LazyCalendar,
   LazyAnalytics,
+  LazyTimesheet,
   LazyTeam,
   LazyWebsites,
   preloadCriticalComponents
@@ -60,6 +63,9 @@ createCacheMonitoringService(queryClient);
 const AppContent = () => {
   const { isSearchOpen, closeSearch } = useSearch();
 
+  // Reminders and the weekly digest are sent from the server in this timezone
+  useTimezoneSync();
+
   // Preload critical components on app start
   React.useEffect(() => {
     preloadCriticalComponents();
@@ -112,6 +118,12 @@ const AppContent = () => {
                       </LazyPageWrapper>
                     } />
 
+                    <Route path="/timesheet" element={
+                      <LazyPageWrapper loadingText="Loading timesheet...">
+                        <LazyTimesheet />
+                      </LazyPageWrapper>
+                    } />
+
                     <Route path="/profile" element={
                       <LazyPageWrapper loadingText="Loading profile...">
                         <LazyProfile />
@@ -195,13 +207,15 @@ const App = () => {
                   <AsyncErrorBoundary>
                     <TaskProvider>
                       <AsyncErrorBoundary>
-                        <SearchProvider>
-                          <Toaster />
-                          <Sonner />
-                          <AppContent />
-                          {/* Cache Debug Panel - only in development */}
-                          {import.meta.env.DEV && <CacheDebugPanel />}
-                        </SearchProvider>
+                        <TimerProvider>
+                          <SearchProvider>
+                            <Toaster />
+                            <Sonner />
+                            <AppContent />
+                            {/* Cache Debug Panel - only in development */}
+                            {import.meta.env.DEV && <CacheDebugPanel />}
+                          </SearchProvider>
+                        </TimerProvider>
                       </AsyncErrorBoundary>
                     </TaskProvider>
                   </AsyncErrorBoundary>
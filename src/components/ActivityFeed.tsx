@@ -0,0 +1,76 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Activity, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useTask } from '../contexts/TaskContext';
+import { useWorkspaceActivity } from '../hooks/useActivityQueries';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { describeActivity, getMemberName } from '../utils/activity';
+import ActivityIcon from './ActivityIcon';
+
+interface ActivityFeedProps {
+  workspaceId: string;
+  limit?: number;
+}
+
+// The latest activity in a workspace, kept live
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ workspaceId, limit = 20 }) => {
+  const { user } = useAuth();
+  const { workspaceMembers } = useSupabaseWorkspace();
+  const { state } = useTask();
+  const { workflow } = useWorkflow();
+  const { data: activities = [], isLoading } = useWorkspaceActivity(workspaceId, limit);
+
+  useRealtimeSubscription({
+    table: 'user_activities',
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId
+  });
+
+  const context = { members: workspaceMembers, pages: state.pages, workflow };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading activity...
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Activity className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>No activity in this workspace yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {activities.map(activity => (
+        <div key={activity.id} className="flex items-start gap-3 p-3 rounded-lg hover:bg-accent transition-colors">
+          <div className="mt-0.5">
+            <ActivityIcon type={activity.action.type} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm break-words">
+              <span className="font-medium">
+                {activity.userId === user?.id ? 'You' : getMemberName(workspaceMembers, activity.userId)}
+              </span>{' '}
+              {describeActivity(activity, context)}
+            </p>
+            <p className="text-xs text-muted-foreground" title={new Date(activity.createdAt).toLocaleString()}>
+              {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -0,0 +1,61 @@
+import React from 'react';
+import {
+  Activity,
+  Building2,
+  Link2,
+  Mail,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Timer,
+  Trash2,
+  UserCog,
+  UserPlus
+} from 'lucide-react';
+
+interface ActivityIconProps {
+  type: string;
+  className?: string;
+}
+
+// Icon for an activity log entry, by its type
+const ActivityIcon: React.FC<ActivityIconProps> = ({ type, className = 'h-4 w-4' }) => {
+  switch (type) {
+    case 'task_created':
+      return <Plus className={`${className} text-blue-500`} />;
+    case 'task_updated':
+      return <Pencil className={`${className} text-yellow-500`} />;
+    case 'task_deleted':
+      return <Trash2 className={`${className} text-red-500`} />;
+    case 'comment_added':
+    case 'comment_reply':
+    case 'user_mentioned':
+      return <MessageSquare className={`${className} text-purple-500`} />;
+    case 'time_tracking_started':
+    case 'time_tracking_stopped':
+      return <Timer className={`${className} text-green-500`} />;
+    case 'member_invited':
+    case 'invitation_resent':
+    case 'member_joined':
+    case 'join_request_created':
+    case 'join_request_approved':
+      return <UserPlus className={`${className} text-orange-500`} />;
+    case 'member_removed':
+    case 'member_role_changed':
+    case 'invitation_revoked':
+    case 'join_request_rejected':
+      return <UserCog className={`${className} text-orange-500`} />;
+    case 'invite_code_regenerated':
+    case 'invite_link_created':
+    case 'invite_link_revoked':
+      return <Link2 className={`${className} text-gray-500`} />;
+    case 'workspace_created':
+      return <Building2 className={`${className} text-primary`} />;
+    case 'email_sent':
+      return <Mail className={`${className} text-blue-500`} />;
+    default:
+      return <Activity className={`${className} text-gray-500`} />;
+  }
+};
+
+export default ActivityIcon;
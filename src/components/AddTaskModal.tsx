@@ -11,15 +11,17 @@ import { useSupabaseAuth } from '../contexts/SupabaseAuthContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import { toast } from '@/components/ui/sonner';
 import FileAttachmentManager from './FileAttachmentManager';
-import { TaskAttachment } from '../types';
+import RecurrenceEditor from './RecurrenceEditor';
+import { Task, TaskAttachment, TaskRecurrence } from '../types';
 
 interface AddTaskModalProps {
   isOpen: boolean;
   onClose: () => void;
-  defaultStatus?: 'todo' | 'progress' | 'done';
+  defaultStatus?: Task['status'];
+  defaultWorkflowStatus?: string; // Workflow status id of the column the task is added to
 }
 
-const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultStatus = 'todo' }) => {
+const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultStatus = 'todo', defaultWorkflowStatus }) => {
   const { addTask } = useTask();
   const { user } = useSupabaseAuth();
   const { currentWorkspace } = useSupabaseWorkspace();
@@ -31,6 +33,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultSta
   const [link, setLink] = useState('');
   const [tags, setTags] = useState('');
   const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,10 +42,12 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultSta
         title: title.trim(),
         description: description.trim(),
         status: defaultStatus,
+        workflowStatus: defaultWorkflowStatus,
         dueDate: dueDate || undefined,
         priority: priority as 'low' | 'medium' | 'high' | 'urgent',
         link: link.trim() || undefined,
         tags: tags.trim().split(',').filter(tag => tag.trim()).map(tag => tag.trim()),
+        recurrence,
 
         attachments: attachments
       });
@@ -60,6 +65,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultSta
     setLink('');
     setTags('');
     setAttachments([]);
+    setRecurrence(null);
   };
 
   const handleCancel = () => {
@@ -142,6 +148,8 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({ isOpen, onClose, defaultSta
             </div>
           </div>
 
+          <RecurrenceEditor value={recurrence} onChange={setRecurrence} anchorDate={dueDate} />
+
           <div className="space-y-2">
             <Label htmlFor="link" className="text-sm font-medium text-gray-700 flex items-center gap-2">
               <Link className="w-4 h-4" />
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Lock } from 'lucide-react';
+import { TaskBlocker } from '../utils/dependencies';
+
+interface BlockedBadgeProps {
+  blockers: TaskBlocker[];
+  className?: string;
+}
+
+// Shown on tasks that are waiting on unfinished predecessors
+const BlockedBadge: React.FC<BlockedBadgeProps> = ({ blockers, className = '' }) => {
+  if (blockers.length === 0) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`border-red-300 text-red-700 dark:border-red-800 dark:text-red-400 ${className}`}
+      title={`Waiting on ${blockers.map(blocker => blocker.predecessor.title).join(', ')}`}
+    >
+      <Lock className="h-3 w-3 mr-1" />
+      Blocked
+    </Badge>
+  );
+};
+
+export default BlockedBadge;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { TrendingDown } from 'lucide-react';
+import { BurnPoint, formatChartDate } from '../utils/analytics';
+
+interface BurnChartProps {
+  points: BurnPoint[];
+}
+
+type BurnView = 'burndown' | 'burnup';
+
+const chartConfig = {
+  remaining: { label: 'Remaining', color: 'hsl(var(--chart-1))' },
+  ideal: { label: 'Ideal', color: 'hsl(var(--muted-foreground))' },
+  done: { label: 'Done', color: 'hsl(var(--chart-3))' },
+  scope: { label: 'Scope', color: 'hsl(var(--chart-2))' }
+} satisfies ChartConfig;
+
+// Open work over the range against a straight line to zero, or done work against scope
+const BurnChart: React.FC<BurnChartProps> = ({ points }) => {
+  const [view, setView] = useState<BurnView>('burndown');
+
+  return (
+    <Card className="card-modern">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            {view === 'burndown' ? 'Burndown' : 'Burnup'}
+          </CardTitle>
+          <CardDescription>
+            {view === 'burndown'
+              ? 'Tasks still open at the end of each day'
+              : 'Tasks done against all tasks, so added scope shows'}
+          </CardDescription>
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as BurnView)}>
+          <TabsList>
+            <TabsTrigger value="burndown">Burndown</TabsTrigger>
+            <TabsTrigger value="burnup">Burnup</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+          <LineChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} tickFormatter={formatChartDate} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatChartDate(String(value))} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {view === 'burndown' ? (
+              <>
+                <Line dataKey="remaining" type="monotone" stroke="var(--color-remaining)" strokeWidth={2} dot={false} />
+                <Line dataKey="ideal" type="linear" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+              </>
+            ) : (
+              <>
+                <Line dataKey="scope" type="stepAfter" stroke="var(--color-scope)" strokeWidth={2} dot={false} />
+                <Line dataKey="done" type="monotone" stroke="var(--color-done)" strokeWidth={2} dot={false} />
+              </>
+            )}
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BurnChart;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useTask } from '../contexts/TaskContext';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import {
+  useCalendarEvents,
+  useImportCalendarEvents,
+  useCalendarFeedToken,
+  useRegenerateCalendarFeedToken,
+  getCalendarFeedUrl
+} from '../hooks/useCalendarQueries';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CalendarSync, Download, Upload, Rss, Copy, RefreshCw } from 'lucide-react';
+import { toast } from './ui/sonner';
+import { buildICalendar, parseICalendar, importedEventToTask, ImportedCalendar } from '../utils/ical';
+
+// Export, import and subscribe to the workspace calendar in other calendar apps
+const CalendarSyncMenu: React.FC = () => {
+  const { state, importTasks } = useTask();
+  const { user } = useAuth();
+  const { currentWorkspace, workspaceMembers } = useSupabaseWorkspace();
+  const workspaceId = currentWorkspace?.id || '';
+  const { data: events = [] } = useCalendarEvents(workspaceId);
+  const importEvents = useImportCalendarEvents();
+  const regenerateToken = useRegenerateCalendarFeedToken();
+
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showFeedDialog, setShowFeedDialog] = useState(false);
+  const [imported, setImported] = useState<ImportedCalendar | null>(null);
+  const [importEventsAs, setImportEventsAs] = useState<'events' | 'tasks'>('events');
+  const [importing, setImporting] = useState(false);
+
+  const { data: feedToken, isLoading: feedLoading } = useCalendarFeedToken(workspaceId, showFeedDialog);
+
+  if (!currentWorkspace || !user) return null;
+
+  const handleExport = () => {
+    const content = buildICalendar({
+      name: currentWorkspace.name,
+      tasks: [...state.pages.flatMap(page => page.tasks), ...state.unassignedTasks],
+      events,
+      members: workspaceMembers
+    });
+
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentWorkspace.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'calendar'}-${new Date().toISOString().split('T')[0]}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success('Calendar exported');
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const calendar = parseICalendar(await file.text());
+    if (calendar.tasks.length === 0 && calendar.events.length === 0) {
+      toast.error('No events or to-dos found in that file');
+      setImported(null);
+      return;
+    }
+    setImported(calendar);
+  };
+
+  const handleImport = async () => {
+    if (!imported) return;
+    setImporting(true);
+
+    try {
+      const tasks = importEventsAs === 'tasks'
+        ? [...imported.tasks, ...imported.events.map(importedEventToTask)]
+        : imported.tasks;
+      const taskCount = await importTasks(tasks);
+
+      let eventCount = 0;
+      if (importEventsAs === 'events' && imported.events.length > 0) {
+        const membersByEmail = new Map(workspaceMembers.map(member => [member.email.toLowerCase(), member.userId]));
+        const result = await importEvents.mutateAsync({
+          workspaceId: currentWorkspace.id,
+          userId: user.id,
+          events: imported.events.map(({ attendeeEmails, ...event }) => ({
+            ...event,
+            workspaceId: currentWorkspace.id,
+            attendeeIds: attendeeEmails.flatMap(email => membersByEmail.get(email) || [])
+          }))
+        });
+        eventCount = result.count;
+      }
+
+      toast.success(`Imported ${taskCount} task${taskCount === 1 ? '' : 's'} and ${eventCount} event${eventCount === 1 ? '' : 's'}`);
+      setShowImportDialog(false);
+      setImported(null);
+    } catch {
+      // The mutation already reported the error
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const feedUrl = feedToken ? getCalendarFeedUrl(feedToken) : '';
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2">
+            <CalendarSync className="h-4 w-4" />
+            <span className="hidden sm:inline">Sync</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export .ics
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import .ics…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowFeedDialog(true)}>
+            <Rss className="h-4 w-4 mr-2" />
+            Subscribe from another calendar…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Import */}
+      <Dialog
+        open={showImportDialog}
+        onOpenChange={(open) => {
+          setShowImportDialog(open);
+          if (!open) setImported(null);
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Import Calendar</DialogTitle>
+            <DialogDescription>
+              To-dos become tasks. Events become calendar events, or tasks due on the event's day.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ics-file">.ics file</Label>
+              <Input id="ics-file" type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+            </div>
+
+            {imported && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Found {imported.tasks.length} to-do{imported.tasks.length === 1 ? '' : 's'} and{' '}
+                  {imported.events.length} event{imported.events.length === 1 ? '' : 's'}.
+                </p>
+                {imported.events.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Import events as</Label>
+                    <Select value={importEventsAs} onValueChange={(value) => setImportEventsAs(value as 'events' | 'tasks')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="events">Calendar events</SelectItem>
+                        <SelectItem value="tasks">Tasks</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowImportDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={!imported || importing}>
+              {importing ? 'Importing…' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Subscription feed */}
+      <Dialog open={showFeedDialog} onOpenChange={setShowFeedDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Subscribe to this Workspace</DialogTitle>
+            <DialogDescription>
+              Add this URL to Google Calendar, Outlook or Apple Calendar to keep dated tasks and events in sync.
+              Anyone with the link can read the calendar, so keep it private.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Input readOnly value={feedLoading ? 'Loading…' : feedUrl} onFocus={(e) => e.target.select()} />
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={!feedUrl}
+              onClick={() => {
+                navigator.clipboard.writeText(feedUrl);
+                toast.success('Feed URL copied');
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => regenerateToken.mutate(currentWorkspace.id)}
+              disabled={regenerateToken.isPending}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Create New URL
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default CalendarSyncMenu;
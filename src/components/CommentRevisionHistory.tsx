@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { History, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useCommentRevisions } from '../hooks/useTaskQueries';
+import { mentionsToPlainText } from '../utils/mentions';
+
+interface CommentRevisionHistoryProps {
+  commentId: string;
+  resolveMemberName?: (userId: string) => string | undefined;
+}
+
+// The "edited" badge on a comment; opens the comment's earlier versions
+const CommentRevisionHistory: React.FC<CommentRevisionHistoryProps> = ({ commentId, resolveMemberName }) => {
+  const [open, setOpen] = useState(false);
+  const { data: revisions = [], isLoading } = useCommentRevisions(commentId, open);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" aria-label="Show edit history">
+          <Badge variant="secondary" className="text-xs cursor-pointer hover:bg-secondary/70">edited</Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center gap-2 border-b px-3 py-2 text-sm font-medium">
+          <History className="h-4 w-4" />
+          Edit history
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading...
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="px-3 py-4 text-sm text-muted-foreground">No earlier versions were saved.</p>
+          ) : (
+            revisions.map(revision => (
+              <div key={revision.id} className="border-b px-3 py-2 last:border-0">
+                <p className="text-xs text-muted-foreground">
+                  Replaced {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                  {revision.editedBy && resolveMemberName?.(revision.editedBy) && ` by ${resolveMemberName(revision.editedBy)}`}
+                </p>
+                <p className="mt-1 text-sm whitespace-pre-wrap break-words">{mentionsToPlainText(revision.content)}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CommentRevisionHistory;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Layers } from 'lucide-react';
+import { WorkflowStatus } from '../types/workspace';
+import { FlowPoint, formatChartDate } from '../utils/analytics';
+
+interface CumulativeFlowChartProps {
+  points: FlowPoint[];
+  statuses: WorkflowStatus[]; // Board order
+}
+
+// Tasks per workflow status each day; widening bands show where work piles up
+const CumulativeFlowChart: React.FC<CumulativeFlowChartProps> = ({ points, statuses }) => {
+  const chartConfig: ChartConfig = Object.fromEntries(
+    statuses.map(status => [status.id, { label: status.name, color: status.color }])
+  );
+
+  // Finished work at the bottom, the backlog on top
+  const stacked = [...statuses].reverse();
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Cumulative Flow
+        </CardTitle>
+        <CardDescription>Tasks in each status at the end of each day</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+          <AreaChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} tickFormatter={formatChartDate} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatChartDate(String(value))} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {stacked.map(status => (
+              <Area
+                key={status.id}
+                dataKey={status.id}
+                name={status.id}
+                type="monotone"
+                stackId="flow"
+                stroke={status.color}
+                fill={status.color}
+                fillOpacity={0.6}
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CumulativeFlowChart;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Timer } from 'lucide-react';
+import {
+  DurationSummary,
+  TaskCompletion,
+  buildDurationDistribution,
+  summarizeDurations
+} from '../utils/analytics';
+
+interface CycleTimeChartProps {
+  completions: TaskCompletion[];
+}
+
+const chartConfig = {
+  lead: { label: 'Lead time', color: 'hsl(var(--chart-2))' },
+  cycle: { label: 'Cycle time', color: 'hsl(var(--chart-1))' }
+} satisfies ChartConfig;
+
+const formatDays = (days: number) => `${days}d`;
+
+const SummaryStat: React.FC<{ label: string; summary: DurationSummary }> = ({ label, summary }) => (
+  <div className="rounded-lg bg-muted/50 p-3">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    {summary.count === 0 ? (
+      <p className="text-sm text-muted-foreground mt-1">No data</p>
+    ) : (
+      <p className="text-sm mt-1">
+        <span className="text-lg font-semibold">{formatDays(summary.median)}</span> median
+        <span className="text-muted-foreground"> · 85% within {formatDays(summary.p85)}</span>
+      </p>
+    )}
+  </div>
+);
+
+// How long finished tasks took: from creation (lead) and from being started (cycle)
+const CycleTimeChart: React.FC<CycleTimeChartProps> = ({ completions }) => {
+  const distribution = buildDurationDistribution(completions);
+  const lead = summarizeDurations(completions.map(completion => completion.leadDays));
+  const cycle = summarizeDurations(
+    completions.flatMap(completion => (completion.cycleDays !== undefined ? [completion.cycleDays] : []))
+  );
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          Lead & Cycle Time
+        </CardTitle>
+        <CardDescription>
+          Tasks completed in the range, by how long they took. Cycle time needs the task's start to be in its history.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <SummaryStat label="Lead time (created to done)" summary={lead} />
+          <SummaryStat label="Cycle time (started to done)" summary={cycle} />
+        </div>
+        <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+          <BarChart data={distribution} margin={{ left: 0, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="lead" fill="var(--color-lead)" radius={4} />
+            <Bar dataKey="cycle" fill="var(--color-cycle)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CycleTimeChart;
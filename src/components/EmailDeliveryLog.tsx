@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useEmailDeliveries, useRetryEmailDelivery, useSendTestEmail } from '../hooks/useEmailQueries';
+import { emailService } from '../services/emailService';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Send, RefreshCw, Plug, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { toast } from './ui/sonner';
+import { EmailDelivery } from '../types';
+
+const STATUS_STYLES: Record<EmailDelivery['status'], { label: string; className: string; icon: React.ElementType }> = {
+  sent: { label: 'Sent', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300', icon: CheckCircle },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300', icon: XCircle },
+  queued: { label: 'Queued', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300', icon: Clock },
+};
+
+// Recent emails sent on the user's behalf, with test and retry actions
+const EmailDeliveryLog: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+  const { data: deliveries = [], isLoading, refetch, isFetching } = useEmailDeliveries(userId);
+  const sendTestEmail = useSendTestEmail();
+  const retryDelivery = useRetryEmailDelivery();
+  const [testingConnection, setTestingConnection] = useState(false);
+
+  if (!user) return null;
+
+  const handleTestConnection = async () => {
+    setTestingConnection(true);
+    const result = await emailService.testConnection();
+    setTestingConnection(false);
+
+    if (result.success) {
+      toast.success(result.message);
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button
+          onClick={() => sendTestEmail.mutate({ userId, to: user.email || '' })}
+          disabled={!user.email || sendTestEmail.isPending}
+        >
+          <Send className="h-4 w-4 mr-2" />
+          {sendTestEmail.isPending ? 'Sending…' : 'Send Test Email'}
+        </Button>
+        <Button variant="outline" onClick={handleTestConnection} disabled={testingConnection}>
+          <Plug className="h-4 w-4 mr-2" />
+          {testingConnection ? 'Checking…' : 'Check Connection'}
+        </Button>
+        <Button variant="ghost" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground py-4">Loading delivery log…</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No emails sent yet.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {deliveries.map(delivery => {
+            const status = STATUS_STYLES[delivery.status];
+            const StatusIcon = status.icon;
+
+            return (
+              <div key={delivery.id} className="flex items-start justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className={status.className}>
+                      <StatusIcon className="h-3 w-3 mr-1" />
+                      {status.label}
+                    </Badge>
+                    <span className="font-medium truncate">{delivery.subject}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    To {delivery.to} · {delivery.type.replace(/_/g, ' ')} · {delivery.provider} ·{' '}
+                    {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {delivery.providerMessageId && <>Message ID <code>{delivery.providerMessageId}</code> · </>}
+                    {delivery.retryCount} {delivery.retryCount === 1 ? 'retry' : 'retries'}
+                  </p>
+                  {delivery.status === 'failed' && delivery.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400 break-words">{delivery.lastError}</p>
+                  )}
+                </div>
+                {delivery.status === 'failed' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => retryDelivery.mutate({ userId, deliveryId: delivery.id })}
+                    disabled={retryDelivery.isPending}
+                  >
+                    <RefreshCw className="h-3 w-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailDeliveryLog;
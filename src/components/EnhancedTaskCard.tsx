@@ -21,10 +21,14 @@ import {
   Circle,
   PlayCircle,
   PauseCircle,
+  XCircle,
   AlertTriangle
 } from 'lucide-react';
 import { formatDistanceToNow, isAfter, isBefore, addDays } from 'date-fns';
 import TaskStatusDropdown from './TaskStatusDropdown';
+import BlockedBadge from './BlockedBadge';
+import EstimateBadge from './EstimateBadge';
+import { getEstimateStatus } from '../utils/estimates';
 
 interface EnhancedTaskCardProps {
   task: Task;
@@ -39,8 +43,11 @@ const EnhancedTaskCard: React.FC<EnhancedTaskCardProps> = ({
   showProject = false,
   onTaskClick
 }) => {
-  const { updateTask, deleteTask, duplicateTask, state } = useTask();
+  const { updateTask, deleteTask, duplicateTask, state, getTaskBlockers } = useTask();
   const [showActions, setShowActions] = useState(false);
+  const blockers = getTaskBlockers(task);
+  const estimateStatus = getEstimateStatus(task);
+  const isOffEstimate = estimateStatus === 'over' || estimateStatus === 'under';
 
   // Get priority configuration
   const priorityConfig = TASK_PRIORITIES[task.priority || 'medium'];
@@ -90,6 +97,8 @@ const EnhancedTaskCard: React.FC<EnhancedTaskCardProps> = ({
         return <PlayCircle className="h-4 w-4 text-yellow-500" />;
       case 'done':
         return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+      case 'cancelled':
+        return <XCircle className="h-4 w-4 text-gray-400" />;
       default:
         return <Circle className="h-4 w-4" />;
     }
@@ -135,6 +144,7 @@ const EnhancedTaskCard: React.FC<EnhancedTaskCardProps> = ({
               </div>
 
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <BlockedBadge blockers={blockers} className="text-xs px-1 py-0" />
                 {task.priority && (
                   <Badge
                     variant="secondary"
@@ -204,6 +214,14 @@ const EnhancedTaskCard: React.FC<EnhancedTaskCardProps> = ({
           )}
         </div>
 
+        {/* Dependencies and tracked time against the estimate */}
+        {(blockers.length > 0 || isOffEstimate) && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            <BlockedBadge blockers={blockers} className="text-xs" />
+            <EstimateBadge task={task} className="text-xs" />
+          </div>
+        )}
+
         {/* Description */}
         {task.description && (
           <p className="text-sm text-muted-foreground line-clamp-2 mb-3">
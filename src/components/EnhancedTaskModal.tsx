@@ -21,6 +21,7 @@ import {
   GitBranch,
   MessageSquare,
   Paperclip,
+  History,
   Save,
   X
 } from 'lucide-react';
@@ -31,7 +32,10 @@ import TaskDependencyManager from './TaskDependencyManager';
 import FileAttachmentManager from './FileAttachmentManager';
 import TimeTracker from './TimeTracker';
 import TaskComments from './TaskComments';
+import TaskHistory from './TaskHistory';
+import RecurrenceEditor from './RecurrenceEditor';
 import { FileMetadata, fileUploadService } from '../services/fileUploadService';
+import { formatTaskReference } from '../utils/markdown';
 
 interface EnhancedTaskModalProps {
   task: Task | null;
@@ -42,6 +46,8 @@ interface EnhancedTaskModalProps {
   workspaceMembers?: Array<{ id: string; name: string; email: string }>;
   workspaceId: string;
   userId: string;
+  initialTab?: string; // Tab to open on, e.g. 'comments' for a comment link
+  focusCommentId?: string;
 }
 
 const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
@@ -52,7 +58,9 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
   allTasks,
   workspaceMembers = [],
   workspaceId,
-  userId
+  userId,
+  initialTab,
+  focusCommentId
 }) => {
   const [editedTask, setEditedTask] = useState<Task | null>(null);
   const [activeTab, setActiveTab] = useState('details');
@@ -61,10 +69,11 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
   React.useEffect(() => {
     if (task) {
       setEditedTask({ ...task });
+      setActiveTab(initialTab || 'details');
       // Load attachments for the task
       loadTaskAttachments(task.id);
     }
-  }, [task]);
+  }, [task, initialTab]);
 
   const loadTaskAttachments = async (taskId: string) => {
     try {
@@ -130,6 +139,11 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
               </DialogDescription>
             </div>
             <div className="flex items-center gap-2 ml-4">
+              {editedTask.number && (
+                <Badge variant="outline" className="font-mono" title="Reference this task in comments">
+                  #{formatTaskReference(editedTask.number)}
+                </Badge>
+              )}
               <Badge className={getStatusColor(editedTask.status)}>
                 {editedTask.status}
               </Badge>
@@ -144,7 +158,7 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="details" className="flex items-center gap-1">
               <FileText className="h-4 w-4" />
               Details
@@ -169,6 +183,10 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
               <Paperclip className="h-4 w-4" />
               Files
             </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-1">
+              <History className="h-4 w-4" />
+              History
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="details" className="space-y-6 mt-6">
@@ -302,16 +320,14 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
                   </div>
                   <div>
                     <Label htmlFor="actual-hours">Actual Hours</Label>
+                    {/* Rolled up from tracked time, subtasks included */}
                     <Input
                       id="actual-hours"
-                      type="number"
-                      min="0"
-                      step="0.5"
                       value={editedTask.actualHours || ''}
-                      onChange={(e) => updateTask({ 
-                        actualHours: e.target.value ? parseFloat(e.target.value) : undefined 
-                      })}
                       placeholder="0"
+                      title="Tracked with the timer below"
+                      readOnly
+                      disabled
                     />
                   </div>
                 </div>
@@ -331,6 +347,12 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
                 placeholder="Enter tags separated by commas"
               />
             </div>
+
+            <RecurrenceEditor
+              value={editedTask.recurrence}
+              onChange={(recurrence) => updateTask({ recurrence })}
+              anchorDate={editedTask.dueDate}
+            />
           </TabsContent>
 
           <TabsContent value="subtasks" className="mt-6">
@@ -353,6 +375,9 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
             <TaskComments
               taskId={task.id}
               taskTitle={task.title}
+              workspaceId={workspaceId}
+              workspaceMembers={workspaceMembers}
+              focusCommentId={focusCommentId}
             />
           </TabsContent>
 
@@ -374,6 +399,10 @@ const EnhancedTaskModal: React.FC<EnhancedTaskModalProps> = ({
               showUploadArea={true}
             />
           </TabsContent>
+
+          <TabsContent value="history" className="mt-6">
+            <TaskHistory taskId={task.id} />
+          </TabsContent>
         </Tabs>
 
         <Separator />
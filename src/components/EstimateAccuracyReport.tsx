@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Timer } from 'lucide-react';
+import { Page, Task } from '../types';
+import { WorkspaceMember } from '../types/workspace';
+import {
+  ESTIMATE_TOLERANCE,
+  EstimateAccuracy,
+  EstimatePeriod,
+  buildEstimateReport,
+  formatTaskHours,
+  formatVariance,
+  getAccuracyRate,
+  getReportPeriods
+} from '../utils/estimates';
+
+interface EstimateAccuracyReportProps {
+  tasks: Task[];
+  pages: Page[];
+  members: WorkspaceMember[];
+}
+
+type GroupBy = 'member' | 'page';
+
+const PERIOD_COUNTS: Record<EstimatePeriod, number> = { week: 8, month: 6 };
+
+// Red when more time went in than estimated, blue when less
+const getVarianceClass = (accuracy: EstimateAccuracy): string => {
+  const ratio = accuracy.actualHours / accuracy.estimatedHours;
+  if (ratio > 1 + ESTIMATE_TOLERANCE) return 'text-red-600 dark:text-red-400';
+  if (ratio < 1 - ESTIMATE_TOLERANCE) return 'text-blue-600 dark:text-blue-400';
+  return 'text-green-600 dark:text-green-400';
+};
+
+// Estimated against tracked time of completed tasks, per member or page and period
+const EstimateAccuracyReport: React.FC<EstimateAccuracyReportProps> = ({ tasks, pages, members }) => {
+  const [groupBy, setGroupBy] = useState<GroupBy>('member');
+  const [period, setPeriod] = useState<EstimatePeriod>('week');
+
+  const periods = getReportPeriods(period, PERIOD_COUNTS[period]);
+  const rows = buildEstimateReport(
+    tasks,
+    task => (groupBy === 'member' ? task.assignedTo : task.pageId),
+    period,
+    periods
+  );
+
+  const getRowName = (key: string) => {
+    if (groupBy === 'page') return pages.find(page => page.id === key)?.title || 'Deleted page';
+    const member = members.find(m => m.userId === key);
+    return member ? member.fullName || member.displayName || member.email : 'Former member';
+  };
+
+  const formatPeriod = (start: string) =>
+    format(new Date(`${start}T00:00:00`), period === 'week' ? 'MMM d' : 'MMM yyyy');
+
+  return (
+    <Card className="card-modern">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Estimate Accuracy
+          </CardTitle>
+          <CardDescription>
+            Tracked time against the estimate for completed tasks, by when they were completed
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+            <TabsList>
+              <TabsTrigger value="member">By member</TabsTrigger>
+              <TabsTrigger value="page">By page</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Select value={period} onValueChange={(value) => setPeriod(value as EstimatePeriod)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="week">Last 8 weeks</SelectItem>
+              <SelectItem value="month">Last 6 months</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Timer className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No completed tasks with an estimate and tracked time in this period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[160px]">{groupBy === 'member' ? 'Assignee' : 'Page'}</TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="text-right">Estimated</TableHead>
+                  <TableHead className="text-right">Tracked</TableHead>
+                  <TableHead className="text-right">On target</TableHead>
+                  {periods.map(start => (
+                    <TableHead key={start} className="text-center whitespace-nowrap">{formatPeriod(start)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.key}>
+                    <TableCell className="font-medium">{getRowName(row.key)}</TableCell>
+                    <TableCell className="text-right">{row.total.tasks}</TableCell>
+                    <TableCell className="text-right">{formatTaskHours(row.total.estimatedHours)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatTaskHours(row.total.actualHours)}
+                      <span className={`ml-1 text-xs ${getVarianceClass(row.total)}`}>
+                        {formatVariance(row.total.actualHours, row.total.estimatedHours)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant="outline">{getAccuracyRate(row.total)}%</Badge>
+                    </TableCell>
+                    {row.periods.map((accuracy, index) => (
+                      <TableCell key={periods[index]} className="text-center text-xs">
+                        {accuracy.tasks === 0 ? (
+                          <span className="text-muted-foreground">–</span>
+                        ) : (
+                          <span
+                            className={getVarianceClass(accuracy)}
+                            title={`${accuracy.tasks} tasks, ${formatTaskHours(accuracy.actualHours)} tracked of ${formatTaskHours(accuracy.estimatedHours)}`}
+                          >
+                            {formatVariance(accuracy.actualHours, accuracy.estimatedHours)}
+                          </span>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EstimateAccuracyReport;
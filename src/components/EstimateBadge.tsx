@@ -0,0 +1,41 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { Task } from '../types';
+import { formatTaskHours, formatVariance, getEstimateStatus } from '../utils/estimates';
+
+interface EstimateBadgeProps {
+  task: Task;
+  className?: string;
+}
+
+// Shown on tasks whose tracked time is over, or ended up under, the estimate
+const EstimateBadge: React.FC<EstimateBadgeProps> = ({ task, className = '' }) => {
+  const status = getEstimateStatus(task);
+  if (status !== 'over' && status !== 'under') return null;
+
+  const variance = formatVariance(task.actualHours!, task.estimatedHours!);
+  const title = `${formatTaskHours(task.actualHours!)} tracked of ${formatTaskHours(task.estimatedHours!)} estimated`;
+
+  return status === 'over' ? (
+    <Badge
+      variant="outline"
+      className={`border-red-300 text-red-700 dark:border-red-800 dark:text-red-400 ${className}`}
+      title={title}
+    >
+      <TrendingUp className="h-3 w-3 mr-1" />
+      {variance}
+    </Badge>
+  ) : (
+    <Badge
+      variant="outline"
+      className={`border-blue-300 text-blue-700 dark:border-blue-800 dark:text-blue-400 ${className}`}
+      title={title}
+    >
+      <TrendingDown className="h-3 w-3 mr-1" />
+      {variance}
+    </Badge>
+  );
+};
+
+export default EstimateBadge;
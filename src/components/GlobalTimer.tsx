@@ -0,0 +1,74 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Square, Timer } from 'lucide-react';
+import { useTimer } from '../hooks/useTimer';
+import { formatElapsed } from '../utils/timesheets';
+
+// The running timer in the header, and the question about idle time
+const GlobalTimer: React.FC = () => {
+  const { activeTimer, elapsedSeconds, idleSince, busy, stopTimer, resolveIdleTime } = useTimer();
+
+  if (!activeTimer) return null;
+
+  const idleMinutes = idleSince ? Math.round((Date.now() - idleSince.getTime()) / 60000) : 0;
+
+  return (
+    <>
+      <div className="flex items-center gap-2 rounded-full border bg-muted/50 pl-3 pr-1 h-8">
+        <Timer className="h-4 w-4 text-orange-500 shrink-0" />
+        <span className="max-w-[160px] truncate text-sm" title={activeTimer.taskTitle}>
+          {activeTimer.taskTitle}
+        </span>
+        <span className="font-mono text-sm font-medium tabular-nums">
+          {formatElapsed(elapsedSeconds)}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 rounded-full text-destructive hover:text-destructive"
+          onClick={stopTimer}
+          disabled={busy}
+          title="Stop timer"
+        >
+          {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Square className="h-3 w-3" />}
+        </Button>
+      </div>
+
+      {/* Closing the dialog keeps the time, like doing nothing would */}
+      <Dialog open={!!idleSince} onOpenChange={(open) => !open && resolveIdleTime('keep')}>
+        <DialogContent className="max-w-md" onInteractOutside={(e) => e.preventDefault()}>
+          <DialogHeader>
+            <DialogTitle>You were away</DialogTitle>
+            <DialogDescription>
+              The timer on "{activeTimer.taskTitle}" kept running while you were idle
+              {idleSince && ` since ${format(idleSince, 'HH:mm')} (${idleMinutes} min)`}.
+              What should happen to that time?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="flex-col gap-2 sm:flex-col sm:space-x-0">
+            <Button className="btn-orange" onClick={() => resolveIdleTime('keep')} disabled={busy}>
+              Keep idle time
+            </Button>
+            <Button variant="outline" onClick={() => resolveIdleTime('split')} disabled={busy}>
+              Set aside to assign on the timesheet
+            </Button>
+            <Button variant="outline" onClick={() => resolveIdleTime('discard')} disabled={busy}>
+              Discard idle time and stop
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default GlobalTimer;
@@ -4,7 +4,6 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { toast } from 'sonner';
 import {
   Mail,
   Check,
@@ -16,162 +15,35 @@ import {
   UserPlus
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { useAuth } from '../contexts/SupabaseAuthContext';
-import { supabase } from '../lib/supabase';
-import { notificationService } from '../services/notificationService';
-
-interface WorkspaceInvitation {
-  id: string;
-  workspace_id: string;
-  workspace_name: string;
-  invited_by: string;
-  invitee_email: string;
-  role: 'member' | 'admin';
-  status: 'pending' | 'accepted' | 'declined';
-  created_at: string;
-  expires_at: string;
-  inviter_name?: string;
-}
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { describeRole } from '../utils/permissions';
 
 const InvitationManager: React.FC = () => {
-  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingInvitation, setProcessingInvitation] = useState<string | null>(null);
 
-  const { user } = useAuth();
+  const {
+    pendingInvitations: invitations,
+    acceptInvitation,
+    declineInvitation,
+    loadPendingInvitations
+  } = useSupabaseWorkspace();
 
-  // Load pending invitations for current user
+  // Reload pending invitations for current user
   const loadInvitations = async () => {
-    if (!user) {
-      console.log('InvitationManager: No user found');
-      return;
-    }
-
+    setLoading(true);
     try {
-      setLoading(true);
-      console.log('InvitationManager: Loading invitations for user:', user.email);
-
-      const { data, error } = await supabase
-        .from('workspace_invitations')
-        .select('*')
-        .eq('invitee_email', user.email)
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('InvitationManager: Database error:', error);
-        throw error;
-      }
-
-      console.log('InvitationManager: Raw data from database:', data);
-
-      // Map the data to match the interface
-      const invitationsWithNames = data?.map(inv => ({
-        id: inv.id,
-        workspace_id: inv.workspace_id,
-        workspace_name: inv.workspace_name,
-        invited_by: inv.invited_by,
-        invitee_email: inv.invitee_email,
-        role: inv.role,
-        status: inv.status,
-        created_at: inv.created_at,
-        expires_at: inv.expires_at,
-        inviter_name: inv.invited_by_name
-      })) || [];
-
-      console.log('InvitationManager: Processed invitations:', invitationsWithNames);
-      setInvitations(invitationsWithNames);
-    } catch (error) {
-      console.error('InvitationManager: Error loading invitations:', error);
-      toast.error('Failed to load invitations');
+      await loadPendingInvitations();
     } finally {
       setLoading(false);
     }
   };
 
-  // Accept invitation
-  const acceptInvitation = async (invitation: WorkspaceInvitation) => {
-    if (!user) {
-      toast.error('You must be logged in to accept invitations');
-      return;
-    }
-
-    try {
-      setProcessingInvitation(invitation.id);
-      console.log('Accepting invitation:', {
-        invitationId: invitation.id,
-        userId: user.id,
-        userEmail: user.email,
-        invitedEmail: invitation.invitee_email
-      });
-
-      // Check if the user email matches the invitation email
-      if (user.email !== invitation.invitee_email) {
-        throw new Error(`This invitation is for ${invitation.invitee_email}, but you are logged in as ${user.email}`);
-      }
-
-      // Call the fixed accept_workspace_invitation function
-      console.log('Calling accept_workspace_invitation function...');
-
-      const { data, error } = await supabase.rpc('accept_workspace_invitation', {
-        invitation_id: invitation.id,
-        accepting_user_id: user.id
-      });
-
-      console.log('Function response:', { data, error });
-
-      if (error) {
-        console.error('Database function error:', error);
-        throw new Error(error.message || 'Database function failed');
-      }
-
-      // Check if the function returned false (invitation not found/invalid)
-      if (data === false) {
-        throw new Error('Invitation not found, expired, or already used');
-      }
-
-      console.log('Invitation accepted successfully via database function');
-
-      toast.success(`Successfully joined ${invitation.workspace_name}!`);
-
-      // Reload invitations and refresh the page to show new workspace
-      await loadInvitations();
-
-      // Refresh the page to reload workspaces
-      setTimeout(() => {
-        window.location.reload();
-      }, 1000);
-
-    } catch (error) {
-      console.error('Error accepting invitation:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      toast.error(`Failed to accept invitation: ${errorMessage}`);
-    } finally {
-      setProcessingInvitation(null);
-    }
-  };
-
-  // Decline invitation
-  const declineInvitation = async (invitation: WorkspaceInvitation) => {
-    if (!user) return;
-
+  // Accept or decline through the workspace context
+  const respondToInvitation = async (invitationId: string, accept: boolean) => {
+    setProcessingInvitation(invitationId);
     try {
-      setProcessingInvitation(invitation.id);
-
-      // Call the decline_workspace_invitation function
-      const { error } = await supabase.rpc('decline_workspace_invitation', {
-        invitation_id: invitation.id,
-        declining_user_id: user.id
-      });
-
-      if (error) throw error;
-
-      toast.success('Invitation declined');
-      await loadInvitations();
-
-    } catch (error) {
-      console.error('Error declining invitation:', error);
-      toast.error('Failed to decline invitation');
+      await (accept ? acceptInvitation(invitationId) : declineInvitation(invitationId));
     } finally {
       setProcessingInvitation(null);
     }
@@ -185,7 +57,7 @@ const InvitationManager: React.FC = () => {
   // Load invitations when component mounts
   useEffect(() => {
     loadInvitations();
-  }, [user]);
+  }, []);
 
   if (loading) {
     return (
@@ -235,7 +107,7 @@ const InvitationManager: React.FC = () => {
           <ScrollArea className="max-h-96">
             <div className="space-y-4">
               {invitations.map((invitation, index) => {
-                const expired = isExpired(invitation.expires_at);
+                const expired = isExpired(invitation.expiresAt);
                 const isProcessing = processingInvitation === invitation.id;
 
                 return (
@@ -245,21 +117,22 @@ const InvitationManager: React.FC = () => {
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-2">
                             <Building2 className="h-4 w-4 text-muted-foreground" />
-                            <h4 className="font-medium">{invitation.workspace_name}</h4>
+                            <h4 className="font-medium">{invitation.workspaceName}</h4>
                             <Badge variant={expired ? 'destructive' : 'default'} className="text-xs">
                               {invitation.role}
                             </Badge>
                           </div>
 
                           <div className="space-y-1 text-sm text-muted-foreground">
+                            <p className="text-xs">{describeRole(invitation.role)}</p>
                             <div className="flex items-center gap-2">
                               <Users className="h-3 w-3" />
-                              <span>Invited by {invitation.inviter_name}</span>
+                              <span>Invited by {invitation.invitedByName}</span>
                             </div>
                             <div className="flex items-center gap-2">
                               <Calendar className="h-3 w-3" />
                               <span>
-                                {formatDistanceToNow(new Date(invitation.created_at), { addSuffix: true })}
+                                {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
                               </span>
                             </div>
                             {expired && (
@@ -275,7 +148,7 @@ const InvitationManager: React.FC = () => {
                           <div className="flex gap-2 ml-4">
                             <Button
                               size="sm"
-                              onClick={() => acceptInvitation(invitation)}
+                              onClick={() => respondToInvitation(invitation.id, true)}
                               disabled={isProcessing}
                               className="bg-green-600 hover:bg-green-700"
                             >
@@ -285,7 +158,7 @@ const InvitationManager: React.FC = () => {
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => declineInvitation(invitation)}
+                              onClick={() => respondToInvitation(invitation.id, false)}
                               disabled={isProcessing}
                             >
                               <X className="h-3 w-3 mr-1" />
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, UserCheck, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { ROLE_LABELS } from '../utils/permissions';
+import { UserRole } from '../types/workspace';
+
+const JOINABLE_ROLES: UserRole[] = ['admin', 'member', 'guest'];
+
+// Pending join requests for the current workspace, for owners and admins
+const JoinRequestsCard: React.FC = () => {
+  const { joinRequests, approveJoinRequest, rejectJoinRequest } = useSupabaseWorkspace();
+  const [roleOverrides, setRoleOverrides] = useState<Record<string, UserRole>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  if (joinRequests.length === 0) return null;
+
+  const review = async (requestId: string, approve: boolean) => {
+    setProcessingId(requestId);
+    try {
+      if (approve) {
+        await approveJoinRequest(requestId, roleOverrides[requestId]);
+      } else {
+        await rejectJoinRequest(requestId);
+      }
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Join Requests ({joinRequests.length})
+        </CardTitle>
+        <CardDescription>
+          People who used the invite link and are waiting for approval
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {joinRequests.map(request => {
+          const isProcessing = processingId === request.id;
+
+          return (
+            <div key={request.id} className="flex flex-col gap-3 p-4 border rounded-lg md:flex-row md:items-center md:justify-between">
+              <div className="flex items-center gap-3">
+                <Avatar className="h-10 w-10">
+                  <AvatarFallback className="bg-gradient-to-br from-orange-500 to-orange-600 text-white">
+                    {request.displayName.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div>
+                  <div className="font-medium">{request.displayName}</div>
+                  <div className="text-sm text-muted-foreground">{request.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Requested {formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={roleOverrides[request.id] || request.role}
+                  onValueChange={(value) => setRoleOverrides({ ...roleOverrides, [request.id]: value as UserRole })}
+                >
+                  <SelectTrigger className="h-8 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {JOINABLE_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                  disabled={isProcessing}
+                  onClick={() => review(request.id, true)}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isProcessing}
+                  onClick={() => review(request.id, false)}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JoinRequestsCard;
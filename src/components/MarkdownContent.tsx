@@ -0,0 +1,110 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { BlockNode, InlineNode, formatTaskReference, parseMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Current name for a mentioned user; the name stored in the comment is the fallback
+  resolveMention?: (userId: string) => string | undefined;
+  // Task a #TASK-123 reference points to, if it exists in the workspace
+  resolveTaskRef?: (number: number) => { id: string; title: string } | undefined;
+}
+
+// Renders comment Markdown (see utils/markdown) as React elements
+const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  className,
+  resolveMention,
+  resolveTaskRef
+}) => {
+  const renderInline = (nodes: InlineNode[]): React.ReactNode =>
+    nodes.map((node, index) => {
+      switch (node.type) {
+        case 'text':
+          return <React.Fragment key={index}>{node.text}</React.Fragment>;
+        case 'code':
+          return (
+            <code key={index} className="rounded bg-background px-1 py-0.5 font-mono text-xs">
+              {node.text}
+            </code>
+          );
+        case 'strong':
+          return <strong key={index}>{renderInline(node.children)}</strong>;
+        case 'em':
+          return <em key={index}>{renderInline(node.children)}</em>;
+        case 'link': {
+          const internal = node.href.startsWith('/');
+          return internal ? (
+            <Link key={index} to={node.href} className="text-primary underline underline-offset-2">
+              {renderInline(node.children)}
+            </Link>
+          ) : (
+            <a
+              key={index}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="text-primary underline underline-offset-2 break-all"
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+        }
+        case 'mention':
+          return (
+            <span key={index} className="inline-flex items-center rounded bg-primary/10 px-1 font-medium text-primary">
+              @{resolveMention?.(node.userId) || node.name}
+            </span>
+          );
+        case 'taskRef': {
+          const label = `#${formatTaskReference(node.number)}`;
+          const task = resolveTaskRef?.(node.number);
+          return task ? (
+            <Link
+              key={index}
+              to={`/tasker?task=${task.id}`}
+              title={task.title}
+              className="rounded bg-muted-foreground/10 px-1 font-mono text-xs font-medium text-primary hover:underline"
+            >
+              {label}
+            </Link>
+          ) : (
+            <span key={index} className="font-mono text-xs text-muted-foreground">{label}</span>
+          );
+        }
+      }
+    });
+
+  const renderBlock = (block: BlockNode, index: number) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={index} className="whitespace-pre-wrap">{renderInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="overflow-x-auto rounded-md bg-background p-3 font-mono text-xs">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={index} className={cn('space-y-0.5 pl-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item)}</li>
+            ))}
+          </ListTag>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2 text-sm break-words', className)}>
+      {parseMarkdown(content).map(renderBlock)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
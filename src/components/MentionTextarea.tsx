@@ -0,0 +1,132 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { MentionMember, filterMentionMembers, getMentionQuery, insertMention } from '../utils/mentions';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: MentionMember[];
+  placeholder?: string;
+  className?: string;
+}
+
+// Textarea that suggests workspace members after typing @
+const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(({
+  value,
+  onChange,
+  members,
+  placeholder,
+  className
+}, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+  const suggestions = mention ? filterMentionMembers(members, mention.query) : [];
+  const isOpen = suggestions.length > 0;
+
+  const updateMention = (text: string, caret: number) => {
+    const next = getMentionQuery(text, caret);
+    setMention(next);
+    if (next?.query !== mention?.query) setActiveIndex(0);
+  };
+
+  const selectMember = (member: MentionMember) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const result = insertMention(value, mention.start, textarea.selectionStart, member);
+    onChange(result.text);
+    setMention(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!isOpen) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setActiveIndex(index => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        selectMember(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        setMention(null);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        placeholder={placeholder}
+        className={className}
+      />
+
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute left-0 z-50 mt-1 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((member, index) => (
+            <button
+              key={member.id}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea so onBlur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectMember(member);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarFallback className="text-xs">{member.name.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="truncate font-medium">{member.name}</p>
+                {member.email && <p className="truncate text-xs text-muted-foreground">{member.email}</p>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+MentionTextarea.displayName = 'MentionTextarea';
+
+export default MentionTextarea;
@@ -15,6 +15,7 @@ import { useAuth } from '../contexts/SupabaseAuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import NotificationCenter from './NotificationCenter';
+import GlobalTimer from './GlobalTimer';
 import TimezoneDisplay from './TimezoneDisplay';
 import {
   Bell,
@@ -65,6 +66,7 @@ const ModernHeader: React.FC<ModernHeaderProps> = ({ onToggleSidebar }) => {
       case '/team': return 'Team Members';
       case '/analytics': return 'Analytics';
       case '/calendar': return 'Calendar';
+      case '/timesheet': return 'Timesheet';
       case '/add-page': return 'Add Website';
       case '/workspace-management': return 'Workspace Management';
       default: return 'EasTask';
@@ -86,6 +88,9 @@ const ModernHeader: React.FC<ModernHeaderProps> = ({ onToggleSidebar }) => {
 
         {/* Right side - Notifications, Theme Toggle, Workspace Status, Profile */}
         <div className="flex items-center gap-3">
+          {/* Running timer */}
+          <GlobalTimer />
+
           {/* Notifications */}
           <NotificationCenter />
 
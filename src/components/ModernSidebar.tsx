@@ -21,6 +21,7 @@ import {
   ChevronRight,
   ChevronLeft,
   Calendar,
+  Timer,
   Clock,
   Target,
   TrendingUp,
@@ -98,6 +99,13 @@ const ModernSidebar: React.FC<ModernSidebarProps> = ({ isCollapsed, onToggleColl
       current: location.pathname === '/calendar',
       badge: null
     },
+    {
+      name: 'Timesheet',
+      href: '/timesheet',
+      icon: Timer,
+      current: location.pathname === '/timesheet',
+      badge: null
+    },
     {
       name: 'Features',
       href: '/features',
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import {
@@ -8,40 +9,141 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Bell,
-  Check,
   CheckCheck,
-  Trash2,
-  Settings,
   User,
   MessageSquare,
   CheckSquare,
   UserPlus,
-  Mail,
   Archive,
-  X,
-  Filter
+  AlarmClock,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Inbox
 } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import { useNotifications, Notification } from '../contexts/NotificationContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { NotificationGroup, SNOOZE_PRESETS, getGroupTitle, groupNotifications } from '../utils/notificationGroups';
+import PendingInvitationsList from './PendingInvitationsList';
+
+const NOTIFICATION_TYPE_LABELS: Record<Notification['type'], string> = {
+  invitation: 'Invitations',
+  workspace_invitation: 'Workspace invitations',
+  task_assignment: 'Assignments',
+  task_update: 'Task updates',
+  task_comment: 'Comments',
+  task_status_change: 'Status changes',
+  task_reminder: 'Reminders',
+  mention: 'Mentions',
+  workspace_update: 'Workspace updates',
+  system: 'System'
+};
+
+const ALL = 'all';
+
+interface SnoozeMenuProps {
+  onSnooze: (until: Date) => void;
+}
+
+// Preset times plus a custom date and time
+const SnoozeMenu: React.FC<SnoozeMenuProps> = ({ onSnooze }) => {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+
+  const snooze = (until: Date) => {
+    onSnooze(until);
+    setOpen(false);
+    setCustom('');
+  };
+
+  const customDate = custom ? new Date(custom) : null;
+  const customValid = !!customDate && !isNaN(customDate.getTime()) && customDate.getTime() > Date.now();
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => e.stopPropagation()}
+          className="h-6 w-6 p-0"
+          title="Snooze"
+        >
+          <Clock className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-2" onClick={(e) => e.stopPropagation()}>
+        <p className="px-2 pb-1 text-xs font-medium text-muted-foreground">Snooze until</p>
+        {SNOOZE_PRESETS.map(preset => {
+          const until = preset.getTime(new Date());
+          return (
+            <Button
+              key={preset.label}
+              variant="ghost"
+              size="sm"
+              onClick={() => snooze(preset.getTime(new Date()))}
+              className="w-full justify-between text-xs"
+            >
+              {preset.label}
+              <span className="text-muted-foreground">{format(until, 'EEE HH:mm')}</span>
+            </Button>
+          );
+        })}
+        <Separator className="my-2" />
+        <div className="space-y-2 px-2">
+          <Input
+            type="datetime-local"
+            value={custom}
+            min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+            onChange={(e) => setCustom(e.target.value)}
+            className="h-8 text-xs"
+          />
+          <Button
+            size="sm"
+            className="w-full text-xs"
+            disabled={!customValid}
+            onClick={() => customDate && snooze(customDate)}
+          >
+            Snooze
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
 
 const NotificationCenter: React.FC = () => {
   const {
     notifications,
+    snoozedNotifications,
     unreadCount,
-    loading,
-    markAsRead,
+    markNotificationsAsRead,
     markAllAsRead,
-    deleteNotification
+    archiveNotifications,
+    snoozeNotifications
   } = useNotifications();
+  const { pendingInvitations, userWorkspaces } = useSupabaseWorkspace();
 
   const [isOpen, setIsOpen] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'read'>('all');
+  const [filter, setFilter] = useState<'all' | 'unread' | 'snoozed'>('all');
+  const [typeFilter, setTypeFilter] = useState<string>(ALL);
+  const [workspaceFilter, setWorkspaceFilter] = useState<string>(ALL);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
   const getNotificationIcon = (type: Notification['type']) => {
     switch (type) {
       case 'invitation':
+      case 'workspace_invitation':
         return <UserPlus className="h-4 w-4 text-purple-500" />;
       case 'task_assignment':
         return <CheckSquare className="h-4 w-4 text-blue-500" />;
@@ -51,6 +153,8 @@ const NotificationCenter: React.FC = () => {
         return <User className="h-4 w-4 text-orange-500" />;
       case 'mention':
         return <MessageSquare className="h-4 w-4 text-red-500" />;
+      case 'task_reminder':
+        return <AlarmClock className="h-4 w-4 text-amber-500" />;
       case 'system':
         return <Bell className="h-4 w-4 text-gray-500" />;
       default:
@@ -58,46 +162,99 @@ const NotificationCenter: React.FC = () => {
     }
   };
 
-  // Filter notifications based on current filter
-  const filteredNotifications = notifications.filter(notification => {
-    if (filter === 'unread') return !notification.read;
-    if (filter === 'read') return notification.read;
-    return true; // 'all'
-  });
+  const workspaceNames = useMemo(
+    () => new Map(userWorkspaces.map(workspace => [workspace.id, workspace.name])),
+    [userWorkspaces]
+  );
 
-  const handleNotificationClick = async (notification: Notification) => {
-    if (!notification.read) {
-      await markAsRead(notification.id);
-    }
+  // Only offer the types and workspaces that are actually in the inbox
+  const availableTypes = useMemo(
+    () => [...new Set([...notifications, ...snoozedNotifications].map(n => n.type))],
+    [notifications, snoozedNotifications]
+  );
+  const availableWorkspaceIds = useMemo(
+    () => [...new Set([...notifications, ...snoozedNotifications].map(n => n.workspace_id).filter(Boolean))],
+    [notifications, snoozedNotifications]
+  );
+
+  const filteredNotifications = useMemo(() => {
+    const source = filter === 'snoozed' ? snoozedNotifications : notifications;
+    return source.filter(notification => {
+      if (filter === 'unread' && notification.read) return false;
+      if (typeFilter !== ALL && notification.type !== typeFilter) return false;
+      if (workspaceFilter !== ALL && notification.workspace_id !== workspaceFilter) return false;
+      return true;
+    });
+  }, [filter, typeFilter, workspaceFilter, notifications, snoozedNotifications]);
+
+  const groups = useMemo(() => groupNotifications(filteredNotifications), [filteredNotifications]);
+
+  const getGroupIds = (group: NotificationGroup) => group.notifications.map(n => n.id);
+
+  const toggleGroup = (key: string, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const openNotification = async (notification: Notification, readIds: string[]) => {
+    await markNotificationsAsRead(readIds);
     if (notification.action_url) {
       window.location.href = notification.action_url;
     }
     setIsOpen(false);
   };
 
+  // Opening a group reads all of it and goes to the newest notification
+  const handleGroupClick = (group: NotificationGroup) => {
+    const unreadIds = group.notifications.filter(n => !n.read).map(n => n.id);
+    return openNotification(group.latest, unreadIds);
+  };
+
+  const handleNotificationClick = (notification: Notification, event: React.MouseEvent) => {
+    event.stopPropagation();
+    return openNotification(notification, notification.read ? [] : [notification.id]);
+  };
+
   const handleMarkAllAsRead = async () => {
     await markAllAsRead();
     setIsOpen(false);
   };
 
-  const handleArchiveNotification = async (notificationId: string, event: React.MouseEvent) => {
+  const handleArchiveGroup = async (group: NotificationGroup, event: React.MouseEvent) => {
     event.stopPropagation();
-    await deleteNotification(notificationId);
+    await archiveNotifications(getGroupIds(group));
   };
 
+  const handleUnsnoozeGroup = async (group: NotificationGroup, event: React.MouseEvent) => {
+    event.stopPropagation();
+    await snoozeNotifications(getGroupIds(group), null);
+  };
 
+  const getWorkspaceName = (notification: Notification) =>
+    (notification.workspace_id && workspaceNames.get(notification.workspace_id)) || notification.data?.workspace_name;
+
+  const emptyMessage =
+    filter === 'snoozed' ? 'Nothing is snoozed' :
+    typeFilter !== ALL || workspaceFilter !== ALL ? 'No notifications match these filters' :
+    filter === 'unread' ? 'No unread notifications' :
+    "You're all caught up";
 
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
         <Button variant="ghost" size="sm" className="relative">
           <Bell className="h-4 w-4" />
-          {unreadCount > 0 && (
+          {unreadCount + pendingInvitations.length > 0 && (
             <Badge 
               variant="destructive" 
               className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
             >
-              {unreadCount > 9 ? '9+' : unreadCount}
+              {unreadCount + pendingInvitations.length > 9 ? '9+' : unreadCount + pendingInvitations.length}
             </Badge>
           )}
         </Button>
@@ -141,101 +298,202 @@ const NotificationCenter: React.FC = () => {
               Unread ({unreadCount})
             </Button>
             <Button
-              variant={filter === 'read' ? 'default' : 'ghost'}
+              variant={filter === 'snoozed' ? 'default' : 'ghost'}
               size="sm"
-              onClick={() => setFilter('read')}
+              onClick={() => setFilter('snoozed')}
               className="text-xs h-7 px-3"
             >
-              Read ({notifications.length - unreadCount})
+              Snoozed ({snoozedNotifications.length})
             </Button>
           </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="All types" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {availableTypes.map(type => (
+                  <SelectItem key={type} value={type}>
+                    {NOTIFICATION_TYPE_LABELS[type] || type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={workspaceFilter} onValueChange={setWorkspaceFilter}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="All workspaces" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All workspaces</SelectItem>
+                {availableWorkspaceIds.map(workspaceId => (
+                  <SelectItem key={workspaceId} value={workspaceId}>
+                    {workspaceNames.get(workspaceId) || 'Other workspace'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
+        {pendingInvitations.length > 0 && filter !== 'snoozed' && (
+          <div className="p-4 border-b space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              Pending invitations ({pendingInvitations.length})
+            </p>
+            <PendingInvitationsList />
+          </div>
+        )}
+
         <ScrollArea className="h-96">
-          {filteredNotifications.length === 0 ? (
+          {groups.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-8 text-center">
-              <Bell className="h-8 w-8 text-muted-foreground mb-2" />
-              <p className="text-sm text-muted-foreground">
-                {filter === 'unread' ? 'No unread notifications' :
-                 filter === 'read' ? 'No read notifications' :
-                 'No notifications'}
-              </p>
+              {filter === 'all' && typeFilter === ALL && workspaceFilter === ALL ? (
+                <Inbox className="h-8 w-8 text-muted-foreground mb-2" />
+              ) : (
+                <Bell className="h-8 w-8 text-muted-foreground mb-2" />
+              )}
+              <p className="text-sm text-muted-foreground">{emptyMessage}</p>
             </div>
           ) : (
             <div className="divide-y">
-              {filteredNotifications.map((notification) => (
-                <div
-                  key={notification.id}
-                  className={`p-4 hover:bg-muted/50 cursor-pointer transition-colors ${
-                    !notification.read ? 'bg-blue-50/50' : ''
-                  }`}
-                  onClick={() => handleNotificationClick(notification)}
-                >
-                  <div className="flex items-start gap-3">
-                    <div className="flex-shrink-0 mt-0.5">
-                      {getNotificationIcon(notification.type)}
-                    </div>
+              {groups.map((group) => {
+                const { latest } = group;
+                const isGroup = group.notifications.length > 1;
+                const expanded = expandedGroups.has(group.key);
+                const workspaceName = getWorkspaceName(latest);
 
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <p className={`text-sm font-medium ${
-                            !notification.read ? 'text-foreground' : 'text-muted-foreground'
-                          }`}>
-                            {notification.title}
-                          </p>
-                          <p className="text-xs text-muted-foreground mt-1">
-                            {notification.message}
-                          </p>
-                          {notification.data?.workspace_name && (
-                            <p className="text-xs text-muted-foreground mt-1">
-                              in {notification.data.workspace_name}
-                            </p>
-                          )}
+                return (
+                  <div key={group.key} className="group">
+                    <div
+                      className={`p-4 hover:bg-muted/50 cursor-pointer transition-colors ${
+                        group.unreadCount > 0 ? 'bg-blue-50/50' : ''
+                      }`}
+                      onClick={() => handleGroupClick(group)}
+                    >
+                      <div className="flex items-start gap-3">
+                        <div className="flex-shrink-0 mt-0.5">
+                          {getNotificationIcon(latest.type)}
                         </div>
 
-                        <div className="flex items-center gap-1 ml-2">
-                          {!notification.read && (
-                            <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                          )}
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1 min-w-0">
+                              <p className={`text-sm font-medium ${
+                                group.unreadCount > 0 ? 'text-foreground' : 'text-muted-foreground'
+                              }`}>
+                                {getGroupTitle(group)}
+                              </p>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {latest.message}
+                              </p>
+                              {workspaceName && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  in {workspaceName}
+                                </p>
+                              )}
+                            </div>
 
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={(e) => handleArchiveNotification(notification.id, e)}
-                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                          >
-                            <Archive className="h-3 w-3" />
-                          </Button>
+                            <div className="flex items-center gap-1 ml-2">
+                              {group.unreadCount > 0 && (
+                                isGroup ? (
+                                  <Badge className="h-5 min-w-5 px-1.5 text-xs">{group.unreadCount}</Badge>
+                                ) : (
+                                  <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                                )
+                              )}
+
+                              {filter === 'snoozed' ? (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => handleUnsnoozeGroup(group, e)}
+                                  className="h-6 w-6 p-0"
+                                  title="Move back to inbox"
+                                >
+                                  <Inbox className="h-3 w-3" />
+                                </Button>
+                              ) : (
+                                <SnoozeMenu onSnooze={(until) => snoozeNotifications(getGroupIds(group), until)} />
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => handleArchiveGroup(group, e)}
+                                className="h-6 w-6 p-0"
+                                title="Archive"
+                              >
+                                <Archive className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center justify-between mt-2">
+                            <p className="text-xs text-muted-foreground">
+                              {filter === 'snoozed' && latest.snoozed_until
+                                ? `Snoozed until ${format(new Date(latest.snoozed_until), 'EEE d MMM, HH:mm')}`
+                                : formatDistanceToNow(new Date(latest.created_at), { addSuffix: true })}
+                            </p>
+                            {isGroup && (
+                              <button
+                                type="button"
+                                onClick={(e) => toggleGroup(group.key, e)}
+                                className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+                              >
+                                {expanded ? <ChevronDown className="h-3 w-3 mr-1" /> : <ChevronRight className="h-3 w-3 mr-1" />}
+                                {expanded ? 'Hide' : 'Show'} {group.notifications.length}
+                              </button>
+                            )}
+                          </div>
                         </div>
                       </div>
-                      
-                      <p className="text-xs text-muted-foreground mt-2">
-                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
-                      </p>
                     </div>
+
+                    {isGroup && expanded && (
+                      <div className="border-t bg-muted/30">
+                        {group.notifications.map(notification => (
+                          <div
+                            key={notification.id}
+                            className="flex items-start gap-2 py-2 pl-11 pr-4 hover:bg-muted/50 cursor-pointer"
+                            onClick={(e) => handleNotificationClick(notification, e)}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <p className={`text-xs ${!notification.read ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
+                                {notification.message}
+                              </p>
+                              <p className="text-xs text-muted-foreground mt-0.5">
+                                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                              </p>
+                            </div>
+                            {!notification.read && (
+                              <div className="w-2 h-2 mt-1 bg-blue-500 rounded-full flex-shrink-0"></div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </ScrollArea>
 
-        {notifications.length > 0 && (
+        {filteredNotifications.length > 0 && (
           <>
             <Separator />
             <div className="p-2">
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => {
-                  // Clear all notifications
-                  notifications.forEach(n => deleteNotification(n.id));
-                }}
+                onClick={() => archiveNotifications(filteredNotifications.map(n => n.id))}
                 className="w-full text-xs text-muted-foreground"
               >
-                <Trash2 className="h-3 w-3 mr-1" />
-                Clear all notifications
+                <Archive className="h-3 w-3 mr-1" />
+                {typeFilter !== ALL || workspaceFilter !== ALL || filter !== 'all'
+                  ? `Archive these ${filteredNotifications.length}`
+                  : 'Archive all'}
               </Button>
             </div>
           </>
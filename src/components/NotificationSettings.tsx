@@ -1,241 +1,109 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Separator } from '@/components/ui/separator';
-import { toast } from 'sonner';
-import { Bell, Mail, MessageSquare, CheckSquare, Users, Settings } from 'lucide-react';
-
-interface NotificationPreferences {
-  emailNotifications: boolean;
-  taskAssignments: boolean;
-  taskComments: boolean;
-  taskStatusChanges: boolean;
-  workspaceUpdates: boolean;
-  memberActivity: boolean;
-  digestEmails: boolean;
-  digestFrequency: 'daily' | 'weekly' | 'never';
-}
+import { Bell, Settings } from 'lucide-react';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useNotificationPreferences, useSaveNotificationPreferences } from '../hooks/useNotificationQueries';
+import { NotificationChannel, NotificationEvent, NotificationPreferences } from '../types';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS } from '../utils/notificationPreferences';
 
 interface NotificationSettingsProps {
-  workspaceId?: string;
-  isGlobal?: boolean;
+  workspaceId?: string; // Defaults to the current workspace
 }
 
-const NotificationSettings: React.FC<NotificationSettingsProps> = ({ 
-  workspaceId, 
-  isGlobal = false 
-}) => {
-  const [preferences, setPreferences] = useState<NotificationPreferences>({
-    emailNotifications: true,
-    taskAssignments: true,
-    taskComments: true,
-    taskStatusChanges: true,
-    workspaceUpdates: true,
-    memberActivity: false,
-    digestEmails: true,
-    digestFrequency: 'daily'
-  });
+const CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ workspaceId }) => {
+  const { user } = useAuth();
+  const { currentWorkspace } = useSupabaseWorkspace();
+  const targetWorkspaceId = workspaceId || currentWorkspace?.id || '';
+  const { data: savedPreferences, isLoading } = useNotificationPreferences(user?.id || '', targetWorkspaceId);
+  const savePreferences = useSaveNotificationPreferences();
 
-  const [saving, setSaving] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
 
-  const handleToggle = (key: keyof NotificationPreferences, value: boolean) => {
-    setPreferences(prev => ({
+  useEffect(() => {
+    if (savedPreferences) setPreferences(savedPreferences);
+  }, [savedPreferences]);
+
+  if (!user || !targetWorkspaceId) return null;
+
+  const handleToggle = (event: NotificationEvent, channel: NotificationChannel, value: boolean) => {
+    setPreferences(prev => prev && ({
       ...prev,
-      [key]: value
+      [event]: { ...prev[event], [channel]: value }
     }));
   };
 
-  const handleSave = async () => {
-    setSaving(true);
-    try {
-      // In a real implementation, save to Supabase
-      // await supabase.from('user_notification_preferences').upsert({
-      //   user_id: user.id,
-      //   workspace_id: workspaceId,
-      //   preferences: preferences
-      // });
-
-      // Simulate save
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      toast.success('Notification preferences saved!');
-    } catch (error) {
-      toast.error('Failed to save preferences');
-    } finally {
-      setSaving(false);
-    }
+  const handleSave = () => {
+    if (!preferences) return;
+    savePreferences.mutate({ userId: user.id, workspaceId: targetWorkspaceId, preferences });
   };
 
+  const hasChanges = !!preferences && JSON.stringify(preferences) !== JSON.stringify(savedPreferences);
+
   return (
-    <Card className="w-full max-w-2xl">
+    <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Bell className="h-5 w-5" />
-          {isGlobal ? 'Global Notification Settings' : 'Workspace Notification Settings'}
+          Workspace Notifications
         </CardTitle>
         <CardDescription>
-          {isGlobal 
-            ? 'Configure your default notification preferences for all workspaces'
-            : 'Configure notification preferences for this workspace'
-          }
+          Choose how you hear about activity in {!workspaceId && currentWorkspace ? currentWorkspace.name : 'this workspace'}
         </CardDescription>
       </CardHeader>
-      
-      <CardContent className="space-y-6">
-        {/* Email Notifications */}
-        <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Mail className="h-4 w-4 text-muted-foreground" />
-              <Label htmlFor="email-notifications" className="text-base font-medium">
-                Email Notifications
-              </Label>
-            </div>
-            <Switch
-              id="email-notifications"
-              checked={preferences.emailNotifications}
-              onCheckedChange={(checked) => handleToggle('emailNotifications', checked)}
-            />
-          </div>
-          <p className="text-sm text-muted-foreground ml-6">
-            Receive email notifications for important updates
-          </p>
-        </div>
-
-        <Separator />
 
-        {/* Task Notifications */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium flex items-center gap-2">
-            <CheckSquare className="h-4 w-4" />
-            Task Notifications
-          </h3>
-          
-          <div className="space-y-3 ml-6">
-            <div className="flex items-center justify-between">
-              <Label htmlFor="task-assignments" className="text-sm">
-                Task assignments
-              </Label>
-              <Switch
-                id="task-assignments"
-                checked={preferences.taskAssignments}
-                onCheckedChange={(checked) => handleToggle('taskAssignments', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="task-comments" className="text-sm">
-                Task comments and mentions
-              </Label>
-              <Switch
-                id="task-comments"
-                checked={preferences.taskComments}
-                onCheckedChange={(checked) => handleToggle('taskComments', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="task-status" className="text-sm">
-                Task status changes
-              </Label>
-              <Switch
-                id="task-status"
-                checked={preferences.taskStatusChanges}
-                onCheckedChange={(checked) => handleToggle('taskStatusChanges', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-          </div>
-        </div>
-
-        <Separator />
-
-        {/* Workspace Notifications */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium flex items-center gap-2">
-            <Users className="h-4 w-4" />
-            Workspace Notifications
-          </h3>
-          
-          <div className="space-y-3 ml-6">
-            <div className="flex items-center justify-between">
-              <Label htmlFor="workspace-updates" className="text-sm">
-                Workspace updates and announcements
-              </Label>
-              <Switch
-                id="workspace-updates"
-                checked={preferences.workspaceUpdates}
-                onCheckedChange={(checked) => handleToggle('workspaceUpdates', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-            
-            <div className="flex items-center justify-between">
-              <Label htmlFor="member-activity" className="text-sm">
-                Member activity (joins, leaves)
-              </Label>
-              <Switch
-                id="member-activity"
-                checked={preferences.memberActivity}
-                onCheckedChange={(checked) => handleToggle('memberActivity', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-          </div>
-        </div>
-
-        <Separator />
-
-        {/* Digest Emails */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium flex items-center gap-2">
-            <MessageSquare className="h-4 w-4" />
-            Digest Emails
-          </h3>
-          
-          <div className="space-y-3 ml-6">
-            <div className="flex items-center justify-between">
-              <Label htmlFor="digest-emails" className="text-sm">
-                Receive digest emails
-              </Label>
-              <Switch
-                id="digest-emails"
-                checked={preferences.digestEmails}
-                onCheckedChange={(checked) => handleToggle('digestEmails', checked)}
-                disabled={!preferences.emailNotifications}
-              />
-            </div>
-            
-            {preferences.digestEmails && preferences.emailNotifications && (
-              <div className="space-y-2">
-                <Label className="text-sm text-muted-foreground">Frequency:</Label>
-                <div className="flex gap-2">
-                  {(['daily', 'weekly', 'never'] as const).map((freq) => (
-                    <Button
-                      key={freq}
-                      variant={preferences.digestFrequency === freq ? 'default' : 'outline'}
-                      size="sm"
-                      onClick={() => setPreferences(prev => ({ ...prev, digestFrequency: freq }))}
-                    >
-                      {freq.charAt(0).toUpperCase() + freq.slice(1)}
-                    </Button>
+      <CardContent className="space-y-6">
+        {isLoading || !preferences ? (
+          <p className="text-sm text-muted-foreground">Loading preferences…</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left font-medium py-2">Event</th>
+                  {CHANNELS.map(channel => (
+                    <th key={channel} className="font-medium py-2 px-3 w-20 text-center">
+                      {NOTIFICATION_CHANNELS[channel].label}
+                    </th>
                   ))}
-                </div>
-              </div>
-            )}
+                </tr>
+              </thead>
+              <tbody>
+                {NOTIFICATION_EVENTS.map(event => (
+                  <tr key={event.id} className="border-b last:border-0">
+                    <td className="py-3">
+                      <Label className="font-medium">{event.label}</Label>
+                      <p className="text-xs text-muted-foreground">{event.description}</p>
+                    </td>
+                    {CHANNELS.map(channel => (
+                      <td key={channel} className="py-3 px-3 text-center">
+                        {event.channels.includes(channel) ? (
+                          <Switch
+                            aria-label={`${event.label}: ${NOTIFICATION_CHANNELS[channel].label}`}
+                            checked={preferences[event.id][channel]}
+                            onCheckedChange={(checked) => handleToggle(event.id, channel, checked)}
+                          />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
           </div>
-        </div>
-
-        <Separator />
+        )}
 
         {/* Save Button */}
         <div className="flex justify-end">
-          <Button onClick={handleSave} disabled={saving}>
-            {saving ? 'Saving...' : 'Save Preferences'}
+          <Button onClick={handleSave} disabled={!hasChanges || savePreferences.isPending}>
+            {savePreferences.isPending ? 'Saving...' : 'Save Preferences'}
           </Button>
         </div>
 
@@ -243,13 +111,10 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({
         <div className="bg-muted/50 p-4 rounded-lg">
           <div className="flex items-start gap-2">
             <Settings className="h-4 w-4 text-muted-foreground mt-0.5" />
-            <div className="text-sm text-muted-foreground">
-              <p className="font-medium mb-1">Note:</p>
-              <p>
-                Email notifications are currently in demo mode. In a production environment, 
-                you would receive actual emails based on these preferences.
-              </p>
-            </div>
+            <p className="text-sm text-muted-foreground">
+              Push shows a pop-up alert while EasTask is open. Turning off Email or Push
+              Notifications in your general notification settings turns that channel off in every workspace.
+            </p>
           </div>
         </div>
       </CardContent>
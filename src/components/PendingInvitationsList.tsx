@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Check, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { ROLE_LABELS } from '../utils/permissions';
+
+interface PendingInvitationsListProps {
+  className?: string;
+}
+
+// Compact accept/decline list of the signed-in user's pending invitations
+const PendingInvitationsList: React.FC<PendingInvitationsListProps> = ({ className = '' }) => {
+  const { pendingInvitations, acceptInvitation, declineInvitation } = useSupabaseWorkspace();
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  if (pendingInvitations.length === 0) return null;
+
+  const respond = async (invitationId: string, accept: boolean) => {
+    setProcessingId(invitationId);
+    try {
+      await (accept ? acceptInvitation(invitationId) : declineInvitation(invitationId));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {pendingInvitations.map(invitation => {
+        const isProcessing = processingId === invitation.id;
+
+        return (
+          <div key={invitation.id} className="flex items-start gap-3 p-3 border rounded-lg bg-purple-50/50">
+            <Building2 className="h-4 w-4 mt-0.5 text-purple-500 flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{invitation.workspaceName}</p>
+                <Badge variant="secondary" className="text-xs">
+                  {ROLE_LABELS[invitation.role] || invitation.role}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Invited by {invitation.invitedByName || 'a teammate'}
+                {invitation.expiresAt && (
+                  <> · expires {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}</>
+                )}
+              </p>
+              <div className="flex gap-2 mt-2">
+                <Button
+                  size="sm"
+                  className="h-7 text-xs bg-green-600 hover:bg-green-700"
+                  disabled={isProcessing}
+                  onClick={() => respond(invitation.id, true)}
+                >
+                  <Check className="h-3 w-3 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs"
+                  disabled={isProcessing}
+                  onClick={() => respond(invitation.id, false)}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PendingInvitationsList;
@@ -0,0 +1,182 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { addMonths, format } from 'date-fns';
+import { TaskRecurrence } from '../types';
+import {
+  WEEKDAY_LABELS,
+  ORDINAL_LABELS,
+  createRecurrence,
+  describeRecurrence,
+  getWeekdayOrdinal,
+  parseTaskDate
+} from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value?: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  anchorDate?: string; // Task due date; monthly and weekly defaults are taken from it
+}
+
+const UNIT_LABELS: Record<TaskRecurrence['frequency'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)'
+};
+
+type EndMode = 'never' | 'until' | 'count';
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, anchorDate }) => {
+  const anchor = parseTaskDate(anchorDate) || new Date();
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (updates: Partial<TaskRecurrence>) => {
+    if (value) onChange({ ...value, ...updates });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    const rule = createRecurrence(frequency as TaskRecurrence['frequency'], anchor);
+    onChange({ ...rule, interval: value?.interval || 1, until: value?.until, count: value?.count });
+  };
+
+  const handleMonthlyByChange = (monthlyBy: string) => {
+    if (monthlyBy === 'weekday') {
+      update({
+        monthlyBy: 'weekday',
+        weekday: anchor.getDay(),
+        weekdayOrdinal: getWeekdayOrdinal(anchor),
+        monthDay: undefined
+      });
+    } else {
+      update({ monthlyBy: 'date', monthDay: anchor.getDate(), weekday: undefined, weekdayOrdinal: undefined });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays || [];
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ weekdays: next.sort((a, b) => a - b) });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    if (mode === 'until') update({ until: format(addMonths(anchor, 1), 'yyyy-MM-dd'), count: undefined });
+    else if (mode === 'count') update({ count: 10, until: undefined });
+    else update({ until: undefined, count: undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <Repeat className="w-4 h-4" />
+          Repeat
+        </Label>
+        <Select value={value?.frequency || 'none'} onValueChange={handleFrequencyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="h-8 w-20"
+            />
+            <span>{UNIT_LABELS[value.frequency]}</span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={value.weekdays?.includes(day) ? 'default' : 'outline'}
+                  className="h-8 w-11 px-0"
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <Select value={value.monthlyBy || 'date'} onValueChange={handleMonthlyByChange}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">On day {value.monthDay ?? anchor.getDate()}</SelectItem>
+                <SelectItem value="weekday">
+                  On the {ORDINAL_LABELS[value.weekdayOrdinal ?? getWeekdayOrdinal(anchor)]} {WEEKDAY_LABELS[value.weekday ?? anchor.getDay()]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select value={endMode} onValueChange={handleEndModeChange}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'until' && (
+              <Input
+                type="date"
+                value={value.until || ''}
+                onChange={(e) => update({ until: e.target.value })}
+                className="h-8 w-40"
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="h-8 w-20"
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
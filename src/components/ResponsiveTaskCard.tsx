@@ -19,6 +19,8 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { Task } from '../types';
+import { formatTaskHours } from '../utils/estimates';
+import EstimateBadge from './EstimateBadge';
 
 interface ResponsiveTaskCardProps {
   task: Task;
@@ -277,7 +279,11 @@ const ResponsiveTaskCard: React.FC<ResponsiveTaskCardProps> = ({
                 {task.estimatedHours && (
                   <>
                     <Clock className="h-4 w-4 ml-2" />
-                    <span>{task.estimatedHours}h estimated</span>
+                    <span>
+                      {task.actualHours ? `${formatTaskHours(task.actualHours)} of ` : ''}
+                      {task.estimatedHours}h estimated
+                    </span>
+                    <EstimateBadge task={task} className="text-xs" />
                   </>
                 )}
               </div>
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tag, Pencil, Check, X, Merge, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { WorkspaceTag } from '../types';
+import {
+  useWorkspaceTags,
+  useUpdateTagColor,
+  useRenameTag,
+  useMergeTags,
+  useDeleteTag
+} from '../hooks/useTagQueries';
+
+interface TagManagerProps {
+  workspaceId: string;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ workspaceId }) => {
+  const { data: tags = [], isLoading } = useWorkspaceTags(workspaceId);
+  const updateTagColor = useUpdateTagColor();
+  const renameTag = useRenameTag();
+  const mergeTags = useMergeTags();
+  const deleteTag = useDeleteTag();
+
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [selectedTagNames, setSelectedTagNames] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const startEditing = (tag: WorkspaceTag) => {
+    setEditingTagId(tag.id);
+    setEditName(tag.name);
+  };
+
+  const handleRename = (tag: WorkspaceTag) => {
+    const newName = editName.trim();
+    if (!newName) {
+      toast.error('Tag name cannot be empty');
+      return;
+    }
+
+    if (newName !== tag.name) {
+      renameTag.mutate({ workspaceId, oldName: tag.name, newName });
+    }
+    setEditingTagId(null);
+  };
+
+  const toggleSelected = (tagName: string, checked: boolean) => {
+    setSelectedTagNames(checked
+      ? [...selectedTagNames, tagName]
+      : selectedTagNames.filter(name => name !== tagName));
+  };
+
+  const handleMerge = () => {
+    const targetName = mergeTarget.trim();
+    if (!targetName) {
+      toast.error('Enter the name of the merged tag');
+      return;
+    }
+
+    mergeTags.mutate(
+      { workspaceId, sourceNames: selectedTagNames, targetName },
+      {
+        onSuccess: () => {
+          setSelectedTagNames([]);
+          setMergeTarget('');
+        }
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Tags
+        </CardTitle>
+        <CardDescription>
+          Rename, recolor or merge the tags used on tasks in this workspace
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {selectedTagNames.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2 p-3 border rounded-lg bg-muted/50">
+            <Input
+              placeholder={`Merge ${selectedTagNames.length} selected tag(s) into...`}
+              value={mergeTarget}
+              onChange={(e) => setMergeTarget(e.target.value)}
+            />
+            <Button onClick={handleMerge} disabled={mergeTags.isPending}>
+              <Merge className="h-4 w-4 mr-2" />
+              Merge
+            </Button>
+            <Button variant="ghost" onClick={() => setSelectedTagNames([])}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tags...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No tags yet. Tags added to tasks will appear here.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {tags.map(tag => (
+              <div key={tag.id} className="flex items-center gap-3 p-2 border rounded-lg">
+                <Checkbox
+                  checked={selectedTagNames.includes(tag.name)}
+                  onCheckedChange={(checked) => toggleSelected(tag.name, checked as boolean)}
+                />
+                <input
+                  type="color"
+                  value={tag.color}
+                  onChange={(e) => updateTagColor.mutate({ workspaceId, tagId: tag.id, color: e.target.value })}
+                  className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent p-0"
+                  title="Change tag color"
+                />
+
+                {editingTagId === tag.id ? (
+                  <div className="flex flex-1 items-center gap-2">
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(tag);
+                        if (e.key === 'Escape') setEditingTagId(null);
+                      }}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => handleRename(tag)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingTagId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex flex-1 items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      style={{ borderColor: tag.color, color: tag.color }}
+                    >
+                      {tag.name}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {tag.usageCount} {tag.usageCount === 1 ? 'task' : 'tasks'}
+                    </span>
+                  </div>
+                )}
+
+                {editingTagId !== tag.id && (
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(tag)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={tag.usageCount > 0}
+                      title={tag.usageCount > 0 ? 'Only unused tags can be deleted' : 'Delete tag'}
+                      onClick={() => deleteTag.mutate({ workspaceId, tagId: tag.id })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagManager;
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { useTask } from '../contexts/TaskContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { can } from '../utils/permissions';
 import { Task } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -39,12 +41,22 @@ const TaskActions: React.FC<TaskActionsProps> = ({
   compact = false
 }) => {
   const { updateTask, deleteTask, duplicateTask } = useTask();
+  const { currentMember } = useSupabaseWorkspace();
   const [isProcessing, setIsProcessing] = useState(false);
 
+  const canUpdateTasks = can(currentMember, 'task', 'update');
+  const canDeleteTasks = can(currentMember, 'task', 'delete');
+  const canCreateTasks = can(currentMember, 'task', 'create');
+
   const selectedTaskObjects = allTasks.filter(task => selectedTasks.includes(task.id));
 
   // Bulk status update
   const handleBulkStatusUpdate = async (status: 'todo' | 'progress' | 'done') => {
+    if (!canUpdateTasks) {
+      toast.error('You do not have permission to edit tasks');
+      return;
+    }
+
     setIsProcessing(true);
     try {
       await Promise.all(
@@ -63,6 +75,11 @@ const TaskActions: React.FC<TaskActionsProps> = ({
 
   // Bulk priority update
   const handleBulkPriorityUpdate = async (priority: 'low' | 'medium' | 'high' | 'urgent') => {
+    if (!canUpdateTasks) {
+      toast.error('You do not have permission to edit tasks');
+      return;
+    }
+
     setIsProcessing(true);
     try {
       await Promise.all(
@@ -81,6 +98,11 @@ const TaskActions: React.FC<TaskActionsProps> = ({
 
   // Bulk delete
   const handleBulkDelete = async () => {
+    if (!canDeleteTasks) {
+      toast.error('You do not have permission to delete tasks');
+      return;
+    }
+
     if (!confirm(`Are you sure you want to delete ${selectedTasks.length} task(s)? This action cannot be undone.`)) {
       return;
     }
@@ -102,6 +124,11 @@ const TaskActions: React.FC<TaskActionsProps> = ({
 
   // Bulk duplicate
   const handleBulkDuplicate = async () => {
+    if (!canCreateTasks) {
+      toast.error('You do not have permission to create tasks');
+      return;
+    }
+
     setIsProcessing(true);
     try {
       await Promise.all(
@@ -178,32 +205,38 @@ const TaskActions: React.FC<TaskActionsProps> = ({
             </div>
             
             <div className="flex gap-2">
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkStatusUpdate('done')}
-                disabled={isProcessing}
-              >
-                Mark Done
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleBulkDuplicate}
-                disabled={isProcessing}
-              >
-                <Copy className="h-4 w-4 mr-1" />
-                Duplicate
-              </Button>
-              <Button
-                size="sm"
-                variant="destructive"
-                onClick={handleBulkDelete}
-                disabled={isProcessing}
-              >
-                <Trash2 className="h-4 w-4 mr-1" />
-                Delete
-              </Button>
+              {canUpdateTasks && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleBulkStatusUpdate('done')}
+                  disabled={isProcessing}
+                >
+                  Mark Done
+                </Button>
+              )}
+              {canCreateTasks && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleBulkDuplicate}
+                  disabled={isProcessing}
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  Duplicate
+                </Button>
+              )}
+              {canDeleteTasks && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={handleBulkDelete}
+                  disabled={isProcessing}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              )}
               <Button
                 size="sm"
                 variant="ghost"
@@ -274,104 +307,110 @@ const TaskActions: React.FC<TaskActionsProps> = ({
 
         {/* Action Buttons */}
         <div className="space-y-3">
-          {/* Status Actions */}
-          <div>
-            <h4 className="text-sm font-medium mb-2 text-orange-800">Update Status</h4>
-            <div className="flex gap-2">
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkStatusUpdate('todo')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <Target className="h-4 w-4" />
-                To Do
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkStatusUpdate('progress')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <Clock className="h-4 w-4" />
-                In Progress
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkStatusUpdate('done')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <CheckSquare className="h-4 w-4" />
-                Done
-              </Button>
-            </div>
-          </div>
+          {canUpdateTasks && (
+            <>
+              {/* Status Actions */}
+              <div>
+                <h4 className="text-sm font-medium mb-2 text-orange-800">Update Status</h4>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkStatusUpdate('todo')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Target className="h-4 w-4" />
+                    To Do
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkStatusUpdate('progress')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Clock className="h-4 w-4" />
+                    In Progress
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkStatusUpdate('done')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <CheckSquare className="h-4 w-4" />
+                    Done
+                  </Button>
+                </div>
+              </div>
 
-          {/* Priority Actions */}
-          <div>
-            <h4 className="text-sm font-medium mb-2 text-orange-800">Update Priority</h4>
-            <div className="flex gap-2">
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkPriorityUpdate('low')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <Flag className="h-4 w-4 text-gray-500" />
-                Low
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkPriorityUpdate('medium')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <Flag className="h-4 w-4 text-blue-500" />
-                Medium
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => handleBulkPriorityUpdate('high')}
-                disabled={isProcessing}
-                className="flex items-center gap-1"
-              >
-                <Flag className="h-4 w-4 text-orange-500" />
-                High
-              </Button>
+              {/* Priority Actions */}
+              <div>
+                <h4 className="text-sm font-medium mb-2 text-orange-800">Update Priority</h4>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkPriorityUpdate('low')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Flag className="h-4 w-4 text-gray-500" />
+                    Low
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkPriorityUpdate('medium')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Flag className="h-4 w-4 text-blue-500" />
+                    Medium
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkPriorityUpdate('high')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Flag className="h-4 w-4 text-orange-500" />
+                    High
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkPriorityUpdate('urgent')}
+                    disabled={isProcessing}
+                    className="flex items-center gap-1"
+                  >
+                    <Flag className="h-4 w-4 text-red-500" />
+                    Urgent
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+
+          <Separator />
+
+          {/* Other Actions */}
+          <div className="flex flex-wrap gap-2">
+            {canCreateTasks && (
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => handleBulkPriorityUpdate('urgent')}
+                onClick={handleBulkDuplicate}
                 disabled={isProcessing}
                 className="flex items-center gap-1"
               >
-                <Flag className="h-4 w-4 text-red-500" />
-                Urgent
+                <Copy className="h-4 w-4" />
+                Duplicate All
               </Button>
-            </div>
-          </div>
-
-          <Separator />
-
-          {/* Other Actions */}
-          <div className="flex flex-wrap gap-2">
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={handleBulkDuplicate}
-              disabled={isProcessing}
-              className="flex items-center gap-1"
-            >
-              <Copy className="h-4 w-4" />
-              Duplicate All
-            </Button>
+            )}
             
             <Button
               size="sm"
@@ -383,16 +422,18 @@ const TaskActions: React.FC<TaskActionsProps> = ({
               Export
             </Button>
 
-            <Button
-              size="sm"
-              variant="destructive"
-              onClick={handleBulkDelete}
-              disabled={isProcessing}
-              className="flex items-center gap-1"
-            >
-              <Trash2 className="h-4 w-4" />
-              Delete All
-            </Button>
+            {canDeleteTasks && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={handleBulkDelete}
+                disabled={isProcessing}
+                className="flex items-center gap-1"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete All
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
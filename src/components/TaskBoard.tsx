@@ -1,8 +1,13 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useTask } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/SupabaseAuthContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import { Task, TASK_STATUSES, TASK_PRIORITIES } from '../types';
+import { compareTaskOrder } from '../utils/taskOrdering';
+import { resolveTaskWorkflowStatus, getWorkflowStatusUpdates, categoryToTaskStatus } from '../utils/workflow';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { StatusCategory } from '../types/workspace';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -24,9 +29,11 @@ import {
   Circle,
   PlayCircle,
   PauseCircle,
+  XCircle,
   Users,
   Eye,
-  BarChart3
+  BarChart3,
+  type LucideIcon
 } from 'lucide-react';
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 import TaskCard from './TaskCard';
@@ -44,32 +51,76 @@ interface TaskBoardProps {
 interface TaskColumn {
   id: string;
   title: string;
-  status: 'todo' | 'progress' | 'done';
+  status: Task['status'];
   color: string;
+  accentColor: string;
   icon: React.ComponentType<any>;
   tasks: Task[];
   limit?: number;
 }
 
+// Column look per workflow category; the status color is used as the accent
+const CATEGORY_COLUMN_STYLES: Record<StatusCategory, { color: string; icon: LucideIcon }> = {
+  not_started: {
+    color: 'bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800',
+    icon: Circle
+  },
+  active: {
+    color: 'bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800',
+    icon: PlayCircle
+  },
+  done: {
+    color: 'bg-emerald-50 dark:bg-emerald-950/30 border-emerald-200 dark:border-emerald-800',
+    icon: CheckCircle2
+  },
+  cancelled: {
+    color: 'bg-gray-50 dark:bg-gray-900/30 border-gray-200 dark:border-gray-700',
+    icon: XCircle
+  }
+};
+
 const TaskBoard: React.FC<TaskBoardProps> = ({
   view = 'board',
   showFilters = true,
   compactMode = false,
   pageId
 }) => {
-  const { state, updateTask, searchTasks } = useTask();
+  const { state, updateTask, reorderTask, searchTasks, getTaskBlockers } = useTask();
   const { user } = useAuth();
   const { currentWorkspace, workspaceMembers } = useSupabaseWorkspace();
+  const { workflow, statuses } = useWorkflow();
 
   // State management
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPriority, setSelectedPriority] = useState<string>('all');
   const [selectedAssignee, setSelectedAssignee] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<string>('dueDate');
+  const [sortBy, setSortBy] = useState<string>('manual');
   const [showAddTaskModal, setShowAddTaskModal] = useState(false);
   const [selectedColumn, setSelectedColumn] = useState<string>('');
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [showTaskDetailModal, setShowTaskDetailModal] = useState(false);
+  const [taskLink, setTaskLink] = useState<{ tab?: string; commentId?: string }>({});
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedTaskId = searchParams.get('task');
+
+  // Open the task from a ?task=<id>#comment-<id> link, e.g. in a notification
+  useEffect(() => {
+    if (!linkedTaskId) return;
+
+    const task = state.pages.flatMap(page => page.tasks).find(t => t.id === linkedTaskId);
+    if (!task) return;
+
+    const commentId = window.location.hash.match(/^#comment-(.+)$/)?.[1];
+    setTaskLink(commentId ? { tab: 'comments', commentId } : {});
+    setSelectedTask(task);
+    setShowTaskDetailModal(true);
+
+    // Drop the link so closing the modal doesn't open it again
+    setSearchParams(params => {
+      params.delete('task');
+      return params;
+    }, { replace: true });
+  }, [linkedTaskId, state.pages, setSearchParams]);
 
   // Memoize allTasks to prevent infinite loop
   // Filter by pageId if provided, otherwise show all tasks
@@ -113,6 +164,8 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     // Sort tasks
     filtered.sort((a, b) => {
       switch (sortBy) {
+        case 'manual':
+          return compareTaskOrder(a, b);
         case 'dueDate':
           if (!a.dueDate && !b.dueDate) return 0;
           if (!a.dueDate) return 1;
@@ -133,49 +186,49 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     return filtered;
   }, [allTasks, searchQuery, selectedPriority, selectedAssignee, sortBy]);
 
-  // Create task columns with theme-aware colors
-  const taskColumns: TaskColumn[] = [
-    {
-      id: 'todo',
-      title: 'To Do',
-      status: 'todo',
-      color: 'bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800',
-      icon: Circle,
-      tasks: filteredTasks.filter(task => task.status === 'todo')
-    },
-    {
-      id: 'progress',
-      title: 'In Progress',
-      status: 'progress',
-      color: 'bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-800',
-      icon: PlayCircle,
-      tasks: filteredTasks.filter(task => task.status === 'progress'),
-      limit: 3 // WIP limit
-    },
-    {
-      id: 'done',
-      title: 'Done',
-      status: 'done',
-      color: 'bg-emerald-50 dark:bg-emerald-950/30 border-emerald-200 dark:border-emerald-800',
-      icon: CheckCircle2,
-      tasks: filteredTasks.filter(task => task.status === 'done')
-    }
-  ];
+  // One column per status of the workspace workflow
+  const taskColumns: TaskColumn[] = statuses.map(workflowStatus => ({
+    id: workflowStatus.id,
+    title: workflowStatus.name,
+    status: categoryToTaskStatus(workflowStatus.category),
+    color: CATEGORY_COLUMN_STYLES[workflowStatus.category].color,
+    accentColor: workflowStatus.color,
+    icon: CATEGORY_COLUMN_STYLES[workflowStatus.category].icon,
+    tasks: filteredTasks.filter(task => resolveTaskWorkflowStatus(task, workflow).id === workflowStatus.id),
+    limit: workflowStatus.wipLimit
+  }));
 
   // Handle drag and drop
   const handleDragEnd = (result: any) => {
     if (!result.destination) return;
 
     const { source, destination, draggableId } = result;
+    const targetStatus = statuses.find(status => status.id === destination.droppableId);
+    if (!targetStatus) return;
+    const statusUpdates = getWorkflowStatusUpdates(targetStatus);
+
+    if (sortBy === 'manual') {
+      // Persist the drop position relative to the tasks shown in the target column
+      const targetColumn = taskColumns.find(column => column.id === destination.droppableId);
+      if (!targetColumn) return;
+      if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+      reorderTask(
+        draggableId,
+        targetColumn.tasks,
+        destination.index,
+        source.droppableId === destination.droppableId ? {} : statusUpdates
+      );
+      return;
+    }
 
     if (source.droppableId === destination.droppableId) {
-      // Same column reordering - handle later
+      // Column order follows the selected sort; switch to manual order to reorder
       return;
     }
 
     // Move task between columns
-    const newStatus = destination.droppableId as 'todo' | 'progress' | 'done';
-    updateTask(draggableId, { status: newStatus });
+    updateTask(draggableId, statusUpdates);
   };
 
   // Quick add task to specific column
@@ -201,7 +254,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
     const completed = filteredTasks.filter(task => task.status === 'done').length;
     const inProgress = filteredTasks.filter(task => task.status === 'progress').length;
     const overdue = filteredTasks.filter(task =>
-      task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'done'
+      task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'done' && task.status !== 'cancelled'
     ).length;
 
     return { total, completed, inProgress, overdue };
@@ -303,6 +356,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
                   <SelectValue placeholder="Sort by" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="manual">Manual Order</SelectItem>
                   <SelectItem value="dueDate">Due Date</SelectItem>
                   <SelectItem value="priority">Priority</SelectItem>
                   <SelectItem value="created">Created Date</SelectItem>
@@ -316,9 +370,13 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
 
       {/* Task Board */}
       <DragDropContext onDragEnd={handleDragEnd}>
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 gap-6 lg:grid-flow-col lg:auto-cols-[minmax(280px,1fr)] lg:overflow-x-auto">
           {taskColumns.map((column) => (
-            <Card key={column.id} className={`${column.color} border-2`}>
+            <Card
+              key={column.id}
+              className={`${column.color} border-2 border-t-4`}
+              style={{ borderTopColor: column.accentColor }}
+            >
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
@@ -327,6 +385,11 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
                     <Badge variant="secondary" className="ml-2">
                       {column.tasks.length}
                     </Badge>
+                    {column.tasks.some(task => getTaskBlockers(task).length > 0) && (
+                      <Badge variant="outline" className="ml-1 border-red-300 text-red-700" title="Tasks waiting on unfinished predecessors">
+                        {column.tasks.filter(task => getTaskBlockers(task).length > 0).length} blocked
+                      </Badge>
+                    )}
                     {column.limit && column.tasks.length > column.limit && (
                       <Badge variant="destructive" className="ml-1">
                         WIP Limit: {column.limit}
@@ -405,7 +468,8 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
           setShowAddTaskModal(false);
           setSelectedColumn('');
         }}
-        defaultStatus={selectedColumn as 'todo' | 'progress' | 'done' | undefined}
+        defaultStatus={taskColumns.find(column => column.id === selectedColumn)?.status}
+        defaultWorkflowStatus={selectedColumn || undefined}
       />
 
       {/* Task Detail Modal */}
@@ -415,6 +479,7 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
         onClose={() => {
           setShowTaskDetailModal(false);
           setSelectedTask(null);
+          setTaskLink({});
         }}
         onSave={handleTaskSave}
         allTasks={allTasks}
@@ -425,6 +490,8 @@ const TaskBoard: React.FC<TaskBoardProps> = ({
         })) || []}
         workspaceId={currentWorkspace?.id || ''}
         userId={user?.id || ''}
+        initialTab={taskLink.tab}
+        focusCommentId={taskLink.commentId}
       />
     </div>
   );
@@ -14,7 +14,8 @@ import {
   Flag,
   CheckCircle2,
   Circle,
-  PlayCircle
+  PlayCircle,
+  Repeat
 } from 'lucide-react';
 import { 
   format, 
@@ -27,9 +28,10 @@ import {
   isSameDay, 
   addMonths, 
   subMonths,
-  isToday,
-  parseISO
+  isToday
 } from 'date-fns';
+import { expandTaskOccurrences, TaskOccurrence } from '../utils/recurrence';
+import CalendarSyncMenu from './CalendarSyncMenu';
 
 interface TaskCalendarViewProps {
   showFilters?: boolean;
@@ -50,22 +52,6 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
     ...state.unassignedTasks
   ];
 
-  // Filter tasks with due dates
-  const tasksWithDueDates = allTasks.filter(task => task.dueDate);
-
-  // Get tasks for a specific date
-  const getTasksForDate = (date: Date) => {
-    return tasksWithDueDates.filter(task => {
-      if (!task.dueDate) return false;
-      try {
-        const taskDate = parseISO(task.dueDate);
-        return isSameDay(taskDate, date);
-      } catch {
-        return false;
-      }
-    });
-  };
-
   // Generate calendar days
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -77,6 +63,15 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
     end: calendarEnd
   });
 
+  // Dated tasks plus upcoming occurrences of repeating tasks
+  const occurrences = expandTaskOccurrences(allTasks, calendarStart, calendarEnd);
+
+  // Get tasks for a specific date
+  const getTasksForDate = (date: Date): TaskOccurrence[] => {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    return occurrences.filter(occurrence => occurrence.date === dateStr);
+  };
+
   // Navigation
   const goToPreviousMonth = () => {
     setCurrentDate(subMonths(currentDate, 1));
@@ -131,6 +126,7 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
             </div>
             
             <div className="flex items-center gap-2">
+              <CalendarSyncMenu />
               <Button
                 variant="outline"
                 size="sm"
@@ -193,17 +189,19 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
 
                   {/* Tasks for this day */}
                   <div className="space-y-1">
-                    {dayTasks.slice(0, 3).map((task) => {
+                    {dayTasks.slice(0, 3).map(({ task, date, projected }) => {
                       const priorityColor = getPriorityColor(task.priority);
                       
                       return (
                         <div
-                          key={task.id}
+                          key={`${task.id}-${date}`}
                           className={`
                             text-xs p-1 rounded cursor-pointer transition-colors
-                            ${task.status === 'done' ? 'opacity-60 line-through' : ''}
+                            ${task.status === 'done' && !projected ? 'opacity-60 line-through' : ''}
+                            ${projected ? 'opacity-60 border border-dashed' : ''}
                             hover:shadow-sm
                           `}
+                          title={projected ? 'Upcoming occurrence' : undefined}
                           style={{ 
                             backgroundColor: `${priorityColor}20`,
                             borderLeft: `3px solid ${priorityColor}`
@@ -214,10 +212,11 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
                           }}
                         >
                           <div className="flex items-center gap-1">
-                            {getStatusIcon(task.status)}
+                            {projected ? <Repeat className="h-3 w-3 text-muted-foreground" /> : getStatusIcon(task.status)}
                             <span className="truncate flex-1">
                               {task.title}
                             </span>
+                            {!projected && task.recurrence && <Repeat className="h-3 w-3 text-muted-foreground" />}
                           </div>
                         </div>
                       );
@@ -261,21 +260,24 @@ const TaskCalendarView: React.FC<TaskCalendarViewProps> = ({
 
               return (
                 <div className="space-y-3">
-                  {selectedDateTasks.map((task) => {
+                  {selectedDateTasks.map(({ task, date, projected }) => {
                     const priorityConfig = TASK_PRIORITIES[task.priority || 'medium'];
                     
                     return (
                       <div
-                        key={task.id}
-                        className="flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors"
+                        key={`${task.id}-${date}`}
+                        className={`flex items-center gap-3 p-3 border rounded-lg hover:bg-muted/50 cursor-pointer transition-colors ${projected ? 'border-dashed opacity-70' : ''}`}
                         onClick={() => onTaskClick?.(task)}
                       >
-                        {getStatusIcon(task.status)}
+                        {projected ? <Repeat className="h-3 w-3 text-muted-foreground" /> : getStatusIcon(task.status)}
                         
                         <div className="flex-1 min-w-0">
-                          <h4 className={`font-medium ${task.status === 'done' ? 'line-through opacity-60' : ''}`}>
+                          <h4 className={`font-medium ${task.status === 'done' && !projected ? 'line-through opacity-60' : ''}`}>
                             {task.title}
                           </h4>
+                          {projected && (
+                            <p className="text-xs text-muted-foreground">Upcoming occurrence</p>
+                          )}
                           {task.description && (
                             <p className="text-sm text-muted-foreground line-clamp-1">
                               {task.description}
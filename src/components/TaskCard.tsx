@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
 import { useTask } from '../contexts/TaskContext';
-import { Task, TASK_STATUSES } from '../types';
+import { Task } from '../types';
 import { handleDragStart, handleDragEnd } from '../utils/dragDrop';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Calendar, Link as LinkIcon, Flag, Paperclip, Trash2, Edit2, Copy } from 'lucide-react';
+import { Calendar, Link as LinkIcon, Flag, Paperclip, Trash2, Edit2, Copy, Repeat } from 'lucide-react';
 import TaskStatusDropdown from './TaskStatusDropdown';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { resolveTaskWorkflowStatus, getWorkflowStatusUpdates } from '../utils/workflow';
+import { describeRecurrence } from '../utils/recurrence';
+import BlockedBadge from './BlockedBadge';
+import EstimateBadge from './EstimateBadge';
 
 interface TaskCardProps {
   task: Task;
@@ -18,20 +23,21 @@ interface TaskCardProps {
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({ task, index, pageId, showFullDetails = false, onTaskClick }) => {
-  const { updateTask, deleteTask, duplicateTask, state } = useTask();
+  const { updateTask, deleteTask, duplicateTask, state, getTaskBlockers } = useTask();
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(task.title);
   const [showDuplicateOptions, setShowDuplicateOptions] = useState(false);
+  const { workflow, statuses } = useWorkflow();
+  const workflowStatus = resolveTaskWorkflowStatus(task, workflow);
   
   const handleTaskDragStart = (event: React.DragEvent) => {
     handleDragStart(event, task, pageId, index);
   };
 
   const handleStatusClick = () => {
-    const statuses: ('todo' | 'progress' | 'done')[] = ['todo', 'progress', 'done'];
-    const currentIndex = statuses.indexOf(task.status);
+    const currentIndex = statuses.findIndex(status => status.id === workflowStatus.id);
     const nextIndex = (currentIndex + 1) % statuses.length;
-    updateTask(task.id, { status: statuses[nextIndex] });
+    updateTask(task.id, getWorkflowStatusUpdates(statuses[nextIndex]));
   };
 
   const handleEditSave = () => {
@@ -75,9 +81,9 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, index, pageId, showFullDetail
   return (
     <Card
       className={`cursor-move hover:shadow-md transition-all duration-200 border-l-4 ${
-        task.status === 'done' ? 'opacity-75' : ''
+        task.status === 'done' || task.status === 'cancelled' ? 'opacity-75' : ''
       } ${onTaskClick ? 'cursor-pointer' : ''}`}
-      style={{ borderLeftColor: TASK_STATUSES[task.status].color.replace('bg-', '#') }}
+      style={{ borderLeftColor: workflowStatus.color }}
       draggable
       onDragStart={handleTaskDragStart}
       onDragEnd={handleDragEnd}
@@ -89,6 +95,7 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, index, pageId, showFullDetail
           <TaskStatusDropdown
             taskId={task.id}
             currentStatus={task.status}
+            currentWorkflowStatus={task.workflowStatus}
             size="sm"
             variant="badge"
             showDelete={false}
@@ -223,6 +230,12 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, index, pageId, showFullDetail
             </Badge>
           )}
 
+          {/* Dependencies */}
+          <BlockedBadge blockers={getTaskBlockers(task)} className="px-2 py-0.5" />
+
+          {/* Tracked time against the estimate */}
+          <EstimateBadge task={task} className="px-2 py-0.5" />
+
           {/* Due Date */}
           {task.dueDate && (
             <Badge variant="outline" className="px-2 py-0.5">
@@ -231,6 +244,13 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, index, pageId, showFullDetail
             </Badge>
           )}
 
+          {/* Recurrence */}
+          {task.recurrence && (
+            <Badge variant="outline" className="px-2 py-0.5" title={describeRecurrence(task.recurrence)}>
+              <Repeat className="w-3 h-3" />
+            </Badge>
+          )}
+
           {/* Link */}
           {task.link && showFullDetails && (
             <Badge variant="outline" className="px-2 py-0.5">
@@ -1,10 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { 
   Send, 
   Reply, 
@@ -14,11 +14,21 @@ import {
   MessageCircle,
   Loader2,
   Check,
-  X
+  X,
+  SmilePlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/SupabaseAuthContext';
-import { useTaskRealtime } from '../hooks/useRealtimeSubscription';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useTask } from '../contexts/TaskContext';
+import { useRealtimeSubscription, useTaskRealtime } from '../hooks/useRealtimeSubscription';
+import { notificationService } from '../services/notificationService';
+import { activityService } from '../services/activityService';
+import { Reaction } from '../types';
+import { MentionMember, encodeMentions, mentionsToPlainText } from '../utils/mentions';
+import MentionTextarea from './MentionTextarea';
+import MarkdownContent from './MarkdownContent';
+import CommentRevisionHistory from './CommentRevisionHistory';
 import { formatDistanceToNow } from 'date-fns';
 
 interface TaskComment {
@@ -30,6 +40,7 @@ interface TaskComment {
   created_at: string;
   updated_at: string;
   is_edited: boolean;
+  mentions?: string[];
   user: {
     id: string;
     email: string;
@@ -41,14 +52,44 @@ interface TaskComment {
   replies?: TaskComment[];
 }
 
+const REACTION_EMOJIS = ['👍', '❤️', '😄', '🎉', '😕', '👀', '🚀'];
+
+// Group reaction rows into one Reaction per comment and emoji, in the order first used
+const groupReactions = (rows: Array<{ comment_id: string; user_id: string; emoji: string }>): Record<string, Reaction[]> => {
+  return rows.reduce((grouped, row) => {
+    const reactions = grouped[row.comment_id] || (grouped[row.comment_id] = []);
+    const reaction = reactions.find(r => r.emoji === row.emoji);
+
+    if (reaction) {
+      reaction.userIds.push(row.user_id);
+      reaction.count++;
+    } else {
+      reactions.push({ emoji: row.emoji, userIds: [row.user_id], count: 1 });
+    }
+    return grouped;
+  }, {} as Record<string, Reaction[]>);
+};
+
 interface TaskCommentsProps {
   taskId: string;
   taskTitle: string;
+  workspaceId: string;
+  workspaceMembers?: MentionMember[]; // Suggested after typing @
+  focusCommentId?: string; // Scrolled into view and highlighted, e.g. from a mention link
 }
 
-const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
+const TaskComments: React.FC<TaskCommentsProps> = ({
+  taskId,
+  taskTitle,
+  workspaceId,
+  workspaceMembers = [],
+  focusCommentId
+}) => {
   const { user } = useAuth();
+  const { currentWorkspace } = useSupabaseWorkspace();
+  const { state: taskState } = useTask();
   const [comments, setComments] = useState<TaskComment[]>([]);
+  const [reactions, setReactions] = useState<Record<string, Reaction[]>>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [newComment, setNewComment] = useState('');
@@ -57,23 +98,7 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
   const [editContent, setEditContent] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
-  // Load comments
-  useEffect(() => {
-    loadComments();
-  }, [taskId]);
-
-  // Real-time comment updates
-  useTaskRealtime(
-    taskId,
-    undefined, // onTaskUpdate
-    undefined, // onSubtaskUpdate
-    (comment) => {
-      // Handle real-time comment updates
-      loadComments(); // Reload comments for simplicity
-    }
-  );
-
-  const loadComments = async () => {
+  const loadComments = useCallback(async () => {
     try {
       setLoading(true);
       const { data, error } = await supabase
@@ -129,11 +154,107 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
     } finally {
       setLoading(false);
     }
+  }, [taskId]);
+
+  const loadReactions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('task_comment_reactions')
+      .select('comment_id, user_id, emoji')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading reactions:', error);
+      return;
+    }
+
+    setReactions(groupReactions(data || []));
+  }, [taskId]);
+
+  // Load comments
+  useEffect(() => {
+    loadComments();
+    loadReactions();
+  }, [loadComments, loadReactions]);
+
+  // Bring a linked comment into view once it has loaded
+  useEffect(() => {
+    if (!focusCommentId || comments.length === 0) return;
+    document.getElementById(`comment-${focusCommentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusCommentId, comments]);
+
+  // Real-time comment updates
+  useTaskRealtime(
+    taskId,
+    undefined, // onTaskUpdate
+    undefined, // onSubtaskUpdate
+    (comment) => {
+      // Handle real-time comment updates
+      loadComments(); // Reload comments for simplicity
+    }
+  );
+
+  // Reactions from everyone viewing the task
+  useRealtimeSubscription({
+    table: 'task_comment_reactions',
+    filter: `task_id=eq.${taskId}`,
+    onInsert: () => loadReactions(),
+    onDelete: () => loadReactions(),
+    enabled: !!taskId && !!user
+  });
+
+  // Add the user's reaction, or take it back if they already reacted with this emoji
+  const toggleReaction = async (commentId: string, emoji: string) => {
+    if (!user) return;
+
+    const reacted = reactions[commentId]?.some(r => r.emoji === emoji && r.userIds.includes(user.id));
+
+    const { error } = reacted
+      ? await supabase
+          .from('task_comment_reactions')
+          .delete()
+          .eq('comment_id', commentId)
+          .eq('user_id', user.id)
+          .eq('emoji', emoji)
+      : await supabase
+          .from('task_comment_reactions')
+          .insert({ comment_id: commentId, task_id: taskId, user_id: user.id, emoji });
+
+    if (error) {
+      console.error('Error updating reaction:', error);
+      setError('Failed to update reaction');
+      return;
+    }
+
+    loadReactions();
+  };
+
+  const resolveMemberName = (userId: string) => workspaceMembers.find(member => member.id === userId)?.name;
+
+  const resolveTaskRef = (number: number) =>
+    taskState.pages.flatMap(page => page.tasks).find(task => task.number === number);
+
+  const notifyMentions = async (commentId: string, content: string, mentionedUserIds: string[]) => {
+    if (!user || mentionedUserIds.length === 0) return;
+
+    await notificationService.sendMention({
+      taskId,
+      taskTitle,
+      commentId,
+      commentText: mentionsToPlainText(content),
+      authorUserId: user.id,
+      authorName: user.user_metadata?.full_name || user.email || 'Someone',
+      workspaceId,
+      workspaceName: currentWorkspace?.name || 'your workspace',
+      mentionedUserIds
+    });
   };
 
   const addComment = async (parentId?: string) => {
-    const content = parentId ? editContent : newComment;
-    if (!content.trim()) return;
+    const text = parentId ? editContent : newComment;
+    if (!text.trim()) return;
+
+    const { content, mentions } = encodeMentions(text.trim(), workspaceMembers);
 
     try {
       setLoading(true);
@@ -144,7 +265,8 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
         .insert({
           task_id: taskId,
           user_id: user?.id,
-          content: content.trim(),
+          content,
+          mentions,
           parent_comment_id: parentId || null
         })
         .select(`
@@ -171,20 +293,26 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
         setNewComment('');
       }
 
+      const commentId = data.id;
+
       // Reload comments
       loadComments();
 
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: parentId ? 'comment_reply' : 'comment_added',
-        p_activity_description: `${parentId ? 'Replied to' : 'Added'} comment on task: ${taskTitle}`,
-        p_metadata: { 
-          task_id: taskId, 
-          comment_id: data.id,
-          parent_comment_id: parentId
-        }
-      });
+      await notifyMentions(commentId, content, mentions);
+
+      if (user) {
+        await activityService.log({
+          userId: user.id,
+          workspaceId: currentWorkspace?.id,
+          action: {
+            type: parentId ? 'comment_reply' : 'comment_added',
+            resourceType: 'task',
+            resourceId: taskId,
+            resourceTitle: taskTitle,
+            data: { comment_id: commentId, parent_comment_id: parentId ?? null }
+          }
+        });
+      }
 
     } catch (error) {
       console.error('Error adding comment:', error);
@@ -194,9 +322,11 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
     }
   };
 
-  const updateComment = async (commentId: string) => {
+  const updateComment = async (comment: TaskComment) => {
     if (!editContent.trim()) return;
 
+    const { content, mentions } = encodeMentions(editContent.trim(), workspaceMembers);
+
     try {
       setLoading(true);
       setError(null);
@@ -204,11 +334,12 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
       const { error } = await supabase
         .from('task_comments')
         .update({
-          content: editContent.trim(),
+          content,
+          mentions,
           updated_at: new Date().toISOString(),
           is_edited: true
         })
-        .eq('id', commentId);
+        .eq('id', comment.id);
 
       if (error) {
         console.error('Error updating comment:', error);
@@ -220,6 +351,10 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
       setEditContent('');
       loadComments();
 
+      // Only people added by the edit hear about it
+      const previous = comment.mentions || [];
+      await notifyMentions(comment.id, content, mentions.filter(id => !previous.includes(id)));
+
     } catch (error) {
       console.error('Error updating comment:', error);
       setError('Failed to update comment');
@@ -258,7 +393,7 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
 
   const startEditing = (comment: TaskComment) => {
     setEditingComment(comment.id);
-    setEditContent(comment.content);
+    setEditContent(mentionsToPlainText(comment.content));
   };
 
   const cancelEditing = () => {
@@ -272,8 +407,58 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
     setTimeout(() => textareaRef.current?.focus(), 100);
   };
 
+  const renderReactions = (comment: TaskComment) => {
+    const commentReactions = reactions[comment.id] || [];
+
+    return (
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {commentReactions.map(reaction => {
+          const reacted = !!user && reaction.userIds.includes(user.id);
+          const names = reaction.userIds.map(id => (id === user?.id ? 'You' : resolveMemberName(id) || 'Someone'));
+
+          return (
+            <button
+              key={reaction.emoji}
+              type="button"
+              onClick={() => toggleReaction(comment.id, reaction.emoji)}
+              title={names.join(', ')}
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                reacted ? 'border-primary/50 bg-primary/10 text-primary' : 'bg-background hover:bg-accent'
+              }`}
+            >
+              <span>{reaction.emoji}</span>
+              <span>{reaction.count}</span>
+            </button>
+          );
+        })}
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" aria-label="Add reaction">
+              <SmilePlus className="h-3 w-3" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-auto p-1">
+            <div className="flex gap-1">
+              {REACTION_EMOJIS.map(emoji => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => toggleReaction(comment.id, emoji)}
+                  className="rounded p-1 text-lg hover:bg-accent"
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+    );
+  };
+
   const renderComment = (comment: TaskComment, isReply = false) => (
-    <div key={comment.id} className={`${isReply ? 'ml-8 mt-3' : 'mb-4'}`}>
+    <div key={comment.id} id={`comment-${comment.id}`} className={`${isReply ? 'ml-8 mt-3' : 'mb-4'}`}>
       <div className="flex gap-3">
         <Avatar className="h-8 w-8">
           <AvatarImage src={comment.user.user_metadata?.avatar_url} />
@@ -283,7 +468,7 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
         </Avatar>
         
         <div className="flex-1 min-w-0">
-          <div className="bg-muted rounded-lg p-3">
+          <div className={`bg-muted rounded-lg p-3 ${comment.id === focusCommentId ? 'ring-2 ring-primary/40' : ''}`}>
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center gap-2">
                 <span className="font-medium text-sm">
@@ -293,7 +478,7 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
                   {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
                 </span>
                 {comment.is_edited && (
-                  <Badge variant="secondary" className="text-xs">edited</Badge>
+                  <CommentRevisionHistory commentId={comment.id} resolveMemberName={resolveMemberName} />
                 )}
               </div>
               
@@ -321,13 +506,14 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
             
             {editingComment === comment.id ? (
               <div className="space-y-2">
-                <Textarea
+                <MentionTextarea
                   value={editContent}
-                  onChange={(e) => setEditContent(e.target.value)}
+                  onChange={setEditContent}
+                  members={workspaceMembers}
                   className="min-h-[60px]"
                 />
                 <div className="flex gap-2">
-                  <Button size="sm" onClick={() => updateComment(comment.id)}>
+                  <Button size="sm" onClick={() => updateComment(comment)}>
                     <Check className="h-3 w-3 mr-1" />
                     Save
                   </Button>
@@ -339,7 +525,12 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
               </div>
             ) : (
               <>
-                <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+                <MarkdownContent
+                  content={comment.content}
+                  resolveMention={resolveMemberName}
+                  resolveTaskRef={resolveTaskRef}
+                />
+                {renderReactions(comment)}
                 {!isReply && (
                   <Button
                     variant="ghost"
@@ -359,13 +550,16 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
           {replyingTo === comment.id && (
             <div className="mt-3 ml-3">
               <div className="flex gap-2">
-                <Textarea
-                  ref={textareaRef}
-                  value={editContent}
-                  onChange={(e) => setEditContent(e.target.value)}
-                  placeholder="Write a reply..."
-                  className="min-h-[60px]"
-                />
+                <div className="flex-1">
+                  <MentionTextarea
+                    ref={textareaRef}
+                    value={editContent}
+                    onChange={setEditContent}
+                    members={workspaceMembers}
+                    placeholder="Write a reply..."
+                    className="min-h-[60px]"
+                  />
+                </div>
                 <div className="flex flex-col gap-1">
                   <Button size="sm" onClick={() => addComment(comment.id)}>
                     <Send className="h-3 w-3" />
@@ -417,10 +611,11 @@ const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, taskTitle }) => {
               </AvatarFallback>
             </Avatar>
             <div className="flex-1">
-              <Textarea
+              <MentionTextarea
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                placeholder="Add a comment..."
+                onChange={setNewComment}
+                members={workspaceMembers}
+                placeholder="Add a comment... Type @ to mention someone"
                 className="min-h-[80px]"
               />
               <div className="flex justify-end mt-2">
@@ -20,6 +20,11 @@ import {
 import { TaskDependency, Task } from '../types';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useTask } from '../contexts/TaskContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useQueryClient } from '@tanstack/react-query';
+import { QUERY_KEYS } from '../lib/queryClient';
+import { wouldCreateCycle } from '../utils/dependencies';
 
 interface TaskDependencyManagerProps {
   task: Task;
@@ -56,6 +61,9 @@ const TaskDependencyManager: React.FC<TaskDependencyManagerProps> = ({
   onUpdateTask 
 }) => {
   const { user } = useAuth();
+  const { dependencies: workspaceDependencies } = useTask();
+  const { currentWorkspace } = useSupabaseWorkspace();
+  const queryClient = useQueryClient();
   const [isAddingDependency, setIsAddingDependency] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState('');
   const [selectedType, setSelectedType] = useState<keyof typeof DEPENDENCY_TYPES>('finish_to_start');
@@ -90,10 +98,11 @@ const TaskDependencyManager: React.FC<TaskDependencyManagerProps> = ({
 
       const formattedDependencies: TaskDependency[] = data?.map(dep => ({
         id: dep.id,
-        taskId: dep.task_id,
+        dependentTaskId: dep.task_id,
         dependsOnTaskId: dep.depends_on_task_id,
         type: dep.dependency_type as TaskDependency['type'],
-        dependsOnTask: dep.depends_on_task
+        dependsOnTask: dep.depends_on_task,
+        createdAt: dep.created_at
       })) || [];
 
       setDependencies(formattedDependencies);
@@ -105,19 +114,31 @@ const TaskDependencyManager: React.FC<TaskDependencyManagerProps> = ({
   
   // Get tasks that depend on this task
   const dependentTasks = allTasks.filter(t => 
-    t.dependencies?.some(dep => dep.dependsOnTaskId === task.id)
+    workspaceDependencies.some(dep => dep.dependentTaskId === t.id && dep.dependsOnTaskId === task.id)
   );
 
-  // Get available tasks for dependency (exclude self and existing dependencies)
+  // The dependency graph and its cycle check span the whole workspace
+  const refreshWorkspaceDependencies = () => {
+    if (currentWorkspace) {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_DEPENDENCIES(currentWorkspace.id) });
+    }
+  };
+
+  // Get available tasks for dependency (exclude self, existing dependencies and anything that would close a cycle)
   const availableTasks = allTasks.filter(t => 
     t.id !== task.id && 
     !dependencies.some(dep => dep.dependsOnTaskId === t.id) &&
-    !dependentTasks.some(dt => dt.id === t.id) // Prevent circular dependencies
+    !wouldCreateCycle(workspaceDependencies, task.id, t.id)
   );
 
   const addDependency = async () => {
     if (!selectedTaskId || loading) return;
 
+    if (wouldCreateCycle(workspaceDependencies, task.id, selectedTaskId)) {
+      setError('Cannot add dependency: This would create a circular dependency');
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -161,6 +182,7 @@ const TaskDependencyManager: React.FC<TaskDependencyManagerProps> = ({
       };
 
       setDependencies(prev => [...prev, newDependency]);
+      refreshWorkspaceDependencies();
       setSelectedTaskId('');
       setSelectedType('finish_to_start');
       setIsAddingDependency(false);
@@ -191,6 +213,7 @@ const TaskDependencyManager: React.FC<TaskDependencyManagerProps> = ({
 
       // Remove from local state
       setDependencies(prev => prev.filter(dep => dep.id !== dependencyId));
+      refreshWorkspaceDependencies();
 
     } catch (error) {
       console.error('Error removing dependency:', error);
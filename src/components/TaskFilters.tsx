@@ -337,6 +337,32 @@ const TaskFilters: React.FC<TaskFiltersProps> = ({
                 </div>
               </div>
 
+              {/* Tags Filter */}
+              {availableTags.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Tags</label>
+                  <div className="flex flex-wrap gap-2">
+                    {availableTags.map(tag => {
+                      const selected = filters.tags.includes(tag);
+                      return (
+                        <Badge
+                          key={tag}
+                          variant={selected ? 'default' : 'outline'}
+                          className="cursor-pointer"
+                          onClick={() => updateFilters({
+                            tags: selected ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+                          })}
+                        >
+                          <Tag className="h-3 w-3 mr-1" />
+                          {tag}
+                          {selected && <X className="h-3 w-3 ml-1" />}
+                        </Badge>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Additional Options */}
               <div className="flex flex-wrap gap-4">
                 <div className="flex items-center space-x-2">
@@ -0,0 +1,83 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useTask } from '../contexts/TaskContext';
+import { useTaskActivity } from '../hooks/useActivityQueries';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { describeActivity, describeChange, getMemberName } from '../utils/activity';
+import ActivityIcon from './ActivityIcon';
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+// Everything that happened to a task, newest first, with before and after values
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId }) => {
+  const { user } = useAuth();
+  const { workspaceMembers } = useSupabaseWorkspace();
+  const { state } = useTask();
+  const { workflow } = useWorkflow();
+  const { data: activities = [], isLoading } = useTaskActivity(taskId);
+
+  useRealtimeSubscription({
+    table: 'user_activities',
+    filter: `resource_id=eq.${taskId}`,
+    enabled: !!taskId
+  });
+
+  const context = { members: workspaceMembers, pages: state.pages, workflow };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (activities.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+        <p>No history for this task yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-5">
+      {activities.map(activity => {
+        const changes = activity.action.changes || [];
+        return (
+          <li key={activity.id} className="ml-6">
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background ring-4 ring-background">
+              <ActivityIcon type={activity.action.type} className="h-3.5 w-3.5" />
+            </span>
+            <p className="text-sm">
+              <span className="font-medium">
+                {activity.userId === user?.id ? 'You' : getMemberName(workspaceMembers, activity.userId)}
+              </span>{' '}
+              {describeActivity(activity, context, { withResource: false })}
+            </p>
+            {changes.length > 1 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                {changes.map(change => (
+                  <li key={change.field}>{describeChange(change, context)}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground mt-0.5" title={new Date(activity.createdAt).toLocaleString()}>
+              {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default TaskHistory;
@@ -363,6 +363,7 @@ const TaskListView: React.FC<TaskListViewProps> = ({
                               <TaskStatusDropdown
                                 taskId={task.id}
                                 currentStatus={task.status}
+                                currentWorkflowStatus={task.workflowStatus}
                                 size="sm"
                                 variant="icon"
                                 showDelete={false}
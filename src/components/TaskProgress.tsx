@@ -17,6 +17,7 @@ import {
   Timer
 } from 'lucide-react';
 import { format, isAfter, isBefore, addDays, differenceInDays } from 'date-fns';
+import { ESTIMATE_TOLERANCE, formatTaskHours, formatVariance, getAccuracyRate, getEstimateAccuracy, getEstimateStatus } from '../utils/estimates';
 
 interface TaskProgressProps {
   tasks?: Task[];
@@ -117,10 +118,21 @@ const TaskProgress: React.FC<TaskProgressProps> = ({
     return { completedThisWeek, completedThisMonth, averageCompletionTime };
   };
 
+  // Calculate estimate accuracy from tracked time
+  const getEstimateStats = () => {
+    const accuracy = getEstimateAccuracy(allTasks);
+    const openOverEstimate = allTasks.filter(task =>
+      task.status !== 'done' && getEstimateStatus(task) === 'over'
+    ).length;
+
+    return { ...accuracy, accuracyRate: getAccuracyRate(accuracy), openOverEstimate };
+  };
+
   const basicStats = getBasicStats();
   const priorityStats = getPriorityStats();
   const dueDateStats = getDueDateStats();
   const productivityMetrics = getProductivityMetrics();
+  const estimateStats = getEstimateStats();
 
   return (
     <div className="space-y-6">
@@ -344,6 +356,69 @@ const TaskProgress: React.FC<TaskProgressProps> = ({
               </div>
             </CardContent>
           </Card>
+
+          {/* Estimate Accuracy */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Timer className="h-5 w-5" />
+                Estimate Accuracy
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {estimateStats.tasks === 0 ? (
+                <div className="text-center py-4 text-muted-foreground">
+                  <p className="text-sm">No completed tasks with an estimate and tracked time yet</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium">Within {ESTIMATE_TOLERANCE * 100}% of the estimate</span>
+                      <span className="text-sm text-muted-foreground">
+                        {estimateStats.accuracyRate}% of {estimateStats.tasks} tasks
+                      </span>
+                    </div>
+                    <Progress value={estimateStats.accuracyRate} className="h-2" />
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                    <div>
+                      <p className="text-2xl font-bold">{formatTaskHours(estimateStats.estimatedHours)}</p>
+                      <p className="text-sm text-muted-foreground">Estimated</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">
+                        {formatTaskHours(estimateStats.actualHours)}
+                        <span className="text-sm font-normal text-muted-foreground ml-1">
+                          ({formatVariance(estimateStats.actualHours, estimateStats.estimatedHours)})
+                        </span>
+                      </p>
+                      <p className="text-sm text-muted-foreground">Tracked</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-red-600">{estimateStats.over}</p>
+                      <p className="text-sm text-muted-foreground">Over Estimate</p>
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold text-blue-600">{estimateStats.under}</p>
+                      <p className="text-sm text-muted-foreground">Under Estimate</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {estimateStats.openOverEstimate > 0 && (
+                <div className="flex items-center justify-between p-3 mt-4 bg-red-50 dark:bg-red-950/30 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-red-600 dark:text-red-400" />
+                    <span className="text-sm font-medium text-red-800 dark:text-red-300">Open Tasks Over Estimate</span>
+                  </div>
+                  <Badge variant="destructive">{estimateStats.openOverEstimate}</Badge>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </>
       )}
     </div>
@@ -27,24 +27,54 @@ import {
   Trash2, 
   ChevronDown,
   Play,
-  RotateCcw
+  RotateCcw,
+  XCircle
 } from 'lucide-react';
 import { useTask } from '../contexts/TaskContext';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { Task } from '../types';
+import { StatusCategory, WorkflowStatus } from '../types/workspace';
+import { resolveTaskWorkflowStatus, canTransition, getWorkflowStatusUpdates } from '../utils/workflow';
 import { toast } from 'sonner';
 
 interface TaskStatusDropdownProps {
   taskId: string;
-  currentStatus: 'todo' | 'progress' | 'done';
+  currentStatus: Task['status'];
+  currentWorkflowStatus?: string;
   size?: 'sm' | 'md' | 'lg';
   variant?: 'button' | 'badge';
   showDelete?: boolean;
-  onStatusChange?: (taskId: string, newStatus: 'todo' | 'progress' | 'done') => void;
+  onStatusChange?: (taskId: string, newStatus: Task['status']) => void;
   onDelete?: (taskId: string) => void;
 }
 
+const categoryConfig: Record<StatusCategory, { icon: typeof Circle; color: string; hoverColor: string }> = {
+  not_started: {
+    icon: Circle,
+    color: 'bg-blue-100 text-blue-800 border-blue-200',
+    hoverColor: 'hover:bg-blue-200'
+  },
+  active: {
+    icon: Clock,
+    color: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+    hoverColor: 'hover:bg-yellow-200'
+  },
+  done: {
+    icon: CheckCircle2,
+    color: 'bg-green-100 text-green-800 border-green-200',
+    hoverColor: 'hover:bg-green-200'
+  },
+  cancelled: {
+    icon: XCircle,
+    color: 'bg-gray-100 text-gray-700 border-gray-200',
+    hoverColor: 'hover:bg-gray-200'
+  }
+};
+
 const TaskStatusDropdown: React.FC<TaskStatusDropdownProps> = ({
   taskId,
   currentStatus,
+  currentWorkflowStatus,
   size = 'md',
   variant = 'button',
   showDelete = true,
@@ -55,45 +85,22 @@ const TaskStatusDropdown: React.FC<TaskStatusDropdownProps> = ({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
 
-  const statusConfig = {
-    todo: {
-      label: 'To Do',
-      icon: Circle,
-      color: 'bg-blue-100 text-blue-800 border-blue-200',
-      hoverColor: 'hover:bg-blue-200',
-      buttonColor: 'bg-blue-500 hover:bg-blue-600 text-white'
-    },
-    progress: {
-      label: 'In Progress',
-      icon: Clock,
-      color: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      hoverColor: 'hover:bg-yellow-200',
-      buttonColor: 'bg-yellow-500 hover:bg-yellow-600 text-white'
-    },
-    done: {
-      label: 'Done',
-      icon: CheckCircle2,
-      color: 'bg-green-100 text-green-800 border-green-200',
-      hoverColor: 'hover:bg-green-200',
-      buttonColor: 'bg-green-500 hover:bg-green-600 text-white'
-    }
-  };
+  const { workflow, statuses } = useWorkflow();
+  const current = resolveTaskWorkflowStatus(
+    { status: currentStatus, workflowStatus: currentWorkflowStatus },
+    workflow
+  );
 
-  const handleStatusChange = async (newStatus: 'todo' | 'progress' | 'done') => {
-    if (newStatus === currentStatus) return;
+  const handleStatusChange = async (newStatus: WorkflowStatus) => {
+    if (newStatus.id === current.id) return;
 
     setIsUpdating(true);
     try {
-      await updateTask(taskId, { status: newStatus });
-      onStatusChange?.(taskId, newStatus);
-      
-      const statusLabels = {
-        todo: 'To Do',
-        progress: 'In Progress',
-        done: 'Done'
-      };
-      
-      toast.success(`Task status updated to ${statusLabels[newStatus]}`);
+      const updates = getWorkflowStatusUpdates(newStatus);
+      await updateTask(taskId, updates);
+      onStatusChange?.(taskId, updates.status);
+
+      toast.success(`Task status updated to ${newStatus.name}`);
     } catch (error) {
       console.error('Error updating task status:', error);
       toast.error('Failed to update task status');
@@ -114,9 +121,28 @@ const TaskStatusDropdown: React.FC<TaskStatusDropdownProps> = ({
     }
   };
 
-  const getCurrentConfig = () => statusConfig[currentStatus];
+  const getCurrentConfig = () => ({ ...categoryConfig[current.category], label: current.name });
   const CurrentIcon = getCurrentConfig().icon;
 
+  // Statuses the workflow does not allow from here are shown but disabled
+  const renderStatusItems = () => statuses.map(status => {
+    const StatusIcon = categoryConfig[status.category].icon;
+    const isCurrent = status.id === current.id;
+
+    return (
+      <DropdownMenuItem
+        key={status.id}
+        onClick={() => handleStatusChange(status)}
+        disabled={isCurrent || isUpdating || !canTransition(workflow, current.id, status.id)}
+        className="flex items-center gap-2"
+      >
+        <StatusIcon className="h-4 w-4" style={{ color: status.color }} />
+        {status.name}
+        {isCurrent && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
+      </DropdownMenuItem>
+    );
+  });
+
   const getSizeClasses = () => {
     switch (size) {
       case 'sm':
@@ -156,35 +182,7 @@ const TaskStatusDropdown: React.FC<TaskStatusDropdownProps> = ({
             <DropdownMenuLabel>Change Status</DropdownMenuLabel>
             <DropdownMenuSeparator />
             
-            <DropdownMenuItem
-              onClick={() => handleStatusChange('todo')}
-              disabled={currentStatus === 'todo' || isUpdating}
-              className="flex items-center gap-2"
-            >
-              <Circle className="h-4 w-4 text-blue-500" />
-              To Do
-              {currentStatus === 'todo' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-            </DropdownMenuItem>
-            
-            <DropdownMenuItem
-              onClick={() => handleStatusChange('progress')}
-              disabled={currentStatus === 'progress' || isUpdating}
-              className="flex items-center gap-2"
-            >
-              <Clock className="h-4 w-4 text-yellow-500" />
-              In Progress
-              {currentStatus === 'progress' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-            </DropdownMenuItem>
-            
-            <DropdownMenuItem
-              onClick={() => handleStatusChange('done')}
-              disabled={currentStatus === 'done' || isUpdating}
-              className="flex items-center gap-2"
-            >
-              <CheckCircle2 className="h-4 w-4 text-green-500" />
-              Done
-              {currentStatus === 'done' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-            </DropdownMenuItem>
+            {renderStatusItems()}
             
             {showDelete && (
               <>
@@ -240,35 +238,7 @@ const TaskStatusDropdown: React.FC<TaskStatusDropdownProps> = ({
           <DropdownMenuLabel>Change Status</DropdownMenuLabel>
           <DropdownMenuSeparator />
           
-          <DropdownMenuItem
-            onClick={() => handleStatusChange('todo')}
-            disabled={currentStatus === 'todo' || isUpdating}
-            className="flex items-center gap-2"
-          >
-            <Circle className="h-4 w-4 text-blue-500" />
-            To Do
-            {currentStatus === 'todo' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-          </DropdownMenuItem>
-          
-          <DropdownMenuItem
-            onClick={() => handleStatusChange('progress')}
-            disabled={currentStatus === 'progress' || isUpdating}
-            className="flex items-center gap-2"
-          >
-            <Clock className="h-4 w-4 text-yellow-500" />
-            In Progress
-            {currentStatus === 'progress' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-          </DropdownMenuItem>
-          
-          <DropdownMenuItem
-            onClick={() => handleStatusChange('done')}
-            disabled={currentStatus === 'done' || isUpdating}
-            className="flex items-center gap-2"
-          >
-            <CheckCircle2 className="h-4 w-4 text-green-500" />
-            Done
-            {currentStatus === 'done' && <span className="ml-auto text-xs text-muted-foreground">Current</span>}
-          </DropdownMenuItem>
+          {renderStatusItems()}
           
           {showDelete && (
             <>
@@ -12,28 +12,41 @@ import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { 
   Plus, 
-  Template, 
+  LayoutTemplate, 
   Star, 
   Copy, 
-  Edit, 
   Trash2, 
   Search,
   Filter,
   CheckSquare,
   Clock,
-  Tag,
-  Users,
+  CalendarClock,
   Globe,
   Lock
 } from 'lucide-react';
-import { TaskTemplate, Task, SubTask, CATEGORIES } from '../types';
+import { TaskTemplate, Task, CATEGORIES } from '../types';
+import { useTask } from '../contexts/TaskContext';
+import { useTaskTemplates, useCreateTemplate, useDeleteTemplate } from '../hooks/useTemplateQueries';
+import { getTemplateVariables, fillTemplateText, isRelativeDate, resolveRelativeDate } from '../utils/templates';
 
 interface TaskTemplateManagerProps {
-  onCreateTaskFromTemplate: (template: TaskTemplate, pageId?: string) => void;
   workspaceId: string;
   currentUserId: string;
+  defaultPageId?: string;
+  onTaskCreated?: (task: Task) => void;
 }
 
+const EMPTY_TEMPLATE: Partial<TaskTemplate> = {
+  name: '',
+  description: '',
+  category: 'Work',
+  priority: 'medium',
+  dueOffset: '',
+  tags: [],
+  subtasks: [],
+  isPublic: false
+};
+
 const PREDEFINED_TEMPLATES: TaskTemplate[] = [
   {
     id: 'template_1',
@@ -42,6 +55,7 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
     category: 'Work',
     priority: 'high',
     estimatedHours: 4,
+    dueOffset: '+3d',
     tags: ['bug', 'development'],
     subtasks: [
       { title: 'Reproduce the bug' },
@@ -55,7 +69,8 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
     createdBy: 'system',
     createdAt: new Date().toISOString(),
     isPublic: true,
-    usageCount: 156
+    isBuiltIn: true,
+    usageCount: 0
   },
   {
     id: 'template_2',
@@ -64,6 +79,7 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
     category: 'Work',
     priority: 'medium',
     estimatedHours: 16,
+    dueOffset: '+2w',
     tags: ['feature', 'development'],
     subtasks: [
       { title: 'Requirements analysis' },
@@ -80,18 +96,20 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
     createdBy: 'system',
     createdAt: new Date().toISOString(),
     isPublic: true,
-    usageCount: 89
+    isBuiltIn: true,
+    usageCount: 0
   },
   {
     id: 'template_3',
     name: 'Content Creation',
-    description: 'Blog post or article creation process',
+    description: 'Blog post or article about {{topic}}',
     category: 'Work',
     priority: 'medium',
     estimatedHours: 8,
+    dueOffset: '+1w',
     tags: ['content', 'writing', 'marketing'],
     subtasks: [
-      { title: 'Research topic' },
+      { title: 'Research {{topic}}' },
       { title: 'Create outline' },
       { title: 'Write first draft' },
       { title: 'Add images/media' },
@@ -103,12 +121,13 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
     createdBy: 'system',
     createdAt: new Date().toISOString(),
     isPublic: true,
-    usageCount: 67
+    isBuiltIn: true,
+    usageCount: 0
   },
   {
     id: 'template_4',
     name: 'Event Planning',
-    description: 'Comprehensive event planning checklist',
+    description: 'Planning checklist for {{event}}',
     category: 'Work',
     priority: 'medium',
     estimatedHours: 20,
@@ -123,33 +142,42 @@ const PREDEFINED_TEMPLATES: TaskTemplate[] = [
       { title: 'Coordinate speakers/entertainment' },
       { title: 'Prepare materials' },
       { title: 'Day-of coordination' },
-      { title: 'Follow-up and feedback' }
+      { title: 'Follow-up and feedback', dueOffset: '+1m' }
     ],
     createdBy: 'system',
     createdAt: new Date().toISOString(),
     isPublic: true,
-    usageCount: 43
+    isBuiltIn: true,
+    usageCount: 0
   }
 ];
 
 const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
-  onCreateTaskFromTemplate,
   workspaceId,
-  currentUserId
+  currentUserId,
+  defaultPageId,
+  onTaskCreated
 }) => {
-  const [templates, setTemplates] = useState<TaskTemplate[]>(PREDEFINED_TEMPLATES);
+  const { state, createTaskFromTemplate } = useTask();
+  const { data: savedTemplates = [] } = useTaskTemplates(workspaceId);
+  const createTemplateMutation = useCreateTemplate();
+  const deleteTemplateMutation = useDeleteTemplate();
+
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [isCreatingTemplate, setIsCreatingTemplate] = useState(false);
-  const [newTemplate, setNewTemplate] = useState<Partial<TaskTemplate>>({
-    name: '',
-    description: '',
-    category: 'Work',
-    priority: 'medium',
-    tags: [],
-    subtasks: [],
-    isPublic: false
-  });
+  const [newTemplate, setNewTemplate] = useState<Partial<TaskTemplate>>(EMPTY_TEMPLATE);
+
+  // "Use template" dialog
+  const [activeTemplate, setActiveTemplate] = useState<TaskTemplate | null>(null);
+  const [variableValues, setVariableValues] = useState<Record<string, string>>({});
+  const [taskTitle, setTaskTitle] = useState('');
+  const [targetPageId, setTargetPageId] = useState<string>('none');
+  const [isCreatingTask, setIsCreatingTask] = useState(false);
+
+  const templates = [...savedTemplates, ...PREDEFINED_TEMPLATES];
+  const activeVariables = activeTemplate ? getTemplateVariables(activeTemplate) : [];
+  const dueOffsetInvalid = !!newTemplate.dueOffset?.trim() && !isRelativeDate(newTemplate.dueOffset);
 
   const filteredTemplates = templates.filter(template => {
     const matchesSearch = template.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -161,44 +189,58 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
     return matchesSearch && matchesCategory;
   });
 
-  const handleCreateTemplate = () => {
-    if (!newTemplate.name?.trim()) return;
-
-    const template: TaskTemplate = {
-      id: `template_${Date.now()}`,
-      name: newTemplate.name,
-      description: newTemplate.description || '',
-      category: newTemplate.category || 'Work',
-      priority: newTemplate.priority || 'medium',
-      estimatedHours: newTemplate.estimatedHours,
-      tags: newTemplate.tags || [],
-      subtasks: newTemplate.subtasks || [],
-      createdBy: currentUserId,
-      createdAt: new Date().toISOString(),
-      isPublic: newTemplate.isPublic || false,
-      usageCount: 0
-    };
-
-    setTemplates(prev => [template, ...prev]);
-    setNewTemplate({
-      name: '',
-      description: '',
-      category: 'Work',
-      priority: 'medium',
-      tags: [],
-      subtasks: [],
-      isPublic: false
-    });
-    setIsCreatingTemplate(false);
+  const handleCreateTemplate = async () => {
+    if (!newTemplate.name?.trim() || dueOffsetInvalid) return;
+
+    try {
+      await createTemplateMutation.mutateAsync({
+        userId: currentUserId,
+        template: {
+          workspaceId,
+          name: newTemplate.name,
+          description: newTemplate.description || '',
+          category: newTemplate.category || 'Work',
+          priority: newTemplate.priority || 'medium',
+          estimatedHours: newTemplate.estimatedHours,
+          dueOffset: newTemplate.dueOffset,
+          tags: newTemplate.tags || [],
+          subtasks: newTemplate.subtasks || [],
+          isPublic: newTemplate.isPublic || false
+        }
+      });
+
+      setNewTemplate(EMPTY_TEMPLATE);
+      setIsCreatingTemplate(false);
+    } catch {
+      // The mutation already reported the error
+    }
   };
 
   const handleUseTemplate = (template: TaskTemplate) => {
-    // Increment usage count
-    setTemplates(prev => prev.map(t => 
-      t.id === template.id ? { ...t, usageCount: t.usageCount + 1 } : t
-    ));
-    
-    onCreateTaskFromTemplate(template);
+    setActiveTemplate(template);
+    setVariableValues({});
+    setTaskTitle('');
+    setTargetPageId(defaultPageId || 'none');
+  };
+
+  const handleConfirmUseTemplate = async () => {
+    if (!activeTemplate) return;
+
+    setIsCreatingTask(true);
+    try {
+      const task = await createTaskFromTemplate(activeTemplate, {
+        title: taskTitle,
+        pageId: targetPageId === 'none' ? undefined : targetPageId,
+        variables: variableValues
+      });
+
+      if (task) {
+        setActiveTemplate(null);
+        onTaskCreated?.(task);
+      }
+    } finally {
+      setIsCreatingTask(false);
+    }
   };
 
   const addSubtaskToTemplate = () => {
@@ -208,7 +250,7 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
     }));
   };
 
-  const updateTemplateSubtask = (index: number, updates: Partial<{ title: string; description: string }>) => {
+  const updateTemplateSubtask = (index: number, updates: Partial<{ title: string; description: string; dueOffset: string }>) => {
     setNewTemplate(prev => ({
       ...prev,
       subtasks: prev.subtasks?.map((st, i) => 
@@ -230,11 +272,11 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold flex items-center gap-2">
-            <Template className="h-6 w-6" />
+            <LayoutTemplate className="h-6 w-6" />
             Task Templates
           </h2>
           <p className="text-muted-foreground">
-            Create tasks quickly using predefined templates
+            Create tasks quickly using saved templates. Use {'{{name}}'} in text for values filled in when the task is created
           </p>
         </div>
         
@@ -300,7 +342,7 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                   <Label htmlFor="template-priority">Default Priority</Label>
                   <Select
                     value={newTemplate.priority || 'medium'}
-                    onValueChange={(value: any) => setNewTemplate(prev => ({ ...prev, priority: value }))}
+                    onValueChange={(value: TaskTemplate['priority']) => setNewTemplate(prev => ({ ...prev, priority: value }))}
                   >
                     <SelectTrigger>
                       <SelectValue />
@@ -309,6 +351,7 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                       <SelectItem value="low">Low</SelectItem>
                       <SelectItem value="medium">Medium</SelectItem>
                       <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="urgent">Urgent</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -343,6 +386,21 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                 />
               </div>
 
+              <div>
+                <Label htmlFor="template-due">Due Date</Label>
+                <Input
+                  id="template-due"
+                  value={newTemplate.dueOffset || ''}
+                  onChange={(e) => setNewTemplate(prev => ({ ...prev, dueOffset: e.target.value }))}
+                  placeholder="Relative to creation, e.g. +3d, +2w, tomorrow"
+                />
+                {dueOffsetInvalid && (
+                  <p className="text-xs text-destructive mt-1">
+                    Use +Nd, +Nw, +Nm, today or tomorrow
+                  </p>
+                )}
+              </div>
+
               <div>
                 <div className="flex items-center justify-between mb-2">
                   <Label>Subtasks</Label>
@@ -366,6 +424,12 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                         placeholder="Subtask title..."
                         className="flex-1"
                       />
+                      <Input
+                        value={subtask.dueOffset || ''}
+                        onChange={(e) => updateTemplateSubtask(index, { dueOffset: e.target.value })}
+                        placeholder="Due, e.g. +1d"
+                        className="w-28"
+                      />
                       <Button
                         type="button"
                         variant="ghost"
@@ -395,7 +459,10 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                 >
                   Cancel
                 </Button>
-                <Button onClick={handleCreateTemplate}>
+                <Button
+                  onClick={handleCreateTemplate}
+                  disabled={!newTemplate.name?.trim() || dueOffsetInvalid || createTemplateMutation.isPending}
+                >
                   Create Template
                 </Button>
               </div>
@@ -449,9 +516,23 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                     {template.description}
                   </CardDescription>
                 </div>
-                <Badge variant="outline" className="ml-2">
-                  {template.category}
-                </Badge>
+                <div className="flex items-center gap-1 ml-2">
+                  <Badge variant="outline">
+                    {template.isBuiltIn ? 'Built-in' : template.category}
+                  </Badge>
+                  {!template.isBuiltIn && template.createdBy === currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Delete template"
+                      disabled={deleteTemplateMutation.isPending}
+                      onClick={() => deleteTemplateMutation.mutate({ workspaceId, templateId: template.id })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
               </div>
             </CardHeader>
             
@@ -467,10 +548,18 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
                     {template.estimatedHours}h
                   </div>
                 )}
-                <div className="flex items-center gap-1">
-                  <Star className="h-4 w-4" />
-                  {template.usageCount}
-                </div>
+                {template.dueOffset && (
+                  <div className="flex items-center gap-1">
+                    <CalendarClock className="h-4 w-4" />
+                    {template.dueOffset}
+                  </div>
+                )}
+                {!template.isBuiltIn && (
+                  <div className="flex items-center gap-1" title="Times used">
+                    <Star className="h-4 w-4" />
+                    {template.usageCount}
+                  </div>
+                )}
               </div>
               
               {template.tags.length > 0 && (
@@ -502,7 +591,7 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
 
       {filteredTemplates.length === 0 && (
         <div className="text-center py-12">
-          <Template className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <LayoutTemplate className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
           <h3 className="text-lg font-medium mb-2">No templates found</h3>
           <p className="text-muted-foreground mb-4">
             {searchQuery || selectedCategory !== 'all' 
@@ -518,6 +607,71 @@ const TaskTemplateManager: React.FC<TaskTemplateManagerProps> = ({
           )}
         </div>
       )}
+
+      {/* Use Template Dialog */}
+      <Dialog open={!!activeTemplate} onOpenChange={(open) => !open && setActiveTemplate(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Use "{activeTemplate?.name}"</DialogTitle>
+            <DialogDescription>
+              Creates the task with {activeTemplate?.subtasks.length || 0} subtasks
+              {activeTemplate?.dueOffset && `, due ${resolveRelativeDate(activeTemplate.dueOffset)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {activeTemplate && (
+            <div className="space-y-4">
+              {activeVariables.map(name => (
+                <div key={name}>
+                  <Label htmlFor={`template-var-${name}`}>{name}</Label>
+                  <Input
+                    id={`template-var-${name}`}
+                    value={variableValues[name] || ''}
+                    onChange={(e) => setVariableValues(prev => ({ ...prev, [name]: e.target.value }))}
+                    placeholder={`Value for {{${name}}}`}
+                  />
+                </div>
+              ))}
+
+              <div>
+                <Label htmlFor="template-task-title">Task Title</Label>
+                <Input
+                  id="template-task-title"
+                  value={taskTitle}
+                  onChange={(e) => setTaskTitle(e.target.value)}
+                  placeholder={fillTemplateText(activeTemplate.name, variableValues)}
+                />
+              </div>
+
+              <div>
+                <Label>Page</Label>
+                <Select value={targetPageId} onValueChange={setTargetPageId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No page</SelectItem>
+                    {state.pages.map(page => (
+                      <SelectItem key={page.id} value={page.id}>
+                        {page.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setActiveTemplate(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleConfirmUseTemplate} disabled={isCreatingTask}>
+                  {isCreatingTask ? 'Creating...' : 'Create Task'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTask } from '../contexts/TaskContext';
+import { Task, TaskDependency, TASK_STATUSES } from '../types';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GanttChart, Route, CalendarClock } from 'lucide-react';
+import {
+  format,
+  addDays,
+  differenceInCalendarDays,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  eachMonthOfInterval,
+  max as maxDate,
+  min as minDate
+} from 'date-fns';
+import { parseTaskDate } from '../utils/recurrence';
+import { getCriticalPath } from '../utils/dependencies';
+
+type TimelineZoom = 'day' | 'week' | 'month';
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface TimelineDrag {
+  task: Task;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+interface TimelineRow {
+  task: Task;
+  start: Date;
+  end: Date;
+}
+
+interface TaskTimelineViewProps {
+  tasks?: Task[]; // Defaults to every task in the workspace
+  onTaskClick?: (task: Task) => void;
+}
+
+const DAY_WIDTH: Record<TimelineZoom, number> = { day: 40, week: 16, month: 4 };
+const ROW_HEIGHT = 40;
+const BAR_HEIGHT = 24;
+const HEADER_HEIGHT = 40;
+const LABEL_WIDTH = 240;
+
+const STATUS_BAR_COLORS: Record<Task['status'], string> = {
+  todo: 'bg-blue-500',
+  progress: 'bg-yellow-500',
+  done: 'bg-green-500',
+  cancelled: 'bg-gray-400'
+};
+
+// Where a bar sits after the drag in progress
+const getDraggedDates = (row: TimelineRow, drag: TimelineDrag | null) => {
+  if (!drag || drag.task.id !== row.task.id) return { start: row.start, end: row.end };
+
+  switch (drag.mode) {
+    case 'move':
+      return { start: addDays(row.start, drag.deltaDays), end: addDays(row.end, drag.deltaDays) };
+    case 'start':
+      return { start: minDate([addDays(row.start, drag.deltaDays), row.end]), end: row.end };
+    case 'end':
+      return { start: row.start, end: maxDate([addDays(row.end, drag.deltaDays), row.start]) };
+  }
+};
+
+const TaskTimelineView: React.FC<TaskTimelineViewProps> = ({ tasks, onTaskClick }) => {
+  const { state, dependencies, updateTask } = useTask();
+  const [zoom, setZoom] = useState<TimelineZoom>('week');
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+
+  const allTasks = useMemo(
+    () => tasks || [...state.pages.flatMap(page => page.tasks), ...state.unassignedTasks],
+    [tasks, state.pages, state.unassignedTasks]
+  );
+
+  // Tasks with only one date are drawn as a single day
+  const rows = useMemo<TimelineRow[]>(() => {
+    return allTasks
+      .flatMap(task => {
+        const start = parseTaskDate(task.startDate) || parseTaskDate(task.dueDate);
+        const end = parseTaskDate(task.dueDate) || start;
+        return start && end ? [{ task, start: minDate([start, end]), end: maxDate([start, end]) }] : [];
+      })
+      .sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+  }, [allTasks]);
+
+  const criticalPath = useMemo(() => getCriticalPath(allTasks, dependencies), [allTasks, dependencies]);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const today = new Date();
+
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const dates = [new Date(), ...rows.flatMap(row => [row.start, row.end])];
+    if (criticalPath.endDate) dates.push(criticalPath.endDate);
+    const earliest = addDays(minDate(dates), -7);
+    const latest = addDays(maxDate(dates), 14);
+
+    return zoom === 'month'
+      ? { rangeStart: startOfMonth(earliest), rangeEnd: endOfMonth(latest) }
+      : { rangeStart: startOfWeek(earliest), rangeEnd: endOfWeek(latest) };
+  }, [rows, criticalPath.endDate, zoom]);
+
+  const totalDays = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const chartWidth = totalDays * dayWidth;
+  const getX = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+
+  // Header segments for the chosen zoom, clipped to the visible range
+  const segments = useMemo(() => {
+    const interval = { start: rangeStart, end: rangeEnd };
+    const units =
+      zoom === 'day'
+        ? eachDayOfInterval(interval).map(day => ({ start: day, end: day, label: format(day, 'EEEEE d') }))
+        : zoom === 'week'
+          ? eachWeekOfInterval(interval).map(week => ({ start: week, end: endOfWeek(week), label: format(week, 'MMM d') }))
+          : eachMonthOfInterval(interval).map(month => ({ start: month, end: endOfMonth(month), label: format(month, 'MMM yyyy') }));
+
+    return units.map(unit => {
+      const start = maxDate([unit.start, rangeStart]);
+      const end = minDate([unit.end, rangeEnd]);
+      return { ...unit, key: unit.start.toISOString(), width: (differenceInCalendarDays(end, start) + 1) * dayWidth };
+    });
+  }, [rangeStart, rangeEnd, zoom, dayWidth]);
+
+  const rowIndex = useMemo(() => new Map(rows.map((row, index) => [row.task.id, index])), [rows]);
+
+  // Follow the pointer while a bar is dragged and save the new dates on release
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: MouseEvent) => {
+      const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+      if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+    };
+
+    const handleUp = () => {
+      const row = rows.find(item => item.task.id === drag.task.id);
+      setDrag(null);
+      if (!row) return;
+
+      if (drag.deltaDays === 0) {
+        onTaskClick?.(drag.task);
+        return;
+      }
+
+      const { start, end } = getDraggedDates(row, drag);
+      const updates: Partial<Task> = { dueDate: format(end, 'yyyy-MM-dd') };
+      if (drag.task.startDate || drag.mode === 'start' || differenceInCalendarDays(end, start) > 0) {
+        updates.startDate = format(start, 'yyyy-MM-dd');
+      }
+      updateTask(drag.task.id, updates);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [drag, dayWidth, rows, updateTask, onTaskClick]);
+
+  const startDrag = (event: React.MouseEvent, task: Task, mode: DragMode) => {
+    if (event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setDrag({ task, mode, originX: event.clientX, deltaDays: 0 });
+  };
+
+  const isCritical = (taskId: string) => showCriticalPath && criticalPath.taskIds.has(taskId);
+
+  // Elbow arrow from the predecessor's start or finish to the successor's start or finish
+  const getArrowPath = (dependency: TaskDependency): string | null => {
+    const fromIndex = rowIndex.get(dependency.dependsOnTaskId);
+    const toIndex = rowIndex.get(dependency.dependentTaskId);
+    if (fromIndex === undefined || toIndex === undefined) return null;
+
+    const from = getDraggedDates(rows[fromIndex], drag);
+    const to = getDraggedDates(rows[toIndex], drag);
+    const fromFinish = dependency.type === 'finish_to_start' || dependency.type === 'finish_to_finish';
+    const toStart = dependency.type === 'finish_to_start' || dependency.type === 'start_to_start';
+
+    const x1 = fromFinish ? getX(from.end) + dayWidth : getX(from.start);
+    const x2 = toStart ? getX(to.start) : getX(to.end) + dayWidth;
+    const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const bend = toStart ? Math.min(x1 + 8, x2 - 8) : Math.max(x1 + 8, x2 + 8);
+
+    return `M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`;
+  };
+
+  const undatedCount = allTasks.length - rows.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3 flex-wrap">
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+              <GanttChart className="h-6 w-6" />
+              Timeline
+            </h2>
+            {criticalPath.endDate && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <CalendarClock className="h-3 w-3" />
+                Ends {format(criticalPath.endDate, 'MMM d, yyyy')}
+              </Badge>
+            )}
+            {undatedCount > 0 && (
+              <span className="text-sm text-muted-foreground">
+                {undatedCount} task{undatedCount === 1 ? '' : 's'} without dates not shown
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              variant={showCriticalPath ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setShowCriticalPath(!showCriticalPath)}
+              className="flex items-center gap-2"
+            >
+              <Route className="h-4 w-4" />
+              Critical path ({criticalPath.taskIds.size})
+            </Button>
+            <Tabs value={zoom} onValueChange={(value) => setZoom(value as TimelineZoom)}>
+              <TabsList>
+                <TabsTrigger value="day">Day</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+                <TabsTrigger value="month">Month</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            Give tasks a start or due date to see them on the timeline
+          </div>
+        ) : (
+          <div className="flex border rounded-lg overflow-hidden select-none">
+            {/* Task names */}
+            <div className="shrink-0 border-r bg-background" style={{ width: LABEL_WIDTH }}>
+              <div className="border-b px-3 flex items-center text-sm font-medium" style={{ height: HEADER_HEIGHT }}>
+                Task
+              </div>
+              {rows.map(({ task }) => (
+                <div
+                  key={task.id}
+                  className="border-b px-3 flex items-center gap-2 text-sm cursor-pointer hover:bg-muted/50"
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => onTaskClick?.(task)}
+                >
+                  <div className={`w-2 h-2 rounded-full shrink-0 ${STATUS_BAR_COLORS[task.status]}`} />
+                  <span className={`truncate ${isCritical(task.id) ? 'font-semibold text-red-600 dark:text-red-400' : ''}`}>
+                    {task.title}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Chart */}
+            <div className="overflow-x-auto flex-1">
+              <div className="relative" style={{ width: chartWidth }}>
+                <div className="flex border-b" style={{ height: HEADER_HEIGHT }}>
+                  {segments.map(segment => (
+                    <div
+                      key={segment.key}
+                      className="shrink-0 border-r px-1 flex items-center text-xs text-muted-foreground overflow-hidden whitespace-nowrap"
+                      style={{ width: segment.width }}
+                    >
+                      {segment.label}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+                  {rows.map((row, index) => (
+                    <div
+                      key={row.task.id}
+                      className="absolute left-0 right-0 border-b"
+                      style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    />
+                  ))}
+
+                  {/* Today */}
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-orange-500"
+                    style={{ left: getX(today) + dayWidth / 2 }}
+                  />
+
+                  {/* Dependency arrows */}
+                  <svg className="absolute inset-0 pointer-events-none" width={chartWidth} height={rows.length * ROW_HEIGHT}>
+                    <defs>
+                      <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                        <path d="M0,0 L6,3 L0,6 Z" className="fill-muted-foreground" />
+                      </marker>
+                      <marker id="timeline-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                        <path d="M0,0 L6,3 L0,6 Z" className="fill-red-500" />
+                      </marker>
+                    </defs>
+                    {dependencies.map(dependency => {
+                      const path = getArrowPath(dependency);
+                      if (!path) return null;
+                      const critical = isCritical(dependency.dependsOnTaskId) && isCritical(dependency.dependentTaskId);
+                      return (
+                        <path
+                          key={dependency.id}
+                          d={path}
+                          fill="none"
+                          strokeWidth={critical ? 2 : 1.5}
+                          className={critical ? 'stroke-red-500' : 'stroke-muted-foreground'}
+                          markerEnd={`url(#${critical ? 'timeline-arrow-critical' : 'timeline-arrow'})`}
+                        />
+                      );
+                    })}
+                  </svg>
+
+                  {/* Bars */}
+                  {rows.map((row, index) => {
+                    const { start, end } = getDraggedDates(row, drag);
+                    const slack = criticalPath.slack.get(row.task.id);
+                    const finished = row.task.status === 'done' || row.task.status === 'cancelled';
+
+                    return (
+                      <div
+                        key={row.task.id}
+                        className={`absolute rounded-md text-white text-xs flex items-center overflow-hidden cursor-grab shadow-sm ${
+                          STATUS_BAR_COLORS[row.task.status]
+                        } ${finished ? 'opacity-60' : ''} ${
+                          isCritical(row.task.id) ? 'ring-2 ring-red-500 ring-offset-1' : ''
+                        } ${drag?.task.id === row.task.id ? 'cursor-grabbing opacity-80' : ''}`}
+                        style={{
+                          left: getX(start),
+                          width: Math.max(dayWidth, (differenceInCalendarDays(end, start) + 1) * dayWidth),
+                          top: index * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                          height: BAR_HEIGHT
+                        }}
+                        title={[
+                          row.task.title,
+                          `${format(start, 'MMM d')} – ${format(end, 'MMM d')}`,
+                          TASK_STATUSES[row.task.status].label,
+                          slack !== undefined ? (slack === 0 ? 'On the critical path' : `${slack} day${slack === 1 ? '' : 's'} of slack`) : ''
+                        ].filter(Boolean).join('\n')}
+                        onMouseDown={(event) => startDrag(event, row.task, 'move')}
+                      >
+                        <div
+                          className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-black/20"
+                          onMouseDown={(event) => startDrag(event, row.task, 'start')}
+                        />
+                        <span className="px-2 truncate">{zoom === 'month' ? '' : row.task.title}</span>
+                        <div
+                          className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-black/20"
+                          onMouseDown={(event) => startDrag(event, row.task, 'end')}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaskTimelineView;
@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
 import { useTask } from '../contexts/TaskContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useWorkspaceTags } from '../hooks/useTagQueries';
 import { Task } from '../types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
 import {
   LayoutGrid,
   List,
@@ -16,18 +20,22 @@ import {
   Search,
   Eye,
   EyeOff,
-  Globe
+  Globe,
+  LayoutTemplate,
+  GanttChart
 } from 'lucide-react';
 import TaskBoard from './TaskBoard';
 import TaskListView from './TaskListView';
 import TaskCalendarView from './TaskCalendarView';
+import TaskTimelineView from './TaskTimelineView';
 import TaskFilters, { TaskFilterOptions } from './TaskFilters';
 import TaskActions from './TaskActions';
 import TaskProgress from './TaskProgress';
 import AddTaskModal from './AddTaskModal';
+import TaskTemplateManager from './TaskTemplateManager';
 
 interface TaskViewsProps {
-  defaultView?: 'board' | 'list' | 'calendar';
+  defaultView?: 'board' | 'list' | 'calendar' | 'timeline';
   showViewToggle?: boolean;
   showFilters?: boolean;
   compactMode?: boolean;
@@ -42,8 +50,12 @@ const TaskViews: React.FC<TaskViewsProps> = ({
   pageId
 }) => {
   const { state } = useTask();
+  const { currentWorkspace } = useSupabaseWorkspace();
+  const { user } = useAuth();
+  const { data: workspaceTags = [] } = useWorkspaceTags(currentWorkspace?.id || '');
   const [currentView, setCurrentView] = useState(defaultView);
   const [showAddTaskModal, setShowAddTaskModal] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [filtersVisible, setFiltersVisible] = useState(true);
   const [selectedTasks, setSelectedTasks] = useState<string[]>([]);
   const [selectedPageId, setSelectedPageId] = useState<string>(pageId || 'all');
@@ -81,6 +93,14 @@ const TaskViews: React.FC<TaskViewsProps> = ({
   // Get all tasks count
   const totalTasks = allTasks.length;
 
+  // Tag names offered by the filters: the workspace catalog plus any tag
+  // on a loaded task that the catalog has not picked up yet
+  const availableTags = React.useMemo(() => {
+    const names = new Set(workspaceTags.map(tag => tag.name));
+    allTasks.forEach(task => task.tags?.forEach(tag => names.add(tag)));
+    return Array.from(names);
+  }, [workspaceTags, allTasks]);
+
   // View configurations
   const viewConfigs = {
     board: {
@@ -100,6 +120,12 @@ const TaskViews: React.FC<TaskViewsProps> = ({
       label: 'Calendar',
       icon: CalendarIcon,
       description: 'Calendar view with due dates'
+    },
+    timeline: {
+      id: 'timeline',
+      label: 'Timeline',
+      icon: GanttChart,
+      description: 'Gantt chart with dependencies and the critical path'
     }
   };
 
@@ -126,6 +152,11 @@ const TaskViews: React.FC<TaskViewsProps> = ({
       filtered = filtered.filter(task => filters.priority.includes(task.priority || 'medium'));
     }
 
+    // Tags filter
+    if (filters.tags.length > 0) {
+      filtered = filtered.filter(task => task.tags?.some(tag => filters.tags.includes(tag)));
+    }
+
     // Show completed filter
     if (!filters.showCompleted) {
       filtered = filtered.filter(task => task.status !== 'done');
@@ -167,6 +198,7 @@ const TaskViews: React.FC<TaskViewsProps> = ({
               <TaskFilters
                 filters={filters}
                 onFiltersChange={setFilters}
+                availableTags={availableTags}
                 compact={compactMode}
               />
             )}
@@ -195,6 +227,7 @@ const TaskViews: React.FC<TaskViewsProps> = ({
               <TaskFilters
                 filters={filters}
                 onFiltersChange={setFilters}
+                availableTags={availableTags}
                 compact={compactMode}
               />
             )}
@@ -221,6 +254,7 @@ const TaskViews: React.FC<TaskViewsProps> = ({
               <TaskFilters
                 filters={filters}
                 onFiltersChange={setFilters}
+                availableTags={availableTags}
                 compact={compactMode}
               />
             )}
@@ -230,6 +264,21 @@ const TaskViews: React.FC<TaskViewsProps> = ({
             />
           </div>
         );
+      case 'timeline':
+        return (
+          <div className="space-y-6">
+            {filtersVisible && showFilters && (
+              <TaskFilters
+                filters={filters}
+                onFiltersChange={setFilters}
+                availableTags={availableTags}
+                compact={compactMode}
+              />
+            )}
+
+            <TaskTimelineView tasks={filteredTasks} />
+          </div>
+        );
       default:
         return (
           <TaskBoard
@@ -281,7 +330,7 @@ const TaskViews: React.FC<TaskViewsProps> = ({
           {/* View Toggle */}
           {showViewToggle && (
             <Tabs value={currentView} onValueChange={(value) => setCurrentView(value as any)}>
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 {Object.values(viewConfigs).map((config) => (
                   <TabsTrigger
                     key={config.id}
@@ -311,6 +360,19 @@ const TaskViews: React.FC<TaskViewsProps> = ({
             </Button>
           )}
 
+          {/* Templates Button */}
+          {currentWorkspace && user && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowTemplates(true)}
+              className="flex items-center gap-2"
+            >
+              <LayoutTemplate className="h-4 w-4" />
+              <span className="hidden sm:inline">Templates</span>
+            </Button>
+          )}
+
           {/* Add Task Button */}
           <Button
             onClick={() => setShowAddTaskModal(true)}
@@ -338,6 +400,20 @@ const TaskViews: React.FC<TaskViewsProps> = ({
         isOpen={showAddTaskModal}
         onClose={() => setShowAddTaskModal(false)}
       />
+
+      {/* Task Templates */}
+      {currentWorkspace && user && (
+        <Dialog open={showTemplates} onOpenChange={setShowTemplates}>
+          <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+            <TaskTemplateManager
+              workspaceId={currentWorkspace.id}
+              currentUserId={user.id}
+              defaultPageId={pageId || (selectedPageId !== 'all' ? selectedPageId : undefined)}
+              onTaskCreated={() => setShowTemplates(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
     </div>
   );
 };
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CheckSquare } from 'lucide-react';
+import { ThroughputPoint, formatChartDate } from '../utils/analytics';
+
+interface ThroughputChartProps {
+  points: ThroughputPoint[];
+}
+
+const chartConfig = {
+  completed: { label: 'Completed', color: 'hsl(var(--chart-3))' }
+} satisfies ChartConfig;
+
+// Tasks finished each week
+const ThroughputChart: React.FC<ThroughputChartProps> = ({ points }) => {
+  const total = points.reduce((sum, point) => sum + point.completed, 0);
+  const average = points.length > 0 ? Math.round((total / points.length) * 10) / 10 : 0;
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CheckSquare className="h-5 w-5" />
+          Throughput
+        </CardTitle>
+        <CardDescription>
+          Tasks completed per week · {total} in total, {average} a week on average
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+          <BarChart data={points} margin={{ left: 0, right: 12, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="week"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              tickFormatter={(week) => `Wk of ${formatChartDate(String(week))}`}
+            />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(value) => `Week of ${formatChartDate(String(value))}`} />}
+            />
+            <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThroughputChart;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { TimeEntry, WorkspaceMember } from '../types/workspace';
+import { useSaveTimeEntry } from '../hooks/useTimesheetQueries';
+import { formatHours, parseHours } from '../utils/timesheets';
+
+export interface TimesheetTaskOption {
+  id: string;
+  title: string;
+  pageTitle?: string;
+}
+
+interface TimeEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  userId: string; // Whose time it is, unless `members` lets an admin pick
+  tasks: TimesheetTaskOption[];
+  members?: WorkspaceMember[];
+  entry?: TimeEntry; // Set when editing
+  defaults?: { taskId?: string; date?: string; userId?: string };
+}
+
+const TimeEntryDialog: React.FC<TimeEntryDialogProps> = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  userId,
+  tasks,
+  members,
+  entry,
+  defaults
+}) => {
+  const saveEntry = useSaveTimeEntry();
+  const [form, setForm] = useState({ userId, taskId: '', date: '', hours: '', description: '', billable: false });
+
+  // Start from the entry being edited, or the cell that was clicked
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      userId: entry?.userId || defaults?.userId || userId,
+      taskId: entry?.taskId || defaults?.taskId || '',
+      date: entry?.date || defaults?.date || '',
+      hours: entry?.duration ? formatHours(entry.duration) : '',
+      description: entry?.description || '',
+      billable: entry?.billable ?? false
+    });
+  }, [open, entry, defaults, userId]);
+
+  const minutes = parseHours(form.hours);
+  const hoursError = form.hours.trim() && (minutes === null || minutes <= 0 || minutes > 24 * 60)
+    ? 'Enter up to 24 hours, e.g. 1.5 or 1:30'
+    : null;
+  const canSave = !!form.taskId && !!form.date && !!minutes && !hoursError;
+
+  const handleSave = () => {
+    if (!canSave || saveEntry.isPending) return;
+
+    saveEntry.mutate({
+      entry: {
+        id: entry?.id,
+        workspaceId,
+        taskId: form.taskId,
+        userId: form.userId,
+        date: form.date,
+        minutes: minutes!,
+        description: form.description,
+        billable: form.billable
+      },
+      existing: entry
+    }, {
+      onSuccess: () => onOpenChange(false)
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit time' : 'Add time'}</DialogTitle>
+          <DialogDescription>
+            Time counts towards the day you pick, whatever time it was tracked at.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {members && members.length > 0 && (
+            <div className="space-y-2">
+              <Label>Member</Label>
+              <Select value={form.userId} onValueChange={(value) => setForm(prev => ({ ...prev, userId: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {members.map(member => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.fullName || member.displayName || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Task</Label>
+            <Select value={form.taskId} onValueChange={(value) => setForm(prev => ({ ...prev, taskId: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a task" />
+              </SelectTrigger>
+              <SelectContent>
+                {tasks.map(task => (
+                  <SelectItem key={task.id} value={task.id}>
+                    {task.pageTitle ? `${task.pageTitle} / ${task.title}` : task.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-date">Date</Label>
+              <Input
+                id="time-entry-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="time-entry-hours">Hours</Label>
+              <Input
+                id="time-entry-hours"
+                placeholder="1:30"
+                value={form.hours}
+                onChange={(e) => setForm(prev => ({ ...prev, hours: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              />
+            </div>
+          </div>
+          {hoursError && <p className="text-xs text-destructive">{hoursError}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="time-entry-description">Description</Label>
+            <Textarea
+              id="time-entry-description"
+              rows={2}
+              placeholder="What did you work on?"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="time-entry-billable"
+              checked={form.billable}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, billable: checked === true }))}
+            />
+            <Label htmlFor="time-entry-billable">Billable</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button className="btn-orange" onClick={handleSave} disabled={!canSave || saveEntry.isPending}>
+            {saveEntry.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimeEntryDialog;
@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Play, 
@@ -21,7 +22,9 @@ import {
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/SupabaseAuthContext';
-import { formatDistanceToNow, format } from 'date-fns';
+import { useTimer } from '../hooks/useTimer';
+import { formatElapsed } from '../utils/timesheets';
+import { format } from 'date-fns';
 
 interface TimeEntry {
   id: string;
@@ -31,10 +34,19 @@ interface TimeEntry {
   end_time?: string;
   duration_minutes?: number;
   description?: string;
+  subtask_id?: string | null;
+  subtasks?: { title: string } | null;
   created_at: string;
   updated_at: string;
 }
 
+interface SubtaskOption {
+  id: string;
+  title: string;
+}
+
+const NO_SUBTASK = 'none';
+
 interface TimeTrackerProps {
   taskId: string;
   taskTitle: string;
@@ -42,49 +54,57 @@ interface TimeTrackerProps {
 
 const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
   const { user } = useAuth();
+  const { activeTimer, elapsedSeconds, busy, startTimer, stopTimer } = useTimer();
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
-  const [activeEntry, setActiveEntry] = useState<TimeEntry | null>(null);
+  const [subtasks, setSubtasks] = useState<SubtaskOption[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [elapsedTime, setElapsedTime] = useState(0);
   const [isAddingManual, setIsAddingManual] = useState(false);
   
   const [manualEntry, setManualEntry] = useState({
     start_time: '',
     end_time: '',
-    description: ''
+    description: '',
+    subtask_id: NO_SUBTASK
   });
 
+  // The timer itself is app-wide (TimerContext); reload when it starts or stops
+  const runningEntryId = activeTimer?.entryId;
+  const isRunning = activeTimer?.taskId === taskId;
+
   // Load time entries
   useEffect(() => {
     loadTimeEntries();
-  }, [taskId]);
+  }, [taskId, runningEntryId]);
 
-  // Timer effect for active tracking
+  // Time can be logged against a subtask; it still counts towards this task
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    
-    if (activeEntry) {
-      interval = setInterval(() => {
-        const startTime = new Date(activeEntry.start_time).getTime();
-        const now = Date.now();
-        setElapsedTime(Math.floor((now - startTime) / 1000));
-      }, 1000);
-    }
+    const loadSubtasks = async () => {
+      const { data, error } = await supabase
+        .from('subtasks')
+        .select('id, title')
+        .eq('parent_task_id', taskId)
+        .order('order_index', { ascending: true });
 
-    return () => {
-      if (interval) clearInterval(interval);
+      if (error) {
+        console.error('Error loading subtasks:', error);
+        return;
+      }
+      setSubtasks(data || []);
     };
-  }, [activeEntry]);
+
+    loadSubtasks();
+  }, [taskId]);
 
   const loadTimeEntries = async () => {
     try {
       setLoading(true);
       const { data, error } = await supabase
         .from('task_time_entries')
-        .select('*')
+        .select('*, subtasks(title)')
         .eq('task_id', taskId)
         .eq('user_id', user?.id)
+        .eq('is_idle', false)
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -94,10 +114,6 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
       }
 
       setTimeEntries(data || []);
-      
-      // Check for active entry
-      const active = data?.find(entry => !entry.end_time);
-      setActiveEntry(active || null);
 
     } catch (error) {
       console.error('Error loading time entries:', error);
@@ -107,100 +123,6 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
     }
   };
 
-  const startTimer = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      const { data, error } = await supabase
-        .from('task_time_entries')
-        .insert({
-          task_id: taskId,
-          user_id: user?.id,
-          start_time: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error starting timer:', error);
-        setError('Failed to start timer');
-        return;
-      }
-
-      setActiveEntry(data);
-      setElapsedTime(0);
-
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: 'time_tracking_started',
-        p_activity_description: `Started time tracking for: ${taskTitle}`,
-        p_metadata: { 
-          task_id: taskId, 
-          time_entry_id: data.id
-        }
-      });
-
-    } catch (error) {
-      console.error('Error starting timer:', error);
-      setError('Failed to start timer');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const stopTimer = async () => {
-    if (!activeEntry) return;
-
-    try {
-      setLoading(true);
-      setError(null);
-
-      const endTime = new Date().toISOString();
-      const startTime = new Date(activeEntry.start_time).getTime();
-      const endTimeMs = new Date(endTime).getTime();
-      const durationMinutes = Math.round((endTimeMs - startTime) / (1000 * 60));
-
-      const { error } = await supabase
-        .from('task_time_entries')
-        .update({
-          end_time: endTime,
-          duration_minutes: durationMinutes,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', activeEntry.id);
-
-      if (error) {
-        console.error('Error stopping timer:', error);
-        setError('Failed to stop timer');
-        return;
-      }
-
-      setActiveEntry(null);
-      setElapsedTime(0);
-      loadTimeEntries();
-
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: 'time_tracking_stopped',
-        p_activity_description: `Stopped time tracking for: ${taskTitle} (${durationMinutes} minutes)`,
-        p_metadata: { 
-          task_id: taskId, 
-          time_entry_id: activeEntry.id,
-          duration_minutes: durationMinutes
-        }
-      });
-
-    } catch (error) {
-      console.error('Error stopping timer:', error);
-      setError('Failed to stop timer');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const addManualEntry = async () => {
     if (!manualEntry.start_time || !manualEntry.end_time) return;
 
@@ -223,10 +145,12 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
         .insert({
           task_id: taskId,
           user_id: user?.id,
+          work_date: format(new Date(manualEntry.start_time), 'yyyy-MM-dd'),
           start_time: manualEntry.start_time,
           end_time: manualEntry.end_time,
           duration_minutes: durationMinutes,
-          description: manualEntry.description || null
+          description: manualEntry.description || null,
+          subtask_id: manualEntry.subtask_id === NO_SUBTASK ? null : manualEntry.subtask_id
         });
 
       if (error) {
@@ -235,7 +159,7 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
         return;
       }
 
-      setManualEntry({ start_time: '', end_time: '', description: '' });
+      setManualEntry({ start_time: '', end_time: '', description: '', subtask_id: NO_SUBTASK });
       setIsAddingManual(false);
       loadTimeEntries();
 
@@ -275,17 +199,6 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    
-    if (hours > 0) {
-      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    }
-    return `${minutes}:${secs.toString().padStart(2, '0')}`;
-  };
-
   const formatDuration = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -344,6 +257,25 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
                     onChange={(e) => setManualEntry(prev => ({ ...prev, end_time: e.target.value }))}
                   />
                 </div>
+                {subtasks.length > 0 && (
+                  <div>
+                    <Label>Subtask (Optional)</Label>
+                    <Select
+                      value={manualEntry.subtask_id}
+                      onValueChange={(value) => setManualEntry(prev => ({ ...prev, subtask_id: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_SUBTASK}>Whole task</SelectItem>
+                        {subtasks.map(subtask => (
+                          <SelectItem key={subtask.id} value={subtask.id}>{subtask.title}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div>
                   <Label htmlFor="description">Description (Optional)</Label>
                   <Textarea
@@ -385,22 +317,22 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
               <Clock className="h-8 w-8 text-orange-500" />
               <div>
                 <div className="text-2xl font-mono font-bold">
-                  {formatTime(elapsedTime)}
+                  {formatElapsed(isRunning ? elapsedSeconds : 0)}
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  {activeEntry ? 'Timer running' : 'Timer stopped'}
+                  {isRunning ? 'Timer running' : activeTimer ? `Timer running on "${activeTimer.taskTitle}"` : 'Timer stopped'}
                 </div>
               </div>
             </div>
             
             <div className="flex gap-2">
-              {activeEntry ? (
-                <Button onClick={stopTimer} disabled={loading} variant="destructive">
+              {isRunning ? (
+                <Button onClick={stopTimer} disabled={busy} variant="destructive">
                   <Square className="h-4 w-4 mr-2" />
                   Stop
                 </Button>
               ) : (
-                <Button onClick={startTimer} disabled={loading}>
+                <Button onClick={() => startTimer(taskId, taskTitle)} disabled={busy}>
                   <Play className="h-4 w-4 mr-2" />
                   Start
                 </Button>
@@ -439,6 +371,9 @@ const TimeTracker: React.FC<TimeTrackerProps> = ({ taskId, taskTitle }) => {
                         <> - {format(new Date(entry.end_time), 'HH:mm')}</>
                       )}
                     </div>
+                    {entry.subtasks && (
+                      <Badge variant="outline" className="text-xs">{entry.subtasks.title}</Badge>
+                    )}
                   </div>
                   {entry.description && (
                     <p className="text-sm text-muted-foreground mt-1">
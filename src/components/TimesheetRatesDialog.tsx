@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TimesheetRate, WorkspaceMember } from '../types/workspace';
+import { Page } from '../types';
+import { useSetTimesheetRate } from '../hooks/useTimesheetQueries';
+
+interface TimesheetRatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  rates: TimesheetRate[];
+  members: WorkspaceMember[];
+  pages: Page[];
+}
+
+const memberKey = (userId: string) => `member:${userId}`;
+const pageKey = (pageId: string) => `page:${pageId}`;
+
+// Hourly rates for billable time; saved when a field loses focus
+const TimesheetRatesDialog: React.FC<TimesheetRatesDialogProps> = ({
+  open,
+  onOpenChange,
+  workspaceId,
+  rates,
+  members,
+  pages
+}) => {
+  const setRate = useSetTimesheetRate();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const next: Record<string, string> = {};
+    rates.forEach(rate => {
+      const key = rate.userId ? memberKey(rate.userId) : pageKey(rate.pageId!);
+      next[key] = rate.hourlyRate.toString();
+    });
+    setDrafts(next);
+  }, [open, rates]);
+
+  const saveRate = (key: string, target: { userId?: string; pageId?: string }) => {
+    const current = rates.find(rate =>
+      target.userId ? rate.userId === target.userId : rate.pageId === target.pageId
+    );
+    const draft = (drafts[key] || '').trim().replace(',', '.');
+    const hourlyRate = draft === '' ? null : Number(draft);
+
+    if (hourlyRate !== null && (isNaN(hourlyRate) || hourlyRate < 0)) {
+      setDrafts(prev => ({ ...prev, [key]: current?.hourlyRate.toString() || '' }));
+      return;
+    }
+    if (hourlyRate === (current?.hourlyRate ?? null)) return;
+
+    setRate.mutate({ workspaceId, ...target, hourlyRate });
+  };
+
+  const renderRateInput = (key: string, label: string, target: { userId?: string; pageId?: string }) => (
+    <div key={key} className="flex items-center justify-between gap-4 py-1.5">
+      <Label htmlFor={key} className="truncate font-normal">{label}</Label>
+      <Input
+        id={key}
+        inputMode="decimal"
+        placeholder="No rate"
+        className="h-8 w-28 text-right"
+        value={drafts[key] || ''}
+        onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+        onBlur={() => saveRate(key, target)}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Hourly rates</DialogTitle>
+          <DialogDescription>
+            Billable time is charged at the page's rate, or the member's rate when the page has none.
+            Only admins can see rates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-4">
+            <div>
+              <h4 className="text-sm font-medium mb-1">Members</h4>
+              {members.map(member =>
+                renderRateInput(
+                  memberKey(member.userId),
+                  member.fullName || member.displayName || member.email,
+                  { userId: member.userId }
+                )
+              )}
+            </div>
+
+            {pages.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium mb-1">Pages</h4>
+                {pages.map(page => renderRateInput(pageKey(page.id), page.title, { pageId: page.id }))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimesheetRatesDialog;
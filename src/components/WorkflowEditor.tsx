@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Workflow, Plus, Trash2, ArrowUp, ArrowDown, RotateCcw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { supabase } from '../lib/supabase';
+import { generateId } from '../utils/localStorage';
+import {
+  DEFAULT_WORKFLOW,
+  STATUS_CATEGORIES,
+  categoryToTaskStatus,
+  getWorkflow,
+  getWorkflowStatus,
+  getOrderedStatuses,
+  validateWorkflow
+} from '../utils/workflow';
+import { StatusCategory, WorkflowDefinition, WorkflowStatus } from '../types/workspace';
+
+const WorkflowEditor: React.FC = () => {
+  const { currentWorkspace, updateWorkspace } = useSupabaseWorkspace();
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
+  const [transitions, setTransitions] = useState<Record<string, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadWorkflow = (workflow: WorkflowDefinition) => {
+    setStatuses(getOrderedStatuses(workflow));
+    setTransitions(workflow.transitions);
+  };
+
+  useEffect(() => {
+    loadWorkflow(getWorkflow(currentWorkspace?.settings));
+  }, [currentWorkspace?.id, currentWorkspace?.settings]);
+
+  if (!currentWorkspace) return null;
+
+  const updateStatus = (statusId: string, updates: Partial<WorkflowStatus>) => {
+    setStatuses(statuses.map(status => status.id === statusId ? { ...status, ...updates } : status));
+  };
+
+  const moveStatus = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= statuses.length) return;
+
+    const reordered = [...statuses];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setStatuses(reordered);
+  };
+
+  const addStatus = () => {
+    setStatuses([
+      ...statuses,
+      { id: generateId(), name: 'New Status', category: 'active', color: '#8b5cf6', order: statuses.length }
+    ]);
+  };
+
+  const removeStatus = (statusId: string) => {
+    setStatuses(statuses.filter(status => status.id !== statusId));
+
+    // Drop the status from every transition list as well; a list left
+    // empty makes that status final rather than unrestricted
+    const nextTransitions: Record<string, string[]> = {};
+    Object.entries(transitions).forEach(([fromId, targets]) => {
+      if (fromId !== statusId) nextTransitions[fromId] = targets.filter(id => id !== statusId);
+    });
+    setTransitions(nextTransitions);
+  };
+
+  // Picking a target restricts the status to the picked ones
+  const toggleTransition = (fromId: string, toId: string) => {
+    const allowed = transitions[fromId] || [];
+    setTransitions({
+      ...transitions,
+      [fromId]: allowed.includes(toId) ? allowed.filter(id => id !== toId) : [...allowed, toId]
+    });
+  };
+
+  const allowAnyTransition = (fromId: string) => {
+    const nextTransitions = { ...transitions };
+    delete nextTransitions[fromId];
+    setTransitions(nextTransitions);
+  };
+
+  // tasks.status follows the category, so tasks in a recategorized status move with it
+  const remapTaskStatuses = async (recategorized: WorkflowStatus[]) => {
+    for (const status of recategorized) {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ status: categoryToTaskStatus(status.category) })
+        .eq('workspace_id', currentWorkspace.id)
+        .eq('workflow_status', status.id);
+
+      if (error) {
+        console.error('Error updating tasks for a recategorized status:', error);
+        toast.error(`Failed to update the tasks in "${status.name}"`);
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const workflow: WorkflowDefinition = {
+      statuses: statuses.map((status, index) => ({ ...status, name: status.name.trim(), order: index })),
+      transitions
+    };
+
+    const errors = validateWorkflow(workflow);
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    const saved = getWorkflow(currentWorkspace.settings);
+    const recategorized = workflow.statuses.filter(status => {
+      const previous = getWorkflowStatus(saved, status.id);
+      return previous && previous.category !== status.category;
+    });
+
+    setIsSaving(true);
+    try {
+      const updated = await updateWorkspace(currentWorkspace.id, {
+        settings: { ...currentWorkspace.settings, workflow }
+      });
+      if (updated) await remapTaskStatuses(recategorized);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Workflow className="h-5 w-5" />
+          Workflow
+        </CardTitle>
+        <CardDescription>
+          Statuses shown as board columns, in order. The category decides how a status counts in analytics.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {statuses.map((status, index) => (
+            <div key={status.id} className="flex flex-col gap-2 p-3 border rounded-lg md:flex-row md:items-center">
+              <input
+                type="color"
+                value={status.color}
+                onChange={(e) => updateStatus(status.id, { color: e.target.value })}
+                className="h-6 w-6 cursor-pointer rounded border-0 bg-transparent p-0"
+                title="Change status color"
+              />
+              <Input
+                value={status.name}
+                onChange={(e) => updateStatus(status.id, { name: e.target.value })}
+                className="h-8 md:w-48"
+              />
+              <Select
+                value={status.category}
+                onValueChange={(value) => updateStatus(status.id, { category: value as StatusCategory })}
+              >
+                <SelectTrigger className="h-8 md:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_CATEGORIES) as StatusCategory[]).map(category => (
+                    <SelectItem key={category} value={category}>
+                      {STATUS_CATEGORIES[category].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                placeholder="WIP limit"
+                value={status.wipLimit ?? ''}
+                onChange={(e) => updateStatus(status.id, {
+                  wipLimit: e.target.value ? Number(e.target.value) : undefined
+                })}
+                className="h-8 md:w-28"
+              />
+              <div className="flex items-center gap-1 md:ml-auto">
+                <Button size="sm" variant="ghost" disabled={index === 0} onClick={() => moveStatus(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={index === statuses.length - 1}
+                  onClick={() => moveStatus(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={statuses.length === 1}
+                  title="Tasks in a removed status move to the first status of the same category"
+                  onClick={() => removeStatus(status.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addStatus}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Status
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium">Allowed transitions</h3>
+            <p className="text-sm text-muted-foreground">
+              Pick the statuses a task may move to, or Any to allow every move. A status with nothing picked is final.
+            </p>
+          </div>
+          {statuses.map(from => (
+            <div key={from.id} className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium w-32 truncate">{from.name || 'Untitled'}</span>
+              <Badge
+                variant={transitions[from.id] ? 'outline' : 'default'}
+                className="cursor-pointer"
+                onClick={() => allowAnyTransition(from.id)}
+              >
+                Any
+              </Badge>
+              {statuses.filter(to => to.id !== from.id).map(to => {
+                const isAllowed = (transitions[from.id] || []).includes(to.id);
+                return (
+                  <Badge
+                    key={to.id}
+                    variant={isAllowed ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => toggleTransition(from.id, to.id)}
+                  >
+                    {to.name || 'Untitled'}
+                  </Badge>
+                );
+              })}
+              {transitions[from.id]?.length === 0 && (
+                <span className="text-xs text-muted-foreground">Final status</span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Workflow
+          </Button>
+          <Button variant="ghost" onClick={() => loadWorkflow(DEFAULT_WORKFLOW)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Default
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkflowEditor;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import { Users } from 'lucide-react';
+import { WorkspaceMember } from '../types/workspace';
+import { getMemberName } from '../utils/activity';
+import { UNASSIGNED, WorkloadRow } from '../utils/analytics';
+import { formatTaskHours } from '../utils/estimates';
+
+interface WorkloadChartProps {
+  rows: WorkloadRow[];
+  members: WorkspaceMember[];
+}
+
+const chartConfig = {
+  notStarted: { label: 'Not started', color: 'hsl(var(--chart-2))' },
+  active: { label: 'Active', color: 'hsl(var(--chart-4))' }
+} satisfies ChartConfig;
+
+// Open tasks per assignee right now
+const WorkloadChart: React.FC<WorkloadChartProps> = ({ rows, members }) => {
+  const data = rows.map(row => ({
+    ...row,
+    name: row.key === UNASSIGNED ? 'Unassigned' : getMemberName(members, row.key)
+  }));
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Workload
+        </CardTitle>
+        <CardDescription>Open tasks per member today, with what is overdue and the estimate still to go</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No open tasks</p>
+          </div>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(data.length * 36 + 48, 120) }}>
+              <BarChart data={data} layout="vertical" margin={{ left: 0, right: 12 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={120} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="notStarted" stackId="open" fill="var(--color-notStarted)" />
+                <Bar dataKey="active" stackId="open" fill="var(--color-active)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ChartContainer>
+            <div className="space-y-1">
+              {data.filter(row => row.overdue > 0 || row.remainingHours > 0).map(row => (
+                <div key={row.key} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{row.name}</span>
+                  <div className="flex items-center gap-2">
+                    {row.overdue > 0 && <Badge variant="destructive">{row.overdue} overdue</Badge>}
+                    {row.remainingHours > 0 && (
+                      <Badge variant="outline">{formatTaskHours(row.remainingHours)} estimated left</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkloadChart;
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Ban, Copy, Link2, Mail, Plus, RefreshCw, Send } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { ROLE_LABELS } from '../utils/permissions';
+import { UserRole, WorkspaceInvitation, WorkspaceInviteLink } from '../types/workspace';
+
+const LINK_ROLES: UserRole[] = ['admin', 'member', 'guest'];
+
+const isInvitationExpired = (invitation: WorkspaceInvitation) =>
+  invitation.status === 'expired' || new Date(invitation.expiresAt) <= new Date();
+
+// Why a link can no longer be redeemed, or null while it still works
+const getLinkProblem = (link: WorkspaceInviteLink): string | null => {
+  if (link.expiresAt && new Date(link.expiresAt) <= new Date()) return 'Expired';
+  if (link.maxUses !== undefined && link.useCount >= link.maxUses) return 'Used up';
+  return null;
+};
+
+const copyJoinLink = (code: string) => {
+  navigator.clipboard.writeText(`${window.location.origin}/join/${code}`);
+  toast.success('Invite link copied to clipboard!');
+};
+
+// Workspace invite code, shareable links and sent invitations, for inviters
+const WorkspaceInvitesCard: React.FC = () => {
+  const {
+    currentWorkspace,
+    sentInvitations,
+    inviteLinks,
+    revokeInvitation,
+    resendInvitation,
+    regenerateInviteCode,
+    createInviteLink,
+    revokeInviteLink
+  } = useSupabaseWorkspace();
+
+  const [linkRole, setLinkRole] = useState<UserRole>('member');
+  const [linkMaxUses, setLinkMaxUses] = useState('');
+  const [linkExpiresOn, setLinkExpiresOn] = useState('');
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  if (!currentWorkspace) return null;
+
+  const runForItem = async (itemId: string, action: () => Promise<void>) => {
+    setProcessingId(itemId);
+    try {
+      await action();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreatingLink(true);
+    try {
+      await createInviteLink(currentWorkspace.id, {
+        role: linkRole,
+        maxUses: linkMaxUses ? Number(linkMaxUses) : undefined,
+        // The link stays usable through the end of the chosen day
+        expiresAt: linkExpiresOn ? new Date(`${linkExpiresOn}T23:59:59`).toISOString() : undefined
+      });
+      setLinkMaxUses('');
+      setLinkExpiresOn('');
+    } finally {
+      setIsCreatingLink(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Invitations & Links
+        </CardTitle>
+        <CardDescription>
+          Control who can still join {currentWorkspace.name}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Workspace invite code */}
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div>
+            <p className="font-medium">Workspace invite code</p>
+            <p className="text-sm text-muted-foreground font-mono">{currentWorkspace.inviteCode}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => copyJoinLink(currentWorkspace.inviteCode)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Regenerate invite code?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Anyone holding a link with the current code will no longer be able to join.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => regenerateInviteCode(currentWorkspace.id)}>
+                    Regenerate
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Multi-use invite links */}
+        <div className="space-y-3">
+          <h3 className="font-medium">Shareable links</h3>
+          <div className="grid gap-3 md:grid-cols-4 md:items-end">
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={linkRole} onValueChange={(value) => setLinkRole(value as UserRole)}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LINK_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Max uses</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder="Unlimited"
+                value={linkMaxUses}
+                onChange={(e) => setLinkMaxUses(e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Expires on</Label>
+              <Input
+                type="date"
+                value={linkExpiresOn}
+                onChange={(e) => setLinkExpiresOn(e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <Button onClick={handleCreateLink} disabled={isCreatingLink}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Link
+            </Button>
+          </div>
+
+          {inviteLinks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active invite links</p>
+          ) : (
+            <div className="space-y-2">
+              {inviteLinks.map(link => {
+                const problem = getLinkProblem(link);
+                return (
+                  <div key={link.id} className={`flex items-center justify-between p-3 border rounded-lg ${problem ? 'opacity-60' : ''}`}>
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm">{link.code}</span>
+                        <Badge variant="secondary" className="text-xs">{ROLE_LABELS[link.role]}</Badge>
+                        {problem && <Badge variant="destructive" className="text-xs">{problem}</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {link.maxUses !== undefined ? `${link.useCount} / ${link.maxUses} uses` : `${link.useCount} uses`}
+                        {' · '}
+                        {link.expiresAt
+                          ? `expires ${formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}`
+                          : 'never expires'}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" disabled={!!problem} onClick={() => copyJoinLink(link.code)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={processingId === link.id}
+                        onClick={() => runForItem(link.id, () => revokeInviteLink(link.id))}
+                        title="Revoke link"
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Personal invitations */}
+        <div className="space-y-3">
+          <h3 className="font-medium">Sent invitations</h3>
+          {sentInvitations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pending invitations</p>
+          ) : (
+            <div className="space-y-2">
+              {sentInvitations.map(invitation => {
+                const expired = isInvitationExpired(invitation);
+                const isProcessing = processingId === invitation.id;
+
+                return (
+                  <div key={invitation.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">{invitation.inviteeEmail}</span>
+                        <Badge variant="secondary" className="text-xs">{ROLE_LABELS[invitation.role]}</Badge>
+                        <Badge variant={expired ? 'destructive' : 'outline'} className="text-xs">
+                          {expired ? 'Expired' : 'Pending'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Sent {formatDistanceToNow(new Date(invitation.createdAt), { addSuffix: true })}
+                        {!expired && ` · expires ${formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isProcessing}
+                        onClick={() => runForItem(invitation.id, () => resendInvitation(invitation.id))}
+                        title="Resend with a new expiry"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      {!expired && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={isProcessing}
+                          onClick={() => runForItem(invitation.id, () => revokeInvitation(invitation.id))}
+                          title="Revoke invitation"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkspaceInvitesCard;
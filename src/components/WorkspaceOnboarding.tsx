@@ -89,10 +89,14 @@ const WorkspaceOnboarding: React.FC<WorkspaceOnboardingProps> = ({ onWorkspaceCr
                 code = code.split('/join/').pop() || code;
             }
 
-            await joinWorkspaceByCode(code);
+            const result = await joinWorkspaceByCode(code);
+            if (result === 'failed') return;
+
             setShowJoinDialog(false);
             setInviteCode('');
-            onWorkspaceCreated?.();
+            if (result === 'joined') {
+                onWorkspaceCreated?.();
+            }
         } catch (error) {
             console.error('Error joining workspace:', error);
         } finally {
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useNotifications } from '../contexts/NotificationContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -23,6 +24,7 @@ import {
 } from 'lucide-react';
 import { Workspace, UserRole } from '../types/workspace';
 import { toast } from 'sonner';
+import PendingInvitationsList from './PendingInvitationsList';
 
 const WorkspaceSelector: React.FC = () => {
   const { 
@@ -35,9 +37,11 @@ const WorkspaceSelector: React.FC = () => {
     inviteMember,
     removeMember,
     updateMemberRole,
-    leaveWorkspace
+    leaveWorkspace,
+    pendingInvitations
   } = useWorkspace();
   const { user } = useAuth();
+  const { unreadByWorkspace } = useNotifications();
   
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showMembersModal, setShowMembersModal] = useState(false);
@@ -176,6 +180,14 @@ const WorkspaceSelector: React.FC = () => {
               </Card>
             )}
 
+            {/* Pending Invitations */}
+            {pendingInvitations.length > 0 && (
+              <div className="grid gap-2">
+                <h3 className="font-medium text-gray-900">Invitations</h3>
+                <PendingInvitationsList />
+              </div>
+            )}
+
             {/* Workspace List */}
             <div className="grid gap-2">
               <div className="flex items-center justify-between">
@@ -209,6 +221,15 @@ const WorkspaceSelector: React.FC = () => {
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
+                        {unreadByWorkspace[workspace.id] > 0 && (
+                          <Badge
+                            variant="destructive"
+                            className="text-xs"
+                            title={`${unreadByWorkspace[workspace.id]} unread notifications`}
+                          >
+                            {unreadByWorkspace[workspace.id] > 99 ? '99+' : unreadByWorkspace[workspace.id]}
+                          </Badge>
+                        )}
                         {workspace.ownerId === user?.id && (
                           <Crown className="w-4 h-4 text-yellow-500" />
                         )}
@@ -20,6 +20,7 @@ export const LazyWorkspaceManagement = lazy(() => import('../../pages/WorkspaceM
 // Calendar and Analytics
 export const LazyCalendar = lazy(() => import('../../pages/Calendar'));
 export const LazyAnalytics = lazy(() => import('../../pages/Analytics'));
+export const LazyTimesheet = lazy(() => import('../../pages/Timesheet'));
 
 // Team and Other Pages
 export const LazyTeam = lazy(() => import('../../pages/Team'));
@@ -89,6 +90,7 @@ export const preloadOnInteraction = (componentName: string) => {
     'settings': LazySettings,
     'calendar': LazyCalendar,
     'analytics': LazyAnalytics,
+    'timesheet': LazyTimesheet,
     'team': LazyTeam,
     'websites': LazyWebsites
   };
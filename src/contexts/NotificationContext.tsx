@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useMemo, useState, ReactNode } from 'react';
 import { useAuth } from './SupabaseAuthContext';
 import { supabase } from '../lib/supabase';
 import { toast } from 'sonner';
@@ -7,18 +7,19 @@ export interface Notification {
   id: string;
   user_id: string;
   workspace_id?: string;
-  type: 'invitation' | 'task_assignment' | 'task_update' | 'workspace_update' | 'mention' | 'system' | 'task_comment' | 'task_status_change' | 'workspace_invitation';
+  type: 'invitation' | 'task_assignment' | 'task_update' | 'workspace_update' | 'mention' | 'system' | 'task_comment' | 'task_status_change' | 'workspace_invitation' | 'task_reminder';
   title: string;
   message: string;
   data: Record<string, any>;
   read: boolean;
   action_url?: string;
   created_at: string;
+  archived_at?: string | null;
+  snoozed_until?: string | null;
 }
 
 interface NotificationState {
-  notifications: Notification[];
-  unreadCount: number;
+  notifications: Notification[]; // Everything not archived, including snoozed
   loading: boolean;
 }
 
@@ -26,18 +27,22 @@ type NotificationAction =
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_NOTIFICATIONS'; payload: Notification[] }
   | { type: 'ADD_NOTIFICATION'; payload: Notification }
-  | { type: 'MARK_AS_READ'; payload: string }
-  | { type: 'MARK_ALL_AS_READ' }
-  | { type: 'DELETE_NOTIFICATION'; payload: string }
+  | { type: 'UPDATE_NOTIFICATIONS'; payload: { ids: string[]; updates: Partial<Notification> } }
+  | { type: 'REMOVE_NOTIFICATIONS'; payload: string[] }
   | { type: 'CLEAR_ALL' };
 
 interface NotificationContextType {
-  notifications: Notification[];
+  notifications: Notification[]; // The inbox: not archived and not snoozed, newest first
+  snoozedNotifications: Notification[];
   unreadCount: number;
+  unreadByWorkspace: Record<string, number>;
   loading: boolean;
   loadNotifications: () => Promise<void>;
   markAsRead: (notificationId: string) => Promise<void>;
+  markNotificationsAsRead: (notificationIds: string[]) => Promise<void>;
   markAllAsRead: () => Promise<void>;
+  archiveNotifications: (notificationIds: string[]) => Promise<void>;
+  snoozeNotifications: (notificationIds: string[], until: Date | null) => Promise<void>;
   deleteNotification: (notificationId: string) => Promise<void>;
   clearAll: () => Promise<void>;
   createNotification: (notification: Omit<Notification, 'id' | 'created_at' | 'read'>) => Promise<void>;
@@ -45,59 +50,49 @@ interface NotificationContextType {
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
+// Senders record the recipient's channel preferences in data.channels;
+// rows created before preferences existed have none and use both channels
+const isInAppNotification = (notification: Notification) => notification.data?.channels?.in_app !== false;
+const isPushNotification = (notification: Notification) => notification.data?.channels?.push !== false;
+
+// A snoozed notification counts as new again from the moment it wakes up
+const getNotificationTime = (notification: Notification) =>
+  Math.max(new Date(notification.created_at).getTime(), new Date(notification.snoozed_until || 0).getTime());
+
+const isSnoozed = (notification: Notification, now: number) =>
+  !!notification.snoozed_until && new Date(notification.snoozed_until).getTime() > now;
+
 const notificationReducer = (state: NotificationState, action: NotificationAction): NotificationState => {
   switch (action.type) {
     case 'SET_LOADING':
       return { ...state, loading: action.payload };
-    
+
     case 'SET_NOTIFICATIONS':
-      return {
-        ...state,
-        notifications: action.payload,
-        unreadCount: action.payload.filter(n => !n.read).length
-      };
-    
+      return { ...state, notifications: action.payload };
+
     case 'ADD_NOTIFICATION':
-      const newNotifications = [action.payload, ...state.notifications];
       return {
         ...state,
-        notifications: newNotifications,
-        unreadCount: newNotifications.filter(n => !n.read).length
+        notifications: [action.payload, ...state.notifications.filter(n => n.id !== action.payload.id)]
       };
-    
-    case 'MARK_AS_READ':
-      const updatedNotifications = state.notifications.map(n =>
-        n.id === action.payload ? { ...n, read: true } : n
-      );
-      return {
-        ...state,
-        notifications: updatedNotifications,
-        unreadCount: updatedNotifications.filter(n => !n.read).length
-      };
-    
-    case 'MARK_ALL_AS_READ':
-      const allReadNotifications = state.notifications.map(n => ({ ...n, read: true }));
+
+    case 'UPDATE_NOTIFICATIONS':
       return {
         ...state,
-        notifications: allReadNotifications,
-        unreadCount: 0
+        notifications: state.notifications.map(n =>
+          action.payload.ids.includes(n.id) ? { ...n, ...action.payload.updates } : n
+        )
       };
-    
-    case 'DELETE_NOTIFICATION':
-      const filteredNotifications = state.notifications.filter(n => n.id !== action.payload);
+
+    case 'REMOVE_NOTIFICATIONS':
       return {
         ...state,
-        notifications: filteredNotifications,
-        unreadCount: filteredNotifications.filter(n => !n.read).length
+        notifications: state.notifications.filter(n => !action.payload.includes(n.id))
       };
-    
+
     case 'CLEAR_ALL':
-      return {
-        ...state,
-        notifications: [],
-        unreadCount: 0
-      };
-    
+      return { ...state, notifications: [] };
+
     default:
       return state;
   }
@@ -106,12 +101,46 @@ const notificationReducer = (state: NotificationState, action: NotificationActio
 export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(notificationReducer, {
     notifications: [],
-    unreadCount: 0,
     loading: false
   });
-  
+  const [now, setNow] = useState(() => Date.now());
+
   const { user } = useAuth();
 
+  // Re-render when the next snoozed notification wakes up
+  useEffect(() => {
+    const wakeTimes = state.notifications
+      .filter(n => isSnoozed(n, now))
+      .map(n => new Date(n.snoozed_until as string).getTime());
+    if (wakeTimes.length === 0) return;
+
+    // setTimeout can't wait longer than ~24.8 days
+    const delay = Math.min(Math.min(...wakeTimes) - Date.now(), 2 ** 31 - 1);
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(delay, 0));
+    return () => clearTimeout(timer);
+  }, [state.notifications, now]);
+
+  const inbox = useMemo(() => {
+    const visible = state.notifications.filter(n => !isSnoozed(n, now));
+    const snoozed = state.notifications.filter(n => isSnoozed(n, now));
+    const unreadByWorkspace: Record<string, number> = {};
+
+    visible.forEach(n => {
+      if (!n.read && n.workspace_id) {
+        unreadByWorkspace[n.workspace_id] = (unreadByWorkspace[n.workspace_id] || 0) + 1;
+      }
+    });
+
+    return {
+      notifications: visible.sort((a, b) => getNotificationTime(b) - getNotificationTime(a)),
+      snoozedNotifications: snoozed.sort((a, b) =>
+        new Date(a.snoozed_until as string).getTime() - new Date(b.snoozed_until as string).getTime()
+      ),
+      unreadCount: visible.filter(n => !n.read).length,
+      unreadByWorkspace
+    };
+  }, [state.notifications, now]);
+
   // Load notifications for the current user
   const loadNotifications = async () => {
     if (!user) return;
@@ -123,8 +152,9 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         .from('notifications')
         .select('*')
         .eq('user_id', user.id)
+        .is('archived_at', null)
         .order('created_at', { ascending: false })
-        .limit(50);
+        .limit(100);
 
       if (error) {
         console.error('Error loading notifications:', error);
@@ -158,7 +188,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
           throw error;
         }
       } else {
-        dispatch({ type: 'SET_NOTIFICATIONS', payload: data || [] });
+        dispatch({ type: 'SET_NOTIFICATIONS', payload: (data || []).filter(isInAppNotification) });
       }
     } catch (error) {
       console.error('Error loading notifications:', error);
@@ -186,7 +216,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     try {
       // If it's a demo notification, just update locally
       if (notificationId.startsWith('demo-')) {
-        dispatch({ type: 'MARK_AS_READ', payload: notificationId });
+        dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: [notificationId], updates: { read: true } } });
         return;
       }
 
@@ -198,34 +228,81 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
       if (error) {
         console.error('Error marking notification as read:', error);
         // Still update locally even if database update fails
-        dispatch({ type: 'MARK_AS_READ', payload: notificationId });
+        dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: [notificationId], updates: { read: true } } });
         return;
       }
 
-      dispatch({ type: 'MARK_AS_READ', payload: notificationId });
+      dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: [notificationId], updates: { read: true } } });
     } catch (error) {
       console.error('Error marking notification as read:', error);
       // Update locally as fallback
-      dispatch({ type: 'MARK_AS_READ', payload: notificationId });
+      dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: [notificationId], updates: { read: true } } });
     }
   };
 
-  // Mark all notifications as read
+  // Mark several notifications as read, e.g. a group
+  const markNotificationsAsRead = async (notificationIds: string[]) => {
+    if (notificationIds.length === 0) return;
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read: true })
+        .in('id', notificationIds);
+
+      if (error) throw error;
+
+      dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: notificationIds, updates: { read: true } } });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  // Mark all notifications in the inbox as read; snoozed ones stay unread
   const markAllAsRead = async () => {
     if (!user) return;
 
+    await markNotificationsAsRead(inbox.notifications.filter(n => !n.read).map(n => n.id));
+  };
+
+  // Move notifications out of the inbox without deleting them
+  const archiveNotifications = async (notificationIds: string[]) => {
+    if (notificationIds.length === 0) return;
+
     try {
       const { error } = await supabase
         .from('notifications')
-        .update({ read: true })
-        .eq('user_id', user.id)
-        .eq('read', false);
+        .update({ archived_at: new Date().toISOString(), read: true })
+        .in('id', notificationIds);
+
+      if (error) throw error;
+
+      dispatch({ type: 'REMOVE_NOTIFICATIONS', payload: notificationIds });
+    } catch (error) {
+      console.error('Error archiving notifications:', error);
+      toast.error('Failed to archive notifications');
+    }
+  };
+
+  // Hide notifications until `until`; they come back unread. Pass null to wake them now.
+  const snoozeNotifications = async (notificationIds: string[], until: Date | null) => {
+    if (notificationIds.length === 0) return;
+
+    const updates = { snoozed_until: until ? until.toISOString() : null, read: false };
+
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update(updates)
+        .in('id', notificationIds);
 
       if (error) throw error;
 
-      dispatch({ type: 'MARK_ALL_AS_READ' });
+      dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: notificationIds, updates } });
+      setNow(Date.now());
     } catch (error) {
-      console.error('Error marking all notifications as read:', error);
+      console.error('Error snoozing notifications:', error);
+      toast.error('Failed to snooze notifications');
     }
   };
 
@@ -239,7 +316,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
 
       if (error) throw error;
 
-      dispatch({ type: 'DELETE_NOTIFICATION', payload: notificationId });
+      dispatch({ type: 'REMOVE_NOTIFICATIONS', payload: [notificationId] });
     } catch (error) {
       console.error('Error deleting notification:', error);
     }
@@ -311,9 +388,13 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         },
         (payload) => {
           const newNotification = payload.new as Notification;
-          dispatch({ type: 'ADD_NOTIFICATION', payload: newNotification });
-          
-          // Show toast notification
+          if (isInAppNotification(newNotification)) {
+            dispatch({ type: 'ADD_NOTIFICATION', payload: newNotification });
+          }
+
+          // Push notifications show as a toast while the app is open
+          if (!isPushNotification(newNotification)) return;
+
           toast.info(newNotification.title, {
             description: newNotification.message,
             action: newNotification.action_url ? {
@@ -327,6 +408,24 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
           });
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          // Keeps reads, archives and snoozes in sync with other tabs and devices
+          const updated = payload.new as Notification;
+          if (updated.archived_at || !isInAppNotification(updated)) {
+            dispatch({ type: 'REMOVE_NOTIFICATIONS', payload: [updated.id] });
+          } else {
+            dispatch({ type: 'UPDATE_NOTIFICATIONS', payload: { ids: [updated.id], updates: updated } });
+          }
+        }
+      )
       .subscribe();
 
     return () => {
@@ -335,12 +434,17 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
   }, [user]);
 
   const value: NotificationContextType = {
-    notifications: state.notifications,
-    unreadCount: state.unreadCount,
+    notifications: inbox.notifications,
+    snoozedNotifications: inbox.snoozedNotifications,
+    unreadCount: inbox.unreadCount,
+    unreadByWorkspace: inbox.unreadByWorkspace,
     loading: state.loading,
     loadNotifications,
     markAsRead,
+    markNotificationsAsRead,
     markAllAsRead,
+    archiveNotifications,
+    snoozeNotifications,
     deleteNotification,
     clearAll,
     createNotification
@@ -1,10 +1,12 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
 import {
   Workspace,
   WorkspaceMember,
   WorkspaceInvitation,
+  WorkspaceJoinRequest,
+  WorkspaceInviteLink,
+  JoinWorkspaceResult,
   UserRole,
-  UserActivity,
   UserPresence
 } from '../types/workspace';
 import { useAuth } from './SupabaseAuthContext';
@@ -14,19 +16,25 @@ import { emailService } from '../services/emailService';
 import { useNotifications } from './NotificationContext';
 import { useQueryClient } from '@tanstack/react-query';
 import { QUERY_KEYS } from '../lib/queryClient';
+import { can, getJoinRole, getRolePermissions, getRoleChangeError, ROLE_LABELS } from '../utils/permissions';
+import { notificationService } from '../services/notificationService';
+import { activityService } from '../services/activityService';
 
 interface WorkspaceContextType {
   currentWorkspace: Workspace | null;
   userWorkspaces: Workspace[];
   workspaceMembers: WorkspaceMember[];
+  currentMember: WorkspaceMember | null; // Signed-in user's membership in the current workspace
   pendingInvitations: WorkspaceInvitation[];
-  userActivities: UserActivity[];
+  joinRequests: WorkspaceJoinRequest[]; // Pending requests for the current workspace
+  sentInvitations: WorkspaceInvitation[]; // Invitations sent from the current workspace
+  inviteLinks: WorkspaceInviteLink[];
   onlineUsers: UserPresence[];
   loading: boolean;
 
   // Workspace management
   createWorkspace: (workspace: Omit<Workspace, 'id' | 'createdAt' | 'updatedAt' | 'ownerId' | 'members' | 'inviteCode'>) => Promise<void>;
-  updateWorkspace: (workspaceId: string, updates: Partial<Workspace>) => Promise<void>;
+  updateWorkspace: (workspaceId: string, updates: Partial<Workspace>) => Promise<boolean>;
   deleteWorkspace: (workspaceId: string) => Promise<void>;
   switchWorkspace: (workspaceId: string) => void;
   leaveWorkspace: (workspaceId: string) => Promise<void>;
@@ -37,11 +45,18 @@ interface WorkspaceContextType {
   updateMemberRole: (workspaceId: string, userId: string, role: UserRole) => Promise<void>;
   acceptInvitation: (invitationId: string) => Promise<void>;
   declineInvitation: (invitationId: string) => Promise<void>;
-  joinWorkspaceByCode: (inviteCode: string) => Promise<void>;
+  loadPendingInvitations: () => Promise<void>;
+  revokeInvitation: (invitationId: string) => Promise<void>;
+  resendInvitation: (invitationId: string) => Promise<void>;
+  regenerateInviteCode: (workspaceId: string) => Promise<void>;
+  createInviteLink: (workspaceId: string, options: { role: UserRole; maxUses?: number; expiresAt?: string }) => Promise<void>;
+  revokeInviteLink: (linkId: string) => Promise<void>;
+  joinWorkspaceByCode: (inviteCode: string) => Promise<JoinWorkspaceResult>;
+  approveJoinRequest: (requestId: string, role?: UserRole) => Promise<void>;
+  rejectJoinRequest: (requestId: string) => Promise<void>;
 
   // Real-time features
   updateUserPresence: (presence: Partial<UserPresence>) => void;
-  trackActivity: (activity: Omit<UserActivity, 'userId' | 'timestamp'>) => Promise<void>;
 }
 
 const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
@@ -52,7 +67,9 @@ type WorkspaceAction =
   | { type: 'SET_USER_WORKSPACES'; payload: Workspace[] }
   | { type: 'SET_WORKSPACE_MEMBERS'; payload: WorkspaceMember[] }
   | { type: 'SET_PENDING_INVITATIONS'; payload: WorkspaceInvitation[] }
-  | { type: 'SET_USER_ACTIVITIES'; payload: UserActivity[] }
+  | { type: 'SET_JOIN_REQUESTS'; payload: WorkspaceJoinRequest[] }
+  | { type: 'SET_SENT_INVITATIONS'; payload: WorkspaceInvitation[] }
+  | { type: 'SET_INVITE_LINKS'; payload: WorkspaceInviteLink[] }
   | { type: 'SET_ONLINE_USERS'; payload: UserPresence[] }
   | { type: 'ADD_WORKSPACE'; payload: Workspace }
   | { type: 'UPDATE_WORKSPACE'; payload: { id: string; updates: Partial<Workspace> } }
@@ -63,7 +80,9 @@ interface WorkspaceState {
   userWorkspaces: Workspace[];
   workspaceMembers: WorkspaceMember[];
   pendingInvitations: WorkspaceInvitation[];
-  userActivities: UserActivity[];
+  joinRequests: WorkspaceJoinRequest[];
+  sentInvitations: WorkspaceInvitation[];
+  inviteLinks: WorkspaceInviteLink[];
   onlineUsers: UserPresence[];
   loading: boolean;
 }
@@ -73,7 +92,9 @@ const initialState: WorkspaceState = {
   userWorkspaces: [],
   workspaceMembers: [],
   pendingInvitations: [],
-  userActivities: [],
+  joinRequests: [],
+  sentInvitations: [],
+  inviteLinks: [],
   onlineUsers: [],
   loading: false,
 };
@@ -90,8 +111,12 @@ function workspaceReducer(state: WorkspaceState, action: WorkspaceAction): Works
       return { ...state, workspaceMembers: action.payload };
     case 'SET_PENDING_INVITATIONS':
       return { ...state, pendingInvitations: action.payload };
-    case 'SET_USER_ACTIVITIES':
-      return { ...state, userActivities: action.payload };
+    case 'SET_JOIN_REQUESTS':
+      return { ...state, joinRequests: action.payload };
+    case 'SET_SENT_INVITATIONS':
+      return { ...state, sentInvitations: action.payload };
+    case 'SET_INVITE_LINKS':
+      return { ...state, inviteLinks: action.payload };
     case 'SET_ONLINE_USERS':
       return { ...state, onlineUsers: action.payload };
     case 'ADD_WORKSPACE':
@@ -120,6 +145,67 @@ function workspaceReducer(state: WorkspaceState, action: WorkspaceAction): Works
   }
 }
 
+interface InvitationRow {
+  id: string;
+  workspace_id: string;
+  workspace_name: string;
+  invited_by: string;
+  invited_by_name: string;
+  invitee_email: string;
+  role: UserRole;
+  invite_code: string;
+  status: WorkspaceInvitation['status'];
+  created_at: string;
+  expires_at: string;
+  accepted_at?: string | null;
+  revoked_at?: string | null;
+}
+
+interface InviteLinkRow {
+  id: string;
+  workspace_id: string;
+  code: string;
+  role: UserRole;
+  max_uses: number | null;
+  use_count: number;
+  expires_at: string | null;
+  created_by: string;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+const toWorkspaceInvitation = (invite: InvitationRow): WorkspaceInvitation => ({
+  id: invite.id,
+  workspaceId: invite.workspace_id,
+  workspaceName: invite.workspace_name,
+  invitedBy: invite.invited_by,
+  invitedByName: invite.invited_by_name,
+  inviteeEmail: invite.invitee_email,
+  role: invite.role,
+  inviteCode: invite.invite_code,
+  status: invite.status,
+  createdAt: invite.created_at,
+  expiresAt: invite.expires_at,
+  acceptedAt: invite.accepted_at || undefined,
+  revokedAt: invite.revoked_at || undefined
+});
+
+const toWorkspaceInviteLink = (link: InviteLinkRow): WorkspaceInviteLink => ({
+  id: link.id,
+  workspaceId: link.workspace_id,
+  code: link.code,
+  role: link.role,
+  maxUses: link.max_uses ?? undefined,
+  useCount: link.use_count,
+  expiresAt: link.expires_at || undefined,
+  createdBy: link.created_by,
+  createdAt: link.created_at,
+  revokedAt: link.revoked_at || undefined
+});
+
+// Invitations stay valid for a week after they are sent
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 // Utility function to generate invite codes
 const generateInviteCode = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
@@ -135,6 +221,8 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
   const { createNotification } = useNotifications();
   const queryClient = useQueryClient();
 
+  const currentMember = state.workspaceMembers.find(member => member.userId === user?.id) || null;
+
   // Create workspace
   const createWorkspace = async (workspaceData: Omit<Workspace, 'id' | 'createdAt' | 'updatedAt' | 'ownerId' | 'members' | 'inviteCode'>) => {
     if (!user) return;
@@ -250,12 +338,15 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
       // Force reload workspaces from database to ensure list is updated
       await loadUserWorkspaces();
 
-      // Track activity
-      await trackActivity({
-        action: 'created',
-        resourceType: 'workspace',
-        resourceId: workspace.id,
-        details: { workspaceName: workspace.name }
+      await activityService.log({
+        userId: user.id,
+        workspaceId: newWorkspace.id,
+        action: {
+          type: 'workspace_created',
+          resourceType: 'workspace',
+          resourceId: newWorkspace.id,
+          resourceTitle: newWorkspace.name
+        }
       });
 
       toast.success(`Workspace "${newWorkspace.name}" created successfully!`);
@@ -270,8 +361,9 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
   };
 
   // Update workspace
+  // Resolves to whether the update was saved
   const updateWorkspace = async (workspaceId: string, updates: Partial<Workspace>) => {
-    if (!user) return;
+    if (!user) return false;
 
     try {
       const { error } = await supabase
@@ -288,9 +380,11 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
 
       dispatch({ type: 'UPDATE_WORKSPACE', payload: { id: workspaceId, updates } });
       toast.success('Workspace updated successfully');
+      return true;
     } catch (error) {
       console.error('Error updating workspace:', error);
       toast.error('Failed to update workspace');
+      return false;
     }
   };
 
@@ -324,26 +418,6 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
     }
   };
 
-  // Track activity
-  const trackActivity = async (activity: Omit<UserActivity, 'userId' | 'timestamp'>) => {
-    if (!user) return;
-
-    try {
-      await supabase
-        .from('user_activities')
-        .insert({
-          user_id: user.id,
-          action: activity.action,
-          resource_type: activity.resourceType,
-          resource_id: activity.resourceId,
-          details: activity.details,
-          timestamp: new Date().toISOString()
-        });
-    } catch (error) {
-      console.error('Error tracking activity:', error);
-    }
-  };
-
   // Placeholder functions for features to be implemented
   const leaveWorkspace = async (workspaceId: string) => {
     toast.info('Leave workspace feature coming soon');
@@ -376,7 +450,7 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         return;
       }
 
-      if (currentMember.role !== 'owner' && currentMember.role !== 'admin') {
+      if (!can(currentMember, 'member', 'invite')) {
         toast.error('You do not have permission to invite members');
         return;
       }
@@ -388,6 +462,7 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         .eq('workspace_id', workspaceId)
         .eq('invitee_email', email)
         .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
         .single();
 
       if (existingInvitation) {
@@ -444,14 +519,16 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         });
 
         // 7. Log activity
-        await supabase
-          .from('user_activities')
-          .insert({
-            workspace_id: workspaceId,
-            user_id: user.id,
-            activity_type: 'member_invited',
-            activity_data: { invitee_email: email, role: role, email_sent: emailSent }
-          });
+        await activityService.log({
+          userId: user.id,
+          workspaceId,
+          action: {
+            type: 'member_invited',
+            resourceType: 'workspace',
+            resourceId: workspaceId,
+            data: { invitee_email: email, role: role, email_sent: emailSent }
+          }
+        });
 
         if (emailSent) {
           toast.success(`Invitation sent to ${email}! They will receive an email with instructions.`);
@@ -462,6 +539,8 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         console.error('Error sending email:', emailError);
         toast.success(`Invitation created for ${email}! (Email could not be sent)`);
       }
+
+      await loadWorkspaceInvites(workspaceId);
     } catch (error) {
       console.error('Error inviting member:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -469,6 +548,262 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
     }
   };
 
+  const revokeInvitation = async (invitationId: string) => {
+    if (!user) {
+      toast.error('You must be logged in to revoke invitations');
+      return;
+    }
+
+    const invitation = state.sentInvitations.find(i => i.id === invitationId);
+    if (!invitation) {
+      toast.error('Invitation not found');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'invite')) {
+      toast.error('You do not have permission to revoke invitations');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .update({ status: 'revoked', revoked_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+
+      await activityService.log({
+        userId: user.id,
+        workspaceId: invitation.workspaceId,
+        action: {
+          type: 'invitation_revoked',
+          resourceType: 'workspace',
+          resourceId: invitation.workspaceId,
+          data: { invitee_email: invitation.inviteeEmail, role: invitation.role }
+        }
+      });
+
+      await loadWorkspaceInvites(invitation.workspaceId);
+      toast.success(`Invitation to ${invitation.inviteeEmail} revoked`);
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast.error('Failed to revoke invitation');
+    }
+  };
+
+  const resendInvitation = async (invitationId: string) => {
+    if (!user) {
+      toast.error('You must be logged in to resend invitations');
+      return;
+    }
+
+    const invitation = state.sentInvitations.find(i => i.id === invitationId);
+    if (!invitation) {
+      toast.error('Invitation not found');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'invite')) {
+      toast.error('You do not have permission to resend invitations');
+      return;
+    }
+
+    try {
+      // 1. Give the invitation a fresh expiry (this also revives expired ones)
+      const expiresAt = new Date(Date.now() + INVITATION_TTL_MS).toISOString();
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .update({ status: 'pending', expires_at: expiresAt })
+        .eq('id', invitationId)
+        .in('status', ['pending', 'expired']);
+
+      if (error) throw error;
+
+      // 2. Send the email again
+      const workspace = state.userWorkspaces.find(w => w.id === invitation.workspaceId);
+      const emailSent = await emailService.sendWorkspaceInvitation({
+        workspaceName: invitation.workspaceName,
+        inviterName: user.user_metadata?.full_name || user.email || 'Someone',
+        inviterEmail: user.email,
+        invitedEmail: invitation.inviteeEmail,
+        inviteCode: invitation.inviteCode,
+        role: invitation.role,
+        workspaceDescription: workspace?.description
+      });
+
+      // 3. Log activity
+      await activityService.log({
+        userId: user.id,
+        workspaceId: invitation.workspaceId,
+        action: {
+          type: 'invitation_resent',
+          resourceType: 'workspace',
+          resourceId: invitation.workspaceId,
+          data: { invitee_email: invitation.inviteeEmail, expires_at: expiresAt, email_sent: emailSent }
+        }
+      });
+
+      await loadWorkspaceInvites(invitation.workspaceId);
+      toast.success(`Invitation resent to ${invitation.inviteeEmail}`);
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast.error('Failed to resend invitation');
+    }
+  };
+
+  // Replace the workspace invite code so links using the old one stop working
+  const regenerateInviteCode = async (workspaceId: string) => {
+    if (!user) {
+      toast.error('You must be logged in to change the invite code');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'invite')) {
+      toast.error('You do not have permission to change the invite code');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('regenerate_workspace_invite_code', {
+        p_workspace_id: workspaceId
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; invite_code?: string; error?: string };
+      if (!result?.success || !result.invite_code) {
+        toast.error(result?.error || 'Failed to regenerate invite code');
+        return;
+      }
+
+      dispatch({ type: 'UPDATE_WORKSPACE', payload: { id: workspaceId, updates: { inviteCode: result.invite_code } } });
+
+      await activityService.log({
+        userId: user.id,
+        workspaceId,
+        action: {
+          type: 'invite_code_regenerated',
+          resourceType: 'workspace',
+          resourceId: workspaceId
+        }
+      });
+
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE(workspaceId) });
+      toast.success('Invite code regenerated. Old links no longer work.');
+    } catch (error) {
+      console.error('Error regenerating invite code:', error);
+      toast.error('Failed to regenerate invite code');
+    }
+  };
+
+  const createInviteLink = async (
+    workspaceId: string,
+    options: { role: UserRole; maxUses?: number; expiresAt?: string }
+  ) => {
+    if (!user) {
+      toast.error('You must be logged in to create invite links');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'invite')) {
+      toast.error('You do not have permission to create invite links');
+      return;
+    }
+
+    if (options.role === 'owner') {
+      toast.error('Invite links cannot grant the owner role');
+      return;
+    }
+
+    if (options.maxUses !== undefined && options.maxUses < 1) {
+      toast.error('Maximum uses must be at least 1');
+      return;
+    }
+
+    if (options.expiresAt && new Date(options.expiresAt) <= new Date()) {
+      toast.error('Expiry date must be in the future');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('workspace_invite_links')
+        .insert({
+          workspace_id: workspaceId,
+          code: generateInviteCode(),
+          role: options.role,
+          max_uses: options.maxUses ?? null,
+          expires_at: options.expiresAt ?? null,
+          created_by: user.id
+        });
+
+      if (error) throw error;
+
+      await activityService.log({
+        userId: user.id,
+        workspaceId,
+        action: {
+          type: 'invite_link_created',
+          resourceType: 'workspace',
+          resourceId: workspaceId,
+          data: { role: options.role, max_uses: options.maxUses ?? null, expires_at: options.expiresAt ?? null }
+        }
+      });
+
+      await loadWorkspaceInvites(workspaceId);
+      toast.success('Invite link created');
+    } catch (error) {
+      console.error('Error creating invite link:', error);
+      toast.error('Failed to create invite link');
+    }
+  };
+
+  const revokeInviteLink = async (linkId: string) => {
+    if (!user) {
+      toast.error('You must be logged in to revoke invite links');
+      return;
+    }
+
+    const link = state.inviteLinks.find(l => l.id === linkId);
+    if (!link) {
+      toast.error('Invite link not found');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'invite')) {
+      toast.error('You do not have permission to revoke invite links');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('workspace_invite_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId);
+
+      if (error) throw error;
+
+      await activityService.log({
+        userId: user.id,
+        workspaceId: link.workspaceId,
+        action: {
+          type: 'invite_link_revoked',
+          resourceType: 'workspace',
+          resourceId: link.workspaceId,
+          data: { link_id: linkId, use_count: link.useCount }
+        }
+      });
+
+      await loadWorkspaceInvites(link.workspaceId);
+      toast.success('Invite link revoked');
+    } catch (error) {
+      console.error('Error revoking invite link:', error);
+      toast.error('Failed to revoke invite link');
+    }
+  };
+
   const removeMember = async (workspaceId: string, userId: string) => {
     if (!user) {
       toast.error('You must be logged in to remove members');
@@ -496,7 +831,7 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         return;
       }
 
-      if (currentMember.role !== 'owner' && currentMember.role !== 'admin') {
+      if (!can(currentMember, 'member', 'delete')) {
         toast.error('You do not have permission to remove members');
         return;
       }
@@ -533,17 +868,19 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
       }
 
       // 3. Log activity
-      await supabase
-        .from('user_activities')
-        .insert({
-          workspace_id: workspaceId,
-          user_id: user.id,
-          activity_type: 'member_removed',
-          activity_data: {
+      await activityService.log({
+        userId: user.id,
+        workspaceId,
+        action: {
+          type: 'member_removed',
+          resourceType: 'workspace',
+          resourceId: workspaceId,
+          data: {
             removed_member: targetMember.display_name || targetMember.email || 'Unknown User',
             removed_user_id: userId
           }
-        });
+        }
+      });
 
       // 4. Refresh workspaces
       await loadUserWorkspaces();
@@ -555,22 +892,173 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
     }
   };
 
-  const updateMemberRole = async (_workspaceId: string, _userId: string, _role: UserRole) => {
-    toast.info('Update member role feature coming soon');
-  };
+  const updateMemberRole = async (workspaceId: string, userId: string, role: UserRole) => {
+    if (!user) {
+      toast.error('You must be logged in to change member roles');
+      return;
+    }
+
+    try {
+      // 1. Check guard rails locally for a quick answer; the RPC enforces them too
+      const actor = state.workspaceMembers.find(m => m.userId === user.id);
+      const target = state.workspaceMembers.find(m => m.userId === userId);
+
+      if (!target) {
+        toast.error('Member not found');
+        return;
+      }
+
+      const guardError = getRoleChangeError(actor, target, role, state.workspaceMembers);
+      if (guardError) {
+        toast.error(guardError);
+        return;
+      }
+
+      // 2. Persist the new role
+      const { data, error } = await supabase.rpc('update_workspace_member_role', {
+        p_workspace_id: workspaceId,
+        p_user_id: userId,
+        p_role: role
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; error?: string };
+      if (!result?.success) {
+        toast.error(result?.error || 'Failed to update member role');
+        return;
+      }
 
-  const acceptInvitation = async (_invitationId: string) => {
-    toast.info('Accept invitation feature coming soon');
+      // 3. Log activity
+      await activityService.log({
+        userId: user.id,
+        workspaceId,
+        action: {
+          type: 'member_role_changed',
+          resourceType: 'workspace',
+          resourceId: workspaceId,
+          data: {
+            member: target.displayName,
+            member_user_id: userId,
+            old_role: target.role,
+            new_role: role
+          }
+        }
+      });
+
+      // 4. Refresh members (and workspaces, in case ownership moved)
+      await loadWorkspaceMembers(workspaceId);
+      if (target.role === 'owner') {
+        await loadUserWorkspaces();
+      }
+
+      toast.success(`${target.displayName}'s role changed to ${ROLE_LABELS[role]}`);
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      toast.error('Failed to update member role');
+    }
   };
 
-  const declineInvitation = async (_invitationId: string) => {
-    toast.info('Decline invitation feature coming soon');
+  // Accept or decline an invitation addressed to the current user
+  const respondToInvitation = async (invitationId: string, accept: boolean) => {
+    if (!user) {
+      toast.error('You must be logged in to respond to invitations');
+      return;
+    }
+
+    const invitation = state.pendingInvitations.find(i => i.id === invitationId);
+
+    try {
+      // 1. Record the response; the RPC also adds the member on accept
+      const { data, error } = await supabase.rpc('respond_to_workspace_invitation', {
+        p_invitation_id: invitationId,
+        p_accept: accept
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; status?: WorkspaceInvitation['status']; workspace_id?: string; error?: string };
+      if (!result?.success) {
+        toast.error(result?.error || 'Failed to respond to invitation');
+        await loadPendingInvitations();
+        return;
+      }
+
+      const workspaceId = result.workspace_id || invitation?.workspaceId;
+      const workspaceName = invitation?.workspaceName || 'the workspace';
+      const responderName = user.user_metadata?.full_name || user.email || 'Someone';
+
+      // 2. Let the inviter know
+      if (invitation?.invitedBy && invitation.invitedBy !== user.id) {
+        const notification = {
+          workspace_id: workspaceId,
+          type: 'workspace_invitation' as const,
+          title: accept ? 'Invitation accepted' : 'Invitation declined',
+          message: `${responderName} ${accept ? 'accepted' : 'declined'} your invitation to join ${workspaceName}`,
+          data: {
+            invitation_id: invitationId,
+            status: result.status,
+            responder_id: user.id,
+            responder_email: user.email
+          },
+          read: false
+        };
+
+        if (accept) {
+          const recipients = await notificationService.getRecipients(workspaceId, 'workspace_update', [invitation.invitedBy]);
+          for (const recipient of recipients) {
+            await notificationService.notifyRecipient(recipient, notification);
+          }
+        } else {
+          // Not gated by preferences: someone who declined isn't a member, so
+          // they can't read the inviter's preferences for this workspace
+          await createNotification({ ...notification, user_id: invitation.invitedBy });
+        }
+      }
+
+      // 3. Log activity
+      if (accept && workspaceId) {
+        await activityService.log({
+          userId: user.id,
+          workspaceId,
+          action: {
+            type: 'member_joined',
+            resourceType: 'workspace',
+            resourceId: workspaceId,
+            data: { workspace_name: workspaceName, invitation_id: invitationId }
+          }
+        });
+      }
+
+      // 4. Refresh invitations, and workspaces when we joined one
+      await loadPendingInvitations();
+
+      if (accept && workspaceId) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACES });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_MEMBERS(workspaceId) });
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+
+        localStorage.setItem('currentWorkspaceId', workspaceId);
+        await loadUserWorkspaces();
+
+        toast.success(`Joined ${workspaceName}!`);
+      } else {
+        toast.success(`Declined invitation to ${workspaceName}`);
+      }
+    } catch (error) {
+      console.error('Error responding to invitation:', error);
+      toast.error('Failed to respond to invitation');
+    }
   };
 
-  const joinWorkspaceByCode = async (inviteCode: string) => {
+  const acceptInvitation = (invitationId: string) => respondToInvitation(invitationId, true);
+
+  const declineInvitation = (invitationId: string) => respondToInvitation(invitationId, false);
+
+  const joinWorkspaceByCode = async (inviteCode: string): Promise<JoinWorkspaceResult> => {
     if (!user) {
       toast.error('You must be logged in to join a workspace');
-      return;
+      return 'failed';
     }
 
     try {
@@ -581,54 +1069,69 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
         .eq('invite_code', inviteCode)
         .single();
 
+      // Not a workspace code - it may be a multi-use invite link
       if (workspaceError || !workspace) {
-        toast.error('Invalid invite code or workspace not found');
-        return;
+        return await redeemInviteLink(inviteCode);
       }
 
-      // 2. Check if user is already a member
-      const { data: existingMember } = await supabase
-        .from('workspace_members')
-        .select('*')
-        .eq('workspace_id', workspace.id)
-        .eq('user_id', user.id)
-        .single();
+      const memberDisplayName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'Unknown User';
 
-      if (existingMember) {
-        toast.error('You are already a member of this workspace');
-        return;
-      }
+      // 2. Join, or file a join request when the workspace requires approval;
+      // the server decides which and what role the new member gets
+      const { data, error } = await supabase.rpc('join_workspace_by_code', {
+        p_invite_code: inviteCode
+      });
 
-      // 3. Add user as member with full details
-      const memberDisplayName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'Unknown User';
-      const memberEmail = user.email || '';
+      if (error) throw error;
 
-      const { error: memberError } = await supabase
-        .from('workspace_members')
-        .insert({
-          workspace_id: workspace.id,
-          user_id: user.id,
-          role: 'member',
-          joined_at: new Date().toISOString(),
-          display_name: memberDisplayName,
-          email: memberEmail
+      const result = data as {
+        success: boolean;
+        status?: 'joined' | 'requested';
+        request_id?: string;
+        role?: UserRole;
+        error?: string;
+      };
+      if (!result?.success) {
+        toast.error(result?.error || 'Failed to join workspace');
+        return 'failed';
+      }
+
+      if (result.status === 'requested') {
+        // 3. Let owners and admins know there is something to review
+        const { data: reviewers } = await supabase
+          .from('workspace_members')
+          .select('user_id')
+          .eq('workspace_id', workspace.id)
+          .in('role', ['owner', 'admin']);
+
+        const reviewerIds = new Set<string>((reviewers || []).map(r => r.user_id));
+        reviewerIds.add(workspace.owner_id);
+
+        await notificationService.sendJoinRequest({
+          requestId: result.request_id,
+          requesterUserId: user.id,
+          requesterName: memberDisplayName,
+          workspaceId: workspace.id,
+          workspaceName: workspace.name,
+          role: result.role || getJoinRole(workspace.settings),
+          notifyUserIds: Array.from(reviewerIds)
         });
 
-      if (memberError) {
-        console.error('Error joining workspace:', memberError);
-        toast.error('Failed to join workspace');
-        return;
+        toast.success(`Request sent! An admin of ${workspace.name} needs to approve it.`);
+        return 'requested';
       }
 
       // 4. Log activity
-      await supabase
-        .from('user_activities')
-        .insert({
-          workspace_id: workspace.id,
-          user_id: user.id,
-          activity_type: 'member_joined',
-          activity_data: { workspace_name: workspace.name }
-        });
+      await activityService.log({
+        userId: user.id,
+        workspaceId: workspace.id,
+        action: {
+          type: 'member_joined',
+          resourceType: 'workspace',
+          resourceId: workspace.id,
+          data: { workspace_name: workspace.name }
+        }
+      });
 
       // 5. Invalidate cache to ensure UI updates immediately
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACES });
@@ -642,12 +1145,105 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
       await loadUserWorkspaces();
 
       toast.success(`Successfully joined ${workspace.name}!`);
+      return 'joined';
     } catch (error) {
       console.error('Error joining workspace:', error);
       toast.error('Failed to join workspace');
+      return 'failed';
+    }
+  };
+
+  // Join through a multi-use invite link; the RPC checks uses and expiry
+  // and records the redemption in the activity log
+  const redeemInviteLink = async (code: string): Promise<JoinWorkspaceResult> => {
+    const { data, error } = await supabase.rpc('redeem_workspace_invite_link', { p_code: code });
+
+    if (error) throw error;
+
+    const result = data as { success: boolean; workspace_id?: string; workspace_name?: string; error?: string };
+    if (!result?.success || !result.workspace_id) {
+      toast.error(result?.error || 'Invalid invite code or workspace not found');
+      return 'failed';
     }
+
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACES });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_MEMBERS(result.workspace_id) });
+    if (user) {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+    }
+
+    localStorage.setItem('currentWorkspaceId', result.workspace_id);
+    await loadUserWorkspaces();
+
+    toast.success(`Successfully joined ${result.workspace_name}!`);
+    return 'joined';
   };
 
+  // Approve or reject a pending join request for the current workspace
+  const reviewJoinRequest = async (requestId: string, approve: boolean, role?: UserRole) => {
+    if (!user) {
+      toast.error('You must be logged in to review join requests');
+      return;
+    }
+
+    if (!can(currentMember, 'member', 'manage')) {
+      toast.error('You do not have permission to review join requests');
+      return;
+    }
+
+    const request = state.joinRequests.find(r => r.id === requestId);
+    if (!request) {
+      toast.error('Join request not found');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('review_workspace_join_request', {
+        p_request_id: requestId,
+        p_approve: approve,
+        p_role: role || request.role
+      });
+
+      if (error) throw error;
+
+      const result = data as { success: boolean; role?: UserRole; error?: string };
+      if (!result?.success) {
+        toast.error(result?.error || 'Failed to review join request');
+        return;
+      }
+
+      const grantedRole = result.role || role || request.role;
+      const workspaceName = state.userWorkspaces.find(w => w.id === request.workspaceId)?.name || 'the workspace';
+
+      await notificationService.sendJoinRequestDecision({
+        requestId,
+        requesterUserId: request.userId,
+        reviewerUserId: user.id,
+        reviewerName: user.user_metadata?.full_name || user.email || 'An admin',
+        workspaceId: request.workspaceId,
+        workspaceName,
+        approved: approve,
+        role: grantedRole
+      });
+
+      await loadJoinRequests(request.workspaceId);
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_MEMBERS(request.workspaceId) });
+        await loadWorkspaceMembers(request.workspaceId);
+        toast.success(`${request.displayName} joined as ${ROLE_LABELS[grantedRole]}`);
+      } else {
+        toast.success(`Rejected ${request.displayName}'s request`);
+      }
+    } catch (error) {
+      console.error('Error reviewing join request:', error);
+      toast.error('Failed to review join request');
+    }
+  };
+
+  const approveJoinRequest = (requestId: string, role?: UserRole) => reviewJoinRequest(requestId, true, role);
+
+  const rejectJoinRequest = (requestId: string) => reviewJoinRequest(requestId, false);
+
   // Throttle presence updates to prevent spam
   const lastPresenceUpdate = React.useRef<number>(0);
   const presenceUpdatePending = React.useRef<boolean>(false);
@@ -817,6 +1413,96 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
     }
   };
 
+  // Load invitations addressed to the current user
+  const loadPendingInvitations = useCallback(async () => {
+    if (!user?.email) return;
+
+    try {
+      // Flip anything past expires_at to 'expired' before listing
+      const { error: expireError } = await supabase.rpc('expire_my_workspace_invitations');
+      if (expireError) {
+        console.error('Error expiring invitations:', expireError);
+      }
+
+      const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*')
+        .eq('invitee_email', user.email)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      dispatch({ type: 'SET_PENDING_INVITATIONS', payload: (data || []).map(toWorkspaceInvitation) });
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      dispatch({ type: 'SET_PENDING_INVITATIONS', payload: [] });
+    }
+  }, [user]);
+
+  // Load invitations and invite links sent from a workspace
+  const loadWorkspaceInvites = async (workspaceId: string) => {
+    try {
+      const [invitationsResult, linksResult] = await Promise.all([
+        supabase
+          .from('workspace_invitations')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .in('status', ['pending', 'expired'])
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('workspace_invite_links')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .is('revoked_at', null)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (invitationsResult.error) throw invitationsResult.error;
+      if (linksResult.error) throw linksResult.error;
+
+      dispatch({ type: 'SET_SENT_INVITATIONS', payload: (invitationsResult.data || []).map(toWorkspaceInvitation) });
+      dispatch({ type: 'SET_INVITE_LINKS', payload: (linksResult.data || []).map(toWorkspaceInviteLink) });
+    } catch (error) {
+      console.error('Error loading workspace invites:', error);
+      dispatch({ type: 'SET_SENT_INVITATIONS', payload: [] });
+      dispatch({ type: 'SET_INVITE_LINKS', payload: [] });
+    }
+  };
+
+  // Load pending join requests (only owners and admins can act on them)
+  const loadJoinRequests = async (workspaceId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('workspace_join_requests')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const requests: WorkspaceJoinRequest[] = (data || []).map(request => ({
+        id: request.id,
+        workspaceId: request.workspace_id,
+        userId: request.user_id,
+        displayName: request.display_name || request.email?.split('@')[0] || 'Unknown User',
+        email: request.email || '',
+        role: request.role,
+        status: request.status,
+        createdAt: request.created_at,
+        reviewedBy: request.reviewed_by || undefined,
+        reviewedAt: request.reviewed_at || undefined
+      }));
+
+      dispatch({ type: 'SET_JOIN_REQUESTS', payload: requests });
+    } catch (error) {
+      console.error('Error loading join requests:', error);
+      dispatch({ type: 'SET_JOIN_REQUESTS', payload: [] });
+    }
+  };
+
   // Load workspace members
   const loadWorkspaceMembers = async (workspaceId: string) => {
     try {
@@ -861,16 +1547,17 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
       const members: WorkspaceMember[] = (memberData || []).map(member => {
         const userInfo = usersData[member.user_id] || {};
         const isOwner = workspace?.owner_id === member.user_id;
+        const role: UserRole = isOwner ? 'owner' : member.role;
 
         return {
           userId: member.user_id,
           email: userInfo.email || member.email || 'Unknown email',
           displayName: userInfo.name || member.display_name || userInfo.email?.split('@')[0] || 'Unknown User',
           photoURL: userInfo.avatar_url || undefined,
-          role: isOwner ? 'owner' : member.role, // Ensure owner is correctly marked
+          role, // Ensure owner is correctly marked
           joinedAt: member.joined_at || new Date().toISOString(),
           lastActive: new Date().toISOString(),
-          permissions: [],
+          permissions: getRolePermissions(role),
           isOnline: true, // simplified for now
           jobTitle: undefined,
           department: undefined,
@@ -896,11 +1583,13 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
   useEffect(() => {
     if (user) {
       loadUserWorkspaces();
+      loadPendingInvitations();
     } else {
       dispatch({ type: 'SET_USER_WORKSPACES', payload: [] });
       dispatch({ type: 'SET_CURRENT_WORKSPACE', payload: null });
+      dispatch({ type: 'SET_PENDING_INVITATIONS', payload: [] });
     }
-  }, [user]);
+  }, [user, loadPendingInvitations]);
 
   // Effect to load members when current workspace changes
   useEffect(() => {
@@ -909,9 +1598,33 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
     }
   }, [state.currentWorkspace]);
 
+  // Effect to load join requests once we know the user may review them
+  const currentWorkspaceId = state.currentWorkspace?.id;
+  const canReviewJoinRequests = can(currentMember, 'member', 'manage');
+  useEffect(() => {
+    if (currentWorkspaceId && canReviewJoinRequests) {
+      loadJoinRequests(currentWorkspaceId);
+    } else {
+      dispatch({ type: 'SET_JOIN_REQUESTS', payload: [] });
+    }
+  }, [currentWorkspaceId, canReviewJoinRequests]);
+
+  // Effect to load sent invitations and invite links for inviters
+  const canManageInvites = can(currentMember, 'member', 'invite');
+  useEffect(() => {
+    if (currentWorkspaceId && canManageInvites) {
+      loadWorkspaceInvites(currentWorkspaceId);
+    } else {
+      dispatch({ type: 'SET_SENT_INVITATIONS', payload: [] });
+      dispatch({ type: 'SET_INVITE_LINKS', payload: [] });
+    }
+  }, [currentWorkspaceId, canManageInvites]);
+
+
   return (
     <WorkspaceContext.Provider value={{
       ...state,
+      currentMember,
       createWorkspace,
       updateWorkspace,
       deleteWorkspace,
@@ -922,9 +1635,16 @@ export const SupabaseWorkspaceProvider: React.FC<WorkspaceProviderProps> = ({ ch
       updateMemberRole,
       acceptInvitation,
       declineInvitation,
+      loadPendingInvitations,
+      revokeInvitation,
+      resendInvitation,
+      regenerateInviteCode,
+      createInviteLink,
+      revokeInviteLink,
       joinWorkspaceByCode,
-      updateUserPresence,
-      trackActivity
+      approveJoinRequest,
+      rejectJoinRequest,
+      updateUserPresence
     }}>
       {children}
     </WorkspaceContext.Provider>
@@ -1,6 +1,12 @@
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
-import { AppState, Task, Page } from '../types';
+import { AppState, Task, Page, TaskAttachment, TaskTemplate, TaskRecurrence, TaskDependency } from '../types';
 import { loadFromStorage, saveToStorage, generateId } from '../utils/localStorage';
+import { sortTasksByOrder, getNextOrder, getOrderAtIndex, rebalanceOrders, ORDER_STEP } from '../utils/taskOrdering';
+import { getWorkflow, getWorkflowStatus, resolveTaskWorkflowStatus, categoryToTaskStatus, canTransition } from '../utils/workflow';
+import { instantiateTemplate } from '../utils/templates';
+import { getNextTaskOccurrence, parseTaskDate } from '../utils/recurrence';
+import { buildTaskMap, getStartBlockers, getTransitionBlockers, suggestDependentDates, DateSuggestion, TaskBlocker } from '../utils/dependencies';
+import { useWorkspaceDependencies } from '../hooks/useDependencyQueries';
 import { useAuth } from './SupabaseAuthContext';
 import { useSupabaseWorkspace } from './SupabaseWorkspaceContext';
 import { supabase } from '../lib/supabase';
@@ -24,6 +30,20 @@ interface SupabaseTask {
   created_by: string;
   due_date?: string;
   completed_at?: string;
+  sort_order?: number;
+  workflow_status?: string;
+  tags?: string[];
+  link?: string;
+  attached_image?: string;
+  estimated_hours?: number;
+  actual_hours?: number;
+  start_date?: string;
+  progress?: number;
+  custom_fields?: Record<string, unknown>;
+  recurrence?: TaskRecurrence | null;
+  recurrence_series_id?: string | null;
+  recurrence_index?: number;
+  task_number?: number;
   created_at: string;
   updated_at: string;
 }
@@ -41,6 +61,12 @@ interface SupabasePage {
   updated_at: string;
 }
 
+export interface CreateFromTemplateOptions {
+  title?: string; // Overrides the filled-in template name
+  pageId?: string;
+  variables?: Record<string, string>;
+}
+
 interface TaskContextType {
   state: AppState;
   loading: boolean;
@@ -48,10 +74,15 @@ interface TaskContextType {
   updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
   deleteTask: (taskId: string) => Promise<void>;
   duplicateTask: (taskId: string, targetPageId?: string) => Promise<void>;
+  createTaskFromTemplate: (template: TaskTemplate, options?: CreateFromTemplateOptions) => Promise<Task | null>;
+  importTasks: (tasks: Array<Omit<Task, 'id' | 'createdAt' | 'order'>>) => Promise<number>;
+  dependencies: TaskDependency[];
+  getTaskBlockers: (task: Task) => TaskBlocker[];
   addPage: (page: Omit<Page, 'id' | 'createdAt' | 'tasks'>) => Promise<void>;
   updatePage: (pageId: string, updates: Partial<Page>) => Promise<void>;
   deletePage: (pageId: string) => Promise<void>;
-  moveTask: (taskId: string, targetPageId?: string, targetIndex?: number) => Promise<void>;
+  moveTask: (taskId: string, targetPageId?: string, targetIndex?: number, targetStatus?: Task['status']) => Promise<void>;
+  reorderTask: (taskId: string, siblings: Task[], targetIndex: number, updates?: Partial<Task>) => Promise<void>;
   searchTasks: (query: string) => Task[];
   loadWorkspaceData: () => Promise<void>;
   migrateFromLocalStorage: () => Promise<void>;
@@ -106,39 +137,81 @@ const loadTaskAttachments = async (taskIds: string[]): Promise<Record<string, Ta
   }
 };
 
+const STATUS_FROM_SUPABASE: Record<SupabaseTask['status'], Task['status']> = {
+  pending: 'todo',
+  in_progress: 'progress',
+  completed: 'done',
+  cancelled: 'cancelled'
+};
+
+const STATUS_TO_SUPABASE: Record<Task['status'], SupabaseTask['status']> = {
+  todo: 'pending',
+  progress: 'in_progress',
+  done: 'completed',
+  cancelled: 'cancelled'
+};
+
 // Mapping functions between local types and Supabase types
-const mapSupabaseTaskToLocal = (supabaseTask: SupabaseTask, order: number = 0, attachments: TaskAttachment[] = []): Task => {
+const mapSupabaseTaskToLocal = (supabaseTask: SupabaseTask, attachments: TaskAttachment[] = []): Task => {
   return {
     id: supabaseTask.id,
     title: supabaseTask.title,
     description: supabaseTask.description || '',
-    status: supabaseTask.status === 'pending' ? 'todo' :
-            supabaseTask.status === 'in_progress' ? 'progress' :
-            supabaseTask.status === 'completed' ? 'done' : 'todo', // Handle 'cancelled' as 'todo'
+    status: STATUS_FROM_SUPABASE[supabaseTask.status] || 'todo',
+    workflowStatus: supabaseTask.workflow_status || undefined,
     dueDate: supabaseTask.due_date,
     priority: supabaseTask.priority, // Keep all priority levels including 'urgent'
     pageId: supabaseTask.page_id,
-    order,
+    order: supabaseTask.sort_order ?? 0,
     createdAt: supabaseTask.created_at,
-    tags: [], // Will be enhanced later with tags table
-    link: '', // Will be enhanced later
-    attachedImage: '', // Will be enhanced later
+    completedAt: supabaseTask.completed_at,
+    assignedTo: supabaseTask.assigned_to,
+    tags: supabaseTask.tags || [],
+    link: supabaseTask.link || '',
+    attachedImage: supabaseTask.attached_image || '',
+    estimatedHours: supabaseTask.estimated_hours ?? undefined,
+    actualHours: supabaseTask.actual_hours != null ? Number(supabaseTask.actual_hours) : undefined,
+    startDate: supabaseTask.start_date,
+    progress: supabaseTask.progress ?? undefined,
+    customFields: supabaseTask.custom_fields || {},
+    recurrence: supabaseTask.recurrence || undefined,
+    recurrenceSeriesId: supabaseTask.recurrence_series_id || undefined,
+    recurrenceIndex: supabaseTask.recurrence_index ?? 1,
+    number: supabaseTask.task_number ?? undefined,
     attachments: attachments
   };
 };
 
+// Trim, drop empties and de-duplicate tag names before they are stored
+const normalizeTags = (tags: string[] = []): string[] => {
+  return Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean)));
+};
+
+// Whether an update really moves a date (the edit modal sends every field back)
+const isDateChanged = (value: string | undefined, previous?: string | null): boolean =>
+  value !== undefined && parseTaskDate(value)?.getTime() !== parseTaskDate(previous)?.getTime();
+
 const mapLocalTaskToSupabase = (localTask: Task, workspaceId: string, userId: string): Omit<SupabaseTask, 'id' | 'created_at' | 'updated_at'> => {
   return {
     workspace_id: workspaceId,
     page_id: localTask.pageId || null,
     title: localTask.title,
     description: localTask.description,
-    status: localTask.status === 'todo' ? 'pending' :
-            localTask.status === 'progress' ? 'in_progress' : 'completed',
+    status: STATUS_TO_SUPABASE[localTask.status] || 'pending',
+    workflow_status: localTask.workflowStatus || null,
     priority: (localTask.priority || 'medium') as 'low' | 'medium' | 'high' | 'urgent',
     created_by: userId,
     due_date: localTask.dueDate || null,
-    assigned_to: null // Will be enhanced later with assignments
+    sort_order: localTask.order,
+    tags: normalizeTags(localTask.tags),
+    link: localTask.link || null,
+    attached_image: localTask.attachedImage || null,
+    estimated_hours: localTask.estimatedHours ?? null,
+    start_date: localTask.startDate || null,
+    progress: localTask.progress ?? null,
+    custom_fields: localTask.customFields || {},
+    recurrence: localTask.recurrence || null,
+    assigned_to: localTask.assignedTo || null
   };
 };
 
@@ -177,7 +250,7 @@ type Action =
   | { type: 'ADD_PAGE'; payload: Page }
   | { type: 'UPDATE_PAGE'; payload: { pageId: string; updates: Partial<Page> } }
   | { type: 'DELETE_PAGE'; payload: string }
-  | { type: 'MOVE_TASK'; payload: { taskId: string; targetPageId?: string; targetIndex?: number } };
+  | { type: 'MOVE_TASK'; payload: { taskId: string; targetPageId?: string; order: number; updates?: Partial<Task> } };
 
 interface TaskState extends AppState {
   loading: boolean;
@@ -192,9 +265,22 @@ const taskReducer = (state: TaskState, action: Action): TaskState => {
       return { ...action.payload, loading: false };
 
     case 'ADD_TASK': {
+      const newTask = action.payload;
+
+      if (newTask.pageId && state.pages.some(page => page.id === newTask.pageId)) {
+        return {
+          ...state,
+          pages: state.pages.map(page =>
+            page.id === newTask.pageId
+              ? { ...page, tasks: sortTasksByOrder([...page.tasks, newTask]) }
+              : page
+          )
+        };
+      }
+
       return {
         ...state,
-        unassignedTasks: [...state.unassignedTasks, action.payload]
+        unassignedTasks: sortTasksByOrder([...state.unassignedTasks, newTask])
       };
     }
 
@@ -246,40 +332,39 @@ const taskReducer = (state: TaskState, action: Action): TaskState => {
       
       if (!originalTask) return state;
       
-      // Create duplicated task
+      const targetTasks = targetPageId
+        ? state.pages.find(page => page.id === targetPageId)?.tasks
+        : state.unassignedTasks;
+
+      if (!targetTasks) return state;
+
+      // Create duplicated task, ranked at the top of its target list
       const duplicatedTask: Task = {
         ...originalTask,
         id: generateId(),
         title: `${originalTask.title} (Copy)`,
         createdAt: new Date().toISOString(),
         pageId: targetPageId,
-        order: 0
+        order: getOrderAtIndex(sortTasksByOrder(targetTasks), 0)
       };
       
       if (targetPageId) {
         // Add to specific page
-        const targetPageIndex = state.pages.findIndex(page => page.id === targetPageId);
-        if (targetPageIndex >= 0) {
-          const updatedPages = [...state.pages];
-          updatedPages[targetPageIndex] = {
-            ...updatedPages[targetPageIndex],
-            tasks: [duplicatedTask, ...updatedPages[targetPageIndex].tasks].map((task, index) => ({ ...task, order: index }))
-          };
-          
-          return {
-            ...state,
-            pages: updatedPages
-          };
-        }
-      } else {
-        // Add to unassigned tasks
         return {
           ...state,
-          unassignedTasks: [duplicatedTask, ...state.unassignedTasks].map((task, index) => ({ ...task, order: index }))
+          pages: state.pages.map(page =>
+            page.id === targetPageId
+              ? { ...page, tasks: sortTasksByOrder([duplicatedTask, ...page.tasks]) }
+              : page
+          )
         };
       }
-      
-      return state;
+
+      // Add to unassigned tasks
+      return {
+        ...state,
+        unassignedTasks: sortTasksByOrder([duplicatedTask, ...state.unassignedTasks])
+      };
     }
 
     case 'ADD_PAGE': {
@@ -305,78 +390,47 @@ const taskReducer = (state: TaskState, action: Action): TaskState => {
       
       if (!pageToDelete) return state;
       
-      // Move tasks back to unassigned
+      // Move tasks back to unassigned, keeping their ranks
       const tasksToMove = pageToDelete.tasks.map(task => ({
         ...task,
-        pageId: undefined,
-        order: state.unassignedTasks.length + pageToDelete.tasks.indexOf(task)
+        pageId: undefined
       }));
       
       return {
         ...state,
-        unassignedTasks: [...state.unassignedTasks, ...tasksToMove],
+        unassignedTasks: sortTasksByOrder([...state.unassignedTasks, ...tasksToMove]),
         pages: state.pages.filter(page => page.id !== pageId)
       };
     }
 
     case 'MOVE_TASK': {
-      const { taskId, targetPageId, targetIndex } = action.payload;
-      
-      // Find the task and its current location
-      let sourceTask: Task | undefined;
-      let sourcePageId: string | undefined;
-      
-      // Check unassigned tasks
-      const unassignedTask = state.unassignedTasks.find(task => task.id === taskId);
-      if (unassignedTask) {
-        sourceTask = unassignedTask;
-      } else {
-        // Check page tasks
-        for (const page of state.pages) {
-          const pageTask = page.tasks.find(task => task.id === taskId);
-          if (pageTask) {
-            sourceTask = pageTask;
-            sourcePageId = page.id;
-            break;
-          }
-        }
-      }
-      
+      const { taskId, targetPageId, order, updates } = action.payload;
+
+      // Find the task wherever it currently lives
+      const sourceTask = [
+        ...state.unassignedTasks,
+        ...state.pages.flatMap(page => page.tasks)
+      ].find(task => task.id === taskId);
+
       if (!sourceTask) return state;
-      
-      // Remove task from source
+
+      const movedTask: Task = { ...sourceTask, ...updates, pageId: targetPageId, order };
+
+      // Remove task from source, then insert it by rank at the target
       const newUnassignedTasks = state.unassignedTasks.filter(task => task.id !== taskId);
-      const newPages = state.pages.map(page => ({
-        ...page,
-        tasks: page.tasks.filter(task => task.id !== taskId)
-      }));
-      
-      // Add task to target
-      const updatedTask = { ...sourceTask, pageId: targetPageId };
-      
-      if (targetPageId) {
-        // Moving to a page
-        const targetPageIndex = newPages.findIndex(page => page.id === targetPageId);
-        if (targetPageIndex >= 0) {
-          const targetPage = newPages[targetPageIndex];
-          const newTasks = [...targetPage.tasks];
-          const insertIndex = targetIndex !== undefined ? targetIndex : newTasks.length;
-          newTasks.splice(insertIndex, 0, updatedTask);
-          
-          newPages[targetPageIndex] = {
-            ...targetPage,
-            tasks: newTasks.map((task, index) => ({ ...task, order: index }))
-          };
-        }
-      } else {
-        // Moving to unassigned
-        const insertIndex = targetIndex !== undefined ? targetIndex : newUnassignedTasks.length;
-        newUnassignedTasks.splice(insertIndex, 0, { ...updatedTask, pageId: undefined });
-      }
-      
+      const newPages = state.pages.map(page => {
+        const tasks = page.tasks.filter(task => task.id !== taskId);
+        return {
+          ...page,
+          tasks: page.id === targetPageId ? sortTasksByOrder([...tasks, movedTask]) : tasks
+        };
+      });
+
       return {
         ...state,
-        unassignedTasks: newUnassignedTasks.map((task, index) => ({ ...task, order: index })),
+        unassignedTasks: targetPageId
+          ? newUnassignedTasks
+          : sortTasksByOrder([...newUnassignedTasks, movedTask]),
         pages: newPages
       };
     }
@@ -391,6 +445,7 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const { user } = useAuth();
   const { currentWorkspace } = useSupabaseWorkspace();
   const queryClient = useQueryClient();
+  const { data: dependencies = [] } = useWorkspaceDependencies(currentWorkspace?.id || '');
 
   // Load workspace data when user and workspace are available
   useEffect(() => {
@@ -460,6 +515,7 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         .from('tasks')
         .select('*')
         .eq('workspace_id', currentWorkspace.id)
+        .order('sort_order', { ascending: true, nullsFirst: true })
         .order('created_at', { ascending: true });
 
       if (tasksError) throw tasksError;
@@ -472,9 +528,9 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const tasksByPage: { [pageId: string]: Task[] } = {};
       const unassignedTasks: Task[] = [];
 
-      tasksData?.forEach((task, index) => {
+      tasksData?.forEach(task => {
         const taskAttachments = attachmentsByTask[task.id] || [];
-        const localTask = mapSupabaseTaskToLocal(task, index, taskAttachments);
+        const localTask = mapSupabaseTaskToLocal(task, taskAttachments);
         if (task.page_id) {
           if (!tasksByPage[task.page_id]) {
             tasksByPage[task.page_id] = [];
@@ -503,6 +559,92 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Tasks sharing a page (or the unassigned list) and status, in rank order
+  const getColumnTasks = (pageId?: string, status?: Task['status']): Task[] => {
+    const pageTasks = pageId
+      ? state.pages.find(page => page.id === pageId)?.tasks || []
+      : state.unassignedTasks;
+
+    return sortTasksByOrder(status ? pageTasks.filter(task => task.status === status) : pageTasks);
+  };
+
+  /**
+   * Keeps status (the category stored in tasks.status) and workflowStatus
+   * in step, and enforces the workspace's allowed transitions.
+   * Returns null when the move is not allowed.
+   */
+  const resolveStatusUpdates = (taskId: string, updates: Partial<Task>): Partial<Task> | null => {
+    if (updates.status === undefined && updates.workflowStatus === undefined) return updates;
+
+    const workflow = getWorkflow(currentWorkspace?.settings);
+    const task = [...state.unassignedTasks, ...state.pages.flatMap(page => page.tasks)].find(t => t.id === taskId);
+
+    const current = task ? resolveTaskWorkflowStatus(task, workflow) : undefined;
+
+    // A bare status change keeps the task's workflow status if it is already in that category
+    let target = updates.workflowStatus !== undefined
+      ? getWorkflowStatus(workflow, updates.workflowStatus)
+      : resolveTaskWorkflowStatus({ status: updates.status }, workflow);
+
+    if (!target) {
+      toast.error('That status is not part of this workspace workflow');
+      return null;
+    }
+
+    if (updates.workflowStatus === undefined && current && current.category === target.category) {
+      target = current;
+    }
+
+    if (current && !canTransition(workflow, current.id, target.id)) {
+      toast.error(`Tasks cannot move from "${current.name}" to "${target.name}"`);
+      return null;
+    }
+
+    const status = categoryToTaskStatus(target.category);
+
+    // Predecessors have to be started/finished first (see utils/dependencies)
+    const blockers = task ? getTransitionBlockers(task, status, dependencies, getTaskMap()) : [];
+    if (blockers.length > 0) {
+      const names = blockers.map(blocker => `"${blocker.predecessor.title}"`).join(', ');
+      toast.error(`"${task!.title}" is blocked by ${names}`);
+      return null;
+    }
+
+    return { ...updates, status, workflowStatus: target.id };
+  };
+
+  const getTaskMap = () => buildTaskMap([...state.unassignedTasks, ...state.pages.flatMap(page => page.tasks)]);
+
+  const getTaskBlockers = (task: Task): TaskBlocker[] => getStartBlockers(task, dependencies, getTaskMap());
+
+  // Moves dependents to the suggested dates without re-running the notification flow of updateTask
+  const applyDateSuggestions = async (suggestions: DateSuggestion[]) => {
+    if (!currentWorkspace) return;
+
+    try {
+      for (const suggestion of suggestions) {
+        const updates: Partial<Task> = {};
+        if (suggestion.startDate) updates.startDate = suggestion.startDate;
+        if (suggestion.dueDate) updates.dueDate = suggestion.dueDate;
+
+        const { error } = await supabase
+          .from('tasks')
+          .update({ start_date: updates.startDate, due_date: updates.dueDate })
+          .eq('id', suggestion.task.id)
+          .eq('workspace_id', currentWorkspace.id);
+
+        if (error) throw error;
+        dispatch({ type: 'UPDATE_TASK', payload: { taskId: suggestion.task.id, updates } });
+      }
+
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(currentWorkspace.id) });
+      toast.success(`Rescheduled ${suggestions.length} dependent task${suggestions.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error rescheduling dependent tasks:', error);
+      toast.error('Failed to reschedule dependent tasks');
+    }
+  };
+
   const addTask = async (taskData: Omit<Task, 'id' | 'createdAt' | 'order'>) => {
     if (!user || !currentWorkspace) {
       toast.error('No workspace selected');
@@ -510,11 +652,19 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     try {
+      const workflowStatus = resolveTaskWorkflowStatus(taskData, getWorkflow(currentWorkspace.settings));
+      const status = categoryToTaskStatus(workflowStatus.category);
+
+      // Append to the bottom of the task's page/status column
+      const columnTasks = getColumnTasks(taskData.pageId, status);
+
       const supabaseTask = mapLocalTaskToSupabase({
         ...taskData,
+        status,
+        workflowStatus: workflowStatus.id,
         id: '', // Will be generated by Supabase
         createdAt: '',
-        order: 0
+        order: getNextOrder(columnTasks)
       }, currentWorkspace.id, user.id);
 
       const { data, error } = await supabase
@@ -525,7 +675,7 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       if (error) throw error;
 
-      const newTask = mapSupabaseTaskToLocal(data, state.unassignedTasks.length, []);
+      const newTask = mapSupabaseTaskToLocal(data, []);
 
       // If there are attachments, link them to the task
       if (taskData.attachments && taskData.attachments.length > 0) {
@@ -583,109 +733,192 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>) => {
-    if (!user || !currentWorkspace) {
-      toast.error('No workspace selected');
+  /**
+   * Creates the occurrence after `task` in its repeat series, with the
+   * subtasks copied and reset. Does nothing once the series has ended.
+   */
+  const createNextOccurrence = async (task: Task) => {
+    if (!currentWorkspace) return;
+
+    const next = getNextTaskOccurrence(task);
+    if (!next) {
+      toast.success(`"${task.title}" has no more occurrences`);
       return;
     }
 
     try {
-      // Get current task data for comparison
-      const { data: currentTaskData, error: fetchError } = await supabase
-        .from('tasks')
-        .select('*, assigned_to, status, title')
-        .eq('id', taskId)
-        .eq('workspace_id', currentWorkspace.id)
-        .single();
-
-      if (fetchError) throw fetchError;
+      const workflowStatus = resolveTaskWorkflowStatus({ status: 'todo' }, getWorkflow(currentWorkspace.settings));
+
+      const { data, error } = await supabase.rpc('create_next_task_occurrence', {
+        p_task_id: task.id,
+        p_due_date: next.dueDate,
+        p_recurrence_index: next.index,
+        p_workflow_status: workflowStatus.id,
+        p_sort_order: getNextOrder(getColumnTasks(task.pageId, 'todo'))
+      });
 
-      // Convert local updates to Supabase format
-      const supabaseUpdates: Partial<SupabaseTask> = {};
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to create the next occurrence');
 
-      if (updates.title !== undefined) supabaseUpdates.title = updates.title;
-      if (updates.description !== undefined) supabaseUpdates.description = updates.description;
-      if (updates.status !== undefined) {
-        supabaseUpdates.status = updates.status === 'todo' ? 'pending' :
-                                 updates.status === 'progress' ? 'in_progress' : 'completed';
-      }
-      if (updates.priority !== undefined) {
-        supabaseUpdates.priority = (updates.priority || 'medium') as 'low' | 'medium' | 'high' | 'urgent';
+      // The first completed occurrence becomes the head of the series
+      if (!task.recurrenceSeriesId) {
+        dispatch({ type: 'UPDATE_TASK', payload: { taskId: task.id, updates: { recurrenceSeriesId: task.id } } });
       }
-      if (updates.dueDate !== undefined) supabaseUpdates.due_date = updates.dueDate;
-      if (updates.pageId !== undefined) supabaseUpdates.page_id = updates.pageId;
-      if (updates.assignedTo !== undefined) supabaseUpdates.assigned_to = updates.assignedTo;
-
-      const { error } = await supabase
-        .from('tasks')
-        .update(supabaseUpdates)
-        .eq('id', taskId)
-        .eq('workspace_id', currentWorkspace.id);
 
-      if (error) throw error;
+      if (data.created) {
+        const nextTask = mapSupabaseTaskToLocal(data.task, []);
+        dispatch({ type: 'ADD_TASK', payload: nextTask });
+        if (nextTask.pageId) {
+          queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PAGE_TASKS(nextTask.pageId) });
+        }
+        toast.success(`Next occurrence of "${task.title}" is due ${next.dueDate}`);
+      }
+    } catch (error) {
+      console.error('Error creating next occurrence:', error);
+      toast.error('Task completed, but the next occurrence could not be created');
+    }
+  };
 
-      // Send notifications for relevant changes
-      const oldStatus = currentTaskData.status;
-      const newStatus = supabaseUpdates.status;
-      const oldAssignedTo = currentTaskData.assigned_to;
-      const newAssignedTo = supabaseUpdates.assigned_to;
-
-      // Task assignment notification
-      if (newAssignedTo && newAssignedTo !== oldAssignedTo) {
-        // Get assignee user data
-        const { data: assigneeData } = await supabase
-          .from('auth.users')
-          .select('email, raw_user_meta_data')
-          .eq('id', newAssignedTo)
-          .single();
+  /**
+   * Writes already-resolved updates, sends the notifications they call for
+   * and updates local state. Throws on failure so callers that moved the
+   * task optimistically can roll back.
+   */
+  const saveTaskUpdates = async (taskId: string, updates: Partial<Task>) => {
+    if (!user || !currentWorkspace) throw new Error('No workspace selected');
+
+    // Get current task data for comparison
+    const { data: currentTaskData, error: fetchError } = await supabase
+      .from('tasks')
+      .select('*, assigned_to, status, title')
+      .eq('id', taskId)
+      .eq('workspace_id', currentWorkspace.id)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    // Convert local updates to Supabase format
+    const supabaseUpdates: Partial<SupabaseTask> = {};
+
+    if (updates.title !== undefined) supabaseUpdates.title = updates.title;
+    if (updates.description !== undefined) supabaseUpdates.description = updates.description;
+    if (updates.status !== undefined) supabaseUpdates.status = STATUS_TO_SUPABASE[updates.status];
+    if (updates.workflowStatus !== undefined) supabaseUpdates.workflow_status = updates.workflowStatus || null;
+    if (updates.priority !== undefined) {
+      supabaseUpdates.priority = (updates.priority || 'medium') as 'low' | 'medium' | 'high' | 'urgent';
+    }
+    if (updates.dueDate !== undefined) supabaseUpdates.due_date = updates.dueDate;
+    if (updates.pageId !== undefined) supabaseUpdates.page_id = updates.pageId;
+    if (updates.assignedTo !== undefined) supabaseUpdates.assigned_to = updates.assignedTo;
+    if (updates.order !== undefined) supabaseUpdates.sort_order = updates.order;
+    if (updates.tags !== undefined) supabaseUpdates.tags = normalizeTags(updates.tags);
+    if (updates.link !== undefined) supabaseUpdates.link = updates.link || null;
+    if (updates.attachedImage !== undefined) supabaseUpdates.attached_image = updates.attachedImage || null;
+    if (updates.estimatedHours !== undefined) supabaseUpdates.estimated_hours = updates.estimatedHours ?? null;
+    if (updates.startDate !== undefined) supabaseUpdates.start_date = updates.startDate || null;
+    if (updates.progress !== undefined) supabaseUpdates.progress = updates.progress ?? null;
+    if (updates.customFields !== undefined) supabaseUpdates.custom_fields = updates.customFields || {};
+    if (updates.recurrence !== undefined) supabaseUpdates.recurrence = updates.recurrence || null;
+
+    const { error } = await supabase
+      .from('tasks')
+      .update(supabaseUpdates)
+      .eq('id', taskId)
+      .eq('workspace_id', currentWorkspace.id);
+
+    if (error) throw error;
+
+    // Send notifications for relevant changes
+    const oldStatus = currentTaskData.status;
+    const newStatus = supabaseUpdates.status;
+    const oldAssignedTo = currentTaskData.assigned_to;
+    const newAssignedTo = supabaseUpdates.assigned_to;
+
+    // Task assignment notification
+    if (newAssignedTo && newAssignedTo !== oldAssignedTo) {
+      // The assignee's email and notification preferences are looked up by the service
+      await notificationService.sendTaskAssignment({
+        taskId,
+        taskTitle: currentTaskData.title,
+        taskDescription: updates.description || currentTaskData.description,
+        assigneeUserId: newAssignedTo,
+        assignerUserId: user.id,
+        assignerName: user.user_metadata?.full_name || user.email || 'Unknown User',
+        workspaceId: currentWorkspace.id,
+        workspaceName: currentWorkspace.name,
+        dueDate: updates.dueDate || currentTaskData.due_date,
+        priority: updates.priority || currentTaskData.priority
+      });
+    }
 
-        if (assigneeData?.email) {
-          await notificationService.sendTaskAssignment({
-            taskId,
-            taskTitle: currentTaskData.title,
-            taskDescription: updates.description || currentTaskData.description,
-            assigneeUserId: newAssignedTo,
-            assigneeEmail: assigneeData.email,
-            assignerUserId: user.id,
-            assignerName: user.user_metadata?.full_name || user.email || 'Unknown User',
-            workspaceId: currentWorkspace.id,
-            workspaceName: currentWorkspace.name,
-            dueDate: updates.dueDate || currentTaskData.due_date,
-            priority: updates.priority || currentTaskData.priority
-          });
-        }
+    // Task status change notification
+    if (newStatus && newStatus !== oldStatus) {
+      // Get all relevant users to notify (assignee, creator, watchers)
+      const usersToNotify = [currentTaskData.created_by];
+      if (currentTaskData.assigned_to && !usersToNotify.includes(currentTaskData.assigned_to)) {
+        usersToNotify.push(currentTaskData.assigned_to);
       }
 
-      // Task status change notification
-      if (newStatus && newStatus !== oldStatus) {
-        // Get all relevant users to notify (assignee, creator, watchers)
-        const usersToNotify = [currentTaskData.created_by];
-        if (currentTaskData.assigned_to && !usersToNotify.includes(currentTaskData.assigned_to)) {
-          usersToNotify.push(currentTaskData.assigned_to);
-        }
+      await notificationService.sendTaskStatusChange({
+        taskId,
+        taskTitle: currentTaskData.title,
+        oldStatus,
+        newStatus,
+        updaterUserId: user.id,
+        updaterName: user.user_metadata?.full_name || user.email || 'Unknown User',
+        workspaceId: currentWorkspace.id,
+        workspaceName: currentWorkspace.name,
+        notifyUserIds: usersToNotify
+      });
+    }
 
-        await notificationService.sendTaskStatusChange({
-          taskId,
-          taskTitle: currentTaskData.title,
-          oldStatus,
-          newStatus,
-          updaterUserId: user.id,
-          updaterName: user.user_metadata?.full_name || user.email || 'Unknown User',
-          workspaceId: currentWorkspace.id,
-          notifyUserIds: usersToNotify
+    dispatch({ type: 'UPDATE_TASK', payload: { taskId, updates } });
+
+    // Offer to push back dependents that the new dates would overlap
+    if (isDateChanged(updates.dueDate, currentTaskData.due_date) || isDateChanged(updates.startDate, currentTaskData.start_date)) {
+      const taskMap = getTaskMap();
+      const changedTask = { ...(taskMap.get(taskId) || mapSupabaseTaskToLocal(currentTaskData)), ...updates };
+      const suggestions = suggestDependentDates(changedTask, dependencies, taskMap);
+
+      if (suggestions.length > 0) {
+        toast(`${suggestions.length} dependent task${suggestions.length === 1 ? '' : 's'} now start too early`, {
+          description: suggestions
+            .map(suggestion => `${suggestion.task.title} → ${suggestion.dueDate || suggestion.startDate}`)
+            .join(', '),
+          action: { label: 'Shift dates', onClick: () => applyDateSuggestions(suggestions) },
+          duration: 15000
         });
       }
+    }
 
-      dispatch({ type: 'UPDATE_TASK', payload: { taskId, updates } });
-
-      // Invalidate relevant caches
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK(taskId) });
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(currentWorkspace.id) });
-      if (updates.pageId) {
-        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PAGE_TASKS(updates.pageId) });
+    // Completing an occurrence of a repeating task schedules the next one
+    if (newStatus === 'completed' && oldStatus !== 'completed') {
+      const completedTask = { ...mapSupabaseTaskToLocal(currentTaskData), ...updates };
+      if (completedTask.recurrence) {
+        await createNextOccurrence(completedTask);
       }
-      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+    }
+
+    // Invalidate relevant caches
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK(taskId) });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(currentWorkspace.id) });
+    if (updates.pageId) {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PAGE_TASKS(updates.pageId) });
+    }
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+  };
 
+  const updateTask = async (taskId: string, requestedUpdates: Partial<Task>) => {
+    if (!user || !currentWorkspace) {
+      toast.error('No workspace selected');
+      return;
+    }
+
+    const updates = resolveStatusUpdates(taskId, requestedUpdates);
+    if (!updates) return;
+
+    try {
+      await saveTaskUpdates(taskId, updates);
       toast.success('Task updated successfully');
     } catch (error) {
       console.error('Error updating task:', error);
@@ -767,6 +1000,125 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const createTaskFromTemplate = async (template: TaskTemplate, options: CreateFromTemplateOptions = {}): Promise<Task | null> => {
+    if (!user || !currentWorkspace) {
+      toast.error('No workspace selected');
+      return null;
+    }
+
+    try {
+      // 1. Fill in {{variables}} and relative due dates
+      const filled = instantiateTemplate(template, options.variables || {});
+
+      const taskData: Omit<Task, 'id' | 'createdAt' | 'order'> = {
+        title: options.title?.trim() || filled.title,
+        description: filled.description,
+        status: 'todo',
+        priority: template.priority,
+        tags: filled.tags,
+        dueDate: filled.dueDate,
+        estimatedHours: template.estimatedHours,
+        customFields: template.customFields,
+        pageId: options.pageId
+      };
+
+      const workflowStatus = resolveTaskWorkflowStatus(taskData, getWorkflow(currentWorkspace.settings));
+      const status = categoryToTaskStatus(workflowStatus.category);
+
+      const supabaseTask = mapLocalTaskToSupabase({
+        ...taskData,
+        status,
+        workflowStatus: workflowStatus.id,
+        id: '',
+        createdAt: '',
+        order: getNextOrder(getColumnTasks(taskData.pageId, status))
+      }, currentWorkspace.id, user.id);
+
+      // 2. Insert the task and its subtasks together; built-in templates have no row to count usage on
+      const { data, error } = await supabase.rpc('create_task_from_template', {
+        p_template_id: template.isBuiltIn ? null : template.id,
+        p_task: supabaseTask,
+        p_subtasks: filled.subtasks.map(subtask => ({
+          title: subtask.title,
+          description: subtask.description || null,
+          due_date: subtask.dueDate || null
+        }))
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to create task from template');
+
+      // 3. Update local state and caches
+      const newTask = mapSupabaseTaskToLocal(data.task, []);
+      dispatch({ type: 'ADD_TASK', payload: newTask });
+
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(currentWorkspace.id) });
+      if (newTask.pageId) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PAGE_TASKS(newTask.pageId) });
+      }
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TEMPLATES(currentWorkspace.id) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+
+      toast.success(`Task created from "${template.name}"`);
+      return newTask;
+    } catch (error) {
+      console.error('Error creating task from template:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create task from template');
+      return null;
+    }
+  };
+
+  // Bulk insert (e.g. from an .ics file); returns how many tasks were created
+  const importTasks = async (tasks: Array<Omit<Task, 'id' | 'createdAt' | 'order'>>): Promise<number> => {
+    if (!user || !currentWorkspace) {
+      toast.error('No workspace selected');
+      return 0;
+    }
+    if (tasks.length === 0) return 0;
+
+    try {
+      const workflow = getWorkflow(currentWorkspace.settings);
+      const nextOrders = new Map<string, number>();
+
+      const supabaseTasks = tasks.map(taskData => {
+        const workflowStatus = resolveTaskWorkflowStatus(taskData, workflow);
+        const status = categoryToTaskStatus(workflowStatus.category);
+
+        // Append each task below the previous one in its page/status column
+        const column = `${taskData.pageId || ''}:${status}`;
+        const order = nextOrders.get(column) ?? getNextOrder(getColumnTasks(taskData.pageId, status));
+        nextOrders.set(column, order + ORDER_STEP);
+
+        return mapLocalTaskToSupabase({
+          ...taskData,
+          status,
+          workflowStatus: workflowStatus.id,
+          id: '',
+          createdAt: '',
+          order
+        }, currentWorkspace.id, user.id);
+      });
+
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(supabaseTasks)
+        .select();
+
+      if (error) throw error;
+
+      (data || []).forEach(task => dispatch({ type: 'ADD_TASK', payload: mapSupabaseTaskToLocal(task, []) }));
+
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(currentWorkspace.id) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.USER_STATS(user.id) });
+
+      return data?.length || 0;
+    } catch (error) {
+      console.error('Error importing tasks:', error);
+      toast.error('Failed to import tasks');
+      return 0;
+    }
+  };
+
   const addPage = async (pageData: Omit<Page, 'id' | 'createdAt' | 'tasks'>) => {
     if (!user || !currentWorkspace) {
       toast.error('No workspace selected');
@@ -884,21 +1236,87 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const moveTask = async (taskId: string, targetPageId?: string, targetIndex?: number) => {
+  const reorderTask = async (taskId: string, siblings: Task[], targetIndex: number, requestedUpdates: Partial<Task> = {}) => {
     if (!user || !currentWorkspace) {
       toast.error('No workspace selected');
       return;
     }
 
+    // Check the workflow before the optimistic move below
+    const updates = resolveStatusUpdates(taskId, requestedUpdates);
+    if (!updates) return;
+
+    const task = [...state.unassignedTasks, ...state.pages.flatMap(page => page.tasks)].find(t => t.id === taskId);
+    if (!task) {
+      toast.error('Task not found');
+      return;
+    }
+
+    const orderedSiblings = sortTasksByOrder(siblings.filter(t => t.id !== taskId));
+    let order = getOrderAtIndex(orderedSiblings, targetIndex);
+
     try {
-      await updateTask(taskId, { pageId: targetPageId });
-      toast.success('Task moved successfully');
+      if (order === null) {
+        // Neighbouring ranks are exhausted; respace the whole column once,
+        // including tasks the board filters out, so no ranks end up shared
+        const workflow = getWorkflow(currentWorkspace.settings);
+        const columnStatus = updates.workflowStatus || resolveTaskWorkflowStatus(task, workflow).id;
+        const column = sortTasksByOrder(
+          [...state.unassignedTasks, ...state.pages.flatMap(page => page.tasks)].filter(t =>
+            t.id !== taskId && resolveTaskWorkflowStatus(t, workflow).id === columnStatus
+          )
+        );
+        const rebalanced = rebalanceOrders(column);
+        const results = await Promise.all(rebalanced.map(({ id, order: newOrder }) =>
+          supabase
+            .from('tasks')
+            .update({ sort_order: newOrder })
+            .eq('id', id)
+            .eq('workspace_id', currentWorkspace.id)
+        ));
+
+        const failed = results.find(result => result.error);
+        if (failed) throw failed.error;
+
+        rebalanced.forEach(({ id, order: newOrder }) => {
+          dispatch({ type: 'UPDATE_TASK', payload: { taskId: id, updates: { order: newOrder } } });
+        });
+
+        const newOrders = new Map(rebalanced.map(({ id, order: newOrder }) => [id, newOrder]));
+        order = getOrderAtIndex(
+          orderedSiblings.map(sibling => ({ ...sibling, order: newOrders.get(sibling.id) ?? sibling.order })),
+          targetIndex
+        );
+      }
+
+      const targetPageId = updates.pageId !== undefined ? updates.pageId : task.pageId;
+
+      // Place the task locally right away so the board does not snap back
+      dispatch({ type: 'MOVE_TASK', payload: { taskId, targetPageId: targetPageId || undefined, order, updates } });
+
+      await saveTaskUpdates(taskId, { ...updates, pageId: targetPageId || null, order });
     } catch (error) {
-      console.error('Error moving task:', error);
-      toast.error('Failed to move task');
+      console.error('Error reordering task:', error);
+      toast.error('Failed to reorder task');
+      await loadWorkspaceData();
     }
   };
 
+  const moveTask = async (taskId: string, targetPageId?: string, targetIndex?: number, targetStatus?: Task['status']) => {
+    const task = [...state.unassignedTasks, ...state.pages.flatMap(page => page.tasks)].find(t => t.id === taskId);
+    if (!task) {
+      toast.error('Task not found');
+      return;
+    }
+
+    const status = targetStatus || task.status;
+    const siblings = getColumnTasks(targetPageId, status);
+    const updates: Partial<Task> = { pageId: targetPageId || null };
+    if (status !== task.status) updates.status = status;
+
+    await reorderTask(taskId, siblings, targetIndex ?? siblings.length, updates);
+  };
+
   // Migration function to move data from localStorage to Supabase
   const migrateFromLocalStorage = async () => {
     if (!user || !currentWorkspace) {
@@ -1015,10 +1433,15 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       updateTask,
       deleteTask,
       duplicateTask,
+      createTaskFromTemplate,
+      importTasks,
+      dependencies,
+      getTaskBlockers,
       addPage,
       updatePage,
       deletePage,
       moveTask,
+      reorderTask,
       searchTasks,
       loadWorkspaceData,
       migrateFromLocalStorage
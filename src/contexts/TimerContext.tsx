@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useRef, useState, ReactNode } from 'react';
+import { useAuth } from './SupabaseAuthContext';
+import { supabase } from '../lib/supabase';
+import { toast } from 'sonner';
+import { timerService, RunningTimer, IdleResolution } from '../services/timerService';
+import { TimerContext, TimerContextType } from '../hooks/useTimer';
+
+interface IdlePrompt {
+  entryId: string;
+  since: Date;
+}
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'focus'] as const;
+const ACTIVITY_THROTTLE_MS = 5000;
+
+export const TimerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [activeTimer, setActiveTimer] = useState<RunningTimer | null>(null);
+  const [idlePrompt, setIdlePrompt] = useState<IdlePrompt | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const lastActivityRef = useRef(0);
+
+  // Reload the running timer; drops the idle prompt once another tab has dealt with it
+  const refreshTimer = useCallback(async () => {
+    if (!user) {
+      setActiveTimer(null);
+      setIdlePrompt(null);
+      return;
+    }
+
+    try {
+      const timer = await timerService.getRunningTimer(user.id);
+      setActiveTimer(timer);
+      setIdlePrompt(prev =>
+        prev && timer?.entryId === prev.entryId && timerService.getIdleSince(timer) ? prev : null
+      );
+    } catch (error) {
+      console.error('Error loading running timer:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshTimer();
+  }, [refreshTimer]);
+
+  // Other tabs announce their changes; other devices come through realtime
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribeTabs = timerService.onTabsChanged(refreshTimer);
+    const subscription = supabase
+      .channel('running-timer')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_time_entries',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => refreshTimer()
+      )
+      .subscribe();
+
+    return () => {
+      unsubscribeTabs();
+      subscription.unsubscribe();
+    };
+  }, [user, refreshTimer]);
+
+  // The one ticking interval in the app, only while a timer runs
+  useEffect(() => {
+    if (!activeTimer) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeTimer]);
+
+  // Activity is shared through localStorage, so a user working in one tab
+  // isn't idle in another. Coming back after the threshold asks about the
+  // gap instead of counting as activity.
+  useEffect(() => {
+    if (!user) return;
+
+    const handleActivity = () => {
+      if (document.visibilityState === 'hidden') return;
+
+      const at = Date.now();
+      if (at - lastActivityRef.current < ACTIVITY_THROTTLE_MS) return;
+      lastActivityRef.current = at;
+
+      const since = activeTimer ? timerService.getIdleSince(activeTimer, at) : null;
+      if (activeTimer && since) {
+        setIdlePrompt(prev => prev ?? { entryId: activeTimer.entryId, since });
+        return;
+      }
+      timerService.recordActivity(at);
+    };
+
+    handleActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleActivity);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleActivity);
+    };
+  }, [user, activeTimer]);
+
+  const startTimer = async (taskId: string, taskTitle: string) => {
+    if (!user || busy) return;
+
+    try {
+      setBusy(true);
+      const timer = await timerService.startTimer(user.id, taskId, taskTitle);
+      setActiveTimer(timer);
+      setIdlePrompt(null);
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      toast.error('Failed to start timer');
+      await refreshTimer();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const stopTimer = async () => {
+    if (!user || !activeTimer || busy) return;
+
+    try {
+      setBusy(true);
+      await timerService.stopTimer(user.id, activeTimer);
+      setActiveTimer(null);
+      setIdlePrompt(null);
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      toast.error('Failed to stop timer');
+      await refreshTimer();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resolveIdleTime = async (resolution: IdleResolution) => {
+    if (!user || !activeTimer || !idlePrompt || busy) return;
+
+    try {
+      setBusy(true);
+      const timer = await timerService.resolveIdleTime(user.id, activeTimer, idlePrompt.since, resolution);
+      setActiveTimer(timer);
+      setIdlePrompt(null);
+    } catch (error) {
+      console.error('Error resolving idle time:', error);
+      toast.error('Failed to update the timer');
+      await refreshTimer();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const value: TimerContextType = {
+    activeTimer,
+    elapsedSeconds: activeTimer
+      ? Math.max(Math.floor((now - new Date(activeTimer.startTime).getTime()) / 1000), 0)
+      : 0,
+    idleSince: idlePrompt && activeTimer?.entryId === idlePrompt.entryId ? idlePrompt.since : null,
+    busy,
+    startTimer,
+    stopTimer,
+    resolveIdleTime
+  };
+
+  return (
+    <TimerContext.Provider value={value}>
+      {children}
+    </TimerContext.Provider>
+  );
+};
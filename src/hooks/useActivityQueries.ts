@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { activityService } from '../services/activityService';
+
+// Hook to get the latest activity in a workspace
+export const useWorkspaceActivity = (workspaceId: string, limit = 50) => {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.WORKSPACE_ACTIVITY(workspaceId), limit],
+    queryFn: () => activityService.getWorkspaceActivity(workspaceId, limit),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.REALTIME,
+    gcTime: GC_TIMES.SHORT,
+  });
+};
+
+// Hook to get the status changes of a workspace's tasks, for analytics
+export const useStatusHistory = (workspaceId: string, since: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.STATUS_HISTORY(workspaceId, since),
+    queryFn: () => activityService.getStatusChanges(workspaceId, since),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to get a task's history
+export const useTaskActivity = (taskId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.TASK_ACTIVITY(taskId),
+    queryFn: () => activityService.getTaskActivity(taskId),
+    enabled: !!taskId,
+    staleTime: CACHE_TIMES.REALTIME,
+    gcTime: GC_TIMES.SHORT,
+  });
+};
+
+// Hook to get what a user did lately
+export const useUserActivity = (userId: string, limit = 20) => {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.USER_ACTIVITY(userId), limit],
+    queryFn: () => activityService.getUserActivity(userId, limit),
+    enabled: !!userId,
+    staleTime: CACHE_TIMES.REALTIME,
+    gcTime: GC_TIMES.SHORT,
+  });
+};
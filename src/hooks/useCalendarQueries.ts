@@ -0,0 +1,229 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { CalendarEvent } from '../types';
+
+interface SupabaseCalendarEvent {
+  id: string;
+  workspace_id: string;
+  title: string;
+  description: string;
+  event_date: string;
+  start_time: string;
+  end_time: string;
+  event_type: CalendarEvent['type'];
+  priority: CalendarEvent['priority'];
+  status: CalendarEvent['status'];
+  attendee_ids: string[] | null;
+  meeting_link: string | null;
+  location: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+export type CalendarEventInput = Omit<CalendarEvent, 'id' | 'createdBy' | 'createdAt'>;
+
+// TIME columns come back as HH:mm:ss
+const mapSupabaseEventToLocal = (event: SupabaseCalendarEvent): CalendarEvent => ({
+  id: event.id,
+  workspaceId: event.workspace_id,
+  title: event.title,
+  description: event.description,
+  date: event.event_date,
+  startTime: event.start_time.slice(0, 5),
+  endTime: event.end_time.slice(0, 5),
+  type: event.event_type,
+  priority: event.priority,
+  status: event.status,
+  attendeeIds: event.attendee_ids || [],
+  meetingLink: event.meeting_link ?? undefined,
+  location: event.location ?? undefined,
+  createdBy: event.created_by,
+  createdAt: event.created_at
+});
+
+const mapLocalEventToSupabase = (event: CalendarEventInput) => ({
+  workspace_id: event.workspaceId,
+  title: event.title.trim(),
+  description: event.description,
+  event_date: event.date,
+  start_time: event.startTime,
+  end_time: event.endTime,
+  event_type: event.type,
+  priority: event.priority,
+  status: event.status,
+  attendee_ids: event.attendeeIds,
+  meeting_link: event.meetingLink?.trim() || null,
+  location: event.location?.trim() || null
+});
+
+// Fetch every event on the workspace calendar
+const fetchCalendarEvents = async (workspaceId: string): Promise<CalendarEvent[]> => {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('event_date', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapSupabaseEventToLocal);
+};
+
+// Hook to get the workspace calendar events
+export const useCalendarEvents = (workspaceId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.CALENDAR_EVENTS(workspaceId),
+    queryFn: () => fetchCalendarEvents(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.MEDIUM,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to add an event to the workspace calendar
+export const useCreateCalendarEvent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ event, userId }: { event: CalendarEventInput; userId: string }) => {
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .insert({ ...mapLocalEventToSupabase(event), created_by: userId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapSupabaseEventToLocal(data);
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CALENDAR_EVENTS(event.workspaceId) });
+      toast.success('Event created successfully!');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to create event:', error);
+      toast.error('Failed to create event');
+    },
+  });
+};
+
+// Hook to edit an existing event
+export const useUpdateCalendarEvent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ eventId, event }: { eventId: string; event: CalendarEventInput }) => {
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .update(mapLocalEventToSupabase(event))
+        .eq('id', eventId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapSupabaseEventToLocal(data);
+    },
+    onSuccess: (event) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CALENDAR_EVENTS(event.workspaceId) });
+      toast.success('Event updated');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update event:', error);
+      toast.error('Failed to update event');
+    },
+  });
+};
+
+// Hook to add many events at once, e.g. from an .ics file
+export const useImportCalendarEvents = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, events, userId }: { workspaceId: string; events: CalendarEventInput[]; userId: string }) => {
+      const { data, error } = await supabase
+        .from('calendar_events')
+        .insert(events.map(event => ({ ...mapLocalEventToSupabase(event), created_by: userId })))
+        .select();
+
+      if (error) throw error;
+      return { workspaceId, count: data?.length || 0 };
+    },
+    onSuccess: ({ workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CALENDAR_EVENTS(workspaceId) });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to import events:', error);
+      toast.error('Failed to import events');
+    },
+  });
+};
+
+// Hook to remove an event from the calendar
+export const useDeleteCalendarEvent = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, eventId }: { workspaceId: string; eventId: string }) => {
+      const { error } = await supabase
+        .from('calendar_events')
+        .delete()
+        .eq('id', eventId)
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.CALENDAR_EVENTS(workspaceId) });
+      toast.success('Event deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to delete event:', error);
+      toast.error('Failed to delete event');
+    },
+  });
+};
+
+// Subscription URL served by the calendar-feed edge function
+export const getCalendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+const requestFeedToken = async (functionName: string, workspaceId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc(functionName, { p_workspace_id: workspaceId });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to load calendar feed');
+  return data.token;
+};
+
+// Hook to get (and on first use create) the signed-in user's feed token
+export const useCalendarFeedToken = (workspaceId: string, enabled = true) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.CALENDAR_FEED_TOKEN(workspaceId),
+    queryFn: () => requestFeedToken('get_calendar_feed_token', workspaceId),
+    enabled: !!workspaceId && enabled,
+    staleTime: CACHE_TIMES.LONG,
+    gcTime: GC_TIMES.LONG,
+  });
+};
+
+// Hook to replace the feed token, which stops the old URL from working
+export const useRegenerateCalendarFeedToken = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (workspaceId: string) => ({
+      workspaceId,
+      token: await requestFeedToken('regenerate_calendar_feed_token', workspaceId)
+    }),
+    onSuccess: ({ workspaceId, token }) => {
+      queryClient.setQueryData(QUERY_KEYS.CALENDAR_FEED_TOKEN(workspaceId), token);
+      toast.success('New feed URL created; the old one no longer works');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to regenerate feed token:', error);
+      toast.error('Failed to create a new feed URL');
+    },
+  });
+};
@@ -0,0 +1,41 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { TaskDependency } from '../types';
+
+interface SupabaseTaskDependency {
+  id: string;
+  task_id: string;
+  depends_on_task_id: string;
+  dependency_type: TaskDependency['type'];
+  created_at: string;
+}
+
+export const mapSupabaseDependencyToLocal = (dependency: SupabaseTaskDependency): TaskDependency => ({
+  id: dependency.id,
+  dependentTaskId: dependency.task_id,
+  dependsOnTaskId: dependency.depends_on_task_id,
+  type: dependency.dependency_type || 'finish_to_start',
+  createdAt: dependency.created_at
+});
+
+// Fetch every dependency between tasks of the workspace
+const fetchWorkspaceDependencies = async (workspaceId: string): Promise<TaskDependency[]> => {
+  const { data, error } = await supabase.rpc('get_workspace_task_dependencies', {
+    p_workspace_id: workspaceId
+  });
+
+  if (error) throw error;
+  return ((data || []) as SupabaseTaskDependency[]).map(mapSupabaseDependencyToLocal);
+};
+
+// Hook to get the workspace dependency graph
+export const useWorkspaceDependencies = (workspaceId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.WORKSPACE_DEPENDENCIES(workspaceId),
+    queryFn: () => fetchWorkspaceDependencies(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.MEDIUM,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
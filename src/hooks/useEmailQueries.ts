@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { emailService } from '../services/emailService';
+import { EmailDelivery } from '../types';
+
+interface SupabaseEmailDelivery {
+  id: string;
+  to_email: string;
+  subject: string;
+  email_type: string;
+  provider: string;
+  status: EmailDelivery['status'];
+  provider_message_id: string | null;
+  retry_count: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+const DELIVERY_LOG_LIMIT = 50;
+
+const mapSupabaseDeliveryToLocal = (delivery: SupabaseEmailDelivery): EmailDelivery => ({
+  id: delivery.id,
+  to: delivery.to_email,
+  subject: delivery.subject,
+  type: delivery.email_type,
+  provider: delivery.provider,
+  status: delivery.status,
+  providerMessageId: delivery.provider_message_id ?? undefined,
+  retryCount: delivery.retry_count,
+  lastError: delivery.last_error ?? undefined,
+  sentAt: delivery.sent_at ?? undefined,
+  createdAt: delivery.created_at
+});
+
+// Fetch the most recent emails the user triggered
+const fetchEmailDeliveries = async (userId: string): Promise<EmailDelivery[]> => {
+  const { data, error } = await supabase
+    .from('email_deliveries')
+    .select('id, to_email, subject, email_type, provider, status, provider_message_id, retry_count, last_error, sent_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+
+  if (error) throw error;
+  return (data || []).map(mapSupabaseDeliveryToLocal);
+};
+
+// Hook to get the user's email delivery log
+export const useEmailDeliveries = (userId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.EMAIL_DELIVERIES(userId),
+    queryFn: () => fetchEmailDeliveries(userId),
+    enabled: !!userId,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.SHORT,
+  });
+};
+
+// Hook to send a test email to the signed-in user
+export const useSendTestEmail = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ to }: { userId: string; to: string }) => {
+      const result = await emailService.sendTestEmail(to);
+      if (!result.success) throw new Error(result.error || 'Email could not be sent');
+      return result;
+    },
+    onSuccess: (result, { userId, to }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.EMAIL_DELIVERIES(userId) });
+      toast.success(`Test email sent to ${to} via ${result.provider}`);
+    },
+    onError: (error: Error, { userId }) => {
+      // A failed send is still logged, so refresh the log either way
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.EMAIL_DELIVERIES(userId) });
+      console.error('Failed to send test email:', error);
+      toast.error(`Test email failed: ${error.message}`);
+    },
+  });
+};
+
+// Hook to retry a failed delivery
+export const useRetryEmailDelivery = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ deliveryId }: { userId: string; deliveryId: string }) => {
+      const result = await emailService.retryDelivery(deliveryId);
+      if (!result.success) throw new Error(result.error || 'Email could not be sent');
+      return result;
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.EMAIL_DELIVERIES(userId) });
+      toast.success('Email delivered');
+    },
+    onError: (error: Error, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.EMAIL_DELIVERIES(userId) });
+      console.error('Failed to retry email delivery:', error);
+      toast.error(`Retry failed: ${error.message}`);
+    },
+  });
+};
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { NotificationPreferences } from '../types';
+import { resolveNotificationPreferences } from '../utils/notificationPreferences';
+
+// Fetch the user's preferences for a workspace, with defaults filled in
+const fetchNotificationPreferences = async (userId: string, workspaceId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('user_notification_preferences')
+    .select('preferences')
+    .eq('user_id', userId)
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return resolveNotificationPreferences(data?.preferences);
+};
+
+// Hook to get the user's notification preferences for a workspace
+export const useNotificationPreferences = (userId: string, workspaceId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.NOTIFICATION_PREFERENCES(userId, workspaceId),
+    queryFn: () => fetchNotificationPreferences(userId, workspaceId),
+    enabled: !!userId && !!workspaceId,
+    staleTime: CACHE_TIMES.LONG,
+    gcTime: GC_TIMES.LONG,
+  });
+};
+
+// Hook to save the user's notification preferences for a workspace
+export const useSaveNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ userId, workspaceId, preferences }: {
+      userId: string;
+      workspaceId: string;
+      preferences: NotificationPreferences;
+    }) => {
+      const { error } = await supabase
+        .from('user_notification_preferences')
+        .upsert({
+          user_id: userId,
+          workspace_id: workspaceId,
+          preferences
+        }, {
+          onConflict: 'user_id,workspace_id'
+        });
+
+      if (error) throw error;
+      return { userId, workspaceId, preferences };
+    },
+    onSuccess: ({ userId, workspaceId, preferences }) => {
+      queryClient.setQueryData(QUERY_KEYS.NOTIFICATION_PREFERENCES(userId, workspaceId), preferences);
+      toast.success('Notification preferences saved');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to save notification preferences:', error);
+      toast.error('Failed to save notification preferences');
+    },
+  });
+};
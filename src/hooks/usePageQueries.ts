@@ -68,7 +68,7 @@ const fetchPageTasks = async (pageId: string): Promise<Task[]> => {
       )
     `)
     .eq('page_id', pageId)
-    .order('order', { ascending: true });
+    .order('sort_order', { ascending: true });
 
   if (error) throw error;
   return data || [];
@@ -259,7 +259,7 @@ export const useDuplicatePage = () => {
           page_id: newPage.id,
           workspace_id: task.workspace_id,
           created_by: user!.id,
-          order: task.order,
+          sort_order: (task as { sort_order?: number }).sort_order,
         }));
 
         const { error: tasksError } = await supabase
@@ -7,6 +7,8 @@ import { QUERY_KEYS, invalidateQueries } from '../lib/queryClient';
 import { useCacheService } from './useCacheService';
 import { QueryClient } from '@tanstack/react-query';
 import { CacheService } from '../services/cacheService';
+import { parseISO } from 'date-fns';
+import { getWeekStart } from '../utils/timesheets';
 
 interface RealtimeSubscriptionOptions {
   table: string;
@@ -166,7 +168,7 @@ const handleCacheInvalidation = (
       }
       break;
 
-    case 'task_time_entries':
+    case 'task_time_entries': {
       if (newRecord?.task_id) {
         // Invalidate task time entries
         queryClient.invalidateQueries({
@@ -180,6 +182,62 @@ const handleCacheInvalidation = (
           });
         }
       }
+
+      // Invalidate the timesheet weeks the entry moved out of and into,
+      // and the idle time waiting to be assigned
+      [oldRecord, newRecord].forEach(record => {
+        if (record?.workspace_id && record.work_date) {
+          queryClient.invalidateQueries({
+            queryKey: QUERY_KEYS.WORKSPACE_TIME_ENTRIES(record.workspace_id, getWeekStart(parseISO(record.work_date)))
+          });
+        }
+        if (record?.workspace_id && record.user_id) {
+          queryClient.invalidateQueries({
+            queryKey: QUERY_KEYS.IDLE_TIME_ENTRIES(record.workspace_id, record.user_id)
+          });
+        }
+      });
+      break;
+    }
+
+    case 'timesheet_weeks': {
+      const week = newRecord?.workspace_id ? newRecord : oldRecord;
+      if (week?.workspace_id && week.week_start) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.TIMESHEET_WEEKS(week.workspace_id, week.week_start)
+        });
+      }
+      break;
+    }
+
+    case 'calendar_events': {
+      // DELETE payloads only carry the old row
+      const workspaceId = newRecord?.workspace_id || oldRecord?.workspace_id;
+      if (workspaceId) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.CALENDAR_EVENTS(workspaceId)
+        });
+      }
+      break;
+    }
+
+    case 'user_activities':
+      // Activity is only ever added
+      if (newRecord?.workspace_id) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.WORKSPACE_ACTIVITY(newRecord.workspace_id)
+        });
+      }
+      if (newRecord?.resource_type === 'task' && newRecord.resource_id) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.TASK_ACTIVITY(newRecord.resource_id)
+        });
+      }
+      if (newRecord?.user_id) {
+        queryClient.invalidateQueries({
+          queryKey: QUERY_KEYS.USER_ACTIVITY(newRecord.user_id)
+        });
+      }
       break;
 
     case 'users':
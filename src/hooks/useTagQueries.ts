@@ -0,0 +1,165 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { WorkspaceTag } from '../types';
+
+interface SupabaseWorkspaceTag {
+  id: string;
+  workspace_id: string;
+  name: string;
+  color: string;
+  usage_count: number;
+  created_at: string;
+}
+
+const mapSupabaseTagToLocal = (tag: SupabaseWorkspaceTag): WorkspaceTag => ({
+  id: tag.id,
+  workspaceId: tag.workspace_id,
+  name: tag.name,
+  color: tag.color,
+  usageCount: tag.usage_count,
+  createdAt: tag.created_at
+});
+
+// Fetch the workspace tag catalog, most used first
+const fetchWorkspaceTags = async (workspaceId: string): Promise<WorkspaceTag[]> => {
+  const { data, error } = await supabase
+    .from('workspace_tags')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('usage_count', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapSupabaseTagToLocal);
+};
+
+// Tag rename/merge functions report failures in their JSON result
+const throwOnRpcFailure = (result: { success?: boolean; error?: string } | null) => {
+  if (result && result.success === false) {
+    throw new Error(result.error || 'Tag operation failed');
+  }
+};
+
+// Renaming or merging rewrites tasks.tags, so task caches go stale too
+const invalidateTagQueries = (queryClient: ReturnType<typeof useQueryClient>, workspaceId: string) => {
+  queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TAGS(workspaceId) });
+  queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TASKS(workspaceId) });
+};
+
+// Hook to get the workspace tag catalog
+export const useWorkspaceTags = (workspaceId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.WORKSPACE_TAGS(workspaceId),
+    queryFn: () => fetchWorkspaceTags(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.MEDIUM,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to change a tag's color
+export const useUpdateTagColor = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, tagId, color }: { workspaceId: string; tagId: string; color: string }) => {
+      const { error } = await supabase
+        .from('workspace_tags')
+        .update({ color, updated_at: new Date().toISOString() })
+        .eq('id', tagId)
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TAGS(workspaceId) });
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update tag color:', error);
+      toast.error('Failed to update tag color');
+    },
+  });
+};
+
+// Hook to rename a tag on every task that uses it
+export const useRenameTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, oldName, newName }: { workspaceId: string; oldName: string; newName: string }) => {
+      const { data, error } = await supabase.rpc('rename_workspace_tag', {
+        p_workspace_id: workspaceId,
+        p_old_name: oldName,
+        p_new_name: newName.trim()
+      });
+
+      if (error) throw error;
+      throwOnRpcFailure(data);
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      invalidateTagQueries(queryClient, workspaceId);
+      toast.success('Tag renamed successfully');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to rename tag:', error);
+      toast.error('Failed to rename tag');
+    },
+  });
+};
+
+// Hook to merge several tags into one
+export const useMergeTags = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, sourceNames, targetName }: { workspaceId: string; sourceNames: string[]; targetName: string }) => {
+      const { data, error } = await supabase.rpc('merge_workspace_tags', {
+        p_workspace_id: workspaceId,
+        p_source_names: sourceNames,
+        p_target_name: targetName.trim()
+      });
+
+      if (error) throw error;
+      throwOnRpcFailure(data);
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      invalidateTagQueries(queryClient, workspaceId);
+      toast.success('Tags merged successfully');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to merge tags:', error);
+      toast.error('Failed to merge tags');
+    },
+  });
+};
+
+// Hook to remove an unused tag from the catalog
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, tagId }: { workspaceId: string; tagId: string }) => {
+      const { error } = await supabase
+        .from('workspace_tags')
+        .delete()
+        .eq('id', tagId)
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TAGS(workspaceId) });
+      toast.success('Tag deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to delete tag:', error);
+      toast.error('Failed to delete tag');
+    },
+  });
+};
@@ -3,7 +3,7 @@ import { supabase } from '../lib/supabase';
 import { QUERY_KEYS, CACHE_TIMES, GC_TIMES, invalidateQueries } from '../lib/queryClient';
 import { useAuth } from '../contexts/SupabaseAuthContext';
 import { toast } from '../components/ui/sonner';
-import { Task, SubTask, TaskDependency, TaskComment } from '../types';
+import { Task, SubTask, TaskDependency, TaskComment, CommentRevision } from '../types';
 
 // Extended task type with relations
 interface TaskWithRelations extends Task {
@@ -86,14 +86,33 @@ const fetchTaskComments = async (taskId: string): Promise<TaskComment[]> => {
     content: item.content,
     authorId: item.user_id,
     authorName: 'Unknown',
-    mentions: [],
+    mentions: item.mentions || [],
     attachments: [],
     createdAt: item.created_at,
-    isEdited: false,
+    isEdited: item.is_edited ?? false,
     reactions: []
   }));
 };
 
+// Fetch earlier versions of a comment, newest first
+const fetchCommentRevisions = async (commentId: string): Promise<CommentRevision[]> => {
+  const { data, error } = await supabase
+    .from('task_comment_revisions')
+    .select('*')
+    .eq('comment_id', commentId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(item => ({
+    id: item.id,
+    commentId: item.comment_id,
+    content: item.content,
+    editedBy: item.edited_by || undefined,
+    createdAt: item.created_at
+  }));
+};
+
 // Fetch task subtasks
 const fetchTaskSubtasks = async (taskId: string): Promise<SubTask[]> => {
   const { data, error } = await supabase
@@ -147,6 +166,7 @@ const fetchTaskTimeEntries = async (taskId: string): Promise<TaskTimeEntry[]> =>
     .from('task_time_entries')
     .select('*')
     .eq('task_id', taskId)
+    .eq('is_idle', false)
     .order('start_time', { ascending: false });
 
   if (error) throw error;
@@ -186,6 +206,17 @@ export const useTaskComments = (taskId: string) => {
   });
 };
 
+// Hook to get a comment's revision history; load it only when it is shown
+export const useCommentRevisions = (commentId: string, enabled = true) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.COMMENT_REVISIONS(commentId),
+    queryFn: () => fetchCommentRevisions(commentId),
+    enabled: !!commentId && enabled,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.SHORT,
+  });
+};
+
 // Hook to get task subtasks
 export const useTaskSubtasks = (taskId: string) => {
   return useQuery({
@@ -0,0 +1,134 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { TaskTemplate } from '../types';
+
+interface SupabaseTaskTemplate {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description: string;
+  category: string;
+  priority: TaskTemplate['priority'];
+  estimated_hours: number | null;
+  due_offset: string | null;
+  tags: string[] | null;
+  subtasks: TaskTemplate['subtasks'] | null;
+  custom_fields: Record<string, unknown> | null;
+  is_public: boolean;
+  usage_count: number;
+  created_by: string;
+  created_at: string;
+}
+
+export type NewTaskTemplate = Omit<TaskTemplate, 'id' | 'createdBy' | 'createdAt' | 'usageCount' | 'isBuiltIn'> & {
+  workspaceId: string;
+};
+
+const mapSupabaseTemplateToLocal = (template: SupabaseTaskTemplate): TaskTemplate => ({
+  id: template.id,
+  workspaceId: template.workspace_id,
+  name: template.name,
+  description: template.description,
+  category: template.category,
+  priority: template.priority,
+  estimatedHours: template.estimated_hours ?? undefined,
+  dueOffset: template.due_offset ?? undefined,
+  tags: template.tags || [],
+  subtasks: template.subtasks || [],
+  customFields: template.custom_fields || {},
+  isPublic: template.is_public,
+  usageCount: template.usage_count,
+  createdBy: template.created_by,
+  createdAt: template.created_at
+});
+
+// Fetch the templates this user can see (RLS hides other people's private ones)
+const fetchTaskTemplates = async (workspaceId: string): Promise<TaskTemplate[]> => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('usage_count', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapSupabaseTemplateToLocal);
+};
+
+// Hook to get the workspace's saved templates
+export const useTaskTemplates = (workspaceId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.TASK_TEMPLATES(workspaceId),
+    queryFn: () => fetchTaskTemplates(workspaceId),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.MEDIUM,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to save a new template to the workspace
+export const useCreateTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ template, userId }: { template: NewTaskTemplate; userId: string }) => {
+      const { data, error } = await supabase
+        .from('task_templates')
+        .insert({
+          workspace_id: template.workspaceId,
+          name: template.name.trim(),
+          description: template.description,
+          category: template.category,
+          priority: template.priority,
+          estimated_hours: template.estimatedHours ?? null,
+          due_offset: template.dueOffset?.trim() || null,
+          tags: template.tags,
+          subtasks: template.subtasks.filter(subtask => subtask.title.trim()),
+          custom_fields: template.customFields || {},
+          is_public: template.isPublic,
+          created_by: userId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return mapSupabaseTemplateToLocal(data);
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TEMPLATES(template.workspaceId!) });
+      toast.success(`Template "${template.name}" created`);
+    },
+    onError: (error: Error) => {
+      console.error('Failed to create template:', error);
+      toast.error('Failed to create template');
+    },
+  });
+};
+
+// Hook to delete one of the user's own templates
+export const useDeleteTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, templateId }: { workspaceId: string; templateId: string }) => {
+      const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', templateId)
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TEMPLATES(workspaceId) });
+      toast.success('Template deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to delete template:', error);
+      toast.error('Failed to delete template');
+    },
+  });
+};
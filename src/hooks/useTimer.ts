@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import { RunningTimer, IdleResolution } from '../services/timerService';
+
+export interface TimerContextType {
+  activeTimer: RunningTimer | null;
+  elapsedSeconds: number;
+  idleSince: Date | null; // Set while the user is asked what to do with idle time
+  busy: boolean;
+  startTimer: (taskId: string, taskTitle: string) => Promise<void>;
+  stopTimer: () => Promise<void>;
+  resolveIdleTime: (resolution: IdleResolution) => Promise<void>;
+}
+
+// Provided by TimerProvider (contexts/TimerContext), kept apart so that file only exports components
+export const TimerContext = createContext<TimerContextType | undefined>(undefined);
+
+export const useTimer = (): TimerContextType => {
+  const context = useContext(TimerContext);
+  if (context === undefined) {
+    throw new Error('useTimer must be used within a TimerProvider');
+  }
+  return context;
+};
@@ -0,0 +1,354 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { addDays, addMinutes, format, parseISO } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { QUERY_KEYS, CACHE_TIMES, GC_TIMES } from '../lib/queryClient';
+import { toast } from '../components/ui/sonner';
+import { TimeEntry, TimesheetRate, TimesheetWeek } from '../types/workspace';
+import { getWeekStart } from '../utils/timesheets';
+
+interface SupabaseTimeEntry {
+  id: string;
+  task_id: string;
+  workspace_id: string;
+  user_id: string;
+  work_date: string;
+  start_time: string;
+  end_time: string | null;
+  duration_minutes: number | null;
+  description: string | null;
+  billable: boolean | null;
+}
+
+interface SupabaseTimesheetRate {
+  id: string;
+  workspace_id: string;
+  user_id: string | null;
+  page_id: string | null;
+  hourly_rate: number | string; // NUMERIC comes back as a string
+}
+
+interface SupabaseTimesheetWeek {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  week_start: string;
+  status: TimesheetWeek['status'];
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+}
+
+// Manually entered time has no clock times; it's booked from this time of day
+const MANUAL_ENTRY_START = '09:00';
+
+export interface TimeEntryInput {
+  id?: string; // Set when editing
+  workspaceId: string;
+  taskId: string;
+  userId: string;
+  date: string;
+  minutes: number;
+  description?: string;
+  billable: boolean;
+}
+
+const mapSupabaseTimeEntryToLocal = (entry: SupabaseTimeEntry): TimeEntry => ({
+  id: entry.id,
+  taskId: entry.task_id,
+  workspaceId: entry.workspace_id,
+  userId: entry.user_id,
+  date: entry.work_date,
+  startTime: entry.start_time,
+  endTime: entry.end_time ?? undefined,
+  duration: entry.duration_minutes ?? undefined,
+  description: entry.description ?? undefined,
+  billable: !!entry.billable
+});
+
+const mapSupabaseRateToLocal = (rate: SupabaseTimesheetRate): TimesheetRate => ({
+  id: rate.id,
+  workspaceId: rate.workspace_id,
+  userId: rate.user_id ?? undefined,
+  pageId: rate.page_id ?? undefined,
+  hourlyRate: Number(rate.hourly_rate)
+});
+
+const mapSupabaseWeekToLocal = (week: SupabaseTimesheetWeek): TimesheetWeek => ({
+  id: week.id,
+  workspaceId: week.workspace_id,
+  userId: week.user_id,
+  weekStart: week.week_start,
+  status: week.status,
+  reviewedBy: week.reviewed_by ?? undefined,
+  reviewedAt: week.reviewed_at ?? undefined
+});
+
+/**
+ * Start and end for an entry of `minutes` on `date`. An entry that stays on
+ * its day keeps its start time (e.g. from the timer); otherwise it starts
+ * at MANUAL_ENTRY_START.
+ */
+const getEntryTimes = (date: string, minutes: number, existing?: TimeEntry) => {
+  const start = existing && existing.date === date
+    ? parseISO(existing.startTime)
+    : parseISO(`${date}T${MANUAL_ENTRY_START}`);
+
+  return {
+    start_time: start.toISOString(),
+    end_time: addMinutes(start, minutes).toISOString()
+  };
+};
+
+// Fetch every member's time in the workspace for one week
+const fetchWorkspaceTimeEntries = async (workspaceId: string, weekStart: string): Promise<TimeEntry[]> => {
+  const { data, error } = await supabase
+    .from('task_time_entries')
+    .select('id, task_id, workspace_id, user_id, work_date, start_time, end_time, duration_minutes, description, billable')
+    .eq('workspace_id', workspaceId)
+    .eq('is_idle', false)
+    .gte('work_date', weekStart)
+    .lte('work_date', format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd'))
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(mapSupabaseTimeEntryToLocal);
+};
+
+// Hook to get a week of time entries for the timesheet
+export const useWorkspaceTimeEntries = (workspaceId: string, weekStart: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.WORKSPACE_TIME_ENTRIES(workspaceId, weekStart),
+    queryFn: () => fetchWorkspaceTimeEntries(workspaceId, weekStart),
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to get the user's idle time set aside by the timer, not yet on the timesheet
+export const useIdleTimeEntries = (workspaceId: string, userId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.IDLE_TIME_ENTRIES(workspaceId, userId),
+    queryFn: async (): Promise<TimeEntry[]> => {
+      const { data, error } = await supabase
+        .from('task_time_entries')
+        .select('id, task_id, workspace_id, user_id, work_date, start_time, end_time, duration_minutes, description, billable')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .eq('is_idle', true)
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(mapSupabaseTimeEntryToLocal);
+    },
+    enabled: !!workspaceId && !!userId,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to get which members' weeks are locked or approved
+export const useTimesheetWeeks = (workspaceId: string, weekStart: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.TIMESHEET_WEEKS(workspaceId, weekStart),
+    queryFn: async (): Promise<TimesheetWeek[]> => {
+      const { data, error } = await supabase
+        .from('timesheet_weeks')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('week_start', weekStart);
+
+      if (error) throw error;
+      return (data || []).map(mapSupabaseWeekToLocal);
+    },
+    enabled: !!workspaceId,
+    staleTime: CACHE_TIMES.SHORT,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+// Hook to get the workspace's hourly rates; only admins can read them
+export const useTimesheetRates = (workspaceId: string, enabled = true) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.TIMESHEET_RATES(workspaceId),
+    queryFn: async (): Promise<TimesheetRate[]> => {
+      const { data, error } = await supabase
+        .from('timesheet_rates')
+        .select('*')
+        .eq('workspace_id', workspaceId);
+
+      if (error) throw error;
+      return (data || []).map(mapSupabaseRateToLocal);
+    },
+    enabled: !!workspaceId && enabled,
+    staleTime: CACHE_TIMES.MEDIUM,
+    gcTime: GC_TIMES.MEDIUM,
+  });
+};
+
+const invalidateEntryWeeks = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  workspaceId: string,
+  dates: string[]
+) => {
+  new Set(dates.map(date => getWeekStart(parseISO(date)))).forEach(weekStart => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WORKSPACE_TIME_ENTRIES(workspaceId, weekStart) });
+  });
+};
+
+// Hook to add time by hand or edit an entry; locked weeks are rejected by the database
+export const useSaveTimeEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entry, existing }: { entry: TimeEntryInput; existing?: TimeEntry }) => {
+      const row = {
+        task_id: entry.taskId,
+        workspace_id: entry.workspaceId,
+        user_id: entry.userId,
+        work_date: entry.date,
+        ...getEntryTimes(entry.date, entry.minutes, existing),
+        duration_minutes: entry.minutes,
+        description: entry.description?.trim() || null,
+        billable: entry.billable
+      };
+
+      const query = entry.id
+        ? supabase.from('task_time_entries').update(row).eq('id', entry.id)
+        : supabase.from('task_time_entries').insert(row);
+      const { data, error } = await query.select().single();
+
+      if (error) throw error;
+      return { entry: mapSupabaseTimeEntryToLocal(data), previousDate: existing?.date };
+    },
+    onSuccess: ({ entry, previousDate }) => {
+      invalidateEntryWeeks(queryClient, entry.workspaceId, previousDate ? [entry.date, previousDate] : [entry.date]);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TIME_ENTRIES(entry.taskId) });
+      toast.success('Time saved');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to save time entry:', error);
+      toast.error(error.message || 'Failed to save time');
+    },
+  });
+};
+
+// Hook to put idle time on the timesheet, against the task it was tracked on or another
+export const useAssignIdleTime = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ entry, taskId }: { entry: TimeEntry; taskId: string }) => {
+      const { error } = await supabase
+        .from('task_time_entries')
+        .update({ task_id: taskId, is_idle: false })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      return { entry, taskId };
+    },
+    onSuccess: ({ entry, taskId }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.IDLE_TIME_ENTRIES(entry.workspaceId, entry.userId) });
+      invalidateEntryWeeks(queryClient, entry.workspaceId, [entry.date]);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TIME_ENTRIES(taskId) });
+      toast.success('Idle time added to the timesheet');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to assign idle time:', error);
+      toast.error(error.message || 'Failed to assign idle time');
+    },
+  });
+};
+
+// Hook to remove a time entry
+export const useDeleteTimeEntry = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (entry: TimeEntry) => {
+      const { error } = await supabase
+        .from('task_time_entries')
+        .delete()
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      return entry;
+    },
+    onSuccess: (entry) => {
+      invalidateEntryWeeks(queryClient, entry.workspaceId, [entry.date]);
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.IDLE_TIME_ENTRIES(entry.workspaceId, entry.userId) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TASK_TIME_ENTRIES(entry.taskId) });
+      toast.success('Time entry deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to delete time entry:', error);
+      toast.error(error.message || 'Failed to delete time entry');
+    },
+  });
+};
+
+const callTimesheetRpc = async (functionName: string, params: Record<string, unknown>) => {
+  const { data, error } = await supabase.rpc(functionName, params);
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Request failed');
+};
+
+// Hook for admins to lock, approve or (status null) reopen members' weeks
+export const useSetTimesheetWeekStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, userIds, weekStart, status }: {
+      workspaceId: string;
+      userIds: string[];
+      weekStart: string;
+      status: TimesheetWeek['status'] | null;
+    }) => {
+      await callTimesheetRpc('set_timesheet_week_status', {
+        p_workspace_id: workspaceId,
+        p_user_ids: userIds,
+        p_week_start: weekStart,
+        p_status: status
+      });
+      return { workspaceId, weekStart, status };
+    },
+    onSuccess: ({ workspaceId, weekStart, status }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TIMESHEET_WEEKS(workspaceId, weekStart) });
+      toast.success(status === 'approved' ? 'Timesheet approved' : status === 'locked' ? 'Week locked' : 'Week reopened');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to update timesheet week:', error);
+      toast.error(error.message || 'Failed to update timesheet');
+    },
+  });
+};
+
+// Hook for admins to set or clear (hourlyRate null) a member's or page's rate
+export const useSetTimesheetRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, userId, pageId, hourlyRate }: {
+      workspaceId: string;
+      userId?: string;
+      pageId?: string;
+      hourlyRate: number | null;
+    }) => {
+      await callTimesheetRpc('set_timesheet_rate', {
+        p_workspace_id: workspaceId,
+        p_user_id: userId ?? null,
+        p_page_id: pageId ?? null,
+        p_hourly_rate: hourlyRate
+      });
+      return workspaceId;
+    },
+    onSuccess: (workspaceId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.TIMESHEET_RATES(workspaceId) });
+      toast.success('Rate saved');
+    },
+    onError: (error: Error) => {
+      console.error('Failed to save rate:', error);
+      toast.error(error.message || 'Failed to save rate');
+    },
+  });
+};
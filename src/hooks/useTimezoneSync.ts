@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { supabase } from '../lib/supabase';
+import { getUserTimezone } from '../utils/timezone';
+
+// Keeps user_settings.timezone in step with the browser, so reminders and the
+// weekly digest sent from the server (supabase/functions) use the user's local time.
+// Only an existing row is updated: inserting one would switch on every
+// column default, the weekly digest included.
+export const useTimezoneSync = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const { timezone } = getUserTimezone();
+
+    supabase
+      .from('user_settings')
+      .update({ timezone })
+      .eq('user_id', userId)
+      .then(({ error }) => {
+        if (error) console.error('Error saving timezone:', error);
+      });
+  }, [userId]);
+};
@@ -62,16 +62,6 @@ interface UserStats {
   pagesCount: number;
 }
 
-interface UserActivity {
-  id: string;
-  user_id: string;
-  action: string;
-  entity_type: string;
-  entity_id: string;
-  metadata?: any;
-  created_at: string;
-}
-
 // Fetch user profile
 const fetchUserProfile = async (userId: string): Promise<UserProfile | null> => {
   const { data, error } = await supabase
@@ -183,19 +173,6 @@ const fetchUserStats = async (userId: string): Promise<UserStats> => {
   };
 };
 
-// Fetch user activity
-const fetchUserActivity = async (userId: string, limit = 20): Promise<UserActivity[]> => {
-  const { data, error } = await supabase
-    .from('user_activity')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(limit);
-
-  if (error) throw error;
-  return data || [];
-};
-
 // Hook to get user profile
 export const useUserProfile = (userId?: string) => {
   const { user } = useAuth();
@@ -0,0 +1,14 @@
+import { useMemo } from 'react';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import { getWorkflow, getOrderedStatuses } from '../utils/workflow';
+
+// Workflow of the current workspace, with its statuses in board order
+export const useWorkflow = () => {
+  const { currentWorkspace } = useSupabaseWorkspace();
+  const settings = currentWorkspace?.settings;
+
+  return useMemo(() => {
+    const workflow = getWorkflow(settings);
+    return { workflow, statuses: getOrderedStatuses(workflow) };
+  }, [settings]);
+};
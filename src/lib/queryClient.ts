@@ -41,8 +41,20 @@ export const QUERY_KEYS = {
   TASK: (taskId: string) => ['task', taskId] as const,
   TASK_COMMENTS: (taskId: string) => ['task', taskId, 'comments'] as const,
   TASK_SUBTASKS: (taskId: string) => ['task', taskId, 'subtasks'] as const,
+  COMMENT_REVISIONS: (commentId: string) => ['comment', commentId, 'revisions'] as const,
   TASK_DEPENDENCIES: (taskId: string) => ['task', taskId, 'dependencies'] as const,
+  WORKSPACE_DEPENDENCIES: (workspaceId: string) => ['dependencies', 'workspace', workspaceId] as const,
   TASK_TIME_ENTRIES: (taskId: string) => ['task', taskId, 'time-entries'] as const,
+  WORKSPACE_TIME_ENTRIES: (workspaceId: string, weekStart: string) => ['time-entries', 'workspace', workspaceId, weekStart] as const,
+  IDLE_TIME_ENTRIES: (workspaceId: string, userId: string) => ['time-entries', 'idle', workspaceId, userId] as const,
+  TIMESHEET_WEEKS: (workspaceId: string, weekStart: string) => ['timesheet-weeks', 'workspace', workspaceId, weekStart] as const,
+  TIMESHEET_RATES: (workspaceId: string) => ['timesheet-rates', 'workspace', workspaceId] as const,
+  WORKSPACE_TAGS: (workspaceId: string) => ['tags', 'workspace', workspaceId] as const,
+  TASK_TEMPLATES: (workspaceId: string) => ['templates', 'workspace', workspaceId] as const,
+  CALENDAR_EVENTS: (workspaceId: string) => ['calendar-events', 'workspace', workspaceId] as const,
+  CALENDAR_FEED_TOKEN: (workspaceId: string) => ['calendar-feed-token', 'workspace', workspaceId] as const,
+  EMAIL_DELIVERIES: (userId: string) => ['email-deliveries', userId] as const,
+  NOTIFICATION_PREFERENCES: (userId: string, workspaceId: string) => ['notification-preferences', userId, 'workspace', workspaceId] as const,
   
   // Page-related queries
   PAGES: ['pages'] as const,
@@ -58,6 +70,13 @@ export const QUERY_KEYS = {
   // Notifications
   NOTIFICATIONS: ['notifications'] as const,
   USER_NOTIFICATIONS: (userId: string) => ['notifications', 'user', userId] as const,
+
+  // Activity log
+  ACTIVITY: ['activity'] as const,
+  WORKSPACE_ACTIVITY: (workspaceId: string) => ['activity', 'workspace', workspaceId] as const,
+  TASK_ACTIVITY: (taskId: string) => ['activity', 'task', taskId] as const,
+  STATUS_HISTORY: (workspaceId: string, since: string) => ['activity', 'workspace', workspaceId, 'status', since] as const,
+  USER_ACTIVITY: (userId: string) => ['activity', 'user', userId] as const,
   
   // Search
   SEARCH: ['search'] as const,
@@ -133,6 +133,16 @@ export interface Database {
           created_by: string;
           due_date: string | null;
           completed_at: string | null;
+          sort_order: number | null;
+          workflow_status: string | null;
+          tags: string[];
+          link: string | null;
+          attached_image: string | null;
+          estimated_hours: number | null;
+          actual_hours: number;
+          start_date: string | null;
+          progress: number | null;
+          custom_fields: Record<string, unknown>;
           created_at: string;
           updated_at: string;
         };
@@ -148,6 +158,15 @@ export interface Database {
           created_by: string;
           due_date?: string | null;
           completed_at?: string | null;
+          sort_order?: number | null;
+          workflow_status?: string | null;
+          tags?: string[];
+          link?: string | null;
+          attached_image?: string | null;
+          estimated_hours?: number | null;
+          start_date?: string | null;
+          progress?: number | null;
+          custom_fields?: Record<string, unknown>;
           created_at?: string;
           updated_at?: string;
         };
@@ -163,6 +182,15 @@ export interface Database {
           created_by?: string;
           due_date?: string | null;
           completed_at?: string | null;
+          sort_order?: number | null;
+          workflow_status?: string | null;
+          tags?: string[];
+          link?: string | null;
+          attached_image?: string | null;
+          estimated_hours?: number | null;
+          start_date?: string | null;
+          progress?: number | null;
+          custom_fields?: Record<string, unknown>;
           created_at?: string;
           updated_at?: string;
         };
@@ -1,10 +1,38 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
+import { format, isThisMonth, startOfDay, subDays } from 'date-fns';
+import { DateRange } from 'react-day-picker';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useTask } from '../contexts/TaskContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import ModernLayout from '../components/ModernLayout';
+import EstimateAccuracyReport from '../components/EstimateAccuracyReport';
+import ActivityFeed from '../components/ActivityFeed';
+import BurnChart from '../components/BurnChart';
+import CumulativeFlowChart from '../components/CumulativeFlowChart';
+import CycleTimeChart from '../components/CycleTimeChart';
+import ThroughputChart from '../components/ThroughputChart';
+import WorkloadChart from '../components/WorkloadChart';
+import { useWorkflow } from '../hooks/useWorkflow';
+import { useStatusHistory } from '../hooks/useActivityQueries';
+import { resolveTaskWorkflowStatus } from '../utils/workflow';
+import {
+  AnalyticsRange,
+  HISTORY_LOOKBACK_DAYS,
+  buildBurnChart,
+  buildCumulativeFlow,
+  buildThroughput,
+  buildWorkload,
+  getCompletions,
+  getStatusTransitions,
+  groupTransitionsByTask
+} from '../utils/analytics';
+import { Task } from '../types';
 import {
   BarChart3,
   TrendingUp,
@@ -13,56 +41,84 @@ import {
   Clock,
   CheckSquare,
   Users,
-  Calendar,
-  Activity,
-  Zap
+  Calendar as CalendarIcon,
+  Activity
 } from 'lucide-react';
 
+type RangePreset = '14' | '30' | '90' | 'custom';
+
+const ALL_PAGES = 'all';
+const NO_PAGE = 'none';
+
 const Analytics: React.FC = () => {
   const { state } = useTask();
-  const { workspaceMembers } = useSupabaseWorkspace();
+  const { currentWorkspace, workspaceMembers } = useSupabaseWorkspace();
+  const { workflow, statuses } = useWorkflow();
+  const [rangePreset, setRangePreset] = useState<RangePreset>('30');
+  const [customRange, setCustomRange] = useState<DateRange | undefined>();
+  const [pageFilter, setPageFilter] = useState(ALL_PAGES);
 
   // Calculate analytics data
-  const totalTasks = state.pages.reduce((total, page) => total + page.tasks.length, 0) + state.unassignedTasks.length;
-  const completedTasks = state.pages.reduce((total, page) => 
-    total + page.tasks.filter(task => task.status === 'done').length, 0
-  ) + state.unassignedTasks.filter(task => task.status === 'done').length;
-  const inProgressTasks = state.pages.reduce((total, page) => 
-    total + page.tasks.filter(task => task.status === 'in-progress').length, 0
-  ) + state.unassignedTasks.filter(task => task.status === 'in-progress').length;
-  const todoTasks = totalTasks - completedTasks - inProgressTasks;
-  
-  const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
-  const productivity = totalTasks > 0 ? ((completedTasks + inProgressTasks) / totalTasks) * 100 : 0;
+  const allTasks = [...state.pages.flatMap(page => page.tasks), ...state.unassignedTasks];
+  const totalTasks = allTasks.length;
+  const completedTasks = allTasks.filter(task => task.status === 'done').length;
+  const inProgressTasks = allTasks.filter(task => task.status === 'progress').length;
+  const cancelledTasks = allTasks.filter(task => task.status === 'cancelled').length;
+
+  // Cancelled work is neither done nor outstanding, so it is left out of the rates
+  const countedTasks = totalTasks - cancelledTasks;
+  const completionRate = countedTasks > 0 ? (completedTasks / countedTasks) * 100 : 0;
+  const productivity = countedTasks > 0 ? ((completedTasks + inProgressTasks) / countedTasks) * 100 : 0;
+
+  const countByStatus = (tasks: Task[]) => statuses.map(status => ({
+    status,
+    count: tasks.filter(task => resolveTaskWorkflowStatus(task, workflow).id === status.id).length
+  }));
+
+  // Task distribution across the workspace workflow
+  const statusDistribution = countByStatus(allTasks);
 
   // Task distribution by website
   const websiteStats = state.pages.map(page => ({
     name: page.title,
     total: page.tasks.length,
-    completed: page.tasks.filter(task => task.status === 'done').length,
-    inProgress: page.tasks.filter(task => task.status === 'in-progress').length,
-    todo: page.tasks.filter(task => task.status === 'todo').length,
+    byStatus: countByStatus(page.tasks)
   }));
 
-  // Recent activity (mock data for now)
-  const recentActivity = [
-    { action: 'Task completed', item: 'Fix navigation bug', time: '2 hours ago', type: 'completed' },
-    { action: 'New task created', item: 'Add user authentication', time: '4 hours ago', type: 'created' },
-    { action: 'Task updated', item: 'Update homepage design', time: '6 hours ago', type: 'updated' },
-    { action: 'Website added', item: 'E-commerce Platform', time: '1 day ago', type: 'website' },
-    { action: 'Team member joined', item: 'John Doe', time: '2 days ago', type: 'member' },
-  ];
+  const createdLastWeek = allTasks.filter(task => new Date(task.createdAt) >= subDays(new Date(), 7)).length;
+  const pagesThisMonth = state.pages.filter(page => isThisMonth(new Date(page.createdAt))).length;
 
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case 'completed': return <CheckSquare className="h-4 w-4 text-green-500" />;
-      case 'created': return <Zap className="h-4 w-4 text-blue-500" />;
-      case 'updated': return <Activity className="h-4 w-4 text-yellow-500" />;
-      case 'website': return <BarChart3 className="h-4 w-4 text-purple-500" />;
-      case 'member': return <Users className="h-4 w-4 text-orange-500" />;
-      default: return <Activity className="h-4 w-4 text-gray-500" />;
+  // Days the flow charts cover, today included
+  const range = useMemo<AnalyticsRange>(() => {
+    const today = startOfDay(new Date());
+    if (rangePreset === 'custom' && customRange?.from) {
+      return { from: startOfDay(customRange.from), to: startOfDay(customRange.to || customRange.from) };
     }
-  };
+    const days = rangePreset === 'custom' ? 30 : Number(rangePreset);
+    return { from: subDays(today, days - 1), to: today };
+  }, [rangePreset, customRange]);
+
+  const { data: statusChanges } = useStatusHistory(
+    currentWorkspace?.id || '',
+    format(subDays(range.from, HISTORY_LOOKBACK_DAYS), 'yyyy-MM-dd')
+  );
+
+  // Time series from each task's status history, for the selected page
+  const flow = useMemo(() => {
+    const tasks = [...state.pages.flatMap(page => page.tasks), ...state.unassignedTasks].filter(task =>
+      pageFilter === ALL_PAGES || (pageFilter === NO_PAGE ? !task.pageId : task.pageId === pageFilter)
+    );
+    const histories = groupTransitionsByTask(tasks, getStatusTransitions(statusChanges || [], workflow), workflow);
+    const completions = getCompletions(tasks, histories, range, workflow);
+
+    return {
+      burn: buildBurnChart(tasks, histories, range, workflow),
+      cumulativeFlow: buildCumulativeFlow(tasks, histories, range, workflow),
+      completions,
+      throughput: buildThroughput(completions, range),
+      workload: buildWorkload(tasks, workflow)
+    };
+  }, [state.pages, state.unassignedTasks, pageFilter, statusChanges, range, workflow]);
 
   return (
     <ModernLayout>
@@ -86,7 +142,7 @@ const Analytics: React.FC = () => {
               <div className="text-2xl font-bold text-primary">{totalTasks}</div>
               <p className="text-xs text-muted-foreground">
                 <TrendingUp className="h-3 w-3 inline mr-1" />
-                +12% from last week
+                {createdLastWeek} created in the last 7 days
               </p>
             </CardContent>
           </Card>
@@ -111,7 +167,7 @@ const Analytics: React.FC = () => {
               <div className="text-2xl font-bold text-primary">{state.pages.length}</div>
               <p className="text-xs text-muted-foreground">
                 <TrendingUp className="h-3 w-3 inline mr-1" />
-                +2 this month
+                +{pagesThisMonth} this month
               </p>
             </CardContent>
           </Card>
@@ -140,41 +196,24 @@ const Analytics: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                    <span className="text-sm">Completed</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-medium">{completedTasks}</span>
-                    <Badge variant="outline">{Math.round((completedTasks / totalTasks) * 100)}%</Badge>
-                  </div>
-                </div>
-                <Progress value={(completedTasks / totalTasks) * 100} className="h-2" />
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-                    <span className="text-sm">In Progress</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-medium">{inProgressTasks}</span>
-                    <Badge variant="outline">{Math.round((inProgressTasks / totalTasks) * 100)}%</Badge>
-                  </div>
-                </div>
-                <Progress value={(inProgressTasks / totalTasks) * 100} className="h-2" />
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                    <span className="text-sm">To Do</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-medium">{todoTasks}</span>
-                    <Badge variant="outline">{Math.round((todoTasks / totalTasks) * 100)}%</Badge>
-                  </div>
-                </div>
-                <Progress value={(todoTasks / totalTasks) * 100} className="h-2" />
+                {statusDistribution.map(({ status, count }) => {
+                  const share = totalTasks > 0 ? (count / totalTasks) * 100 : 0;
+                  return (
+                    <div key={status.id} className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: status.color }}></div>
+                          <span className="text-sm">{status.name}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium">{count}</span>
+                          <Badge variant="outline">{Math.round(share)}%</Badge>
+                        </div>
+                      </div>
+                      <Progress value={share} className="h-2" />
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -189,7 +228,7 @@ const Analytics: React.FC = () => {
               <div className="text-center space-y-4">
                 <div className="text-4xl font-bold text-primary">{Math.round(productivity)}%</div>
                 <Progress value={productivity} className="h-4" />
-                <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="grid grid-cols-3 gap-4 text-center">
                   <div>
                     <div className="text-lg font-semibold text-green-600">{completedTasks}</div>
                     <div className="text-xs text-muted-foreground">Completed</div>
@@ -198,6 +237,10 @@ const Analytics: React.FC = () => {
                     <div className="text-lg font-semibold text-yellow-600">{inProgressTasks}</div>
                     <div className="text-xs text-muted-foreground">In Progress</div>
                   </div>
+                  <div>
+                    <div className="text-lg font-semibold text-gray-500">{cancelledTasks}</div>
+                    <div className="text-xs text-muted-foreground">Cancelled</div>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -225,19 +268,13 @@ const Analytics: React.FC = () => {
                       <h4 className="font-medium">{website.name}</h4>
                       <Badge variant="outline">{website.total} tasks</Badge>
                     </div>
-                    <div className="grid grid-cols-3 gap-2">
-                      <div className="text-center p-2 rounded bg-green-50 dark:bg-green-950">
-                        <div className="text-sm font-medium text-green-600">{website.completed}</div>
-                        <div className="text-xs text-green-600">Done</div>
-                      </div>
-                      <div className="text-center p-2 rounded bg-yellow-50 dark:bg-yellow-950">
-                        <div className="text-sm font-medium text-yellow-600">{website.inProgress}</div>
-                        <div className="text-xs text-yellow-600">Progress</div>
-                      </div>
-                      <div className="text-center p-2 rounded bg-blue-50 dark:bg-blue-950">
-                        <div className="text-sm font-medium text-blue-600">{website.todo}</div>
-                        <div className="text-xs text-blue-600">To Do</div>
-                      </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {website.byStatus.map(({ status, count }) => (
+                        <div key={status.id} className="text-center p-2 rounded bg-muted/50">
+                          <div className="text-sm font-medium" style={{ color: status.color }}>{count}</div>
+                          <div className="text-xs text-muted-foreground">{status.name}</div>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -246,6 +283,71 @@ const Analytics: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Flow and Delivery */}
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Flow & Delivery</h2>
+            <p className="text-sm text-muted-foreground">From each task's status history</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={pageFilter} onValueChange={setPageFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PAGES}>All pages</SelectItem>
+                {state.pages.map(page => (
+                  <SelectItem key={page.id} value={page.id}>{page.title}</SelectItem>
+                ))}
+                <SelectItem value={NO_PAGE}>No page</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={rangePreset} onValueChange={(value) => setRangePreset(value as RangePreset)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="14">Last 14 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="custom">Custom range</SelectItem>
+              </SelectContent>
+            </Select>
+            {rangePreset === 'custom' && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="justify-start">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(range.from, 'MMM d')} – {format(range.to, 'MMM d, yyyy')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={customRange}
+                    onSelect={setCustomRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <BurnChart points={flow.burn} />
+          <CumulativeFlowChart points={flow.cumulativeFlow} statuses={statuses} />
+          <CycleTimeChart completions={flow.completions} />
+          <ThroughputChart points={flow.throughput} />
+        </div>
+
+        <WorkloadChart rows={flow.workload} members={workspaceMembers} />
+
+        {/* Estimate Accuracy */}
+        <EstimateAccuracyReport tasks={allTasks} pages={state.pages} members={workspaceMembers} />
+
         {/* Recent Activity */}
         <Card className="card-modern">
           <CardHeader>
@@ -256,19 +358,11 @@ const Analytics: React.FC = () => {
             <CardDescription>Latest updates and changes in your workspace</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="space-y-4">
-              {recentActivity.map((activity, index) => (
-                <div key={index} className="flex items-center gap-3 p-3 rounded-lg hover:bg-accent transition-colors">
-                  {getActivityIcon(activity.type)}
-                  <div className="flex-1">
-                    <p className="text-sm">
-                      <span className="font-medium">{activity.action}:</span> {activity.item}
-                    </p>
-                    <p className="text-xs text-muted-foreground">{activity.time}</p>
-                  </div>
-                </div>
-              ))}
-            </div>
+            {currentWorkspace ? (
+              <ActivityFeed workspaceId={currentWorkspace.id} />
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">Select a workspace to see its activity</p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -1,15 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
@@ -22,7 +24,16 @@ import {
 import { useTask } from '../contexts/TaskContext';
 import { useAuth } from '../contexts/SupabaseAuthContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import {
+  useCalendarEvents,
+  useCreateCalendarEvent,
+  useUpdateCalendarEvent,
+  useDeleteCalendarEvent,
+  CalendarEventInput
+} from '../hooks/useCalendarQueries';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
 import ModernLayout from '../components/ModernLayout';
+import CalendarSyncMenu from '../components/CalendarSyncMenu';
 import {
   Calendar as CalendarIcon,
   ChevronLeft,
@@ -40,123 +51,71 @@ import {
   MapPin,
   Link as LinkIcon,
   Mail,
-  Phone
+  Phone,
+  Repeat,
+  Trash2
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format, parseISO, isToday, isSameDay, addDays, startOfWeek, endOfWeek } from 'date-fns';
+import { CalendarEvent } from '../types';
+import { expandTaskOccurrences } from '../utils/recurrence';
+import { findFreeSlots, getEventBusyBlock, getTaskTimeBlock, FreeSlot } from '../utils/calendar';
 
-interface CalendarEvent {
-  id: string;
-  title: string;
-  description?: string;
-  startTime: string;
-  endTime: string;
-  date: string;
-  type: 'task' | 'meeting' | 'reminder' | 'goal';
-  priority?: 'low' | 'medium' | 'high' | 'urgent';
-  attendees?: string[];
-  meetingLink?: string;
-  location?: string;
-  taskId?: string;
-  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
-}
-
-interface TimeSlot {
-  time: string;
-  available: boolean;
+interface TimeSlot extends FreeSlot {
   suggested?: boolean;
 }
 
+type EventForm = Omit<CalendarEventInput, 'workspaceId' | 'status'>;
+
+const createEmptyEventForm = (date: string = format(new Date(), 'yyyy-MM-dd')): EventForm => ({
+  title: '',
+  description: '',
+  date,
+  startTime: '09:00',
+  endTime: '10:00',
+  type: 'meeting',
+  priority: 'medium',
+  attendeeIds: [],
+  meetingLink: '',
+  location: ''
+});
+
 const Calendar: React.FC = () => {
   const { state } = useTask();
   const { user } = useAuth();
-  const { currentWorkspace, workspaceMembers } = useSupabaseWorkspace();
+  const { currentWorkspace, workspaceMembers, currentMember } = useSupabaseWorkspace();
+  const workspaceId = currentWorkspace?.id || '';
+  const { data: events = [] } = useCalendarEvents(workspaceId);
+  const createEvent = useCreateCalendarEvent();
+  const updateEvent = useUpdateCalendarEvent();
+  const deleteEvent = useDeleteCalendarEvent();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [viewMode, setViewMode] = useState<'month' | 'week' | 'day'>('month');
   const [showEventDialog, setShowEventDialog] = useState(false);
   const [showFindTimeDialog, setShowFindTimeDialog] = useState(false);
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
   const [suggestedTimes, setSuggestedTimes] = useState<TimeSlot[]>([]);
 
   // Event form state
-  const [newEvent, setNewEvent] = useState({
-    title: '',
-    description: '',
-    date: format(new Date(), 'yyyy-MM-dd'),
-    startTime: '09:00',
-    endTime: '10:00',
-    type: 'meeting' as const,
-    priority: 'medium' as const,
-    attendees: [] as string[],
-    meetingLink: '',
-    location: ''
-  });
+  const [newEvent, setNewEvent] = useState<EventForm>(createEmptyEventForm());
 
   // Find time form state
   const [findTimeForm, setFindTimeForm] = useState({
     duration: 60, // minutes
     preferredTimes: ['09:00', '14:00'],
-    attendees: [] as string[],
+    attendees: [] as string[], // Member user ids
     dateRange: 7 // days
   });
 
-  // Load events from tasks and calendar events
-  useEffect(() => {
-    loadCalendarEvents();
-  }, [state.pages, state.unassignedTasks, currentDate]);
-
-  const loadCalendarEvents = () => {
-    const taskEvents: CalendarEvent[] = [];
-
-    // Convert tasks with due dates to calendar events
-    [...state.unassignedTasks, ...state.pages.flatMap(p => p.tasks)]
-      .filter(task => task.dueDate)
-      .forEach(task => {
-        taskEvents.push({
-          id: `task-${task.id}`,
-          title: task.title,
-          description: task.description,
-          startTime: '09:00',
-          endTime: '10:00',
-          date: task.dueDate!.split('T')[0],
-          type: 'task',
-          priority: task.priority,
-          taskId: task.id,
-          status: task.status === 'done' ? 'completed' : 'pending'
-        });
-      });
-
-    // Add some sample calendar events for demo
-    const sampleEvents: CalendarEvent[] = [
-      {
-        id: 'meeting-1',
-        title: 'Team Standup',
-        description: 'Daily team synchronization meeting',
-        startTime: '09:00',
-        endTime: '09:30',
-        date: format(new Date(), 'yyyy-MM-dd'),
-        type: 'meeting',
-        priority: 'high',
-        attendees: workspaceMembers.map(m => m.email),
-        meetingLink: 'https://meet.google.com/abc-defg-hij',
-        status: 'confirmed'
-      },
-      {
-        id: 'goal-1',
-        title: 'Complete Project Milestone',
-        description: 'Finish the first phase of the project',
-        startTime: '17:00',
-        endTime: '17:30',
-        date: format(addDays(new Date(), 3), 'yyyy-MM-dd'),
-        type: 'goal',
-        priority: 'urgent',
-        status: 'pending'
-      }
-    ];
+  // Keep the calendar in sync with events other members add, edit or delete
+  useRealtimeSubscription({
+    table: 'calendar_events',
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId
+  });
 
-    setEvents([...taskEvents, ...sampleEvents]);
-  };
+  const allTasks = [...state.unassignedTasks, ...state.pages.flatMap(p => p.tasks)];
 
   // Get current month and year
   const currentMonth = currentDate.getMonth();
@@ -192,78 +151,124 @@ const Calendar: React.FC = () => {
     return events.filter(event => event.date === dateStr);
   };
 
-  // Find available time slots
+  // Find slots that clash with neither stored events nor booked task time
   const findAvailableTimeSlots = () => {
-    const slots: TimeSlot[] = [];
-    const startDate = new Date();
-
-    for (let day = 0; day < findTimeForm.dateRange; day++) {
-      const currentDay = addDays(startDate, day);
-      const dayStr = format(currentDay, 'yyyy-MM-dd');
-
-      // Generate time slots for business hours (9 AM - 6 PM)
-      for (let hour = 9; hour < 18; hour++) {
-        const timeStr = `${hour.toString().padStart(2, '0')}:00`;
-        const endTimeStr = `${(hour + 1).toString().padStart(2, '0')}:00`;
-
-        // Check if this time slot conflicts with existing events
-        const hasConflict = events.some(event =>
-          event.date === dayStr &&
-          event.startTime <= timeStr &&
-          event.endTime > timeStr
-        );
-
-        slots.push({
-          time: `${format(currentDay, 'MMM dd')} at ${timeStr}`,
-          available: !hasConflict,
-          suggested: findTimeForm.preferredTimes.includes(timeStr) && !hasConflict
-        });
-      }
+    const busy = [
+      ...events.filter(event => event.status !== 'cancelled').map(getEventBusyBlock),
+      ...allTasks
+        .filter(task => task.status !== 'done' && task.status !== 'cancelled')
+        .flatMap(task => getTaskTimeBlock(task) || [])
+    ];
+
+    const slots = findFreeSlots({
+      busy,
+      durationMinutes: findTimeForm.duration,
+      days: findTimeForm.dateRange,
+      attendeeIds: findTimeForm.attendees
+    }).map(slot => ({ ...slot, suggested: findTimeForm.preferredTimes.includes(slot.startTime) }));
+
+    setSuggestedTimes(slots.slice(0, 10));
+    if (slots.length === 0) {
+      toast.error('No free time found in that range');
     }
+  };
 
-    setSuggestedTimes(slots.filter(slot => slot.available).slice(0, 10));
+  const openNewEventDialog = (date?: string) => {
+    setEditingEvent(null);
+    setNewEvent(createEmptyEventForm(date));
+    setShowEventDialog(true);
   };
 
-  // Handle event creation
-  const handleCreateEvent = async () => {
+  const openEditEventDialog = (event: CalendarEvent) => {
+    setEditingEvent(event);
+    setNewEvent({
+      title: event.title,
+      description: event.description,
+      date: event.date,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      type: event.type,
+      priority: event.priority,
+      attendeeIds: event.attendeeIds,
+      meetingLink: event.meetingLink || '',
+      location: event.location || ''
+    });
+    setShowEventDialog(true);
+  };
+
+  // Book a slot picked in the "Find time" dialog
+  const bookTimeSlot = (slot: TimeSlot) => {
+    setShowFindTimeDialog(false);
+    setEditingEvent(null);
+    setNewEvent({
+      ...createEmptyEventForm(slot.date),
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      attendeeIds: findTimeForm.attendees
+    });
+    setShowEventDialog(true);
+  };
+
+  const toggleEventAttendee = (userId: string, checked: boolean) => {
+    setNewEvent(prev => ({
+      ...prev,
+      attendeeIds: checked ? [...prev.attendeeIds, userId] : prev.attendeeIds.filter(id => id !== userId)
+    }));
+  };
+
+  const toggleFindTimeAttendee = (userId: string, checked: boolean) => {
+    setFindTimeForm(prev => ({
+      ...prev,
+      attendees: checked ? [...prev.attendees, userId] : prev.attendees.filter(id => id !== userId)
+    }));
+  };
+
+  // Handle event creation and edits
+  const handleSaveEvent = async () => {
+    if (!currentWorkspace || !user) return;
+
     if (!newEvent.title.trim()) {
       toast.error('Please enter an event title');
       return;
     }
 
-    const event: CalendarEvent = {
-      id: `event-${Date.now()}`,
-      title: newEvent.title,
-      description: newEvent.description,
-      startTime: newEvent.startTime,
-      endTime: newEvent.endTime,
-      date: newEvent.date,
-      type: newEvent.type,
-      priority: newEvent.priority,
-      attendees: newEvent.attendees,
-      meetingLink: newEvent.meetingLink,
-      location: newEvent.location,
-      status: 'confirmed'
+    if (newEvent.endTime <= newEvent.startTime) {
+      toast.error('The event must end after it starts');
+      return;
+    }
+
+    const event: CalendarEventInput = {
+      ...newEvent,
+      workspaceId: currentWorkspace.id,
+      status: editingEvent?.status || 'confirmed'
     };
 
-    setEvents(prev => [...prev, event]);
+    try {
+      if (editingEvent) {
+        await updateEvent.mutateAsync({ eventId: editingEvent.id, event });
+      } else {
+        await createEvent.mutateAsync({ event, userId: user.id });
+      }
+    } catch {
+      return; // The mutation already reported the error
+    }
+
     setShowEventDialog(false);
+    setEditingEvent(null);
+    setNewEvent(createEmptyEventForm());
+  };
 
-    // Reset form
-    setNewEvent({
-      title: '',
-      description: '',
-      date: format(new Date(), 'yyyy-MM-dd'),
-      startTime: '09:00',
-      endTime: '10:00',
-      type: 'meeting',
-      priority: 'medium',
-      attendees: [],
-      meetingLink: '',
-      location: ''
-    });
+  const handleDeleteEvent = async () => {
+    if (!editingEvent) return;
+
+    try {
+      await deleteEvent.mutateAsync({ workspaceId: editingEvent.workspaceId, eventId: editingEvent.id });
+    } catch {
+      return;
+    }
 
-    toast.success('Event created successfully!');
+    setShowEventDialog(false);
+    setEditingEvent(null);
   };
 
   // Generate meeting links
@@ -278,6 +283,14 @@ const Calendar: React.FC = () => {
     toast.success(`${platform.charAt(0).toUpperCase() + platform.slice(1)} meeting link added!`);
   };
 
+  const getMemberName = (userId: string) => {
+    const member = workspaceMembers.find(m => m.userId === userId);
+    return member ? member.fullName || member.displayName || member.email : 'Former member';
+  };
+
+  const canEditEvent = (event: CalendarEvent) =>
+    event.createdBy === user?.id || currentMember?.role === 'owner' || currentMember?.role === 'admin';
+
   // Get event type color
   const getEventTypeColor = (type: string) => {
     switch (type) {
@@ -300,12 +313,17 @@ const Calendar: React.FC = () => {
     }
   };
 
-  // Get tasks for a specific date (legacy function)
+  // Dated tasks plus upcoming occurrences of repeating tasks this month
+  const taskOccurrences = expandTaskOccurrences(
+    allTasks,
+    firstDayOfMonth,
+    lastDayOfMonth
+  );
+
+  // Get tasks for a specific date
   const getTasksForDate = (date: number) => {
-    // This is a simplified implementation
-    // In a real app, you'd filter tasks by their due dates
-    const allTasks = state.pages.flatMap(page => page.tasks).concat(state.unassignedTasks);
-    return allTasks.filter((_, index) => index % 7 === date % 7).slice(0, 2); // Mock filtering
+    const dateStr = format(new Date(currentYear, currentMonth, date), 'yyyy-MM-dd');
+    return taskOccurrences.filter(occurrence => occurrence.date === dateStr);
   };
 
   // Get today's date
@@ -347,10 +365,17 @@ const Calendar: React.FC = () => {
               View and manage your tasks by date
             </p>
           </div>
-          <Button className="btn-orange">
-            <Plus className="h-4 w-4 mr-2" />
-            Add Event
-          </Button>
+          <div className="flex items-center gap-2">
+            <CalendarSyncMenu />
+            <Button variant="outline" onClick={() => setShowFindTimeDialog(true)} disabled={!currentWorkspace}>
+              <Search className="h-4 w-4 mr-2" />
+              Find Time
+            </Button>
+            <Button className="btn-orange" onClick={() => openNewEventDialog()} disabled={!currentWorkspace}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Event
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
@@ -394,6 +419,7 @@ const Calendar: React.FC = () => {
                           ? 'bg-primary/10 border-primary'
                           : 'bg-background hover:bg-accent'
                       } transition-colors cursor-pointer`}
+                      onClick={() => day && currentWorkspace && openNewEventDialog(format(new Date(currentYear, currentMonth, day), 'yyyy-MM-dd'))}
                     >
                       {day && (
                         <>
@@ -403,14 +429,40 @@ const Calendar: React.FC = () => {
                             {day}
                           </div>
                           <div className="space-y-1">
-                            {getTasksForDate(day).map((task, taskIndex) => (
+                            {getEventsForDate(day).map(event => (
+                              <div
+                                key={event.id}
+                                className={`text-xs p-1 rounded truncate border border-l-4 ${getEventTypeColor(event.type)} ${getPriorityColor(event.priority)} ${
+                                  event.status === 'cancelled' ? 'line-through opacity-60' : ''
+                                }`}
+                                title={`${event.startTime}–${event.endTime} ${event.title}`}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openEditEventDialog(event);
+                                }}
+                              >
+                                {event.startTime} {event.title}
+                              </div>
+                            ))}
+                            {getTasksForDate(day).slice(0, 3).map(({ task, date, projected }) => (
                               <div
-                                key={taskIndex}
-                                className="text-xs p-1 rounded bg-primary/20 text-primary truncate"
+                                key={`${task.id}-${date}`}
+                                className={`text-xs p-1 rounded truncate flex items-center gap-1 ${
+                                  projected
+                                    ? 'border border-dashed border-primary/40 text-muted-foreground'
+                                    : 'bg-primary/20 text-primary'
+                                }`}
+                                title={projected ? 'Upcoming occurrence' : undefined}
                               >
-                                {task.title}
+                                {task.recurrence && <Repeat className="h-3 w-3 shrink-0" />}
+                                <span className="truncate">{task.title}</span>
                               </div>
                             ))}
+                            {getTasksForDate(day).length > 3 && (
+                              <div className="text-xs text-muted-foreground">
+                                +{getTasksForDate(day).length - 3} more
+                              </div>
+                            )}
                           </div>
                         </>
                       )}
@@ -437,7 +489,7 @@ const Calendar: React.FC = () => {
                     <div key={index} className="flex items-center gap-2 p-2 rounded-lg border">
                       <div className={`w-2 h-2 rounded-full ${
                         task.status === 'done' ? 'bg-green-500' : 
-                        task.status === 'in-progress' ? 'bg-yellow-500' : 'bg-blue-500'
+                        task.status === 'progress' ? 'bg-yellow-500' : 'bg-blue-500'
                       }`} />
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">{task.title}</p>
@@ -510,7 +562,7 @@ const Calendar: React.FC = () => {
                     </div>
                     <span className="text-sm font-medium">
                       {state.pages.reduce((total, page) => 
-                        total + page.tasks.filter(task => task.status === 'in-progress').length, 0
+                        total + page.tasks.filter(task => task.status === 'progress').length, 0
                       )}
                     </span>
                   </div>
@@ -532,6 +584,283 @@ const Calendar: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Create / edit event */}
+      <Dialog open={showEventDialog} onOpenChange={setShowEventDialog}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingEvent ? 'Edit Event' : 'New Event'}</DialogTitle>
+            <DialogDescription>
+              {editingEvent && !canEditEvent(editingEvent)
+                ? 'Only the person who created this event or a workspace admin can change it.'
+                : 'Meetings, reminders and goals are shared with everyone in the workspace.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <fieldset className="space-y-4" disabled={!!editingEvent && !canEditEvent(editingEvent)}>
+            <div className="space-y-2">
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                value={newEvent.title}
+                onChange={(e) => setNewEvent(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Weekly planning"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="event-description">Description</Label>
+              <Textarea
+                id="event-description"
+                value={newEvent.description}
+                onChange={(e) => setNewEvent(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="event-date">Date</Label>
+                <Input
+                  id="event-date"
+                  type="date"
+                  value={newEvent.date}
+                  onChange={(e) => setNewEvent(prev => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-start">Start</Label>
+                <Input
+                  id="event-start"
+                  type="time"
+                  value={newEvent.startTime}
+                  onChange={(e) => setNewEvent(prev => ({ ...prev, startTime: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="event-end">End</Label>
+                <Input
+                  id="event-end"
+                  type="time"
+                  value={newEvent.endTime}
+                  onChange={(e) => setNewEvent(prev => ({ ...prev, endTime: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={newEvent.type}
+                  onValueChange={(value) => setNewEvent(prev => ({ ...prev, type: value as CalendarEvent['type'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="meeting">
+                      <div className="flex items-center gap-2"><Video className="h-4 w-4" />Meeting</div>
+                    </SelectItem>
+                    <SelectItem value="reminder">
+                      <div className="flex items-center gap-2"><Bell className="h-4 w-4" />Reminder</div>
+                    </SelectItem>
+                    <SelectItem value="goal">
+                      <div className="flex items-center gap-2"><Target className="h-4 w-4" />Goal</div>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={newEvent.priority}
+                  onValueChange={(value) => setNewEvent(prev => ({ ...prev, priority: value as CalendarEvent['priority'] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="urgent">Urgent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Attendees
+              </Label>
+              <div className="max-h-36 overflow-y-auto rounded-md border p-2 space-y-2">
+                {workspaceMembers.map(member => (
+                  <label key={member.userId} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={newEvent.attendeeIds.includes(member.userId)}
+                      onCheckedChange={(checked) => toggleEventAttendee(member.userId, checked === true)}
+                    />
+                    <span className="truncate">{getMemberName(member.userId)}</span>
+                    <span className="text-xs text-muted-foreground truncate">{member.email}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {newEvent.type === 'meeting' && (
+              <div className="space-y-2">
+                <Label htmlFor="event-link" className="flex items-center gap-2">
+                  <LinkIcon className="h-4 w-4" />
+                  Meeting link
+                </Label>
+                <Input
+                  id="event-link"
+                  value={newEvent.meetingLink}
+                  onChange={(e) => setNewEvent(prev => ({ ...prev, meetingLink: e.target.value }))}
+                  placeholder="https://"
+                />
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={() => generateMeetingLink('google')}>Google Meet</Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => generateMeetingLink('zoom')}>Zoom</Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => generateMeetingLink('teams')}>Teams</Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="event-location" className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Location
+              </Label>
+              <Input
+                id="event-location"
+                value={newEvent.location}
+                onChange={(e) => setNewEvent(prev => ({ ...prev, location: e.target.value }))}
+              />
+            </div>
+          </fieldset>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            {editingEvent && canEditEvent(editingEvent) ? (
+              <Button variant="outline" onClick={handleDeleteEvent} disabled={deleteEvent.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setShowEventDialog(false)}>
+                Cancel
+              </Button>
+              {(!editingEvent || canEditEvent(editingEvent)) && (
+                <Button
+                  className="btn-orange"
+                  onClick={handleSaveEvent}
+                  disabled={createEvent.isPending || updateEvent.isPending}
+                >
+                  {editingEvent ? 'Save Changes' : 'Create Event'}
+                </Button>
+              )}
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Find time */}
+      <Dialog open={showFindTimeDialog} onOpenChange={setShowFindTimeDialog}>
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Find Time</DialogTitle>
+            <DialogDescription>
+              Free slots between 9:00 and 18:00 that clash with no event or booked task of the people you pick.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select
+                  value={findTimeForm.duration.toString()}
+                  onValueChange={(value) => setFindTimeForm(prev => ({ ...prev, duration: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">30 minutes</SelectItem>
+                    <SelectItem value="60">1 hour</SelectItem>
+                    <SelectItem value="90">1.5 hours</SelectItem>
+                    <SelectItem value="120">2 hours</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Within</Label>
+                <Select
+                  value={findTimeForm.dateRange.toString()}
+                  onValueChange={(value) => setFindTimeForm(prev => ({ ...prev, dateRange: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="3">Next 3 days</SelectItem>
+                    <SelectItem value="7">Next week</SelectItem>
+                    <SelectItem value="14">Next 2 weeks</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Attendees
+              </Label>
+              <div className="max-h-36 overflow-y-auto rounded-md border p-2 space-y-2">
+                {workspaceMembers.map(member => (
+                  <label key={member.userId} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={findTimeForm.attendees.includes(member.userId)}
+                      onCheckedChange={(checked) => toggleFindTimeAttendee(member.userId, checked === true)}
+                    />
+                    <span className="truncate">{getMemberName(member.userId)}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave empty to check against the whole workspace calendar.
+              </p>
+            </div>
+
+            <Button className="w-full" variant="outline" onClick={findAvailableTimeSlots}>
+              <Search className="h-4 w-4 mr-2" />
+              Find Available Times
+            </Button>
+
+            {suggestedTimes.length > 0 && (
+              <div className="space-y-2">
+                {suggestedTimes.map(slot => (
+                  <button
+                    key={`${slot.date}-${slot.startTime}`}
+                    type="button"
+                    className="w-full flex items-center justify-between rounded-md border p-2 text-sm hover:bg-accent"
+                    onClick={() => bookTimeSlot(slot)}
+                  >
+                    <span className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      {format(parseISO(slot.date), 'EEE, MMM d')} · {slot.startTime}–{slot.endTime}
+                    </span>
+                    {slot.suggested && <Badge variant="secondary">Preferred</Badge>}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
     </ModernLayout>
   );
 };
@@ -247,7 +247,7 @@ const FeatureDemo: React.FC = () => {
                     <ul className="text-sm space-y-1 text-muted-foreground">
                       <li>• task_dependencies, subtasks</li>
                       <li>• task_comments, task_time_entries</li>
-                      <li>• task_attachments, user_activity</li>
+                      <li>• task_attachments, user_activities</li>
                     </ul>
                   </div>
                 </div>
@@ -8,7 +8,11 @@ import { useUserStats } from '../hooks/useUserQueries';
 import { useWorkspaceTasks } from '../hooks/useTaskQueries';
 import { useWorkspacePages } from '../hooks/usePageQueries';
 import { useCacheWarmup, useAutoCacheCleanup, useNetworkAwareCache } from '../hooks/useCacheService';
+import { useWorkflow } from '../hooks/useWorkflow';
 import { supabase } from '../lib/supabase';
+import { activityService } from '../services/activityService';
+import { UserActivity } from '../types/workspace';
+import { describeActivity } from '../utils/activity';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -53,6 +57,7 @@ const Home: React.FC = () => {
   const { state } = useTask();
   const { user } = useAuth();
   const { currentWorkspace, workspaceMembers, userWorkspaces, loading: workspaceLoading } = useSupabaseWorkspace();
+  const { workflow } = useWorkflow();
   const { notifications } = useNotifications();
   const navigate = useNavigate();
 
@@ -77,7 +82,7 @@ const Home: React.FC = () => {
     totalDependencies: 0,
     totalSubtasks: 0,
     completedSubtasks: 0,
-    recentActivity: [],
+    recentActivity: [] as UserActivity[],
     emailsEnabled: false,
     databaseSetup: false
   });
@@ -205,22 +210,25 @@ const Home: React.FC = () => {
       }
 
       // Load recent activity (with graceful fallback)
-      let recentActivity: any[] = [];
+      let recentActivity: UserActivity[] = [];
       try {
-        const { data } = await supabase
-          .from('user_activity')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false })
-          .limit(5);
-        recentActivity = data || [];
+        recentActivity = await activityService.getUserActivity(user.id, 5);
       } catch (e) {
         // Table might not exist
       }
 
-      // Check email configuration
-      const emailsEnabled = !!import.meta.env.VITE_EMAIL_SERVICE_API_KEY ||
-        import.meta.env.VITE_EMAIL_SERVICE_PROVIDER === 'demo';
+      // Email is working once the send-email function has delivered something
+      let emailsEnabled = false;
+      try {
+        const { count } = await supabase
+          .from('email_deliveries')
+          .select('*', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .eq('status', 'sent');
+        emailsEnabled = (count || 0) > 0;
+      } catch (e) {
+        // Table might not exist
+      }
 
       setAdvancedStats({
         totalTimeTracked,
@@ -410,14 +418,14 @@ const Home: React.FC = () => {
                 <CardContent>
                   <div className="flex items-center justify-between">
                     <Badge variant={advancedStats.emailsEnabled ? "default" : "secondary"}>
-                      {advancedStats.emailsEnabled ? "Active" : "Demo Mode"}
+                      {advancedStats.emailsEnabled ? "Active" : "Not Verified"}
                     </Badge>
-                    <Button variant="ghost" size="sm" onClick={() => navigate('/settings')}>
+                    <Button variant="ghost" size="sm" onClick={() => navigate('/settings?tab=email')}>
                       <Settings className="h-3 w-3" />
                     </Button>
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    {advancedStats.emailsEnabled ? "Notifications enabled" : "Console logging only"}
+                    {advancedStats.emailsEnabled ? "Notifications enabled" : "Send a test email in Settings"}
                   </p>
                 </CardContent>
               </Card>
@@ -639,13 +647,15 @@ const Home: React.FC = () => {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {advancedStats.recentActivity.slice(0, 5).map((activity, index) => (
-                        <div key={index} className="flex items-start gap-3">
+                      {advancedStats.recentActivity.slice(0, 5).map((activity) => (
+                        <div key={activity.id} className="flex items-start gap-3">
                           <div className="w-2 h-2 rounded-full bg-primary mt-2 flex-shrink-0" />
                           <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium truncate">{activity.activity_description}</p>
+                            <p className="text-sm font-medium truncate">
+                              You {describeActivity(activity, { members: workspaceMembers, pages: state.pages, workflow })}
+                            </p>
                             <p className="text-xs text-muted-foreground">
-                              {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
+                              {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
                             </p>
                           </div>
                         </div>
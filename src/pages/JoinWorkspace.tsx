@@ -6,7 +6,7 @@ import { supabase } from '../lib/supabase';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Users, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { Users, CheckCircle, XCircle, Loader2, Clock } from 'lucide-react';
 import { Workspace } from '../types/workspace';
 
 const JoinWorkspace: React.FC = () => {
@@ -20,6 +20,7 @@ const JoinWorkspace: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [joining, setJoining] = useState(false);
   const [joined, setJoined] = useState(false);
+  const [requested, setRequested] = useState(false);
 
   useEffect(() => {
     if (!inviteCode) {
@@ -150,7 +151,15 @@ const JoinWorkspace: React.FC = () => {
 
     try {
       setJoining(true);
-      await joinWorkspaceByCode(inviteCode);
+      const result = await joinWorkspaceByCode(inviteCode);
+
+      if (result === 'requested') {
+        setRequested(true);
+        return;
+      }
+
+      if (result === 'failed') return;
+
       setJoined(true);
 
       // Redirect to workspace after a brief success message
@@ -220,6 +229,28 @@ const JoinWorkspace: React.FC = () => {
     );
   }
 
+  if (requested) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-orange-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            <Clock className="w-12 h-12 text-cornflower-blue mx-auto" />
+            <h2 className="text-xl font-semibold text-gray-900">Request Sent</h2>
+            <p className="text-gray-600">
+              <strong>{workspace?.name}</strong> requires approval to join. You'll get a notification once an admin reviews your request.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => navigate('/')}
+            >
+              Go to Dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (joined) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-orange-50 flex items-center justify-center">
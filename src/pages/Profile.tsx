@@ -3,6 +3,10 @@ import { useAuth } from '../contexts/SupabaseAuthContext';
 import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import { supabase } from '../lib/supabase';
 import ModernLayout from '../components/ModernLayout';
+import ActivityIcon from '../components/ActivityIcon';
+import { activityService } from '../services/activityService';
+import { UserActivity } from '../types/workspace';
+import { describeActivity } from '../utils/activity';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -41,7 +45,7 @@ import {
 
 const Profile: React.FC = () => {
   const { user } = useAuth();
-  const { currentWorkspace } = useSupabaseWorkspace();
+  const { currentWorkspace, workspaceMembers } = useSupabaseWorkspace();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [isEditing, setIsEditing] = useState(false);
@@ -75,7 +79,7 @@ const Profile: React.FC = () => {
     onTimeRate: 0
   });
 
-  const [recentActivity, setRecentActivity] = useState<any[]>([]);
+  const [recentActivity, setRecentActivity] = useState<UserActivity[]>([]);
   const [newSkill, setNewSkill] = useState('');
 
   // Load user profile data
@@ -166,17 +170,10 @@ const Profile: React.FC = () => {
   };
 
   const loadRecentActivity = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_activity')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false })
-        .limit(10);
+    if (!user) return;
 
-      if (data) {
-        setRecentActivity(data);
-      }
+    try {
+      setRecentActivity(await activityService.getUserActivity(user.id, 10));
     } catch (error) {
       console.error('Error loading recent activity:', error);
     }
@@ -228,13 +225,17 @@ const Profile: React.FC = () => {
         return;
       }
 
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: 'profile_update',
-        p_activity_description: 'Updated profile information',
-        p_metadata: { fields_updated: Object.keys(profileUpdateData) }
-      });
+      if (user) {
+        await activityService.log({
+          userId: user.id,
+          action: {
+            type: 'profile_update',
+            resourceType: 'profile',
+            resourceId: user.id,
+            data: { fields_updated: Object.keys(profileUpdateData) }
+          }
+        });
+      }
 
       setIsEditing(false);
       loadRecentActivity(); // Refresh activity
@@ -288,12 +289,14 @@ const Profile: React.FC = () => {
           profileImage: data.publicUrl
         }));
 
-        // Log activity
-        await supabase.rpc('log_user_activity', {
-          p_user_id: user.id,
-          p_activity_type: 'profile_image_update',
-          p_activity_description: 'Updated profile image',
-          p_metadata: { image_url: data.publicUrl }
+        await activityService.log({
+          userId: user.id,
+          action: {
+            type: 'profile_image_update',
+            resourceType: 'profile',
+            resourceId: user.id,
+            data: { image_url: data.publicUrl }
+          }
         });
 
       } catch (error) {
@@ -727,18 +730,17 @@ const Profile: React.FC = () => {
               <CardContent>
                 <div className="space-y-4">
                   {recentActivity.length > 0 ? (
-                    recentActivity.map((activity, index) => (
+                    recentActivity.map((activity) => (
                       <div key={activity.id} className="flex items-start gap-3 p-3 rounded-lg bg-muted/50">
-                        <div className={`w-2 h-2 rounded-full mt-2 ${
-                          activity.activity_type === 'profile_update' ? 'bg-blue-500' :
-                          activity.activity_type === 'task_completed' ? 'bg-green-500' :
-                          activity.activity_type === 'project_joined' ? 'bg-orange-500' :
-                          'bg-gray-500'
-                        }`}></div>
+                        <div className="mt-0.5">
+                          <ActivityIcon type={activity.action.type} />
+                        </div>
                         <div className="flex-1">
-                          <p className="text-sm font-medium">{activity.activity_description}</p>
+                          <p className="text-sm font-medium">
+                            You {describeActivity(activity, { members: workspaceMembers })}
+                          </p>
                           <p className="text-xs text-muted-foreground">
-                            {new Date(activity.created_at).toLocaleDateString()} at {new Date(activity.created_at).toLocaleTimeString()}
+                            {new Date(activity.createdAt).toLocaleDateString()} at {new Date(activity.createdAt).toLocaleTimeString()}
                           </p>
                         </div>
                       </div>
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/SupabaseAuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { supabase } from '../lib/supabase';
+import { activityService } from '../services/activityService';
 import ModernLayout from '../components/ModernLayout';
+import EmailDeliveryLog from '../components/EmailDeliveryLog';
+import NotificationSettings from '../components/NotificationSettings';
+import { getUserTimezone } from '../utils/timezone';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -49,6 +54,7 @@ import {
 
 const Settings: React.FC = () => {
   const { user, signOut } = useAuth();
+  const [searchParams] = useSearchParams();
   const { theme, setTheme } = useTheme();
 
   const [loading, setLoading] = useState(true);
@@ -60,7 +66,7 @@ const Settings: React.FC = () => {
     // Appearance
     theme: 'system',
     language: 'en',
-    timezone: 'UTC',
+    timezone: getUserTimezone().timezone,
     dateFormat: 'mm/dd/yyyy',
     timeFormat: '12',
     firstDayOfWeek: 'sunday',
@@ -70,8 +76,14 @@ const Settings: React.FC = () => {
     emailNotifications: true,
     pushNotifications: true,
     taskReminders: true,
+    reminderLeadHours: 24,
+    quietHoursEnabled: false,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '08:00',
     projectUpdates: true,
     weeklyDigest: false,
+    digestWeekday: 1,
+    digestHour: 9,
     marketingEmails: false,
 
     // Privacy
@@ -130,7 +142,7 @@ const Settings: React.FC = () => {
           // Appearance
           theme: data.theme || 'system',
           language: data.language || 'en',
-          timezone: data.timezone || 'UTC',
+          timezone: data.timezone || getUserTimezone().timezone,
           dateFormat: data.date_format || 'mm/dd/yyyy',
           timeFormat: data.time_format || '12',
           firstDayOfWeek: data.first_day_of_week || 'sunday',
@@ -140,8 +152,14 @@ const Settings: React.FC = () => {
           emailNotifications: data.email_notifications ?? true,
           pushNotifications: data.push_notifications ?? true,
           taskReminders: data.task_reminders ?? true,
+          reminderLeadHours: data.reminder_lead_hours ?? 24,
+          quietHoursEnabled: data.quiet_hours_enabled ?? false,
+          quietHoursStart: data.quiet_hours_start?.slice(0, 5) || '22:00',
+          quietHoursEnd: data.quiet_hours_end?.slice(0, 5) || '08:00',
           projectUpdates: data.project_updates ?? true,
           weeklyDigest: data.weekly_digest ?? false,
+          digestWeekday: data.digest_weekday ?? 1,
+          digestHour: data.digest_hour ?? 9,
           marketingEmails: data.marketing_emails ?? false,
 
           // Privacy
@@ -179,8 +197,14 @@ const Settings: React.FC = () => {
         email_notifications: settings.emailNotifications,
         push_notifications: settings.pushNotifications,
         task_reminders: settings.taskReminders,
+        reminder_lead_hours: settings.reminderLeadHours,
+        quiet_hours_enabled: settings.quietHoursEnabled,
+        quiet_hours_start: settings.quietHoursStart,
+        quiet_hours_end: settings.quietHoursEnd,
         project_updates: settings.projectUpdates,
         weekly_digest: settings.weeklyDigest,
+        digest_weekday: settings.digestWeekday,
+        digest_hour: settings.digestHour,
         marketing_emails: settings.marketingEmails,
         profile_visibility: settings.profileVisibility,
         activity_status: settings.activityStatus,
@@ -217,13 +241,17 @@ const Settings: React.FC = () => {
         setTheme(settings.theme as 'light' | 'dark' | 'system');
       }
 
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: 'settings_update',
-        p_activity_description: 'Updated account settings',
-        p_metadata: { settings_updated: Object.keys(settingsData) }
-      });
+      if (user) {
+        await activityService.log({
+          userId: user.id,
+          action: {
+            type: 'settings_update',
+            resourceType: 'profile',
+            resourceId: user.id,
+            data: { settings_updated: Object.keys(settingsData) }
+          }
+        });
+      }
 
       alert('Settings saved successfully!');
     } catch (error) {
@@ -256,13 +284,12 @@ const Settings: React.FC = () => {
         return;
       }
 
-      // Log activity
-      await supabase.rpc('log_user_activity', {
-        p_user_id: user?.id,
-        p_activity_type: 'password_change',
-        p_activity_description: 'Changed account password',
-        p_metadata: {}
-      });
+      if (user) {
+        await activityService.log({
+          userId: user.id,
+          action: { type: 'password_change', resourceType: 'profile', resourceId: user.id }
+        });
+      }
 
       setPasswordData({
         currentPassword: '',
@@ -314,7 +341,7 @@ const Settings: React.FC = () => {
           </Button>
         </div>
 
-        <Tabs defaultValue="general" className="space-y-6">
+        <Tabs defaultValue={searchParams.get('tab') || 'general'} className="space-y-6">
           <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="notifications">Notifications</TabsTrigger>
@@ -523,6 +550,74 @@ const Settings: React.FC = () => {
                     />
                   </div>
 
+                  {settings.taskReminders && (
+                    <div className="ml-4 space-y-4 border-l pl-4">
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label>Remind Me</Label>
+                          <p className="text-sm text-muted-foreground">
+                            How long before the due date; overdue tasks get one more reminder
+                          </p>
+                        </div>
+                        <Select
+                          value={String(settings.reminderLeadHours)}
+                          onValueChange={(value) =>
+                            setSettings(prev => ({ ...prev, reminderLeadHours: Number(value) }))
+                          }
+                          disabled={loading}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="1">1 hour before</SelectItem>
+                            <SelectItem value="3">3 hours before</SelectItem>
+                            <SelectItem value="12">12 hours before</SelectItem>
+                            <SelectItem value="24">1 day before</SelectItem>
+                            <SelectItem value="48">2 days before</SelectItem>
+                            <SelectItem value="168">1 week before</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-0.5">
+                          <Label>Quiet Hours</Label>
+                          <p className="text-sm text-muted-foreground">
+                            Hold reminders until quiet hours end ({getUserTimezone().abbreviation})
+                          </p>
+                        </div>
+                        <Switch
+                          checked={settings.quietHoursEnabled}
+                          onCheckedChange={(checked) =>
+                            setSettings(prev => ({ ...prev, quietHoursEnabled: checked }))
+                          }
+                          disabled={loading}
+                        />
+                      </div>
+
+                      {settings.quietHoursEnabled && (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={settings.quietHoursStart}
+                            onChange={(e) => setSettings(prev => ({ ...prev, quietHoursStart: e.target.value }))}
+                            disabled={loading}
+                          />
+                          <span className="text-sm text-muted-foreground">to</span>
+                          <Input
+                            type="time"
+                            className="w-32"
+                            value={settings.quietHoursEnd}
+                            onChange={(e) => setSettings(prev => ({ ...prev, quietHoursEnd: e.target.value }))}
+                            disabled={loading}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <Separator />
 
                   <div className="flex items-center justify-between">
@@ -558,9 +653,58 @@ const Settings: React.FC = () => {
                       disabled={loading}
                     />
                   </div>
+
+                  {settings.weeklyDigest && (
+                    <div className="ml-4 flex items-center justify-between border-l pl-4">
+                      <div className="space-y-0.5">
+                        <Label>Send On</Label>
+                        <p className="text-sm text-muted-foreground">
+                          One email per workspace, in your timezone ({getUserTimezone().abbreviation})
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={String(settings.digestWeekday)}
+                          onValueChange={(value) =>
+                            setSettings(prev => ({ ...prev, digestWeekday: Number(value) }))
+                          }
+                          disabled={loading}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'].map((day, index) => (
+                              <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={String(settings.digestHour)}
+                          onValueChange={(value) =>
+                            setSettings(prev => ({ ...prev, digestHour: Number(value) }))
+                          }
+                          disabled={loading}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Array.from({ length: 24 }, (_, hour) => (
+                              <SelectItem key={hour} value={String(hour)}>
+                                {`${String(hour).padStart(2, '0')}:00`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
+
+            <NotificationSettings />
           </TabsContent>
 
           {/* Privacy Tab */}
@@ -798,15 +942,11 @@ const Settings: React.FC = () => {
                   Email Service Configuration
                 </CardTitle>
                 <CardDescription>
-                  Configure and test email notifications for workspace invitations and task updates.
+                  Test email delivery and review the invitations and task updates sent on your behalf.
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {/* <EmailTest /> */}
-                <div className="text-center py-8 text-muted-foreground">
-                  <Mail className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                  <p>Email testing temporarily disabled</p>
-                </div>
+                <EmailDeliveryLog />
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,661 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useTask } from '../contexts/TaskContext';
+import { useAuth } from '../contexts/SupabaseAuthContext';
+import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
+import {
+  useWorkspaceTimeEntries,
+  useIdleTimeEntries,
+  useAssignIdleTime,
+  useTimesheetWeeks,
+  useTimesheetRates,
+  useDeleteTimeEntry,
+  useSetTimesheetWeekStatus
+} from '../hooks/useTimesheetQueries';
+import { useRealtimeSubscription } from '../hooks/useRealtimeSubscription';
+import ModernLayout from '../components/ModernLayout';
+import TimeEntryDialog, { TimesheetTaskOption } from '../components/TimeEntryDialog';
+import TimesheetRatesDialog from '../components/TimesheetRatesDialog';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Download,
+  DollarSign,
+  Lock,
+  CheckCircle2,
+  Unlock,
+  Edit3,
+  Trash2,
+  Clock
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { addDays, format, isToday, parseISO } from 'date-fns';
+import { TimeEntry, TimesheetWeek } from '../types/workspace';
+import { can } from '../utils/permissions';
+import {
+  TimesheetRow,
+  buildTimesheetCsv,
+  buildTimesheetRows,
+  formatHours,
+  getBillableAmount,
+  getEntryMinutes,
+  getWeekDays,
+  getWeekStart,
+  resolveHourlyRate
+} from '../utils/timesheets';
+
+const ALL_MEMBERS = 'all';
+
+interface EntryDialogState {
+  entry?: TimeEntry;
+  defaults?: { taskId?: string; date?: string; userId?: string };
+}
+
+const formatMoney = (amount: number) => amount.toFixed(2);
+
+const Timesheet: React.FC = () => {
+  const { state } = useTask();
+  const { user } = useAuth();
+  const { currentWorkspace, workspaceMembers, currentMember } = useSupabaseWorkspace();
+  const workspaceId = currentWorkspace?.id || '';
+  const isAdmin = can(currentMember, 'member', 'manage');
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [memberFilter, setMemberFilter] = useState<string | null>(null);
+  const [entryDialog, setEntryDialog] = useState<EntryDialogState | null>(null);
+  const [showRatesDialog, setShowRatesDialog] = useState(false);
+  const [idleTaskIds, setIdleTaskIds] = useState<Record<string, string>>({}); // Task picked per idle entry
+
+  const { data: entries = [], isLoading } = useWorkspaceTimeEntries(workspaceId, weekStart);
+  const { data: weeks = [] } = useTimesheetWeeks(workspaceId, weekStart);
+  const { data: rates = [] } = useTimesheetRates(workspaceId, isAdmin);
+  const { data: idleEntries = [] } = useIdleTimeEntries(workspaceId, user?.id || '');
+  const deleteEntry = useDeleteTimeEntry();
+  const assignIdleTime = useAssignIdleTime();
+  const setWeekStatus = useSetTimesheetWeekStatus();
+
+  useRealtimeSubscription({
+    table: 'task_time_entries',
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId
+  });
+  useRealtimeSubscription({
+    table: 'timesheet_weeks',
+    filter: `workspace_id=eq.${workspaceId}`,
+    enabled: !!workspaceId
+  });
+
+  // Admins start on everyone's time, members on their own
+  const selectedMember = memberFilter ?? (isAdmin ? ALL_MEMBERS : user?.id || ALL_MEMBERS);
+  const weekDays = useMemo(() => getWeekDays(weekStart), [weekStart]);
+
+  const taskOptions = useMemo<TimesheetTaskOption[]>(() => [
+    ...state.pages.flatMap(page => page.tasks.map(task => ({ id: task.id, title: task.title, pageTitle: page.title }))),
+    ...state.unassignedTasks.map(task => ({ id: task.id, title: task.title }))
+  ], [state.pages, state.unassignedTasks]);
+
+  const taskInfo = useMemo(() => {
+    const info = new Map<string, { title: string; pageId?: string; pageTitle?: string }>();
+    state.pages.forEach(page => page.tasks.forEach(task =>
+      info.set(task.id, { title: task.title, pageId: page.id, pageTitle: page.title })
+    ));
+    state.unassignedTasks.forEach(task => info.set(task.id, { title: task.title }));
+    return info;
+  }, [state.pages, state.unassignedTasks]);
+
+  const getMember = (userId: string) => workspaceMembers.find(member => member.userId === userId);
+  const getMemberName = (userId: string) => {
+    const member = getMember(userId);
+    return member?.fullName || member?.displayName || member?.email || 'Former member';
+  };
+
+  const visibleEntries = useMemo(
+    () => entries.filter(entry => selectedMember === ALL_MEMBERS || entry.userId === selectedMember),
+    [entries, selectedMember]
+  );
+
+  // Rows per member; a chosen member is shown even before they log time
+  const memberSections = useMemo(() => {
+    const rows = buildTimesheetRows(visibleEntries);
+    const userIds = selectedMember === ALL_MEMBERS
+      ? [...new Set(rows.map(row => row.userId))]
+      : [selectedMember];
+
+    return userIds.map(userId => ({
+      userId,
+      rows: rows
+        .filter(row => row.userId === userId)
+        .sort((a, b) => (taskInfo.get(a.taskId)?.title || '').localeCompare(taskInfo.get(b.taskId)?.title || ''))
+    }));
+  }, [visibleEntries, selectedMember, taskInfo]);
+
+  const getWeekStatus = (userId: string): TimesheetWeek['status'] | null =>
+    weeks.find(week => week.userId === userId)?.status ?? null;
+
+  const canEditMemberTime = (userId: string) =>
+    !getWeekStatus(userId) && (userId === user?.id || isAdmin);
+
+  const getRowRate = (row: TimesheetRow) =>
+    resolveHourlyRate(rates, row.userId, taskInfo.get(row.taskId)?.pageId);
+
+  const shownRows = memberSections.flatMap(section => section.rows);
+  const totals = {
+    minutes: shownRows.reduce((sum, row) => sum + row.totalMinutes, 0),
+    billableMinutes: shownRows.reduce((sum, row) => sum + row.billableMinutes, 0),
+    amount: shownRows.reduce((sum, row) => sum + getBillableAmount(row.billableMinutes, getRowRate(row)), 0),
+    byDay: Object.fromEntries(weekDays.map(day => [
+      day,
+      shownRows.reduce((sum, row) => sum + (row.minutesByDay[day] || 0), 0)
+    ]))
+  };
+
+  const openNewEntry = (defaults?: EntryDialogState['defaults']) => {
+    setEntryDialog({
+      defaults: {
+        date: weekDays.includes(format(new Date(), 'yyyy-MM-dd')) ? format(new Date(), 'yyyy-MM-dd') : weekStart,
+        userId: isAdmin && selectedMember !== ALL_MEMBERS ? selectedMember : user?.id,
+        ...defaults
+      }
+    });
+  };
+
+  const handleDeleteEntry = (entry: TimeEntry) => {
+    if (!confirm('Delete this time entry?')) return;
+    deleteEntry.mutate(entry);
+  };
+
+  const handleDiscardIdleTime = (entry: TimeEntry) => {
+    if (!confirm('Discard this idle time?')) return;
+    deleteEntry.mutate(entry);
+  };
+
+  const handleSetWeekStatus = (userIds: string[], status: TimesheetWeek['status'] | null) => {
+    if (userIds.length === 0) return;
+    setWeekStatus.mutate({ workspaceId, userIds, weekStart, status });
+  };
+
+  const handleExport = () => {
+    const lines = memberSections.flatMap(section => section.rows.map(row => {
+      const task = taskInfo.get(row.taskId);
+      return {
+        member: getMemberName(row.userId),
+        email: getMember(row.userId)?.email,
+        page: task?.pageTitle,
+        task: task?.title || 'Deleted task',
+        totalMinutes: row.totalMinutes,
+        billableMinutes: row.billableMinutes,
+        hourlyRate: isAdmin ? getRowRate(row) : undefined
+      };
+    }));
+
+    const blob = new Blob([buildTimesheetCsv(lines, isAdmin)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `timesheet-${currentWorkspace?.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'workspace'}-${weekStart}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success('Timesheet exported');
+  };
+
+  const renderStatusBadge = (status: TimesheetWeek['status'] | null) => {
+    if (status === 'approved') {
+      return <Badge className="bg-green-100 text-green-800 hover:bg-green-100"><CheckCircle2 className="h-3 w-3 mr-1" />Approved</Badge>;
+    }
+    if (status === 'locked') {
+      return <Badge variant="secondary"><Lock className="h-3 w-3 mr-1" />Locked</Badge>;
+    }
+    return <Badge variant="outline">Open</Badge>;
+  };
+
+  const renderCell = (row: TimesheetRow, day: string) => {
+    const minutes = row.minutesByDay[day] || 0;
+    const cellEntries = row.entries.filter(entry => entry.date === day);
+    const editable = canEditMemberTime(row.userId);
+
+    if (cellEntries.length === 0) {
+      return editable ? (
+        <button
+          type="button"
+          className="w-full rounded py-1 text-muted-foreground/40 hover:bg-accent hover:text-muted-foreground"
+          onClick={() => openNewEntry({ taskId: row.taskId, date: day, userId: row.userId })}
+        >
+          +
+        </button>
+      ) : (
+        <span className="text-muted-foreground/40">–</span>
+      );
+    }
+
+    return (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" className="w-full rounded py-1 font-medium hover:bg-accent">
+            {minutes > 0 ? formatHours(minutes) : <Clock className="h-3 w-3 mx-auto text-muted-foreground" />}
+            {cellEntries.some(entry => entry.billable) && (
+              <DollarSign className="inline h-3 w-3 ml-0.5 text-green-600" />
+            )}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="center" className="w-72 p-0">
+          <div className="border-b px-3 py-2 text-sm font-medium">
+            {format(parseISO(day), 'EEEE d MMM')}
+          </div>
+          <div className="divide-y">
+            {cellEntries.map(entry => (
+              <div key={entry.id} className="flex items-start gap-2 px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {entry.duration ? formatHours(getEntryMinutes(entry)) : 'Timer running'}
+                    {entry.billable && <Badge variant="outline" className="ml-2 text-xs">Billable</Badge>}
+                  </p>
+                  {entry.description && (
+                    <p className="text-xs text-muted-foreground mt-0.5 break-words">{entry.description}</p>
+                  )}
+                </div>
+                {editable && entry.duration !== undefined && (
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setEntryDialog({ entry })}>
+                      <Edit3 className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDeleteEntry(entry)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {editable && (
+            <div className="border-t p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full text-xs"
+                onClick={() => openNewEntry({ taskId: row.taskId, date: day, userId: row.userId })}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add time
+              </Button>
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    );
+  };
+
+  const shownUserIds = memberSections.map(section => section.userId);
+  const weekEnd = addDays(parseISO(weekStart), 6);
+
+  return (
+    <ModernLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Timesheet</h1>
+            <p className="text-muted-foreground mt-1">
+              Time logged across the workspace, by member, task and day
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {isAdmin && (
+              <Button variant="outline" onClick={() => setShowRatesDialog(true)} disabled={!currentWorkspace}>
+                <DollarSign className="h-4 w-4 mr-2" />
+                Rates
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleExport} disabled={totals.minutes === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button className="btn-orange" onClick={() => openNewEntry()} disabled={!currentWorkspace}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Time
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className={`grid grid-cols-1 gap-4 ${isAdmin ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          <Card className="card-modern">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">Total hours</p>
+              <p className="text-2xl font-bold">{formatHours(totals.minutes)}</p>
+            </CardContent>
+          </Card>
+          <Card className="card-modern">
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">Billable hours</p>
+              <p className="text-2xl font-bold">{formatHours(totals.billableMinutes)}</p>
+            </CardContent>
+          </Card>
+          {isAdmin && (
+            <Card className="card-modern">
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">Billable amount</p>
+                <p className="text-2xl font-bold">{formatMoney(totals.amount)}</p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Idle time the timer set aside; it counts nowhere until assigned */}
+        {idleEntries.length > 0 && (
+          <Card className="card-modern">
+            <CardHeader>
+              <CardTitle className="text-lg">Idle time to assign</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {idleEntries.map(entry => {
+                const taskId = idleTaskIds[entry.id] || entry.taskId;
+
+                return (
+                  <div key={entry.id} className="flex flex-wrap items-center gap-3">
+                    <div className="flex items-center gap-2 min-w-[220px] text-sm">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {format(parseISO(entry.startTime), 'EEE d MMM, HH:mm')}
+                        {entry.endTime && `–${format(parseISO(entry.endTime), 'HH:mm')}`}
+                      </span>
+                      <Badge variant="secondary">{formatHours(getEntryMinutes(entry))}</Badge>
+                    </div>
+                    <Select
+                      value={taskId}
+                      onValueChange={(value) => setIdleTaskIds(prev => ({ ...prev, [entry.id]: value }))}
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue placeholder="Choose a task" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {taskOptions.map(task => (
+                          <SelectItem key={task.id} value={task.id}>
+                            {task.pageTitle ? `${task.pageTitle} / ${task.title}` : task.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      className="btn-orange"
+                      onClick={() => assignIdleTime.mutate({ entry, taskId })}
+                      disabled={!taskId || assignIdleTime.isPending}
+                    >
+                      Add to timesheet
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDiscardIdleTime(entry)}
+                      disabled={deleteEntry.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="card-modern">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(addDays(parseISO(weekStart), -7)))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+                  This week
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(addDays(parseISO(weekStart), 7)))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <CardTitle className="text-xl ml-2">
+                  {format(parseISO(weekStart), 'd MMM')} – {format(weekEnd, 'd MMM yyyy')}
+                </CardTitle>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={selectedMember} onValueChange={setMemberFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_MEMBERS}>All members</SelectItem>
+                    {workspaceMembers.map(member => (
+                      <SelectItem key={member.userId} value={member.userId}>
+                        {member.userId === user?.id ? 'Me' : getMemberName(member.userId)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isAdmin && shownUserIds.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSetWeekStatus(shownUserIds, 'approved')}
+                    disabled={setWeekStatus.isPending || shownUserIds.every(id => getWeekStatus(id) === 'approved')}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Approve all
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[220px]">Task</TableHead>
+                    {weekDays.map(day => (
+                      <TableHead
+                        key={day}
+                        className={`w-16 text-center ${isToday(parseISO(day)) ? 'text-primary' : ''}`}
+                      >
+                        <div>{format(parseISO(day), 'EEE')}</div>
+                        <div className="text-xs font-normal">{format(parseISO(day), 'd')}</div>
+                      </TableHead>
+                    ))}
+                    <TableHead className="w-20 text-right">Total</TableHead>
+                    {isAdmin && <TableHead className="w-24 text-right">Amount</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={isAdmin ? 10 : 9} className="py-8 text-center text-muted-foreground">
+                        Loading timesheet...
+                      </TableCell>
+                    </TableRow>
+                  ) : memberSections.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={isAdmin ? 10 : 9} className="py-8 text-center text-muted-foreground">
+                        No time logged this week
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    memberSections.map(section => {
+                      const status = getWeekStatus(section.userId);
+                      const memberMinutes = section.rows.reduce((sum, row) => sum + row.totalMinutes, 0);
+
+                      return (
+                        <React.Fragment key={section.userId}>
+                          <TableRow className="bg-muted/40 hover:bg-muted/40">
+                            <TableCell colSpan={isAdmin ? 10 : 9}>
+                              <div className="flex items-center justify-between gap-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{getMemberName(section.userId)}</span>
+                                  {renderStatusBadge(status)}
+                                  <span className="text-xs text-muted-foreground">{formatHours(memberMinutes)} h</span>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  {canEditMemberTime(section.userId) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      onClick={() => openNewEntry({ userId: section.userId })}
+                                    >
+                                      <Plus className="h-3 w-3 mr-1" />
+                                      Add row
+                                    </Button>
+                                  )}
+                                  {isAdmin && !status && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      onClick={() => handleSetWeekStatus([section.userId], 'locked')}
+                                      disabled={setWeekStatus.isPending}
+                                    >
+                                      <Lock className="h-3 w-3 mr-1" />
+                                      Lock
+                                    </Button>
+                                  )}
+                                  {isAdmin && status !== 'approved' && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      onClick={() => handleSetWeekStatus([section.userId], 'approved')}
+                                      disabled={setWeekStatus.isPending}
+                                    >
+                                      <CheckCircle2 className="h-3 w-3 mr-1" />
+                                      Approve
+                                    </Button>
+                                  )}
+                                  {isAdmin && status && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      onClick={() => handleSetWeekStatus([section.userId], null)}
+                                      disabled={setWeekStatus.isPending}
+                                    >
+                                      <Unlock className="h-3 w-3 mr-1" />
+                                      Reopen
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+
+                          {section.rows.length === 0 && (
+                            <TableRow>
+                              <TableCell colSpan={isAdmin ? 10 : 9} className="text-sm text-muted-foreground">
+                                No time logged this week
+                              </TableCell>
+                            </TableRow>
+                          )}
+
+                          {section.rows.map(row => {
+                            const task = taskInfo.get(row.taskId);
+                            const rate = isAdmin ? getRowRate(row) : undefined;
+
+                            return (
+                              <TableRow key={row.key}>
+                                <TableCell>
+                                  <p className="text-sm font-medium truncate">{task?.title || 'Deleted task'}</p>
+                                  {task?.pageTitle && (
+                                    <p className="text-xs text-muted-foreground truncate">{task.pageTitle}</p>
+                                  )}
+                                </TableCell>
+                                {weekDays.map(day => (
+                                  <TableCell key={day} className="p-1 text-center text-sm">
+                                    {renderCell(row, day)}
+                                  </TableCell>
+                                ))}
+                                <TableCell className="text-right text-sm font-medium">
+                                  {formatHours(row.totalMinutes)}
+                                </TableCell>
+                                {isAdmin && (
+                                  <TableCell
+                                    className="text-right text-sm"
+                                    title={rate === undefined ? 'No rate set' : `${formatMoney(rate)} per hour`}
+                                  >
+                                    {row.billableMinutes > 0
+                                      ? rate === undefined ? '—' : formatMoney(getBillableAmount(row.billableMinutes, rate))
+                                      : ''}
+                                  </TableCell>
+                                )}
+                              </TableRow>
+                            );
+                          })}
+                        </React.Fragment>
+                      );
+                    })
+                  )}
+                </TableBody>
+                {totals.minutes > 0 && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="font-medium">Total</TableCell>
+                      {weekDays.map(day => (
+                        <TableCell key={day} className="text-center text-sm font-medium">
+                          {totals.byDay[day] ? formatHours(totals.byDay[day]) : ''}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-medium">{formatHours(totals.minutes)}</TableCell>
+                      {isAdmin && <TableCell className="text-right font-medium">{formatMoney(totals.amount)}</TableCell>}
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {currentWorkspace && user && (
+        <TimeEntryDialog
+          open={!!entryDialog}
+          onOpenChange={(open) => !open && setEntryDialog(null)}
+          workspaceId={workspaceId}
+          userId={user.id}
+          tasks={taskOptions}
+          members={isAdmin ? workspaceMembers : undefined}
+          entry={entryDialog?.entry}
+          defaults={entryDialog?.defaults}
+        />
+      )}
+
+      {isAdmin && currentWorkspace && (
+        <TimesheetRatesDialog
+          open={showRatesDialog}
+          onOpenChange={setShowRatesDialog}
+          workspaceId={workspaceId}
+          rates={rates}
+          members={workspaceMembers}
+          pages={state.pages}
+        />
+      )}
+    </ModernLayout>
+  );
+};
+
+export default Timesheet;
@@ -47,7 +47,7 @@ const Websites: React.FC = () => {
   const getWebsiteStats = (page: any) => {
     const totalTasks = page.tasks.length;
     const completedTasks = page.tasks.filter((task: any) => task.status === 'done').length;
-    const inProgressTasks = page.tasks.filter((task: any) => task.status === 'in-progress').length;
+    const inProgressTasks = page.tasks.filter((task: any) => task.status === 'progress').length;
     const todoTasks = totalTasks - completedTasks - inProgressTasks;
     const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
     
@@ -126,7 +126,7 @@ const Websites: React.FC = () => {
             <CardContent>
               <div className="text-2xl font-bold text-primary">
                 {state.pages.reduce((total, page) => 
-                  total + page.tasks.filter(task => task.status === 'in-progress').length, 0
+                  total + page.tasks.filter(task => task.status === 'progress').length, 0
                 )}
               </div>
               <p className="text-xs text-muted-foreground">Currently working</p>
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -52,6 +53,13 @@ import { useSupabaseWorkspace } from '../contexts/SupabaseWorkspaceContext';
 import { useAuth } from '../contexts/SupabaseAuthContext';
 import { notificationService } from '../services/notificationService';
 import ModernLayout from '../components/ModernLayout';
+import TagManager from '../components/TagManager';
+import WorkflowEditor from '../components/WorkflowEditor';
+import JoinRequestsCard from '../components/JoinRequestsCard';
+import ActivityFeed from '../components/ActivityFeed';
+import WorkspaceInvitesCard from '../components/WorkspaceInvitesCard';
+import { can, getJoinRole, getRoleChangeError, ROLE_LABELS } from '../utils/permissions';
+import { UserRole, WorkspaceSettings } from '../types/workspace';
 
 import {
   Building2,
@@ -89,6 +97,7 @@ const WorkspaceManagement: React.FC = () => {
     userWorkspaces,
     currentWorkspace,
     workspaceMembers,
+    currentMember,
     loading,
     switchWorkspace,
     createWorkspace,
@@ -111,6 +120,13 @@ const WorkspaceManagement: React.FC = () => {
   const [roleFilter, setRoleFilter] = useState('all');
   const [activeTab, setActiveTab] = useState('overview');
 
+  // What the signed-in user may do in the current workspace
+  const canInviteMembers = can(currentMember, 'member', 'invite');
+  const canManageMembers = can(currentMember, 'member', 'manage');
+  const canRemoveMembers = can(currentMember, 'member', 'delete');
+  const canEditWorkspace = can(currentMember, 'workspace', 'update');
+  const canDeleteWorkspace = can(currentMember, 'workspace', 'delete');
+
   const [newWorkspace, setNewWorkspace] = useState({
     name: '',
     description: ''
@@ -234,16 +250,26 @@ const WorkspaceManagement: React.FC = () => {
     }
   };
 
-  const handleRoleChange = async (workspaceId: string, userId: string, newRole: string) => {
+  const handleRoleChange = async (workspaceId: string, userId: string, newRole: UserRole) => {
     try {
-      await updateMemberRole(workspaceId, userId, newRole as 'admin' | 'member' | 'guest');
-      toast.success('Member role updated successfully!');
+      await updateMemberRole(workspaceId, userId, newRole);
     } catch (error) {
       console.error('Error updating member role:', error);
       toast.error('Failed to update member role');
     }
   };
 
+  const handleJoinSettingChange = async <K extends 'requireApprovalForJoining' | 'allowGuestAccess' | 'defaultMemberRole'>(
+    setting: K,
+    value: WorkspaceSettings[K]
+  ) => {
+    if (!currentWorkspace) return;
+
+    await updateWorkspace(currentWorkspace.id, {
+      settings: { ...currentWorkspace.settings, [setting]: value }
+    });
+  };
+
   const copyInviteLink = (inviteCode: string) => {
     const inviteLink = `${window.location.origin}/join/${inviteCode}`;
     navigator.clipboard.writeText(inviteLink);
@@ -255,7 +281,7 @@ const WorkspaceManagement: React.FC = () => {
       case 'owner': return <Crown className="h-4 w-4 text-yellow-500" />;
       case 'admin': return <Shield className="h-4 w-4 text-blue-500" />;
       case 'member': return <Users className="h-4 w-4 text-green-500" />;
-      case 'viewer': return <Eye className="h-4 w-4 text-gray-500" />;
+      case 'guest': return <Eye className="h-4 w-4 text-gray-500" />;
       default: return <Users className="h-4 w-4" />;
     }
   };
@@ -265,7 +291,7 @@ const WorkspaceManagement: React.FC = () => {
       case 'owner': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'admin': return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'member': return 'bg-green-100 text-green-800 border-green-200';
-      case 'viewer': return 'bg-gray-100 text-gray-800 border-gray-200';
+      case 'guest': return 'bg-gray-100 text-gray-800 border-gray-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
@@ -404,31 +430,35 @@ const WorkspaceManagement: React.FC = () => {
                     </div>
                   </div>
                   <div className="flex gap-2 mt-6">
-                    <Button
-                      onClick={() => {
-                        setSelectedWorkspace(currentWorkspace);
-                        setShowInviteDialog(true);
-                      }}
-                      className="flex items-center gap-2"
-                    >
-                      <UserPlus className="h-4 w-4" />
-                      Invite Members
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setSelectedWorkspace(currentWorkspace);
-                        setEditWorkspace({
-                          name: currentWorkspace.name,
-                          description: currentWorkspace.description || ''
-                        });
-                        setShowEditDialog(true);
-                      }}
-                      className="flex items-center gap-2"
-                    >
-                      <Edit className="h-4 w-4" />
-                      Edit Workspace
-                    </Button>
+                    {canInviteMembers && (
+                      <Button
+                        onClick={() => {
+                          setSelectedWorkspace(currentWorkspace);
+                          setShowInviteDialog(true);
+                        }}
+                        className="flex items-center gap-2"
+                      >
+                        <UserPlus className="h-4 w-4" />
+                        Invite Members
+                      </Button>
+                    )}
+                    {canEditWorkspace && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setSelectedWorkspace(currentWorkspace);
+                          setEditWorkspace({
+                            name: currentWorkspace.name,
+                            description: currentWorkspace.description || ''
+                          });
+                          setShowEditDialog(true);
+                        }}
+                        className="flex items-center gap-2"
+                      >
+                        <Edit className="h-4 w-4" />
+                        Edit Workspace
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       onClick={() => copyInviteLink(currentWorkspace.inviteCode || `invite-${currentWorkspace.id}`)}
@@ -444,6 +474,10 @@ const WorkspaceManagement: React.FC = () => {
 
             {/* Members Tab */}
             <TabsContent value="members" className="space-y-6">
+              {canManageMembers && <JoinRequestsCard />}
+
+              {canInviteMembers && <WorkspaceInvitesCard />}
+
               <Card>
                 <CardHeader>
                   <div className="flex items-center justify-between">
@@ -456,16 +490,18 @@ const WorkspaceManagement: React.FC = () => {
                         Manage members and their roles in {currentWorkspace.name}
                       </CardDescription>
                     </div>
-                    <Button
-                      onClick={() => {
-                        setSelectedWorkspace(currentWorkspace);
-                        setShowInviteDialog(true);
-                      }}
-                      className="flex items-center gap-2"
-                    >
-                      <UserPlus className="h-4 w-4" />
-                      Invite Member
-                    </Button>
+                    {canInviteMembers && (
+                      <Button
+                        onClick={() => {
+                          setSelectedWorkspace(currentWorkspace);
+                          setShowInviteDialog(true);
+                        }}
+                        className="flex items-center gap-2"
+                      >
+                        <UserPlus className="h-4 w-4" />
+                        Invite Member
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -489,7 +525,7 @@ const WorkspaceManagement: React.FC = () => {
                         <SelectItem value="owner">Owner</SelectItem>
                         <SelectItem value="admin">Admin</SelectItem>
                         <SelectItem value="member">Member</SelectItem>
-                        <SelectItem value="viewer">Viewer</SelectItem>
+                        <SelectItem value="guest">Guest</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -525,7 +561,7 @@ const WorkspaceManagement: React.FC = () => {
                               {getRoleIcon(member.role)}
                               {member.role}
                             </Badge>
-                            {member.role !== 'owner' && (
+                            {canManageMembers && (
                               <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
                                   <Button variant="ghost" size="sm">
@@ -535,33 +571,32 @@ const WorkspaceManagement: React.FC = () => {
                                 <DropdownMenuContent align="end">
                                   <DropdownMenuLabel>Manage Member</DropdownMenuLabel>
                                   <DropdownMenuSeparator />
-                                  <DropdownMenuItem
-                                    onClick={() => handleRoleChange(currentWorkspace.id, member.userId, 'admin')}
-                                    disabled={member.role === 'admin'}
-                                  >
-                                    <Shield className="h-4 w-4 mr-2" />
-                                    Make Admin
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem
-                                    onClick={() => handleRoleChange(currentWorkspace.id, member.userId, 'member')}
-                                    disabled={member.role === 'member'}
-                                  >
-                                    <Users className="h-4 w-4 mr-2" />
-                                    Make Member
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem
-                                    onClick={() => handleRoleChange(currentWorkspace.id, member.userId, 'guest')}
-                                    disabled={member.role === 'guest'}
-                                  >
-                                    <Eye className="h-4 w-4 mr-2" />
-                                    Make Guest
-                                  </DropdownMenuItem>
+                                  {([
+                                    { role: 'owner', label: 'Make Owner', icon: Crown },
+                                    { role: 'admin', label: 'Make Admin', icon: Shield },
+                                    { role: 'member', label: 'Make Member', icon: Users },
+                                    { role: 'guest', label: 'Make Guest', icon: Eye }
+                                  ] as const).map(option => {
+                                    const blockedReason = getRoleChangeError(currentMember, member, option.role, workspaceMembers);
+                                    return (
+                                      <DropdownMenuItem
+                                        key={option.role}
+                                        onClick={() => handleRoleChange(currentWorkspace.id, member.userId, option.role)}
+                                        disabled={member.role === option.role || !!blockedReason}
+                                        title={blockedReason || undefined}
+                                      >
+                                        <option.icon className="h-4 w-4 mr-2" />
+                                        {option.label}
+                                      </DropdownMenuItem>
+                                    );
+                                  })}
                                   <DropdownMenuSeparator />
                                   <DropdownMenuItem
                                     onClick={() => {
                                       setSelectedMember(member);
                                       setShowDeleteDialog(true);
                                     }}
+                                    disabled={member.role === 'owner' || !canRemoveMembers}
                                     className="text-red-600"
                                   >
                                     <UserMinus className="h-4 w-4 mr-2" />
@@ -619,47 +654,105 @@ const WorkspaceManagement: React.FC = () => {
                             Copy
                           </Button>
                         </div>
-                      </div>
-                    </div>
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-semibold">Danger Zone</h3>
-                      <div className="p-4 border border-red-200 rounded-lg bg-red-50">
                         <div className="flex items-center justify-between">
                           <div>
-                            <p className="font-medium text-red-800">Delete Workspace</p>
-                            <p className="text-sm text-red-600">Permanently delete this workspace and all its data</p>
+                            <p className="font-medium">Require Approval to Join</p>
+                            <p className="text-sm text-muted-foreground">Admins approve people who join with the invite code</p>
                           </div>
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="destructive" size="sm">
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Delete Workspace</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete "{currentWorkspace.name}"? This action cannot be undone and will permanently delete all workspace data, including tasks, pages, and member information.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => handleDeleteWorkspace(currentWorkspace.id)}
-                                  className="bg-red-600 hover:bg-red-700"
+                          <Switch
+                            checked={!!currentWorkspace.settings?.requireApprovalForJoining}
+                            disabled={!canEditWorkspace}
+                            onCheckedChange={(checked) => handleJoinSettingChange('requireApprovalForJoining', checked)}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">Allow Guest Access</p>
+                            <p className="text-sm text-muted-foreground">Guests get read-only access and can be the role new members join as</p>
+                          </div>
+                          <Switch
+                            checked={!!currentWorkspace.settings?.allowGuestAccess}
+                            disabled={!canEditWorkspace}
+                            onCheckedChange={(checked) => handleJoinSettingChange('allowGuestAccess', checked)}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">Default Role</p>
+                            <p className="text-sm text-muted-foreground">Role for people who join with the invite code</p>
+                          </div>
+                          <Select
+                            value={getJoinRole(currentWorkspace.settings)}
+                            disabled={!canEditWorkspace}
+                            onValueChange={(value) => handleJoinSettingChange('defaultMemberRole', value as UserRole)}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(['admin', 'member', 'guest'] as UserRole[]).map(role => (
+                                <SelectItem
+                                  key={role}
+                                  value={role}
+                                  disabled={role === 'guest' && !currentWorkspace.settings?.allowGuestAccess}
                                 >
-                                  Delete Workspace
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
                       </div>
                     </div>
+                    {canDeleteWorkspace && (
+                      <div className="space-y-4">
+                        <h3 className="text-lg font-semibold">Danger Zone</h3>
+                        <div className="p-4 border border-red-200 rounded-lg bg-red-50">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-red-800">Delete Workspace</p>
+                              <p className="text-sm text-red-600">Permanently delete this workspace and all its data</p>
+                            </div>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="destructive" size="sm">
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Delete
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Workspace</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete "{currentWorkspace.name}"? This action cannot be undone and will permanently delete all workspace data, including tasks, pages, and member information.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDeleteWorkspace(currentWorkspace.id)}
+                                    className="bg-red-600 hover:bg-red-700"
+                                  >
+                                    Delete Workspace
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
+
+              {canEditWorkspace && (
+                <>
+                  <WorkflowEditor />
+
+                  <TagManager workspaceId={currentWorkspace.id} />
+                </>
+              )}
             </TabsContent>
 
             {/* Activity Tab */}
@@ -675,28 +768,7 @@ const WorkspaceManagement: React.FC = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    <div className="flex items-center gap-3 p-3 border rounded-lg">
-                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                      <div className="flex-1">
-                        <p className="text-sm">Workspace created</p>
-                        <p className="text-xs text-muted-foreground">
-                          {new Date(currentWorkspace.createdAt).toLocaleString()}
-                        </p>
-                      </div>
-                    </div>
-                    {workspaceMembers.slice(1).map((member) => (
-                      <div key={member.userId} className="flex items-center gap-3 p-3 border rounded-lg">
-                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                        <div className="flex-1">
-                          <p className="text-sm">{member.displayName} joined the workspace</p>
-                          <p className="text-xs text-muted-foreground">
-                            {new Date(member.joinedAt).toLocaleString()}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  <ActivityFeed workspaceId={currentWorkspace.id} limit={50} />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -880,10 +952,10 @@ const WorkspaceManagement: React.FC = () => {
                     <SelectValue placeholder="Select a role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="viewer">
+                    <SelectItem value="guest">
                       <div className="flex items-center gap-2">
                         <Eye className="h-4 w-4" />
-                        Viewer - Can view content only
+                        Guest - Can view content only
                       </div>
                     </SelectItem>
                     <SelectItem value="member">
@@ -0,0 +1,155 @@
+// Activity Service for EasTask
+// The one activity log (user_activities, sql/ADD_ACTIVITY_LOG.sql). The app
+// logs what the user does here; task creation, deletion and field changes
+// are logged by a database trigger, so every client's edits show up in a
+// task's history. activity_data holds the resource title, the changes and
+// anything else an entry needs to be described.
+
+import { supabase } from '../lib/supabase';
+import { ActivityAction, ActivityChange, ActivityResourceType, UserActivity } from '../types/workspace';
+
+export interface LogActivityParams {
+  userId: string;
+  workspaceId?: string | null;
+  action: ActivityAction;
+  description?: string;
+}
+
+interface SupabaseActivity {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+  activity_type: string;
+  activity_data: Record<string, unknown> | null;
+  resource_type: string | null;
+  resource_id: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+// Rows per request when reading status history; at most the server's max-rows
+const STATUS_CHANGES_PAGE_SIZE = 1000;
+
+const mapSupabaseActivityToLocal = (row: SupabaseActivity): UserActivity => {
+  const { resource_title, changes, ...data } = row.activity_data || {};
+  return {
+    id: row.id,
+    userId: row.user_id,
+    workspaceId: row.workspace_id ?? undefined,
+    action: {
+      type: row.activity_type,
+      resourceType: (row.resource_type as ActivityResourceType) ?? undefined,
+      resourceId: row.resource_id ?? undefined,
+      resourceTitle: typeof resource_title === 'string' ? resource_title : undefined,
+      changes: Array.isArray(changes) ? (changes as ActivityChange[]) : undefined,
+      data
+    },
+    description: row.description ?? undefined,
+    createdAt: row.created_at
+  };
+};
+
+class ActivityService {
+  /**
+   * Log something the user did. Never throws: a lost log line mustn't fail
+   * the action it describes.
+   */
+  async log({ userId, workspaceId, action, description }: LogActivityParams): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('user_activities')
+        .insert({
+          user_id: userId,
+          workspace_id: workspaceId || null,
+          activity_type: action.type,
+          resource_type: action.resourceType || null,
+          resource_id: action.resourceId || null,
+          description: description || null,
+          activity_data: {
+            ...action.data,
+            ...(action.resourceTitle ? { resource_title: action.resourceTitle } : {}),
+            ...(action.changes ? { changes: action.changes } : {})
+          }
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Error logging ${action.type} activity:`, error);
+    }
+  }
+
+  /**
+   * Latest activity in a workspace, newest first
+   */
+  async getWorkspaceActivity(workspaceId: string, limit = 50): Promise<UserActivity[]> {
+    const { data, error } = await supabase
+      .from('user_activities')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapSupabaseActivityToLocal);
+  }
+
+  /**
+   * A task's whole history, newest first
+   */
+  async getTaskActivity(taskId: string): Promise<UserActivity[]> {
+    const { data, error } = await supabase
+      .from('user_activities')
+      .select('*')
+      .eq('resource_type', 'task')
+      .eq('resource_id', taskId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapSupabaseActivityToLocal);
+  }
+
+  /**
+   * Status changes of a workspace's tasks since a moment, oldest first.
+   * Read a page at a time, since PostgREST caps each response (1000 rows
+   * by default) and analytics needs every change in the range.
+   */
+  async getStatusChanges(workspaceId: string, since: string): Promise<UserActivity[]> {
+    const rows: SupabaseActivity[] = [];
+
+    for (let from = 0; ; from += STATUS_CHANGES_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('user_activities')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .eq('activity_type', 'task_updated')
+        .contains('activity_data', { changes: [{ field: 'status' }] })
+        .gte('created_at', since)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + STATUS_CHANGES_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < STATUS_CHANGES_PAGE_SIZE) break;
+    }
+
+    return rows.map(mapSupabaseActivityToLocal);
+  }
+
+  /**
+   * What a user did lately, across workspaces
+   */
+  async getUserActivity(userId: string, limit = 20): Promise<UserActivity[]> {
+    const { data, error } = await supabase
+      .from('user_activities')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(mapSupabaseActivityToLocal);
+  }
+}
+
+export const activityService = new ActivityService();
@@ -1,21 +1,15 @@
 // Email Service for EasTask notifications
-// Supports multiple email providers: Resend, SendGrid, Mailgun, and demo mode
+// Delivery happens in the send-email edge function (Resend, SendGrid, SMTP or a file sink)
 
 import { supabase } from '../lib/supabase';
 
 // Email Service Configuration
-// Set these environment variables:
-// VITE_EMAIL_SERVICE_API_KEY - Your email service API key
-// VITE_EMAIL_SERVICE_PROVIDER - 'resend' | 'sendgrid' | 'mailgun' | 'demo'
-// VITE_FROM_EMAIL - Your verified sender email address
-// VITE_FROM_NAME - Your sender name (e.g., "EasTask Team")
+// Emails are sent by the send-email edge function, which picks the
+// provider (Resend, SendGrid, SMTP or a local file sink) from its own
+// secrets and logs every delivery in email_deliveries.
+// VITE_APP_URL - Your app URL, used for links in emails
 
 const EMAIL_CONFIG = {
-  apiKey: import.meta.env.VITE_EMAIL_SERVICE_API_KEY,
-  provider: import.meta.env.VITE_EMAIL_SERVICE_PROVIDER || 'demo',
-  fromEmail: import.meta.env.VITE_FROM_EMAIL || 'noreply@eastask.com',
-  fromName: import.meta.env.VITE_FROM_NAME || 'EasTask Team',
-  isDemo: !import.meta.env.VITE_EMAIL_SERVICE_API_KEY,
   baseUrl: import.meta.env.VITE_APP_URL || 'http://localhost:8081'
 };
 
@@ -168,21 +162,21 @@ const EMAIL_TEMPLATES = {
       </html>
     `
   },
-  TASK_REMINDER: {
-    subject: 'Task due soon: {{taskTitle}}',
+  MENTION: {
+    subject: '{{authorName}} mentioned you on {{taskTitle}}',
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="background: linear-gradient(135deg, #dc2626 0%, #b91c1c 100%); padding: 30px 20px; text-align: center;">
-          <h1 style="color: white; margin: 0; font-size: 24px;">Task Reminder</h1>
+        <div style="background: linear-gradient(135deg, #f97316 0%, #ea580c 100%); padding: 30px 20px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">You were mentioned</h1>
         </div>
         <div style="padding: 30px 20px; background: #ffffff;">
-          <h2 style="color: #1f2937; margin: 0 0 20px 0;">{{taskTitle}}</h2>
           <p style="color: #4b5563; line-height: 1.6; margin: 0 0 20px 0;">
-            This task is due {{dueDate}} and needs your attention.
+            <strong>{{authorName}}</strong> mentioned you in a comment on <strong>{{taskTitle}}</strong> in {{workspaceName}}:
           </p>
+          <blockquote style="margin: 0 0 20px 0; padding: 12px 16px; background: #f8fafc; border-left: 4px solid #f97316; color: #1f2937; white-space: pre-wrap;">{{commentExcerpt}}</blockquote>
           <div style="text-align: center; margin: 30px 0;">
-            <a href="{{taskLink}}" style="background: linear-gradient(135deg, #dc2626 0%, #b91c1c 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
-              Complete Task
+            <a href="{{commentLink}}" style="background: linear-gradient(135deg, #f97316 0%, #ea580c 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+              View Comment
             </a>
           </div>
         </div>
@@ -232,147 +226,18 @@ export interface EmailNotification {
   subject: string;
   html: string;
   text?: string;
-  type: 'invitation' | 'task_assignment' | 'task_update' | 'workspace_update' | 'task_reminder';
+  type: 'invitation' | 'task_assignment' | 'task_update' | 'workspace_update' | 'task_reminder' | 'weekly_digest' | 'mention' | 'test';
   templateData?: Record<string, any>;
+  unsubscribeUrl?: string;
 }
 
-// Email Provider Interface
-interface EmailProvider {
-  sendEmail(notification: EmailNotification): Promise<boolean>;
-}
-
-// Resend Provider - Uses Supabase Edge Function to avoid CORS issues
-class ResendProvider implements EmailProvider {
-  async sendEmail(notification: EmailNotification): Promise<boolean> {
-    try {
-      // Get current session for authorization
-      const { data: { session } } = await supabase.auth.getSession();
-
-      if (!session) {
-        console.warn('No active session, cannot send email via Edge Function');
-        this.logEmail(notification);
-        return true;
-      }
-
-      // Call the Supabase Edge Function
-      const { data, error } = await supabase.functions.invoke('send-email', {
-        body: {
-          to: notification.to,
-          subject: notification.subject,
-          html: notification.html || '',
-          type: notification.type
-        }
-      });
-
-      if (error) {
-        console.warn('Edge Function email failed:', error.message);
-        // Check if it's a "function not deployed" error
-        if (error.message.includes('FunctionNotFound') || error.message.includes('not found')) {
-          console.log('📧 Edge Function not deployed yet. Email logged:');
-          this.logEmail(notification);
-        } else {
-          console.log('📧 Email sending failed, but continuing invitation flow:');
-          this.logEmail(notification);
-        }
-        return true; // Continue invitation flow
-      }
-
-      if (data?.success) {
-        console.log('✅ Email sent successfully via Edge Function to:', notification.to);
-        return true;
-      } else {
-        console.warn('Email sending returned error:', data?.error);
-        this.logEmail(notification);
-        return true;
-      }
-    } catch (error) {
-      console.error('Email error:', error);
-      this.logEmail(notification);
-      return true; // Continue invitation flow
-    }
-  }
-
-  private logEmail(notification: EmailNotification) {
-    console.log('📧 Email Details (would be sent when Edge Function is deployed):');
-    console.log('  To:', notification.to);
-    console.log('  Subject:', notification.subject);
-    console.log('  Type:', notification.type);
-    console.log('  From:', `${EMAIL_CONFIG.fromName} <${EMAIL_CONFIG.fromEmail}>`);
-  }
-}
-
-// SendGrid Provider
-class SendGridProvider implements EmailProvider {
-  async sendEmail(notification: EmailNotification): Promise<boolean> {
-    try {
-      const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${EMAIL_CONFIG.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          personalizations: [{
-            to: [{ email: notification.to }],
-            subject: notification.subject,
-          }],
-          from: {
-            email: EMAIL_CONFIG.fromEmail,
-            name: EMAIL_CONFIG.fromName,
-          },
-          content: [
-            {
-              type: 'text/html',
-              value: notification.html,
-            },
-            ...(notification.text ? [{
-              type: 'text/plain',
-              value: notification.text,
-            }] : []),
-          ],
-        }),
-      });
-
-      return response.ok;
-    } catch (error) {
-      console.error('SendGrid email error:', error);
-      return false;
-    }
-  }
-}
-
-// Demo Provider (for development)
-class DemoProvider implements EmailProvider {
-  async sendEmail(notification: EmailNotification): Promise<boolean> {
-    console.log('📧 Demo Email Service - Email would be sent:');
-    console.log('To:', notification.to);
-    console.log('Subject:', notification.subject);
-    console.log('Type:', notification.type);
-    console.log('HTML Preview:', notification.html.substring(0, 200) + '...');
-
-    // Show notification in development
-    if (typeof window !== 'undefined') {
-      const message = `📧 Email: ${notification.subject}\nTo: ${notification.to}`;
-      console.log(message);
-    }
-
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return true;
-  }
-}
-
-// Email Provider Factory
-function createEmailProvider(): EmailProvider {
-  switch (EMAIL_CONFIG.provider) {
-    case 'resend':
-      return new ResendProvider();
-    case 'sendgrid':
-      return new SendGridProvider();
-    case 'demo':
-    default:
-      return new DemoProvider();
-  }
+// Response of the send-email edge function
+export interface SendEmailResponse {
+  success: boolean;
+  error?: string;
+  email_id?: string | null;
+  delivery_id?: string;
+  provider?: string;
 }
 
 export interface WorkspaceInvitationData {
@@ -397,12 +262,14 @@ export interface TaskAssignmentData {
   pageTitle?: string;
 }
 
-export interface TaskReminderData {
+export interface MentionData {
   taskId: string;
   taskTitle: string;
-  assigneeEmail: string;
-  dueDate: string;
+  commentId: string;
+  commentText: string; // Plain text, without mention markup
+  authorName: string;
   workspaceName: string;
+  recipientEmail: string;
 }
 
 export interface TaskUpdateData {
@@ -415,51 +282,71 @@ export interface TaskUpdateData {
 }
 
 class EmailService {
-  private provider: EmailProvider;
   private baseUrl = EMAIL_CONFIG.baseUrl;
 
-  constructor() {
-    this.provider = createEmailProvider();
-    console.log(`📧 Email Service initialized with provider: ${EMAIL_CONFIG.provider}`);
-    console.log(`📧 API Key configured: ${!!EMAIL_CONFIG.apiKey}`);
-    console.log(`📧 Demo mode: ${EMAIL_CONFIG.isDemo}`);
+  // Call the send-email edge function; it always answers with a JSON body
+  private async invokeSendEmail(body: Record<string, unknown>): Promise<SendEmailResponse> {
+    const { data, error } = await supabase.functions.invoke('send-email', { body });
+
+    if (error) {
+      // Non-2xx responses still carry the function's own error message
+      const context = (error as { context?: Response }).context;
+      if (context && typeof context.json === 'function') {
+        try {
+          const result = await context.json();
+          return { success: false, error: result.error || error.message };
+        } catch {
+          // Fall through to the generic error
+        }
+      }
+      return { success: false, error: error.message };
+    }
+
+    return data as SendEmailResponse;
   }
 
   // Test email service connection
   async testConnection(): Promise<{ success: boolean; message: string; provider: string }> {
     try {
-      if (EMAIL_CONFIG.isDemo) {
-        return {
-          success: true,
-          message: 'Demo mode - emails will be logged to console',
-          provider: 'demo'
-        };
-      }
-
-      // For production, we would need a backend API endpoint
-      // For now, we'll simulate a successful connection if API key is present
-      if (EMAIL_CONFIG.apiKey && EMAIL_CONFIG.provider === 'resend') {
-        return {
-          success: true,
-          message: 'Email service configured (API key present). Note: Direct API calls require backend endpoint.',
-          provider: 'resend'
-        };
-      }
+      const result = await this.invokeSendEmail({ action: 'status' });
 
       return {
-        success: false,
-        message: 'Email service not properly configured',
-        provider: EMAIL_CONFIG.provider
+        success: result.success,
+        message: result.success
+          ? `Email function reachable, sending with ${result.provider}`
+          : result.error || 'Email function returned an error',
+        provider: result.provider || 'unknown'
       };
     } catch (error) {
       return {
         success: false,
         message: `Connection test failed: ${error}`,
-        provider: EMAIL_CONFIG.provider
+        provider: 'unknown'
       };
     }
   }
 
+  // Send a short email to check the configured provider end to end
+  async sendTestEmail(to: string): Promise<SendEmailResponse> {
+    return this.invokeSendEmail({
+      to,
+      subject: 'EasTask test email',
+      html: `
+        <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #111827;">
+          <h1 style="font-size: 20px; margin: 0 0 12px;">Email delivery works</h1>
+          <p style="color: #6b7280; margin: 0;">This test was sent from EasTask at ${new Date().toLocaleString()}.</p>
+        </div>
+      `,
+      text: 'Email delivery works. This test was sent from EasTask.',
+      type: 'test'
+    });
+  }
+
+  // Retry a failed delivery from the email_deliveries log
+  async retryDelivery(deliveryId: string): Promise<SendEmailResponse> {
+    return this.invokeSendEmail({ deliveryId });
+  }
+
   // Template rendering helper
   private renderTemplate(template: string, data: Record<string, any>): string {
     let rendered = template;
@@ -501,7 +388,7 @@ class EmailService {
         templateData
       };
 
-      const success = await this.provider.sendEmail(notification);
+      const success = await this.sendEmail(notification);
 
       if (success) {
         console.log(`✅ Invitation email sent to ${data.invitedEmail}`);
@@ -539,38 +426,37 @@ class EmailService {
         templateData
       };
 
-      return await this.provider.sendEmail(notification);
+      return await this.sendEmail(notification);
     } catch (error) {
       console.error('Error sending task assignment email:', error);
       return false;
     }
   }
 
-  // Send task reminder email
-  async sendTaskReminder(data: TaskReminderData): Promise<boolean> {
+  // Send an email to someone @mentioned in a comment
+  async sendMention(data: MentionData): Promise<boolean> {
     try {
-      const taskLink = `${this.baseUrl}/tasker?task=${data.taskId}`;
+      const excerpt = data.commentText.length > 300 ? `${data.commentText.slice(0, 300)}…` : data.commentText;
 
       const templateData = {
-        ...data,
-        taskLink,
-        dueDate: new Date(data.dueDate).toLocaleDateString()
+        authorName: this.escapeHtml(data.authorName),
+        taskTitle: this.escapeHtml(data.taskTitle),
+        workspaceName: this.escapeHtml(data.workspaceName),
+        commentExcerpt: this.escapeHtml(excerpt),
+        commentLink: `${this.baseUrl}/tasker?task=${data.taskId}#comment-${data.commentId}`
       };
 
-      const html = this.renderTemplate(EMAIL_TEMPLATES.TASK_REMINDER.html, templateData);
-      const subject = this.renderTemplate(EMAIL_TEMPLATES.TASK_REMINDER.subject, templateData);
-
       const notification: EmailNotification = {
-        to: data.assigneeEmail,
-        subject,
-        html,
-        type: 'task_reminder',
+        to: data.recipientEmail,
+        subject: this.renderTemplate(EMAIL_TEMPLATES.MENTION.subject, data),
+        html: this.renderTemplate(EMAIL_TEMPLATES.MENTION.html, templateData),
+        type: 'mention',
         templateData
       };
 
-      return await this.provider.sendEmail(notification);
+      return await this.sendEmail(notification);
     } catch (error) {
-      console.error('Error sending task reminder:', error);
+      console.error('Error sending mention email:', error);
       return false;
     }
   }
@@ -763,148 +649,34 @@ class EmailService {
     `;
   }
 
-  // Send email via real email service (Resend, SendGrid, etc.)
-  private async sendRealEmail(notification: EmailNotification): Promise<boolean> {
-    try {
-      if (EMAIL_CONFIG.provider === 'resend') {
-        const response = await fetch('https://api.resend.com/emails', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${EMAIL_CONFIG.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            from: EMAIL_CONFIG.fromEmail,
-            to: [notification.to],
-            subject: notification.subject,
-            html: notification.html
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error(`Resend API error: ${response.status}`);
-        }
-
-        const result = await response.json();
-        console.log('✅ Email sent via Resend:', result.id);
-        return true;
-      }
-
-      // Add other providers here (SendGrid, Mailgun, etc.)
-      else {
-        throw new Error(`Email provider '${EMAIL_CONFIG.provider}' not implemented`);
-      }
-    } catch (error) {
-      console.error('Real email service error:', error);
-      throw error;
-    }
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
 
-  // Send email via configured email service
+  // Send email via the send-email edge function, which records it in email_deliveries
   async sendEmail(notification: EmailNotification): Promise<boolean> {
     try {
-      console.log('📧 Sending email:', {
+      const result = await this.invokeSendEmail({
         to: notification.to,
         subject: notification.subject,
+        html: notification.html,
+        text: notification.text,
         type: notification.type,
-        provider: EMAIL_CONFIG.provider,
-        isDemo: EMAIL_CONFIG.isDemo
+        unsubscribeUrl: notification.unsubscribeUrl
       });
 
-      // For now, always use demo mode to avoid CORS issues
-      // In production, deploy the Supabase Edge Function for real email sending
-      console.log('📧 DEMO MODE - Email would be sent:', {
-        to: notification.to,
-        subject: notification.subject,
-        type: notification.type,
-        html: notification.html.substring(0, 100) + '...'
-      });
-
-      // Simulate successful response
-      const response = { ok: true };
-
-      if (response.ok) {
-        console.log('✅ Email sent successfully to:', notification.to);
-
-        // Show a more realistic success message
-        if (typeof window !== 'undefined') {
-          // Create a visual confirmation that email was "sent"
-          const emailDiv = document.createElement('div');
-          emailDiv.style.cssText = `
-            position: fixed;
-            top: 20px;
-            right: 20px;
-            background: #10b981;
-            color: white;
-            padding: 12px 16px;
-            border-radius: 8px;
-            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-            z-index: 10000;
-            font-family: system-ui, -apple-system, sans-serif;
-            font-size: 14px;
-            max-width: 300px;
-          `;
-          emailDiv.innerHTML = `
-            <div style="display: flex; align-items: center; gap: 8px;">
-              <span>📧</span>
-              <div>
-                <div style="font-weight: 600;">Email Sent!</div>
-                <div style="opacity: 0.9; font-size: 12px;">Invitation sent to ${notification.to}</div>
-              </div>
-            </div>
-          `;
-          document.body.appendChild(emailDiv);
-
-          // Remove after 4 seconds
-          setTimeout(() => {
-            if (emailDiv.parentNode) {
-              emailDiv.parentNode.removeChild(emailDiv);
-            }
-          }, 4000);
-        }
-
-        return true;
-      } else {
-        throw new Error('Email service returned error');
+      if (!result.success) {
+        throw new Error(result.error || 'Email service returned error');
       }
+
+      console.log(`✅ Email sent to ${notification.to} via ${result.provider}`);
+      return true;
     } catch (error) {
       console.error('Failed to send email:', error);
-
-      // Show error notification
-      if (typeof window !== 'undefined') {
-        const errorDiv = document.createElement('div');
-        errorDiv.style.cssText = `
-          position: fixed;
-          top: 20px;
-          right: 20px;
-          background: #ef4444;
-          color: white;
-          padding: 12px 16px;
-          border-radius: 8px;
-          box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-          z-index: 10000;
-          font-family: system-ui, -apple-system, sans-serif;
-          font-size: 14px;
-          max-width: 300px;
-        `;
-        errorDiv.innerHTML = `
-          <div style="display: flex; align-items: center; gap: 8px;">
-            <span>❌</span>
-            <div>
-              <div style="font-weight: 600;">Email Failed</div>
-              <div style="opacity: 0.9; font-size: 12px;">Could not send to ${notification.to}</div>
-            </div>
-          </div>
-        `;
-        document.body.appendChild(errorDiv);
-
-        setTimeout(() => {
-          if (errorDiv.parentNode) {
-            errorDiv.parentNode.removeChild(errorDiv);
-          }
-        }, 4000);
-      }
-
       return false;
     }
   }
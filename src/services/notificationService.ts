@@ -3,12 +3,15 @@
 
 import { supabase } from '../lib/supabase';
 import { emailService, WorkspaceInvitationData, TaskAssignmentData } from './emailService';
+import { NotificationChannel, NotificationEvent } from '../types';
+import { resolveNotificationPreferences } from '../utils/notificationPreferences';
+import { activityService } from './activityService';
 
 export interface NotificationData {
   id?: string;
   user_id: string;
   workspace_id: string;
-  type: 'workspace_invitation' | 'task_assignment' | 'task_comment' | 'task_status_change' | 'workspace_update' | 'mention';
+  type: 'workspace_invitation' | 'task_assignment' | 'task_comment' | 'task_status_change' | 'workspace_update' | 'mention' | 'task_reminder';
   title: string;
   message: string;
   data?: Record<string, any>;
@@ -17,16 +20,85 @@ export interface NotificationData {
   action_url?: string;
 }
 
-export interface ActivityData {
+// A user to notify and the channels they want this event on
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  channels: Record<NotificationChannel, boolean>;
+}
+
+interface RecipientRow {
   user_id: string;
-  workspace_id: string;
-  activity_type: string;
-  resource_type: 'workspace' | 'page' | 'task' | 'comment' | 'member';
-  resource_id: string;
-  details: Record<string, any>;
+  email: string | null;
+  preferences: Record<string, Record<string, boolean>> | null;
+  email_enabled: boolean;
+  push_enabled: boolean;
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  'pending': 'To Do',
+  'in_progress': 'In Progress',
+  'completed': 'Completed',
+  'cancelled': 'Cancelled'
+};
+
 class NotificationService {
+  /**
+   * Look up each user's preferences for an event in a workspace. The global
+   * Email and Push Notifications switches in user_settings override them.
+   */
+  async getRecipients(workspaceId: string, event: NotificationEvent, userIds: string[]): Promise<NotificationRecipient[]> {
+    const uniqueIds = [...new Set(userIds.filter(Boolean))];
+    if (uniqueIds.length === 0) return [];
+
+    const { data, error } = await supabase.rpc('get_notification_recipients', {
+      p_workspace_id: workspaceId,
+      p_user_ids: uniqueIds
+    });
+
+    if (error || !data?.success) {
+      // Without sql/ADD_NOTIFICATION_PREFERENCES.sql, fall back to the default
+      // in-app and push preferences; there's no address to email
+      console.error('Error loading notification recipients:', error || data?.error);
+      const defaults = resolveNotificationPreferences(null)[event];
+      return uniqueIds.map(userId => ({
+        userId,
+        email: null,
+        channels: { ...defaults, email: false }
+      }));
+    }
+
+    return ((data.recipients || []) as RecipientRow[]).map(row => {
+      const preferences = resolveNotificationPreferences(row.preferences)[event];
+      return {
+        userId: row.user_id,
+        email: row.email,
+        channels: {
+          in_app: preferences.in_app,
+          email: preferences.email && row.email_enabled && !!row.email,
+          push: preferences.push && row.push_enabled
+        }
+      };
+    });
+  }
+
+  // Create the notification row when the recipient wants it in the list or as a pop-up
+  async notifyRecipient(
+    recipient: NotificationRecipient,
+    notification: Omit<NotificationData, 'id' | 'created_at' | 'user_id'>
+  ): Promise<string | null> {
+    if (!recipient.channels.in_app && !recipient.channels.push) return null;
+
+    return this.createNotification({
+      ...notification,
+      user_id: recipient.userId,
+      data: {
+        ...notification.data,
+        channels: { in_app: recipient.channels.in_app, push: recipient.channels.push }
+      }
+    });
+  }
+
   // Create in-app notification
   async createNotification(notification: Omit<NotificationData, 'id' | 'created_at'>): Promise<string | null> {
     try {
@@ -58,49 +130,6 @@ class NotificationService {
     }
   }
 
-  // Log user activity
-  async logActivity(activity: ActivityData): Promise<void> {
-    try {
-      // First try with details column
-      let { error } = await supabase
-        .from('user_activity')
-        .insert({
-          user_id: activity.user_id,
-          workspace_id: activity.workspace_id,
-          activity_type: activity.activity_type,
-          resource_type: activity.resource_type,
-          resource_id: activity.resource_id,
-          details: activity.details
-        });
-
-      // If details column doesn't exist, try without it
-      if (error && error.message.includes("Could not find the 'details' column")) {
-        console.log('📝 Details column not found, logging activity without details');
-        const { error: retryError } = await supabase
-          .from('user_activity')
-          .insert({
-            user_id: activity.user_id,
-            workspace_id: activity.workspace_id,
-            activity_type: activity.activity_type,
-            resource_type: activity.resource_type,
-            resource_id: activity.resource_id
-          });
-
-        if (retryError) {
-          console.error('Error logging activity (retry):', retryError);
-        } else {
-          console.log('✅ Activity logged (without details):', activity.activity_type);
-        }
-      } else if (error) {
-        console.error('Error logging activity:', error);
-      } else {
-        console.log('✅ Activity logged:', activity.activity_type);
-      }
-    } catch (error) {
-      console.error('Failed to log activity:', error);
-    }
-  }
-
   // Send workspace invitation (email + notification)
   async sendWorkspaceInvitation(data: {
     invitedEmail: string;
@@ -123,23 +152,7 @@ class NotificationService {
         role: data.role
       };
 
-      const emailSent = await emailService.sendWorkspaceInvitation(emailData);
-
-      // Log activity
-      await this.logActivity({
-        user_id: data.inviterUserId,
-        workspace_id: data.workspaceId,
-        activity_type: 'workspace_invitation_sent',
-        resource_type: 'workspace',
-        resource_id: data.workspaceId,
-        details: {
-          invited_email: data.invitedEmail,
-          role: data.role,
-          email_sent: emailSent
-        }
-      });
-
-      return emailSent;
+      return await emailService.sendWorkspaceInvitation(emailData);
     } catch (error) {
       console.error('Error sending workspace invitation:', error);
       return false;
@@ -152,7 +165,7 @@ class NotificationService {
     taskTitle: string;
     taskDescription?: string;
     assigneeUserId: string;
-    assigneeEmail: string;
+    assigneeEmail?: string; // Looked up from the workspace when not given
     assignerUserId: string;
     assignerName: string;
     workspaceId: string;
@@ -162,50 +175,42 @@ class NotificationService {
     priority?: string;
   }): Promise<void> {
     try {
-      // Create in-app notification
-      await this.createNotification({
-        user_id: data.assigneeUserId,
-        workspace_id: data.workspaceId,
-        type: 'task_assignment',
-        title: 'New Task Assignment',
-        message: `${data.assignerName} assigned you the task "${data.taskTitle}"`,
-        data: {
-          task_id: data.taskId,
-          assigner_name: data.assignerName,
-          workspace_name: data.workspaceName
-        },
-        read: false,
-        action_url: `/tasker?task=${data.taskId}`
-      });
-
-      // Send email notification
-      const emailData: TaskAssignmentData = {
-        taskId: data.taskId,
-        taskTitle: data.taskTitle,
-        taskDescription: data.taskDescription,
-        workspaceName: data.workspaceName,
-        assignerName: data.assignerName,
-        assigneeEmail: data.assigneeEmail,
-        dueDate: data.dueDate,
-        priority: data.priority,
-        pageTitle: data.pageTitle
-      };
-
-      await emailService.sendTaskAssignment(data.assigneeEmail, emailData);
+      const [recipient] = await this.getRecipients(data.workspaceId, 'task_assignment', [data.assigneeUserId]);
+
+      if (recipient) {
+        await this.notifyRecipient(recipient, {
+          workspace_id: data.workspaceId,
+          type: 'task_assignment',
+          title: 'New Task Assignment',
+          message: `${data.assignerName} assigned you the task "${data.taskTitle}"`,
+          data: {
+            task_id: data.taskId,
+            task_title: data.taskTitle,
+            assigner_name: data.assignerName,
+            workspace_name: data.workspaceName
+          },
+          read: false,
+          action_url: `/tasker?task=${data.taskId}`
+        });
 
-      // Log activity
-      await this.logActivity({
-        user_id: data.assignerUserId,
-        workspace_id: data.workspaceId,
-        activity_type: 'task_assigned',
-        resource_type: 'task',
-        resource_id: data.taskId,
-        details: {
-          task_title: data.taskTitle,
-          assignee_id: data.assigneeUserId,
-          assigner_name: data.assignerName
+        const assigneeEmail = data.assigneeEmail || recipient.email;
+
+        if (recipient.channels.email && assigneeEmail) {
+          const emailData: TaskAssignmentData = {
+            taskId: data.taskId,
+            taskTitle: data.taskTitle,
+            taskDescription: data.taskDescription,
+            workspaceName: data.workspaceName,
+            assignerName: data.assignerName,
+            assigneeEmail,
+            dueDate: data.dueDate,
+            priority: data.priority,
+            pageTitle: data.pageTitle
+          };
+
+          await emailService.sendTaskAssignment(emailData);
         }
-      });
+      }
 
       console.log('✅ Task assignment notification sent');
     } catch (error) {
@@ -223,49 +228,128 @@ class NotificationService {
     commenterName: string;
     workspaceId: string;
     workspaceName: string;
+    pageTitle?: string;
     notifyUserIds: string[];
   }): Promise<void> {
     try {
-      // Create notifications for all users to notify
-      for (const userId of data.notifyUserIds) {
-        if (userId !== data.commenterUserId) { // Don't notify the commenter
-          await this.createNotification({
-            user_id: userId,
-            workspace_id: data.workspaceId,
-            type: 'task_comment',
-            title: 'New Comment',
-            message: `${data.commenterName} commented on "${data.taskTitle}"`,
-            data: {
-              task_id: data.taskId,
-              comment_id: data.commentId,
-              commenter_name: data.commenterName
-            },
-            read: false,
-            action_url: `/tasker?task=${data.taskId}#comment-${data.commentId}`
+      // Don't notify the commenter
+      const recipients = await this.getRecipients(
+        data.workspaceId,
+        'task_comment',
+        data.notifyUserIds.filter(userId => userId !== data.commenterUserId)
+      );
+
+      for (const recipient of recipients) {
+        await this.notifyRecipient(recipient, {
+          workspace_id: data.workspaceId,
+          type: 'task_comment',
+          title: 'New Comment',
+          message: `${data.commenterName} commented on "${data.taskTitle}"`,
+          data: {
+            task_id: data.taskId,
+            task_title: data.taskTitle,
+            comment_id: data.commentId,
+            commenter_name: data.commenterName
+          },
+          read: false,
+          action_url: `/tasker?task=${data.taskId}#comment-${data.commentId}`
+        });
+
+        if (recipient.channels.email && recipient.email) {
+          await emailService.sendEmail({
+            to: recipient.email,
+            subject: `${data.commenterName} commented on "${data.taskTitle}"`,
+            html: emailService.generateTaskUpdateEmail({
+              taskTitle: data.taskTitle,
+              updateType: 'comment',
+              updaterName: data.commenterName,
+              workspaceName: data.workspaceName,
+              pageTitle: data.pageTitle || 'Tasks',
+              details: data.commentText.substring(0, 300)
+            }),
+            type: 'task_update'
           });
         }
       }
 
-      // Log activity
-      await this.logActivity({
-        user_id: data.commenterUserId,
-        workspace_id: data.workspaceId,
-        activity_type: 'task_comment_added',
-        resource_type: 'comment',
-        resource_id: data.commentId,
-        details: {
-          task_id: data.taskId,
-          task_title: data.taskTitle,
-          comment_text: data.commentText.substring(0, 100) // Truncate for storage
-        }
-      });
-
       console.log('✅ Task comment notifications sent');
     } catch (error) {
       console.error('Error sending task comment notifications:', error);
     }
   }
 
+  // Notify users @mentioned in a comment (in-app + email, per their preferences)
+  async sendMention(data: {
+    taskId: string;
+    taskTitle: string;
+    commentId: string;
+    commentText: string; // Plain text, without mention markup
+    authorUserId: string;
+    authorName: string;
+    workspaceId: string;
+    workspaceName: string;
+    mentionedUserIds: string[];
+  }): Promise<void> {
+    try {
+      // Mentioning yourself doesn't notify anyone
+      const recipients = await this.getRecipients(
+        data.workspaceId,
+        'mention',
+        data.mentionedUserIds.filter(userId => userId !== data.authorUserId)
+      );
+
+      for (const recipient of recipients) {
+        await this.notifyRecipient(recipient, {
+          workspace_id: data.workspaceId,
+          type: 'mention',
+          title: 'You were mentioned',
+          message: `${data.authorName} mentioned you on "${data.taskTitle}"`,
+          data: {
+            task_id: data.taskId,
+            task_title: data.taskTitle,
+            comment_id: data.commentId,
+            author_name: data.authorName
+          },
+          read: false,
+          action_url: `/tasker?task=${data.taskId}#comment-${data.commentId}`
+        });
+
+        if (recipient.channels.email && recipient.email) {
+          await emailService.sendMention({
+            taskId: data.taskId,
+            taskTitle: data.taskTitle,
+            commentId: data.commentId,
+            commentText: data.commentText,
+            authorName: data.authorName,
+            workspaceName: data.workspaceName,
+            recipientEmail: recipient.email
+          });
+        }
+      }
+
+      if (recipients.length > 0) {
+        await activityService.log({
+          userId: data.authorUserId,
+          workspaceId: data.workspaceId,
+          action: {
+            type: 'user_mentioned',
+            resourceType: 'task',
+            resourceId: data.taskId,
+            resourceTitle: data.taskTitle,
+            data: {
+              comment_id: data.commentId,
+              mentioned_user_ids: recipients.map(recipient => recipient.userId)
+            }
+          }
+        });
+      }
+
+      console.log('✅ Mention notifications sent');
+    } catch (error) {
+      console.error('Error sending mention notifications:', error);
+    }
+  }
+
   // Send task status change notification
   async sendTaskStatusChange(data: {
     taskId: string;
@@ -275,56 +359,163 @@ class NotificationService {
     updaterUserId: string;
     updaterName: string;
     workspaceId: string;
+    workspaceName?: string;
+    pageTitle?: string;
     notifyUserIds: string[];
   }): Promise<void> {
     try {
-      const statusMessages = {
-        'pending': 'To Do',
-        'in_progress': 'In Progress',
-        'completed': 'Completed',
-        'cancelled': 'Cancelled'
-      };
+      const statusLabel = STATUS_LABELS[data.newStatus] || data.newStatus;
+      const message = `${data.updaterName} moved "${data.taskTitle}" to ${statusLabel}`;
+
+      // Don't notify the person who made the change
+      const recipients = await this.getRecipients(
+        data.workspaceId,
+        'task_status_change',
+        data.notifyUserIds.filter(userId => userId !== data.updaterUserId)
+      );
+
+      for (const recipient of recipients) {
+        await this.notifyRecipient(recipient, {
+          workspace_id: data.workspaceId,
+          type: 'task_status_change',
+          title: 'Task Status Updated',
+          message,
+          data: {
+            task_id: data.taskId,
+            task_title: data.taskTitle,
+            old_status: data.oldStatus,
+            new_status: data.newStatus,
+            updater_name: data.updaterName
+          },
+          read: false,
+          action_url: `/tasker?task=${data.taskId}`
+        });
 
-      const message = `${data.updaterName} moved "${data.taskTitle}" to ${statusMessages[data.newStatus as keyof typeof statusMessages] || data.newStatus}`;
-
-      // Create notifications for relevant users
-      for (const userId of data.notifyUserIds) {
-        if (userId !== data.updaterUserId) { // Don't notify the person who made the change
-          await this.createNotification({
-            user_id: userId,
-            workspace_id: data.workspaceId,
-            type: 'task_status_change',
-            title: 'Task Status Updated',
-            message,
-            data: {
-              task_id: data.taskId,
-              old_status: data.oldStatus,
-              new_status: data.newStatus,
-              updater_name: data.updaterName
-            },
-            read: false,
-            action_url: `/tasker?task=${data.taskId}`
+        if (recipient.channels.email && recipient.email) {
+          await emailService.sendEmail({
+            to: recipient.email,
+            subject: `"${data.taskTitle}" moved to ${statusLabel}`,
+            html: emailService.generateTaskUpdateEmail({
+              taskTitle: data.taskTitle,
+              updateType: 'status_change',
+              updaterName: data.updaterName,
+              workspaceName: data.workspaceName || 'your workspace',
+              pageTitle: data.pageTitle || 'Tasks',
+              details: `Status changed from ${STATUS_LABELS[data.oldStatus] || data.oldStatus} to ${statusLabel}`
+            }),
+            type: 'task_update'
           });
         }
       }
 
-      // Log activity
-      await this.logActivity({
-        user_id: data.updaterUserId,
-        workspace_id: data.workspaceId,
-        activity_type: 'task_status_changed',
-        resource_type: 'task',
-        resource_id: data.taskId,
-        details: {
-          task_title: data.taskTitle,
-          old_status: data.oldStatus,
-          new_status: data.newStatus
+      console.log('✅ Task status change notifications sent');
+    } catch (error) {
+      console.error('Error sending task status change notifications:', error);
+    }
+  }
+
+  // Tell workspace admins someone asked to join
+  async sendJoinRequest(data: {
+    requestId: string;
+    requesterUserId: string;
+    requesterName: string;
+    workspaceId: string;
+    workspaceName: string;
+    role: string;
+    notifyUserIds: string[];
+  }): Promise<void> {
+    try {
+      const recipients = await this.getRecipients(
+        data.workspaceId,
+        'workspace_update',
+        data.notifyUserIds.filter(userId => userId !== data.requesterUserId)
+      );
+
+      for (const recipient of recipients) {
+        await this.notifyRecipient(recipient, {
+          workspace_id: data.workspaceId,
+          type: 'workspace_update',
+          title: 'New Join Request',
+          message: `${data.requesterName} asked to join ${data.workspaceName}`,
+          data: {
+            join_request_id: data.requestId,
+            requester_id: data.requesterUserId,
+            role: data.role,
+            workspace_name: data.workspaceName
+          },
+          read: false,
+          action_url: '/workspace-management'
+        });
+      }
+
+      await activityService.log({
+        userId: data.requesterUserId,
+        workspaceId: data.workspaceId,
+        action: {
+          type: 'join_request_created',
+          resourceType: 'workspace',
+          resourceId: data.workspaceId,
+          data: { join_request_id: data.requestId, role: data.role }
         }
       });
+    } catch (error) {
+      console.error('Error sending join request notifications:', error);
+    }
+  }
 
-      console.log('✅ Task status change notifications sent');
+  // Tell the requester whether their join request was approved
+  async sendJoinRequestDecision(data: {
+    requestId: string;
+    requesterUserId: string;
+    reviewerUserId: string;
+    reviewerName: string;
+    workspaceId: string;
+    workspaceName: string;
+    approved: boolean;
+    role: string;
+  }): Promise<void> {
+    try {
+      const notification: Omit<NotificationData, 'id' | 'created_at' | 'user_id'> = {
+        workspace_id: data.workspaceId,
+        type: 'workspace_update',
+        title: data.approved ? 'Join Request Approved' : 'Join Request Declined',
+        message: data.approved
+          ? `${data.reviewerName} approved your request to join ${data.workspaceName}`
+          : `Your request to join ${data.workspaceName} was declined`,
+        data: {
+          join_request_id: data.requestId,
+          approved: data.approved,
+          role: data.role,
+          workspace_name: data.workspaceName
+        },
+        read: false,
+        action_url: data.approved ? '/' : undefined
+      };
+
+      if (data.approved) {
+        // The requester is a member now, so their workspace_update preferences apply
+        const recipients = await this.getRecipients(data.workspaceId, 'workspace_update', [data.requesterUserId]);
+        for (const recipient of recipients) {
+          await this.notifyRecipient(recipient, notification);
+        }
+      } else {
+        // Not gated by preferences: a declined requester never joined the workspace,
+        // so they have no preferences there and get_notification_recipients skips them
+        await this.createNotification({ ...notification, user_id: data.requesterUserId });
+      }
+
+      await activityService.log({
+        userId: data.reviewerUserId,
+        workspaceId: data.workspaceId,
+        action: {
+          type: data.approved ? 'join_request_approved' : 'join_request_rejected',
+          resourceType: 'workspace',
+          resourceId: data.workspaceId,
+          data: { join_request_id: data.requestId, requester_id: data.requesterUserId, role: data.role }
+        }
+      });
     } catch (error) {
-      console.error('Error sending task status change notifications:', error);
+      console.error('Error sending join request decision:', error);
     }
   }
 
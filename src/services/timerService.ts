@@ -0,0 +1,227 @@
+// Timer Service for EasTask
+// The one running timer per user. The running entry lives in
+// task_time_entries (end_time IS NULL), so it survives reloads; a unique
+// index and start_time_entry() (sql/ADD_GLOBAL_TIMER.sql) make sure starting
+// a timer stops the previous one. Open tabs tell each other about changes
+// over a BroadcastChannel and share the time of the last user activity
+// through localStorage, which is what idle detection reads.
+
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { activityService } from './activityService';
+
+export interface RunningTimer {
+  entryId: string;
+  taskId: string;
+  taskTitle: string;
+  workspaceId?: string;
+  startTime: string;
+}
+
+export type IdleResolution = 'keep' | 'discard' | 'split';
+
+// Past this long without activity in any tab, the user is asked about the idle time
+export const IDLE_THRESHOLD_MS = 10 * 60 * 1000;
+
+const LAST_ACTIVITY_KEY = 'eastask-timer-last-activity';
+const CHANNEL_NAME = 'eastask-timer';
+
+interface SupabaseRunningEntry {
+  id: string;
+  task_id: string;
+  workspace_id: string | null;
+  start_time: string;
+  tasks: { title: string } | null;
+}
+
+const getDurationMinutes = (start: string, end: Date) =>
+  Math.max(Math.round((end.getTime() - new Date(start).getTime()) / 60000), 0);
+
+class TimerService {
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  /**
+   * The user's running timer, if any
+   */
+  async getRunningTimer(userId: string): Promise<RunningTimer | null> {
+    const { data, error } = await supabase
+      .from('task_time_entries')
+      .select('id, task_id, workspace_id, start_time, tasks(title)')
+      .eq('user_id', userId)
+      .is('end_time', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const entry = data as unknown as SupabaseRunningEntry;
+    return {
+      entryId: entry.id,
+      taskId: entry.task_id,
+      taskTitle: entry.tasks?.title || 'Untitled task',
+      workspaceId: entry.workspace_id ?? undefined,
+      startTime: entry.start_time
+    };
+  }
+
+  /**
+   * Start a timer on a task; a timer already running anywhere is stopped first
+   */
+  async startTimer(userId: string, taskId: string, taskTitle: string): Promise<RunningTimer> {
+    const { data, error } = await supabase.rpc('start_time_entry', {
+      p_task_id: taskId,
+      p_work_date: format(new Date(), 'yyyy-MM-dd')
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to start timer');
+
+    const timer: RunningTimer = {
+      entryId: data.entry.id,
+      taskId,
+      taskTitle,
+      workspaceId: data.entry.workspace_id ?? undefined,
+      startTime: data.entry.start_time
+    };
+
+    await this.logActivity(userId, timer, 'time_tracking_started', { time_entry_id: timer.entryId });
+
+    this.recordActivity();
+    this.notifyTabs();
+    return timer;
+  }
+
+  /**
+   * Stop the running timer, at `endTime` when the end was earlier than now
+   */
+  async stopTimer(userId: string, timer: RunningTimer, endTime: Date = new Date()): Promise<void> {
+    const durationMinutes = getDurationMinutes(timer.startTime, endTime);
+
+    const { error } = await supabase
+      .from('task_time_entries')
+      .update({
+        end_time: endTime.toISOString(),
+        duration_minutes: durationMinutes,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', timer.entryId)
+      .is('end_time', null);
+
+    if (error) throw error;
+
+    await this.logActivity(userId, timer, 'time_tracking_stopped', {
+      time_entry_id: timer.entryId,
+      duration_minutes: durationMinutes
+    });
+
+    this.notifyTabs();
+  }
+
+  /**
+   * Decide what happens to the time since `idleSince`:
+   * keep - it stays on the running entry;
+   * discard - the entry ends when the user went idle and the timer stops;
+   * split - split_idle_time_entry() ends the entry at idleSince, files the
+   * idle time as an unassigned entry (assigned or deleted from the
+   * timesheet) and starts the timer again.
+   * Returns the timer that is running afterwards.
+   */
+  async resolveIdleTime(
+    userId: string,
+    timer: RunningTimer,
+    idleSince: Date,
+    resolution: IdleResolution
+  ): Promise<RunningTimer | null> {
+    this.recordActivity();
+    if (resolution === 'keep') {
+      this.notifyTabs();
+      return timer;
+    }
+
+    if (resolution === 'discard') {
+      await this.stopTimer(userId, timer, idleSince);
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('split_idle_time_entry', {
+      p_entry_id: timer.entryId,
+      p_idle_since: idleSince.toISOString(),
+      p_idle_work_date: format(idleSince, 'yyyy-MM-dd'),
+      p_work_date: format(new Date(), 'yyyy-MM-dd')
+    });
+
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Failed to split idle time');
+
+    const next: RunningTimer = {
+      ...timer,
+      entryId: data.entry.id,
+      startTime: data.entry.start_time
+    };
+
+    await this.logActivity(userId, timer, 'time_tracking_stopped', {
+      time_entry_id: timer.entryId,
+      duration_minutes: data.stopped.duration_minutes,
+      idle_time_entry_id: data.idle.id
+    });
+    await this.logActivity(userId, next, 'time_tracking_started', { time_entry_id: next.entryId });
+
+    this.notifyTabs();
+    return next;
+  }
+
+  // =====================================================
+  // CROSS-TAB STATE
+  // =====================================================
+
+  getLastActivity(): number | null {
+    const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return value > 0 ? value : null;
+  }
+
+  recordActivity(at: number = Date.now()): void {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+  }
+
+  /**
+   * When the user went idle, if the gap since their last activity in any
+   * tab is past the threshold. Time before the timer started doesn't count.
+   */
+  getIdleSince(timer: RunningTimer, now: number = Date.now()): Date | null {
+    const lastActivity = this.getLastActivity();
+    if (!lastActivity) return null;
+
+    const idleSince = Math.max(lastActivity, new Date(timer.startTime).getTime());
+    return now - idleSince > IDLE_THRESHOLD_MS ? new Date(idleSince) : null;
+  }
+
+  // Tell the other open tabs the running timer changed
+  notifyTabs(): void {
+    this.channel?.postMessage({ type: 'timer-changed' });
+  }
+
+  onTabsChanged(listener: () => void): () => void {
+    if (!this.channel) return () => undefined;
+
+    const handler = () => listener();
+    this.channel.addEventListener('message', handler);
+    return () => this.channel?.removeEventListener('message', handler);
+  }
+
+  private logActivity(userId: string, timer: RunningTimer, type: string, data: Record<string, unknown>) {
+    return activityService.log({
+      userId,
+      workspaceId: timer.workspaceId,
+      action: {
+        type,
+        resourceType: 'task',
+        resourceId: timer.taskId,
+        resourceTitle: timer.taskTitle,
+        data
+      }
+    });
+  }
+}
+
+export const timerService = new TimerService();
@@ -3,7 +3,8 @@ export interface Task {
   id: string;
   title: string;
   description: string;
-  status: 'todo' | 'progress' | 'done';
+  status: 'todo' | 'progress' | 'done' | 'cancelled';
+  workflowStatus?: string; // Workspace workflow status id (see utils/workflow)
   dueDate?: string;
   priority?: 'low' | 'medium' | 'high' | 'urgent';
   link?: string;
@@ -24,9 +25,26 @@ export interface Task {
   assignedTo?: string; // Assigned user ID
   assignedToName?: string; // Assigned user name
   estimatedHours?: number; // Time estimation
-  actualHours?: number; // Time spent
+  actualHours?: number; // Tracked time, subtasks included; read-only, kept by the database
   customFields?: Record<string, any>; // Custom field values
   comments?: TaskComment[]; // Task comments
+  recurrence?: TaskRecurrence | null; // Repeat rule; completing the task creates the next occurrence
+  recurrenceSeriesId?: string; // First task of the series this occurrence belongs to
+  recurrenceIndex?: number; // 1-based position in the series
+  number?: number; // Per-workspace sequence, referenced in comments as #TASK-123
+}
+
+// RRULE-style repeat rule (see utils/recurrence)
+export interface TaskRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number; // Every N days/weeks/months
+  weekdays?: number[]; // Weekly: days to repeat on (0 = Sunday)
+  monthlyBy?: 'date' | 'weekday';
+  monthDay?: number; // Monthly by date; clamped to the month's length
+  weekdayOrdinal?: number; // Monthly by weekday: 1-4, or -1 for the last
+  weekday?: number; // Monthly by weekday: 0 = Sunday
+  until?: string; // yyyy-MM-dd, inclusive
+  count?: number; // Total occurrences in the series
 }
 
 export interface SubTask {
@@ -83,6 +101,15 @@ export interface Reaction {
   count: number;
 }
 
+// Earlier text of an edited comment
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  content: string;
+  editedBy?: string;
+  createdAt: string;
+}
+
 export interface Page {
   id: string;
   title: string;
@@ -94,6 +121,16 @@ export interface Page {
   tasks: Task[];
 }
 
+// Workspace tag catalog entry
+export interface WorkspaceTag {
+  id: string;
+  workspaceId: string;
+  name: string;
+  color: string;
+  usageCount: number;
+  createdAt: string;
+}
+
 export interface AppState {
   pages: Page[];
   unassignedTasks: Task[];
@@ -102,7 +139,8 @@ export interface AppState {
 export const TASK_STATUSES = {
   todo: { label: 'To Do', color: 'bg-task-todo', textColor: 'text-blue-700' },
   progress: { label: 'In Progress', color: 'bg-task-progress', textColor: 'text-yellow-700' },
-  done: { label: 'Done', color: 'bg-task-done', textColor: 'text-green-700' }
+  done: { label: 'Done', color: 'bg-task-done', textColor: 'text-green-700' },
+  cancelled: { label: 'Cancelled', color: 'bg-task-cancelled', textColor: 'text-gray-500' }
 } as const;
 
 export const TASK_PRIORITIES = {
@@ -123,21 +161,72 @@ export const CATEGORIES = [
 ];
 
 // Task Templates
+// Text fields may contain {{variables}}; due offsets are relative dates like "+3d"
 export interface TaskTemplate {
   id: string;
+  workspaceId?: string;
   name: string;
   description: string;
   category: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   estimatedHours?: number;
+  dueOffset?: string;
   tags: string[];
   subtasks: Array<{
     title: string;
     description?: string;
+    dueOffset?: string;
   }>;
   customFields?: Record<string, any>;
   createdBy: string;
   createdAt: string;
   isPublic: boolean;
+  isBuiltIn?: boolean; // Ships with the app; not stored per workspace
   usageCount: number;
 }
+
+// Meeting, reminder or goal on the workspace calendar (see sql/ADD_CALENDAR_EVENTS.sql)
+export interface CalendarEvent {
+  id: string;
+  workspaceId: string;
+  title: string;
+  description: string;
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  type: 'meeting' | 'reminder' | 'goal';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  attendeeIds: string[]; // Workspace member user ids
+  meetingLink?: string;
+  location?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type NotificationEvent =
+  | 'task_assignment'
+  | 'task_comment'
+  | 'mention'
+  | 'task_status_change'
+  | 'task_reminder'
+  | 'workspace_update';
+
+export type NotificationChannel = 'in_app' | 'email' | 'push';
+
+// Which channels are on for each event, per user and workspace
+export type NotificationPreferences = Record<NotificationEvent, Record<NotificationChannel, boolean>>;
+
+export interface EmailDelivery {
+  id: string;
+  to: string;
+  subject: string;
+  type: string;
+  provider: string; // 'resend' | 'sendgrid' | 'smtp' | 'file'
+  status: 'queued' | 'sent' | 'failed';
+  providerMessageId?: string;
+  retryCount: number;
+  lastError?: string;
+  sentAt?: string;
+  createdAt: string;
+}
@@ -42,6 +42,27 @@ export interface WorkspaceSettings {
   requireApprovalForJoining: boolean;
   defaultMemberRole: UserRole;
   notificationSettings: NotificationSettings;
+  workflow?: WorkflowDefinition;
+}
+
+// Every workflow status belongs to one of these categories, which decide
+// how the task is stored (tasks.status) and counted in analytics
+export type StatusCategory = 'not_started' | 'active' | 'done' | 'cancelled';
+
+export interface WorkflowStatus {
+  id: string;
+  name: string;
+  category: StatusCategory;
+  color: string;
+  order: number;
+  wipLimit?: number;
+}
+
+export interface WorkflowDefinition {
+  statuses: WorkflowStatus[];
+  // Allowed target status ids per status id; a missing entry allows any move,
+  // an empty list none (a final status)
+  transitions: Record<string, string[]>;
 }
 
 export interface NotificationSettings {
@@ -127,14 +148,37 @@ export interface TaskDependency {
 
 export interface TimeEntry {
   id: string;
+  taskId: string;
+  workspaceId: string;
   userId: string;
+  date: string; // yyyy-MM-dd the time counts towards on timesheets
   startTime: string;
   endTime?: string;
-  duration?: number; // in minutes
+  duration?: number; // in minutes; missing while the timer runs
   description?: string;
   billable: boolean;
 }
 
+// Hourly rate for a member or for a page; a page rate wins (see utils/timesheets)
+export interface TimesheetRate {
+  id: string;
+  workspaceId: string;
+  userId?: string;
+  pageId?: string;
+  hourlyRate: number;
+}
+
+// A member's week an admin has locked or approved; weeks without one are open
+export interface TimesheetWeek {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  weekStart: string; // yyyy-MM-dd, a Monday
+  status: 'locked' | 'approved';
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
 export interface CustomField {
   id: string;
   name: string;
@@ -144,20 +188,33 @@ export interface CustomField {
 }
 
 // Activity and presence tracking
+export type ActivityResourceType = 'task' | 'page' | 'workspace' | 'comment' | 'profile' | 'email';
+
+// A field's value before and after a change, as stored
+export interface ActivityChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ActivityAction {
+  type: string; // e.g. 'task_updated', 'member_invited', 'comment_added'
+  resourceType?: ActivityResourceType;
+  resourceId?: string;
+  resourceTitle?: string;
+  changes?: ActivityChange[];
+  data?: Record<string, unknown>; // Anything else the entry needs to be described
+}
+
 export interface UserActivity {
+  id: string;
   userId: string;
+  workspaceId?: string;
   action: ActivityAction;
-  resourceType: 'task' | 'page' | 'workspace' | 'comment';
-  resourceId: string;
-  details: any;
-  timestamp: string;
+  description?: string;
+  createdAt: string;
 }
 
-export type ActivityAction = 
-  | 'created' | 'updated' | 'deleted' | 'assigned' | 'unassigned'
-  | 'commented' | 'mentioned' | 'completed' | 'reopened'
-  | 'attached' | 'moved' | 'duplicated';
-
 export interface UserPresence {
   userId: string;
   workspaceId: string;
@@ -177,12 +234,43 @@ export interface WorkspaceInvitation {
   inviteeEmail: string;
   role: UserRole;
   inviteCode: string;
-  status: 'pending' | 'accepted' | 'declined' | 'expired';
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'revoked';
   createdAt: string;
   expiresAt: string;
   acceptedAt?: string;
+  revokedAt?: string;
 }
 
+// Shareable invite code that several people can redeem
+export interface WorkspaceInviteLink {
+  id: string;
+  workspaceId: string;
+  code: string;
+  role: UserRole;
+  maxUses?: number; // Unlimited when unset
+  useCount: number;
+  expiresAt?: string; // Never expires when unset
+  createdBy: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+// Request to join a workspace that requires approval
+export interface WorkspaceJoinRequest {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  displayName: string;
+  email: string;
+  role: UserRole; // Role the requester gets once approved
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export type JoinWorkspaceResult = 'joined' | 'requested' | 'failed';
+
 // Real-time collaboration
 export interface CollaborationEvent {
   type: 'task_update' | 'user_joined' | 'user_left' | 'cursor_move' | 'typing';
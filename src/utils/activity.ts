@@ -0,0 +1,177 @@
+import { format } from 'date-fns';
+import { Page } from '../types';
+import { ActivityChange, UserActivity, UserRole, WorkflowDefinition, WorkspaceMember } from '../types/workspace';
+import { formatTaskHours } from './estimates';
+import { ROLE_LABELS } from './permissions';
+import { DEFAULT_WORKFLOW, getWorkflowStatus } from './workflow';
+
+// What ids in an activity entry are resolved against
+export interface ActivityContext {
+  members: WorkspaceMember[];
+  pages?: Page[];
+  workflow?: WorkflowDefinition;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  assigned_to: 'assignee',
+  due_date: 'due date',
+  start_date: 'start date',
+  page_id: 'page',
+  estimated_hours: 'estimate',
+  tags: 'tags'
+};
+
+export const getActivityFieldLabel = (field: string): string =>
+  FIELD_LABELS[field] || field.replace(/_/g, ' ');
+
+export const getMemberName = (members: WorkspaceMember[], userId?: string | null): string => {
+  const member = members.find(m => m.userId === userId);
+  return member ? member.fullName || member.displayName || member.email : 'A former member';
+};
+
+const getRoleLabel = (role: unknown): string =>
+  ROLE_LABELS[role as UserRole] || String(role);
+
+/**
+ * A stored value as people read it: member names for user ids, page titles,
+ * status names from the workspace's workflow (or the default one), dates.
+ */
+export const formatActivityValue = (field: string, value: unknown, context: ActivityContext): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+
+  switch (field) {
+    case 'status': {
+      const id = String(value);
+      const status = getWorkflowStatus(context.workflow || DEFAULT_WORKFLOW, id) || getWorkflowStatus(DEFAULT_WORKFLOW, id);
+      return status?.name || id;
+    }
+    case 'priority':
+      return String(value).charAt(0).toUpperCase() + String(value).slice(1);
+    case 'assigned_to':
+      return getMemberName(context.members, String(value));
+    case 'page_id':
+      return context.pages?.find(page => page.id === value)?.title || 'a deleted page';
+    case 'due_date':
+    case 'start_date':
+      return format(new Date(String(value)), 'MMM d, yyyy');
+    case 'estimated_hours':
+      return formatTaskHours(Number(value));
+    case 'tags':
+      return Array.isArray(value) && value.length > 0 ? value.join(', ') : 'none';
+    default:
+      return String(value);
+  }
+};
+
+const asList = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+// One field change, e.g. 'changed priority from Low to High'
+export const describeChange = (change: ActivityChange, context: ActivityContext): string => {
+  const label = getActivityFieldLabel(change.field);
+  const before = formatActivityValue(change.field, change.before, context);
+  const after = formatActivityValue(change.field, change.after, context);
+
+  switch (change.field) {
+    case 'title':
+      return `renamed it from "${before}" to "${after}"`;
+    case 'description':
+      return 'edited the description';
+    case 'assigned_to':
+      if (!change.after) return `unassigned ${before}`;
+      return change.before ? `reassigned it from ${before} to ${after}` : `assigned it to ${after}`;
+    case 'page_id':
+      return `moved it from ${before} to ${after}`;
+    case 'tags': {
+      const added = asList(change.after).filter(tag => !asList(change.before).includes(tag));
+      const removed = asList(change.before).filter(tag => !asList(change.after).includes(tag));
+      return [
+        added.length > 0 ? `added the tag${added.length > 1 ? 's' : ''} ${added.join(', ')}` : '',
+        removed.length > 0 ? `removed the tag${removed.length > 1 ? 's' : ''} ${removed.join(', ')}` : ''
+      ].filter(Boolean).join(' and ') || 'changed the tags';
+    }
+  }
+
+  if (change.before === null || change.before === undefined) return `set the ${label} to ${after}`;
+  if (change.after === null || change.after === undefined) return `cleared the ${label}`;
+  return `changed the ${label} from ${before} to ${after}`;
+};
+
+/**
+ * What the actor did, to put after their name: 'created "Write docs"'.
+ * Without the resource ('created the task') when it is shown elsewhere,
+ * as in a task's own history.
+ */
+export const describeActivity = (
+  activity: UserActivity,
+  context: ActivityContext,
+  { withResource = true }: { withResource?: boolean } = {}
+): string => {
+  const { type, resourceTitle, changes = [], data = {} } = activity.action;
+  const task = withResource && resourceTitle ? `"${resourceTitle}"` : 'the task';
+  const on = withResource && resourceTitle ? ` on "${resourceTitle}"` : '';
+
+  switch (type) {
+    case 'task_created':
+      return `created ${task}`;
+    case 'task_deleted':
+      return `deleted ${task}`;
+    case 'task_updated':
+      if (changes.length === 1) return `${describeChange(changes[0], context)}${on}`;
+      return `updated the ${changes.map(change => getActivityFieldLabel(change.field)).join(', ')}${on}`;
+    case 'comment_added':
+      return `commented${on}`;
+    case 'comment_reply':
+      return `replied to a comment${on}`;
+    case 'user_mentioned': {
+      const count = asList(data.mentioned_user_ids).length;
+      return `mentioned ${count === 1 ? 'someone' : `${count} people`}${on}`;
+    }
+    case 'time_tracking_started':
+      return `started a timer${on}`;
+    case 'time_tracking_stopped':
+      return `tracked ${formatTaskHours(Number(data.duration_minutes || 0) / 60)}${on}`;
+    case 'workspace_created':
+      return 'created the workspace';
+    case 'member_invited':
+      return `invited ${data.invitee_email} as ${getRoleLabel(data.role)}`;
+    case 'invitation_revoked':
+      return `revoked the invitation for ${data.invitee_email}`;
+    case 'invitation_resent':
+      return `resent the invitation to ${data.invitee_email}`;
+    case 'invite_code_regenerated':
+      return 'regenerated the invite code';
+    case 'invite_link_created':
+      return `created an invite link for ${getRoleLabel(data.role)}s`;
+    case 'invite_link_revoked':
+      return 'revoked an invite link';
+    case 'member_joined':
+      return 'joined the workspace';
+    case 'member_removed':
+      return `removed ${data.removed_member || getMemberName(context.members, String(data.removed_user_id))}`;
+    case 'member_role_changed':
+      return `changed ${data.member || getMemberName(context.members, String(data.member_user_id))}'s role from ${getRoleLabel(data.old_role)} to ${getRoleLabel(data.new_role)}`;
+    case 'join_request_created':
+      return 'asked to join the workspace';
+    case 'join_request_approved':
+      return `approved ${getMemberName(context.members, String(data.requester_id))}'s request to join`;
+    case 'join_request_rejected':
+      return 'declined a request to join';
+    case 'profile_update':
+      return 'updated their profile';
+    case 'profile_image_update':
+      return 'changed their profile photo';
+    case 'settings_update':
+      return 'updated their settings';
+    case 'password_change':
+      return 'changed their password';
+    case 'email_sent':
+      return `sent "${data.subject}" to ${data.to}`;
+    default:
+      // Entries from before the log was typed kept their own description
+      return activity.description || type.replace(/_/g, ' ');
+  }
+};
@@ -0,0 +1,320 @@
+import {
+  differenceInHours,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  format,
+  isAfter,
+  startOfWeek
+} from 'date-fns';
+import { Task } from '../types';
+import { StatusCategory, UserActivity, WorkflowDefinition } from '../types/workspace';
+import { categoryToTaskStatus, DEFAULT_WORKFLOW, getOrderedStatuses, getWorkflowStatus, resolveTaskWorkflowStatus } from './workflow';
+
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+}
+
+// A task moving between workflow statuses, as logged in its history
+export interface StatusTransition {
+  taskId: string;
+  at: string; // ISO, in UTC so entries compare as strings
+  from: string;
+  to: string;
+}
+
+export interface BurnPoint {
+  date: string; // yyyy-MM-dd
+  scope: number; // Tasks that existed and weren't cancelled
+  done: number;
+  remaining: number;
+  ideal: number;
+}
+
+export type FlowPoint = { date: string } & Record<string, number | string>;
+
+export interface TaskCompletion {
+  task: Task;
+  completedAt: Date;
+  leadDays: number; // Created to done
+  cycleDays?: number; // First started to done; unknown when the start wasn't logged
+}
+
+export interface DurationBucket {
+  label: string;
+  lead: number;
+  cycle: number;
+}
+
+export interface DurationSummary {
+  count: number;
+  median: number;
+  p85: number;
+}
+
+export interface ThroughputPoint {
+  week: string; // Monday, yyyy-MM-dd
+  completed: number;
+}
+
+export interface WorkloadRow {
+  key: string; // Assignee id, or UNASSIGNED
+  notStarted: number;
+  active: number;
+  overdue: number;
+  remainingHours: number; // Estimate not yet covered by tracked time
+}
+
+export const UNASSIGNED = 'unassigned';
+
+// yyyy-MM-dd -> "Oct 18", for chart axes
+export const formatChartDate = (date: string): string => format(new Date(`${date}T00:00:00`), 'MMM d');
+
+// History before the range still decides when in-range tasks were started
+export const HISTORY_LOOKBACK_DAYS = 90;
+
+const DURATION_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '< 1 day', maxDays: 1 },
+  { label: '1-2 days', maxDays: 2 },
+  { label: '2-4 days', maxDays: 4 },
+  { label: '4-7 days', maxDays: 7 },
+  { label: '1-2 weeks', maxDays: 14 },
+  { label: '2-4 weeks', maxDays: 28 },
+  { label: '4+ weeks', maxDays: Infinity }
+];
+
+/**
+ * A logged status id as a status of the current workflow. Ids the workflow
+ * no longer has fall back like tasks do: to the first status in the
+ * category the default workflow gives them.
+ */
+const normalizeStatusId = (id: string, workflow: WorkflowDefinition): string => {
+  if (getWorkflowStatus(workflow, id)) return id;
+  const category: StatusCategory = getWorkflowStatus(DEFAULT_WORKFLOW, id)?.category || 'not_started';
+  return resolveTaskWorkflowStatus({ status: categoryToTaskStatus(category), workflowStatus: id }, workflow).id;
+};
+
+const getCategory = (statusId: string, workflow: WorkflowDefinition): StatusCategory =>
+  getWorkflowStatus(workflow, statusId)?.category || 'not_started';
+
+// Status changes out of task history entries, oldest first
+export const getStatusTransitions = (activities: UserActivity[], workflow: WorkflowDefinition): StatusTransition[] =>
+  activities
+    .flatMap(activity => (activity.action.changes || [])
+      .filter(change => change.field === 'status' && activity.action.resourceId)
+      .map(change => ({
+        taskId: activity.action.resourceId!,
+        at: new Date(activity.createdAt).toISOString(),
+        from: normalizeStatusId(String(change.before), workflow),
+        to: normalizeStatusId(String(change.after), workflow)
+      })))
+    .sort((a, b) => a.at.localeCompare(b.at));
+
+/**
+ * Status history per task. Tasks completed before their changes were logged
+ * get one move, from the first status to the current one at completedAt.
+ */
+export const groupTransitionsByTask = (
+  tasks: Task[],
+  transitions: StatusTransition[],
+  workflow: WorkflowDefinition
+): Map<string, StatusTransition[]> => {
+  const byTask = new Map<string, StatusTransition[]>();
+  transitions.forEach(transition => {
+    byTask.set(transition.taskId, [...(byTask.get(transition.taskId) || []), transition]);
+  });
+
+  const firstStatus = getOrderedStatuses(workflow)[0]?.id;
+  tasks.forEach(task => {
+    if (byTask.has(task.id) || !task.completedAt || !firstStatus) return;
+    byTask.set(task.id, [{
+      taskId: task.id,
+      at: new Date(task.completedAt).toISOString(),
+      from: firstStatus,
+      to: resolveTaskWorkflowStatus(task, workflow).id
+    }]);
+  });
+
+  return byTask;
+};
+
+// A task's status at a moment, or null when it didn't exist yet
+export const getStatusAt = (
+  task: Task,
+  history: StatusTransition[],
+  at: Date,
+  workflow: WorkflowDefinition
+): string | null => {
+  if (isAfter(new Date(task.createdAt), at)) return null;
+
+  const time = at.toISOString();
+  const last = [...history].reverse().find(transition => transition.at <= time);
+  if (last) return last.to;
+
+  const next = history.find(transition => transition.at > time);
+  return next ? next.from : resolveTaskWorkflowStatus(task, workflow).id;
+};
+
+// Days of the range, each ending at the end of the day (or now, for today)
+const getRangeDays = (range: AnalyticsRange): { date: string; at: Date }[] => {
+  const now = new Date();
+  return eachDayOfInterval({ start: range.from, end: range.to })
+    .filter(day => !isAfter(day, now))
+    .map(day => {
+      const end = endOfDay(day);
+      return { date: format(day, 'yyyy-MM-dd'), at: isAfter(end, now) ? now : end };
+    });
+};
+
+/**
+ * Burndown and burnup in one series. The ideal line runs from the work
+ * remaining on the first day to none on the last day of the range.
+ */
+export const buildBurnChart = (
+  tasks: Task[],
+  histories: Map<string, StatusTransition[]>,
+  range: AnalyticsRange,
+  workflow: WorkflowDefinition
+): BurnPoint[] => {
+  const days = getRangeDays(range);
+  const totalDays = Math.max(eachDayOfInterval({ start: range.from, end: range.to }).length - 1, 1);
+
+  const points = days.map(({ date, at }) => {
+    let scope = 0;
+    let done = 0;
+    tasks.forEach(task => {
+      const status = getStatusAt(task, histories.get(task.id) || [], at, workflow);
+      if (!status) return;
+      const category = getCategory(status, workflow);
+      if (category === 'cancelled') return;
+      scope += 1;
+      if (category === 'done') done += 1;
+    });
+    return { date, scope, done, remaining: scope - done, ideal: 0 };
+  });
+
+  const start = points[0]?.remaining || 0;
+  return points.map((point, index) => ({
+    ...point,
+    ideal: Math.max(Math.round((start - (start * index) / totalDays) * 10) / 10, 0)
+  }));
+};
+
+// Tasks per workflow status for each day of the range, keyed by status id
+export const buildCumulativeFlow = (
+  tasks: Task[],
+  histories: Map<string, StatusTransition[]>,
+  range: AnalyticsRange,
+  workflow: WorkflowDefinition
+): FlowPoint[] => {
+  const statuses = getOrderedStatuses(workflow);
+
+  return getRangeDays(range).map(({ date, at }) => {
+    const point: FlowPoint = { date };
+    statuses.forEach(status => { point[status.id] = 0; });
+    tasks.forEach(task => {
+      const status = getStatusAt(task, histories.get(task.id) || [], at, workflow);
+      if (status) point[status] = Number(point[status] || 0) + 1;
+    });
+    return point;
+  });
+};
+
+/**
+ * Tasks finished in the range with their lead time (created to done) and
+ * cycle time (first moved into an active status to done). A task reopened
+ * and finished again counts from its last completion.
+ */
+export const getCompletions = (
+  tasks: Task[],
+  histories: Map<string, StatusTransition[]>,
+  range: AnalyticsRange,
+  workflow: WorkflowDefinition
+): TaskCompletion[] => {
+  const from = range.from.toISOString();
+  const to = endOfDay(range.to).toISOString();
+
+  return tasks.flatMap(task => {
+    if (resolveTaskWorkflowStatus(task, workflow).category !== 'done') return [];
+
+    const history = histories.get(task.id) || [];
+    const completion = [...history].reverse().find(transition =>
+      getCategory(transition.to, workflow) === 'done' && getCategory(transition.from, workflow) !== 'done'
+    );
+    const completedAt = completion?.at || (task.completedAt && new Date(task.completedAt).toISOString());
+    if (!completedAt || completedAt < from || completedAt > to) return [];
+
+    const started = history.find(transition =>
+      transition.at <= completedAt && getCategory(transition.to, workflow) === 'active'
+    );
+    const toDays = (start: string) => Math.max(differenceInHours(new Date(completedAt), new Date(start)), 0) / 24;
+
+    return [{
+      task,
+      completedAt: new Date(completedAt),
+      leadDays: toDays(task.createdAt),
+      cycleDays: started ? toDays(started.at) : undefined
+    }];
+  });
+};
+
+export const buildDurationDistribution = (completions: TaskCompletion[]): DurationBucket[] => {
+  const bucketOf = (days: number) => DURATION_BUCKETS.findIndex(bucket => days < bucket.maxDays);
+  const buckets = DURATION_BUCKETS.map(bucket => ({ label: bucket.label, lead: 0, cycle: 0 }));
+
+  completions.forEach(completion => {
+    buckets[bucketOf(completion.leadDays)].lead += 1;
+    if (completion.cycleDays !== undefined) buckets[bucketOf(completion.cycleDays)].cycle += 1;
+  });
+
+  return buckets;
+};
+
+const percentile = (sorted: number[], share: number): number => {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(Math.ceil(sorted.length * share) - 1, sorted.length - 1)];
+};
+
+// Median and 85th percentile in days, rounded to a tenth
+export const summarizeDurations = (days: number[]): DurationSummary => {
+  const sorted = [...days].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return { count: sorted.length, median: round(percentile(sorted, 0.5)), p85: round(percentile(sorted, 0.85)) };
+};
+
+// Tasks completed per week (starting Monday) of the range
+export const buildThroughput = (completions: TaskCompletion[], range: AnalyticsRange): ThroughputPoint[] => {
+  const weeks = eachWeekOfInterval({ start: range.from, end: range.to }, { weekStartsOn: 1 })
+    .map(week => format(week, 'yyyy-MM-dd'));
+  const counts = new Map(weeks.map(week => [week, 0]));
+
+  completions.forEach(completion => {
+    const week = format(startOfWeek(completion.completedAt, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    if (counts.has(week)) counts.set(week, counts.get(week)! + 1);
+  });
+
+  return weeks.map(week => ({ week, completed: counts.get(week) || 0 }));
+};
+
+// Open work per assignee right now, busiest first
+export const buildWorkload = (tasks: Task[], workflow: WorkflowDefinition, now: Date = new Date()): WorkloadRow[] => {
+  const byMember = new Map<string, WorkloadRow>();
+
+  tasks.forEach(task => {
+    const category = resolveTaskWorkflowStatus(task, workflow).category;
+    if (category === 'done' || category === 'cancelled') return;
+
+    const key = task.assignedTo || UNASSIGNED;
+    const row = byMember.get(key) || { key, notStarted: 0, active: 0, overdue: 0, remainingHours: 0 };
+    if (category === 'active') row.active += 1;
+    else row.notStarted += 1;
+    if (task.dueDate && new Date(task.dueDate) < now) row.overdue += 1;
+    row.remainingHours += Math.max((task.estimatedHours || 0) - (task.actualHours || 0), 0);
+    byMember.set(key, row);
+  });
+
+  return Array.from(byMember.values())
+    .map(row => ({ ...row, remainingHours: Math.round(row.remainingHours * 10) / 10 }))
+    .sort((a, b) => (b.notStarted + b.active) - (a.notStarted + a.active));
+};
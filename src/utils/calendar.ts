@@ -0,0 +1,116 @@
+import { addDays, addMinutes, format, isValid, parseISO } from 'date-fns';
+import { CalendarEvent, Task } from '../types';
+
+// A busy stretch of one day, in the attendees' local time
+export interface BusyBlock {
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  userIds?: string[]; // Who is busy; everyone when left out
+}
+
+export interface FreeSlot {
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface FindSlotsOptions {
+  busy: BusyBlock[];
+  durationMinutes: number;
+  days: number;
+  attendeeIds?: string[]; // Only their blocks count; everyone's when empty
+  from?: Date;
+  dayStartMinutes?: number;
+  dayEndMinutes?: number;
+  stepMinutes?: number;
+}
+
+const DEFAULT_TASK_BLOCK_MINUTES = 60;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (total: number): string =>
+  `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+
+// Date-only values come back from the database as midnight UTC
+const hasTimeOfDay = (value?: string) => !!value && /T(?!00:00(:00)?(\.0+)?(Z|[+-]00:?00)?$)/.test(value);
+
+/**
+ * The slot a task is booked into, if any. A task has a time block when
+ * its start date carries a time of day; the block runs until a later
+ * due time on the same day, else for its estimate (an hour by default).
+ */
+export const getTaskTimeBlock = (task: Task): BusyBlock | null => {
+  if (!hasTimeOfDay(task.startDate)) return null;
+
+  const start = parseISO(task.startDate!);
+  if (!isValid(start)) return null;
+
+  const due = task.dueDate ? parseISO(task.dueDate) : null;
+  const sameDayDue = due && isValid(due) && hasTimeOfDay(task.dueDate) &&
+    format(due, 'yyyy-MM-dd') === format(start, 'yyyy-MM-dd') && due > start;
+  const end = sameDayDue
+    ? due!
+    : addMinutes(start, task.estimatedHours ? Math.round(task.estimatedHours * 60) : DEFAULT_TASK_BLOCK_MINUTES);
+
+  return {
+    date: format(start, 'yyyy-MM-dd'),
+    startTime: format(start, 'HH:mm'),
+    // Blocks that run past midnight are cut at the end of the day
+    endTime: format(end, 'yyyy-MM-dd') === format(start, 'yyyy-MM-dd') ? format(end, 'HH:mm') : '23:59',
+    userIds: task.assignedTo ? [task.assignedTo] : undefined
+  };
+};
+
+// Everyone invited to the event is busy, including whoever booked it
+export const getEventBusyBlock = (event: CalendarEvent): BusyBlock => ({
+  date: event.date,
+  startTime: event.startTime,
+  endTime: event.endTime,
+  userIds: Array.from(new Set([event.createdBy, ...event.attendeeIds]))
+});
+
+const overlaps = (slot: FreeSlot, block: BusyBlock) =>
+  slot.date === block.date &&
+  toMinutes(slot.startTime) < toMinutes(block.endTime) &&
+  toMinutes(block.startTime) < toMinutes(slot.endTime);
+
+const concerns = (block: BusyBlock, attendeeIds: string[]) =>
+  attendeeIds.length === 0 || !block.userIds || block.userIds.some(id => attendeeIds.includes(id));
+
+/**
+ * Slots of `durationMinutes` within working hours over the next `days`
+ * days that clash with none of the relevant busy blocks. Slots earlier
+ * than `from` on its own day are skipped.
+ */
+export const findFreeSlots = ({
+  busy,
+  durationMinutes,
+  days,
+  attendeeIds = [],
+  from = new Date(),
+  dayStartMinutes = 9 * 60,
+  dayEndMinutes = 18 * 60,
+  stepMinutes = 30
+}: FindSlotsOptions): FreeSlot[] => {
+  const relevant = busy.filter(block => concerns(block, attendeeIds));
+  const nowMinutes = from.getHours() * 60 + from.getMinutes();
+  const slots: FreeSlot[] = [];
+
+  for (let day = 0; day < days; day++) {
+    const date = format(addDays(from, day), 'yyyy-MM-dd');
+
+    for (let start = dayStartMinutes; start + durationMinutes <= dayEndMinutes; start += stepMinutes) {
+      if (day === 0 && start < nowMinutes) continue;
+
+      const slot = { date, startTime: fromMinutes(start), endTime: fromMinutes(start + durationMinutes) };
+      if (!relevant.some(block => overlaps(slot, block))) slots.push(slot);
+    }
+  }
+
+  return slots;
+};
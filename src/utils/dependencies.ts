@@ -0,0 +1,296 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { Task, TaskDependency } from '../types';
+import { parseTaskDate } from './recurrence';
+
+export interface TaskBlocker {
+  dependency: TaskDependency;
+  predecessor: Task;
+}
+
+export interface DateSuggestion {
+  task: Task;
+  startDate?: string; // yyyy-MM-dd
+  dueDate?: string; // yyyy-MM-dd
+}
+
+interface Schedule {
+  start: Date | null;
+  due: Date | null;
+}
+
+const START_CONSTRAINTS: TaskDependency['type'][] = ['finish_to_start', 'start_to_start'];
+const FINISH_CONSTRAINTS: TaskDependency['type'][] = ['finish_to_finish', 'start_to_finish'];
+
+// Guards the date walk against graphs that already contain a cycle
+const MAX_SCHEDULING_STEPS = 1000;
+
+// A cancelled predecessor no longer holds anything up
+const isStarted = (task: Task) => task.status !== 'todo';
+const isFinished = (task: Task) => task.status === 'done' || task.status === 'cancelled';
+
+const isSatisfied = (type: TaskDependency['type'], predecessor: Task) =>
+  type === 'finish_to_start' || type === 'finish_to_finish' ? isFinished(predecessor) : isStarted(predecessor);
+
+export const buildTaskMap = (tasks: Task[]): Map<string, Task> => new Map(tasks.map(task => [task.id, task]));
+
+const getUnmetDependencies = (
+  taskId: string,
+  types: TaskDependency['type'][],
+  dependencies: TaskDependency[],
+  tasksById: Map<string, Task>
+): TaskBlocker[] =>
+  dependencies
+    .filter(dependency => dependency.dependentTaskId === taskId && types.includes(dependency.type))
+    .flatMap(dependency => {
+      const predecessor = tasksById.get(dependency.dependsOnTaskId);
+      return predecessor && !isSatisfied(dependency.type, predecessor) ? [{ dependency, predecessor }] : [];
+    });
+
+/**
+ * Whether `dependsOnTaskId` already depends on `taskId` anywhere up the
+ * graph, in which case adding taskId -> dependsOnTaskId closes a cycle.
+ */
+export const wouldCreateCycle = (dependencies: TaskDependency[], taskId: string, dependsOnTaskId: string): boolean => {
+  const predecessors = new Map<string, string[]>();
+  dependencies.forEach(dependency => {
+    predecessors.set(dependency.dependentTaskId, [
+      ...(predecessors.get(dependency.dependentTaskId) || []),
+      dependency.dependsOnTaskId
+    ]);
+  });
+
+  const stack = [dependsOnTaskId];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(predecessors.get(current) || []));
+  }
+
+  return false;
+};
+
+/**
+ * Predecessors that stop `task` moving to `targetStatus`. Start
+ * constraints apply when a to-do task is started (or completed
+ * straight away), finish constraints whenever it is completed.
+ */
+export const getTransitionBlockers = (
+  task: Task,
+  targetStatus: Task['status'],
+  dependencies: TaskDependency[],
+  tasksById: Map<string, Task>
+): TaskBlocker[] => {
+  const types: TaskDependency['type'][] = [];
+  if (task.status === 'todo' && (targetStatus === 'progress' || targetStatus === 'done')) {
+    types.push(...START_CONSTRAINTS);
+  }
+  if (targetStatus === 'done' && task.status !== 'done') {
+    types.push(...FINISH_CONSTRAINTS);
+  }
+
+  return types.length > 0 ? getUnmetDependencies(task.id, types, dependencies, tasksById) : [];
+};
+
+// Predecessors an open task is still waiting on before it can start
+export const getStartBlockers = (
+  task: Task,
+  dependencies: TaskDependency[],
+  tasksById: Map<string, Task>
+): TaskBlocker[] =>
+  isFinished(task) ? [] : getUnmetDependencies(task.id, START_CONSTRAINTS, dependencies, tasksById);
+
+// Days the successor has to move later to honour the dependency; 0 when it already does
+const getRequiredShift = (type: TaskDependency['type'], predecessor: Schedule, successor: Schedule): number => {
+  const predecessorStart = predecessor.start || predecessor.due;
+  const successorStart = successor.start || successor.due;
+
+  const gap = (earliest: Date | null, actual: Date | null) =>
+    earliest && actual ? Math.max(0, differenceInCalendarDays(earliest, actual)) : 0;
+
+  switch (type) {
+    case 'finish_to_start':
+      return gap(predecessor.due && addDays(predecessor.due, 1), successorStart);
+    case 'start_to_start':
+      return gap(predecessorStart, successorStart);
+    case 'finish_to_finish':
+      return gap(predecessor.due, successor.due);
+    case 'start_to_finish':
+      return gap(predecessorStart, successor.due);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * New dates for the open tasks downstream of `changedTask` whose
+ * schedule its current dates now violate. Each task keeps its
+ * start-to-due span, and the shift carries on down the chain.
+ */
+export const suggestDependentDates = (
+  changedTask: Task,
+  dependencies: TaskDependency[],
+  tasksById: Map<string, Task>
+): DateSuggestion[] => {
+  const schedules = new Map<string, Schedule>([
+    [changedTask.id, { start: parseTaskDate(changedTask.startDate), due: parseTaskDate(changedTask.dueDate) }]
+  ]);
+  const suggestions = new Map<string, DateSuggestion>();
+  const queue = [changedTask.id];
+
+  for (let step = 0; queue.length > 0 && step < MAX_SCHEDULING_STEPS; step++) {
+    const predecessorId = queue.shift()!;
+    const predecessor = schedules.get(predecessorId)!;
+
+    dependencies
+      .filter(dependency => dependency.dependsOnTaskId === predecessorId)
+      .forEach(dependency => {
+        const task = tasksById.get(dependency.dependentTaskId);
+        if (!task || task.id === changedTask.id || isFinished(task)) return;
+
+        const current = schedules.get(task.id) || {
+          start: parseTaskDate(task.startDate),
+          due: parseTaskDate(task.dueDate)
+        };
+        const shift = getRequiredShift(dependency.type, predecessor, current);
+        if (shift === 0) return;
+
+        const next: Schedule = {
+          start: current.start && addDays(current.start, shift),
+          due: current.due && addDays(current.due, shift)
+        };
+        schedules.set(task.id, next);
+        suggestions.set(task.id, {
+          task,
+          startDate: next.start ? format(next.start, 'yyyy-MM-dd') : undefined,
+          dueDate: next.due ? format(next.due, 'yyyy-MM-dd') : undefined
+        });
+        queue.push(task.id);
+      });
+  }
+
+  return Array.from(suggestions.values());
+};
+
+export interface CriticalPath {
+  taskIds: Set<string>;
+  slack: Map<string, number>; // Days a task can slip before the end date moves
+  endDate: Date | null;
+}
+
+// Working hours that make up one day of an estimate
+const HOURS_PER_DAY = 8;
+
+interface PlannedTask {
+  task: Task;
+  duration: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestFinish: number;
+}
+
+/**
+ * Critical path of the dated, open tasks in `tasks`. A task runs for its
+ * start-to-due span or its estimate, whichever is longer, and starts no
+ * earlier than planned or than its predecessors allow. Tasks without
+ * slack are the ones whose slips move the end date.
+ */
+export const getCriticalPath = (tasks: Task[], dependencies: TaskDependency[]): CriticalPath => {
+  const origin = new Date();
+  const planned = new Map<string, PlannedTask>();
+
+  tasks.forEach(task => {
+    const start = parseTaskDate(task.startDate);
+    const due = parseTaskDate(task.dueDate);
+    if (isFinished(task) || (!start && !due)) return;
+
+    const span = start && due ? Math.max(1, differenceInCalendarDays(due, start) + 1) : 1;
+    const estimate = task.estimatedHours ? Math.ceil(task.estimatedHours / HOURS_PER_DAY) : 0;
+    const duration = Math.max(span, estimate);
+    const plannedStart = start ? differenceInCalendarDays(start, origin) : differenceInCalendarDays(due!, origin) - duration + 1;
+
+    planned.set(task.id, {
+      task,
+      duration,
+      earliestStart: plannedStart,
+      earliestFinish: plannedStart + duration - 1,
+      latestFinish: Infinity
+    });
+  });
+
+  const edges = dependencies.filter(
+    dependency => planned.has(dependency.dependentTaskId) && planned.has(dependency.dependsOnTaskId)
+  );
+
+  // Topological order; tasks caught in a cycle are left out
+  const incoming = new Map<string, number>(Array.from(planned.keys()).map(id => [id, 0]));
+  edges.forEach(edge => incoming.set(edge.dependentTaskId, incoming.get(edge.dependentTaskId)! + 1));
+  const queue = Array.from(incoming.keys()).filter(id => incoming.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    edges
+      .filter(edge => edge.dependsOnTaskId === id)
+      .forEach(edge => {
+        const remaining = incoming.get(edge.dependentTaskId)! - 1;
+        incoming.set(edge.dependentTaskId, remaining);
+        if (remaining === 0) queue.push(edge.dependentTaskId);
+      });
+  }
+
+  // Forward pass: earliest dates given the predecessors
+  order.forEach(id => {
+    const current = planned.get(id)!;
+    edges
+      .filter(edge => edge.dependentTaskId === id)
+      .forEach(edge => {
+        const predecessor = planned.get(edge.dependsOnTaskId)!;
+        const earliest = {
+          finish_to_start: predecessor.earliestFinish + 1,
+          start_to_start: predecessor.earliestStart,
+          finish_to_finish: predecessor.earliestFinish - current.duration + 1,
+          start_to_finish: predecessor.earliestStart - current.duration + 1
+        }[edge.type];
+        current.earliestStart = Math.max(current.earliestStart, earliest ?? current.earliestStart);
+      });
+    current.earliestFinish = current.earliestStart + current.duration - 1;
+  });
+
+  const scheduled = order.map(id => planned.get(id)!);
+  if (scheduled.length === 0) {
+    return { taskIds: new Set(), slack: new Map(), endDate: null };
+  }
+  const end = Math.max(...scheduled.map(item => item.earliestFinish));
+
+  // Backward pass: latest finish that still keeps the end date
+  [...order].reverse().forEach(id => {
+    const current = planned.get(id)!;
+    current.latestFinish = end;
+    edges
+      .filter(edge => edge.dependsOnTaskId === id)
+      .forEach(edge => {
+        const successor = planned.get(edge.dependentTaskId)!;
+        const successorLatestStart = successor.latestFinish - successor.duration + 1;
+        const latest = {
+          finish_to_start: successorLatestStart - 1,
+          start_to_start: successorLatestStart + current.duration - 1,
+          finish_to_finish: successor.latestFinish,
+          start_to_finish: successor.latestFinish + current.duration - 1
+        }[edge.type];
+        current.latestFinish = Math.min(current.latestFinish, latest ?? current.latestFinish);
+      });
+  });
+
+  const slack = new Map(scheduled.map(item => [item.task.id, item.latestFinish - item.earliestFinish]));
+
+  return {
+    taskIds: new Set(scheduled.filter(item => slack.get(item.task.id) === 0).map(item => item.task.id)),
+    slack,
+    endDate: startOfDay(addDays(origin, end))
+  };
+};
@@ -0,0 +1,113 @@
+import { addMonths, addWeeks, format, startOfMonth, startOfWeek } from 'date-fns';
+import { Task } from '../types';
+
+// Tracked time within 10% of the estimate counts as on target
+export const ESTIMATE_TOLERANCE = 0.1;
+
+export type EstimateStatus = 'over' | 'under' | 'on_target';
+
+export type EstimatePeriod = 'week' | 'month';
+
+export interface EstimateAccuracy {
+  tasks: number;
+  estimatedHours: number;
+  actualHours: number;
+  onTarget: number;
+  over: number;
+  under: number;
+}
+
+// One report line: a member's or page's accuracy, overall and per period
+export interface EstimateReportRow {
+  key: string;
+  total: EstimateAccuracy;
+  periods: EstimateAccuracy[]; // Same order as the report's periods
+}
+
+/**
+ * How a task's tracked time compares with its estimate. A task is over as
+ * soon as it passes the estimate, but only under once it is done; until
+ * then the rest of the estimate may still be needed.
+ */
+export const getEstimateStatus = (task: Task): EstimateStatus | null => {
+  if (!task.estimatedHours || !task.actualHours) return null;
+
+  const ratio = task.actualHours / task.estimatedHours;
+  if (ratio > 1 + ESTIMATE_TOLERANCE) return 'over';
+  if (task.status !== 'done') return null;
+  return ratio < 1 - ESTIMATE_TOLERANCE ? 'under' : 'on_target';
+};
+
+// 1.25 -> "+25%", 0.8 -> "-20%"
+export const formatVariance = (actualHours: number, estimatedHours: number): string => {
+  const variance = Math.round(((actualHours - estimatedHours) / estimatedHours) * 100);
+  return `${variance > 0 ? '+' : ''}${variance}%`;
+};
+
+// 1.5 -> "1.5h", 2 -> "2h"
+export const formatTaskHours = (hours: number): string =>
+  `${Math.round(hours * 10) / 10}h`;
+
+// Only finished tasks with an estimate and tracked time say anything about accuracy
+const isMeasurable = (task: Task): boolean =>
+  task.status === 'done' && !!task.estimatedHours && !!task.actualHours;
+
+export const getEstimateAccuracy = (tasks: Task[]): EstimateAccuracy =>
+  tasks.filter(isMeasurable).reduce<EstimateAccuracy>((accuracy, task) => {
+    const status = getEstimateStatus(task);
+    return {
+      tasks: accuracy.tasks + 1,
+      estimatedHours: accuracy.estimatedHours + task.estimatedHours!,
+      actualHours: accuracy.actualHours + task.actualHours!,
+      onTarget: accuracy.onTarget + (status === 'on_target' ? 1 : 0),
+      over: accuracy.over + (status === 'over' ? 1 : 0),
+      under: accuracy.under + (status === 'under' ? 1 : 0)
+    };
+  }, { tasks: 0, estimatedHours: 0, actualHours: 0, onTarget: 0, over: 0, under: 0 });
+
+// Share of measured tasks that landed on target, 0-100
+export const getAccuracyRate = (accuracy: EstimateAccuracy): number =>
+  accuracy.tasks > 0 ? Math.round((accuracy.onTarget / accuracy.tasks) * 100) : 0;
+
+const getPeriodStart = (date: Date, period: EstimatePeriod): string =>
+  format(period === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date), 'yyyy-MM-dd');
+
+// The last `count` weeks (starting Monday) or months, oldest first
+export const getReportPeriods = (period: EstimatePeriod, count: number, now: Date = new Date()): string[] =>
+  Array.from({ length: count }, (_, index) => {
+    const offset = index - count + 1;
+    return getPeriodStart(period === 'week' ? addWeeks(now, offset) : addMonths(now, offset), period);
+  });
+
+/**
+ * Accuracy per group (member, page, ...) for tasks completed in the given
+ * periods. Tasks `groupOf` returns nothing for are left out.
+ */
+export const buildEstimateReport = (
+  tasks: Task[],
+  groupOf: (task: Task) => string | undefined,
+  period: EstimatePeriod,
+  periods: string[]
+): EstimateReportRow[] => {
+  const byGroup = new Map<string, Task[][]>();
+
+  tasks.filter(isMeasurable).forEach(task => {
+    const key = groupOf(task);
+    if (!key || !task.completedAt) return;
+
+    const index = periods.indexOf(getPeriodStart(new Date(task.completedAt), period));
+    if (index === -1) return;
+
+    const buckets = byGroup.get(key) || periods.map(() => []);
+    buckets[index].push(task);
+    byGroup.set(key, buckets);
+  });
+
+  return Array.from(byGroup.entries())
+    .map(([key, buckets]) => ({
+      key,
+      total: getEstimateAccuracy(buckets.flat()),
+      periods: buckets.map(getEstimateAccuracy)
+    }))
+    .sort((a, b) => b.total.tasks - a.total.tasks);
+};
@@ -0,0 +1,350 @@
+import { addMinutes, format, isValid, parse } from 'date-fns';
+import { CalendarEvent, Task } from '../types';
+import { WorkspaceMember } from '../types/workspace';
+import { parseTaskDate, toRRule, fromRRule } from './recurrence';
+import { fromMinutes, toMinutes } from './calendar';
+
+export interface ICalExportOptions {
+  name: string;
+  tasks: Task[]; // Only tasks with a due date are exported
+  events: CalendarEvent[];
+  members?: WorkspaceMember[]; // Resolves attendee ids to e-mail addresses
+}
+
+export type ImportedTask = Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'dueDate' | 'startDate' | 'tags' | 'link' | 'recurrence'>;
+
+export type ImportedEvent = Omit<CalendarEvent, 'id' | 'workspaceId' | 'createdBy' | 'createdAt' | 'attendeeIds'> & {
+  attendeeEmails: string[];
+};
+
+export interface ImportedCalendar {
+  tasks: ImportedTask[]; // From VTODO components
+  events: ImportedEvent[]; // From VEVENT components
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const PRODUCT_ID = '-//EasTask//Tasks and Calendar//EN';
+const UID_DOMAIN = 'eastask.app';
+const MAX_LINE_OCTETS = 75;
+
+const TASK_STATUS_TO_ICAL: Record<Task['status'], string> = {
+  todo: 'NEEDS-ACTION',
+  progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+  cancelled: 'CANCELLED'
+};
+
+const EVENT_STATUS_TO_ICAL: Record<CalendarEvent['status'], string> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED'
+};
+
+const PRIORITY_TO_ICAL: Record<NonNullable<Task['priority']>, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+// RFC 5545 priorities run 1 (highest) to 9; 0 means undefined
+const priorityFromICal = (value?: string): NonNullable<Task['priority']> => {
+  const priority = Number(value);
+  if (!priority) return 'medium';
+  if (priority <= 2) return 'urgent';
+  if (priority <= 4) return 'high';
+  return priority === 5 ? 'medium' : 'low';
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Long lines are folded at 75 octets, continuing with a leading space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const formatUtcTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDateValue = (date: Date) => format(date, 'yyyyMMdd');
+
+// Event times are wall-clock times, so they are written as floating local times
+const formatLocalDateTime = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const buildTodo = (task: Task, stamp: string): string[] => {
+  const due = parseTaskDate(task.dueDate)!;
+  const start = parseTaskDate(task.startDate);
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:task-${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `DUE;VALUE=DATE:${formatDateValue(due)}`,
+    `STATUS:${TASK_STATUS_TO_ICAL[task.status]}`,
+    `PRIORITY:${PRIORITY_TO_ICAL[task.priority || 'medium']}`
+  ];
+
+  if (start && start <= due) lines.push(`DTSTART;VALUE=DATE:${formatDateValue(start)}`);
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`);
+  if (task.link) lines.push(`URL:${task.link}`);
+  if (task.completedAt) lines.push(`COMPLETED:${formatUtcTimestamp(new Date(task.completedAt))}`);
+  if (task.recurrence) lines.push(`RRULE:${toRRule(task.recurrence)}`);
+
+  lines.push('END:VTODO');
+  return lines;
+};
+
+const buildEvent = (event: CalendarEvent, stamp: string, members: WorkspaceMember[]): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DTSTART:${formatLocalDateTime(event.date, event.startTime)}`,
+    `DTEND:${formatLocalDateTime(event.date, event.endTime)}`,
+    `STATUS:${EVENT_STATUS_TO_ICAL[event.status]}`,
+    `PRIORITY:${PRIORITY_TO_ICAL[event.priority]}`,
+    `CATEGORIES:${event.type.toUpperCase()}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.meetingLink) lines.push(`URL:${event.meetingLink}`);
+
+  event.attendeeIds.forEach(userId => {
+    const member = members.find(m => m.userId === userId);
+    if (member?.email) {
+      const name = (member.fullName || member.displayName || member.email).replace(/"/g, '');
+      lines.push(`ATTENDEE;CN="${name}":mailto:${member.email}`);
+    }
+  });
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * RFC 5545 calendar with a VTODO per dated task and a VEVENT per
+ * calendar event, ready to be saved as an .ics file.
+ */
+export const buildICalendar = ({ name, tasks, events, members = [] }: ICalExportOptions): string => {
+  const stamp = formatUtcTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...tasks.filter(task => parseTaskDate(task.dueDate)).flatMap(task => buildTodo(task, stamp)),
+    ...events.flatMap(event => buildEvent(event, stamp, members)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Splits NAME;PARAM=VALUE:value, where quoted parameter values may contain ':' or ';'
+const parseProperty = (line: string): ICalProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+/**
+ * Date (yyyy-MM-dd) and, unless it is a whole-day value, time (HH:mm)
+ * of a DATE or DATE-TIME. UTC values are moved to local time; TZID
+ * values are taken as written.
+ */
+const parseDateValue = (value?: string): { date: string; time?: string } | null => {
+  const match = value?.match(/^(\d{8})(?:T(\d{6})(Z)?)?$/);
+  if (!match) return null;
+
+  if (!match[2]) {
+    const date = parse(match[1], 'yyyyMMdd', new Date());
+    return isValid(date) ? { date: format(date, 'yyyy-MM-dd') } : null;
+  }
+
+  const date = match[3]
+    ? new Date(Date.UTC(
+        Number(match[1].slice(0, 4)), Number(match[1].slice(4, 6)) - 1, Number(match[1].slice(6, 8)),
+        Number(match[2].slice(0, 2)), Number(match[2].slice(2, 4)), Number(match[2].slice(4, 6))
+      ))
+    : parse(`${match[1]}${match[2]}`, 'yyyyMMddHHmmss', new Date());
+
+  return isValid(date) ? { date: format(date, 'yyyy-MM-dd'), time: format(date, 'HH:mm') } : null;
+};
+
+// Minutes in a DURATION such as PT1H30M or P1D
+const parseDurationMinutes = (value?: string): number | null => {
+  const match = value?.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes] = match.map(part => Number(part) || 0);
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+};
+
+const getCategories = (properties: ICalProperty[]) =>
+  properties
+    .filter(property => property.name === 'CATEGORIES')
+    .flatMap(property => property.value.split(/(?<!\\),/))
+    .map(category => unescapeText(category).trim())
+    .filter(Boolean);
+
+const parseTodo = (properties: ICalProperty[]): ImportedTask | null => {
+  const get = (name: string) => properties.find(property => property.name === name)?.value;
+  const due = parseDateValue(get('DUE'));
+  const start = parseDateValue(get('DTSTART'));
+  const status = get('STATUS')?.toUpperCase();
+  const rrule = get('RRULE');
+
+  return {
+    title: unescapeText(get('SUMMARY') || '').trim() || 'Untitled task',
+    description: unescapeText(get('DESCRIPTION') || ''),
+    status: status === 'COMPLETED' ? 'done' : status === 'IN-PROCESS' ? 'progress' : status === 'CANCELLED' ? 'cancelled' : 'todo',
+    priority: priorityFromICal(get('PRIORITY')),
+    dueDate: (due || start)?.date,
+    startDate: due && start ? start.date : undefined,
+    tags: getCategories(properties),
+    link: get('URL') || '',
+    recurrence: rrule ? fromRRule(rrule) : null
+  };
+};
+
+const parseEvent = (properties: ICalProperty[]): ImportedEvent | null => {
+  const get = (name: string) => properties.find(property => property.name === name)?.value;
+  const start = parseDateValue(get('DTSTART'));
+  if (!start) return null;
+
+  let startTime = start.time || '00:00';
+  const end = parseDateValue(get('DTEND'));
+  const duration = parseDurationMinutes(get('DURATION'));
+
+  // Events are single-day; anything running past midnight ends at 23:59
+  let endTime = '23:59';
+  if (end?.time && end.date === start.date) {
+    endTime = end.time;
+  } else if (duration !== null && start.time) {
+    const finish = addMinutes(parse(`${start.date} ${startTime}`, 'yyyy-MM-dd HH:mm', new Date()), duration);
+    if (format(finish, 'yyyy-MM-dd') === start.date) endTime = format(finish, 'HH:mm');
+  } else if (start.time && !end && duration === null) {
+    endTime = fromMinutes(Math.min(toMinutes(startTime) + 60, toMinutes('23:59')));
+  }
+  // calendar_events requires end_time > start_time, so an event in the day's
+  // last minute starts a minute earlier
+  if (toMinutes(endTime) <= toMinutes(startTime)) {
+    startTime = fromMinutes(Math.min(toMinutes(startTime), toMinutes('23:58')));
+    endTime = fromMinutes(Math.min(toMinutes(startTime) + 30, toMinutes('23:59')));
+  }
+
+  const categories = getCategories(properties).map(category => category.toLowerCase());
+  const status = get('STATUS')?.toUpperCase();
+
+  return {
+    title: unescapeText(get('SUMMARY') || '').trim() || 'Untitled event',
+    description: unescapeText(get('DESCRIPTION') || ''),
+    date: start.date,
+    startTime,
+    endTime,
+    type: categories.includes('reminder') ? 'reminder' : categories.includes('goal') ? 'goal' : 'meeting',
+    priority: priorityFromICal(get('PRIORITY')),
+    status: status === 'CANCELLED' ? 'cancelled' : status === 'TENTATIVE' ? 'pending' : 'confirmed',
+    meetingLink: get('URL') || undefined,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!) : undefined,
+    attendeeEmails: properties
+      .filter(property => property.name === 'ATTENDEE')
+      .map(property => property.value.replace(/^mailto:/i, '').trim().toLowerCase())
+      .filter(Boolean)
+  };
+};
+
+/**
+ * VTODOs and VEVENTs of an .ics file. Nested components such as
+ * VALARM are skipped, as are events without a start.
+ */
+export const parseICalendar = (text: string): ImportedCalendar => {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const result: ImportedCalendar = { tasks: [], events: [] };
+  const stack: string[] = [];
+  let properties: ICalProperty[] = [];
+
+  lines.forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (stack.length === 2) properties = [];
+      return;
+    }
+
+    if (property.name === 'END') {
+      const component = stack.pop();
+      if (stack.length === 1) {
+        if (component === 'VTODO') {
+          const task = parseTodo(properties);
+          if (task) result.tasks.push(task);
+        } else if (component === 'VEVENT') {
+          const event = parseEvent(properties);
+          if (event) result.events.push(event);
+        }
+      }
+      return;
+    }
+
+    if (stack.length === 2) properties.push(property);
+  });
+
+  return result;
+};
+
+// An imported event turned into a task due on the event's day
+export const importedEventToTask = (event: ImportedEvent): ImportedTask => ({
+  title: event.title,
+  description: [event.description, event.location, event.meetingLink].filter(Boolean).join('\n'),
+  status: event.status === 'cancelled' ? 'cancelled' : 'todo',
+  priority: event.priority,
+  dueDate: event.date,
+  tags: [],
+  link: event.meetingLink || '',
+  recurrence: null
+});
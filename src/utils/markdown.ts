@@ -0,0 +1,155 @@
+// A small Markdown subset for comments: fenced code blocks, bullet and
+// numbered lists, paragraphs, inline code, bold, italics, links, bare URLs,
+// @mentions (see utils/mentions) and #TASK-123 task references.
+// It parses to plain data; MarkdownContent renders it as React elements, so
+// no HTML from a comment ever reaches the page.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'mention'; userId: string; name: string }
+  | { type: 'taskRef'; number: number };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] };
+
+export const TASK_REFERENCE_PREFIX = 'TASK';
+
+export const formatTaskReference = (number: number) => `${TASK_REFERENCE_PREFIX}-${number}`;
+
+// Order matters: code spans and mentions are matched before links so their
+// contents aren't read as Markdown
+const INLINE_PATTERN = new RegExp([
+  '`([^`\\n]+)`',
+  '@\\[([^\\]]+)\\]\\(([0-9a-f-]{36})\\)',
+  '\\[([^\\]\\n]+)\\]\\(([^)\\s]+)\\)',
+  '\\*\\*([^*\\n]+)\\*\\*',
+  '\\*([^*\\n]+)\\*',
+  '\\b_([^_\\n]+)_(?!\\w)',
+  `#${TASK_REFERENCE_PREFIX}-(\\d+)\\b`,
+  '(https?:\\/\\/[^\\s<]*[^\\s<.,;:!?)\\]\'"])'
+].join('|'), 'g');
+
+const FENCE_PATTERN = /^```\s*([\w+-]*)\s*$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Only web, mail and in-app links are allowed; anything else
+ * (javascript:, data: ...) is shown as text
+ */
+export const isSafeHref = (href: string): boolean => {
+  if (href.startsWith('/') && !href.startsWith('//')) return true;
+
+  try {
+    return ['http:', 'https:', 'mailto:'].includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') previous.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [raw, code, mentionName, mentionId, linkText, linkHref, strong, emStar, emUnderscore, taskNumber, url] = match;
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index + raw.length;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (mentionId !== undefined) {
+      nodes.push({ type: 'mention', userId: mentionId, name: mentionName });
+    } else if (linkHref !== undefined) {
+      if (isSafeHref(linkHref)) {
+        nodes.push({ type: 'link', href: linkHref, children: parseInline(linkText) });
+      } else {
+        pushText(raw);
+      }
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (emStar !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(emStar ?? emUnderscore) });
+    } else if (taskNumber !== undefined) {
+      nodes.push({ type: 'taskRef', number: Number(taskNumber) });
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+};
+
+export const parseMarkdown = (content: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code block; an unclosed fence runs to the end of the comment
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[1] || undefined, text: code.join('\n') });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    const numbered = !bullet && line.match(NUMBERED_PATTERN);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const pattern = ordered ? NUMBERED_PATTERN : BULLET_PATTERN;
+      const items: InlineNode[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(pattern);
+        if (!item) break;
+        items.push(parseInline(item[1]));
+        i++;
+      }
+      i--;
+
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+};
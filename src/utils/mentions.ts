@@ -0,0 +1,84 @@
+// Comments store a mention as @[Display Name](user-id). The name keeps old
+// comments readable if the member leaves; the id is what notifications use.
+// While typing, the textarea shows plain @Display Name and the markup is
+// added on save, so users never see the ids.
+
+export interface MentionMember {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g;
+
+// An @ at the start of the text or after whitespace, up to the caret
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@]*)$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Names can't contain the characters the markup uses
+const toMentionName = (name: string) => name.replace(/[[\]()]/g, '').trim();
+
+// The ids mentioned in stored content, without duplicates
+export const extractMentionIds = (content: string): string[] => {
+  return [...new Set(Array.from(content.matchAll(MENTION_PATTERN), match => match[2]))];
+};
+
+// Stored content as the user typed it, for editing, emails and previews
+export const mentionsToPlainText = (content: string): string => {
+  return content.replace(MENTION_PATTERN, (_, name: string) => `@${name}`);
+};
+
+/**
+ * Turn @Display Name into mention markup for every member named in the text.
+ * Longer names go first so "@Ann Lee" wins over "@Ann".
+ */
+export const encodeMentions = (text: string, members: MentionMember[]): { content: string; mentions: string[] } => {
+  const sorted = members
+    .map(member => ({ id: member.id, name: toMentionName(member.name) }))
+    .filter(member => member.name)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  let content = text;
+  for (const member of sorted) {
+    const pattern = new RegExp(`(^|[^\\w\\[])@${escapeRegExp(member.name)}(?![\\w\\]])`, 'g');
+    content = content.replace(pattern, (_, prefix: string) => `${prefix}@[${member.name}](${member.id})`);
+  }
+
+  return { content, mentions: extractMentionIds(content) };
+};
+
+/**
+ * The @query being typed at the caret, if any
+ */
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+/**
+ * Replace the @query at `start` with the member's name; returns the new text and caret
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  member: MentionMember
+): { text: string; caret: number } => {
+  const mention = `@${toMentionName(member.name)} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length
+  };
+};
+
+export const filterMentionMembers = (members: MentionMember[], query: string, limit = 6): MentionMember[] => {
+  const needle = query.toLowerCase();
+  return members
+    .filter(member =>
+      member.name.toLowerCase().includes(needle) || member.email?.toLowerCase().includes(needle)
+    )
+    .slice(0, limit);
+};
@@ -0,0 +1,67 @@
+import { addDays, addHours, nextMonday, setHours, startOfHour } from 'date-fns';
+import { Notification } from '../contexts/NotificationContext';
+
+// Everything about one task collapses into a single inbox row, e.g.
+// "5 updates on "Fix login"". Notifications that aren't about a task stay
+// on their own.
+export interface NotificationGroup {
+  key: string;
+  notifications: Notification[]; // Newest first
+  latest: Notification;
+  unreadCount: number;
+  taskTitle?: string;
+}
+
+const getGroupKey = (notification: Notification) => {
+  const taskId = notification.data?.task_id;
+  return taskId ? `task:${notification.workspace_id || ''}:${taskId}` : notification.id;
+};
+
+/**
+ * Group an inbox that is already sorted newest first. Each group sits where
+ * its newest notification was, so the order of the inbox doesn't change.
+ */
+export const groupNotifications = (notifications: Notification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = getGroupKey(notification);
+    const group = groups.get(key);
+
+    if (group) {
+      group.notifications.push(notification);
+      if (!notification.read) group.unreadCount++;
+      group.taskTitle = group.taskTitle || notification.data?.task_title;
+    } else {
+      groups.set(key, {
+        key,
+        notifications: [notification],
+        latest: notification,
+        unreadCount: notification.read ? 0 : 1,
+        taskTitle: notification.data?.task_title
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+};
+
+export const getGroupTitle = (group: NotificationGroup): string => {
+  if (group.notifications.length === 1) return group.latest.title;
+
+  return group.taskTitle
+    ? `${group.notifications.length} updates on "${group.taskTitle}"`
+    : `${group.notifications.length} updates on a task`;
+};
+
+export interface SnoozePreset {
+  label: string;
+  getTime: (now: Date) => Date;
+}
+
+export const SNOOZE_PRESETS: SnoozePreset[] = [
+  { label: 'In 1 hour', getTime: now => addHours(now, 1) },
+  { label: 'In 3 hours', getTime: now => addHours(now, 3) },
+  { label: 'Tomorrow at 9:00', getTime: now => startOfHour(setHours(addDays(now, 1), 9)) },
+  { label: 'Next Monday at 9:00', getTime: now => startOfHour(setHours(nextMonday(now), 9)) }
+];
@@ -0,0 +1,51 @@
+import { NotificationChannel, NotificationEvent, NotificationPreferences } from '../types';
+
+export interface NotificationEventInfo {
+  id: NotificationEvent;
+  label: string;
+  description: string;
+  channels: NotificationChannel[]; // Channels this event can be sent on
+}
+
+export const NOTIFICATION_EVENTS: NotificationEventInfo[] = [
+  { id: 'task_assignment', label: 'Task assignments', description: 'A task is assigned to you', channels: ['in_app', 'email', 'push'] },
+  { id: 'task_comment', label: 'Comments', description: 'New comments on tasks you follow', channels: ['in_app', 'email', 'push'] },
+  { id: 'mention', label: 'Mentions', description: 'Someone @mentions you', channels: ['in_app', 'email', 'push'] },
+  { id: 'task_status_change', label: 'Status changes', description: 'Tasks you created or own change status', channels: ['in_app', 'email', 'push'] },
+  { id: 'task_reminder', label: 'Due-date reminders', description: 'Your tasks are due soon or overdue', channels: ['in_app', 'email', 'push'] },
+  { id: 'workspace_update', label: 'Workspace updates', description: 'Join requests and membership changes', channels: ['in_app', 'push'] }
+];
+
+export const NOTIFICATION_CHANNELS: Record<NotificationChannel, { label: string }> = {
+  in_app: { label: 'In-app' },
+  email: { label: 'Email' },
+  push: { label: 'Push' }
+};
+
+// Email is on by default only for events that need the user to act
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  task_assignment: { in_app: true, email: true, push: true },
+  task_comment: { in_app: true, email: false, push: true },
+  mention: { in_app: true, email: true, push: true },
+  task_status_change: { in_app: true, email: false, push: true },
+  task_reminder: { in_app: true, email: true, push: true },
+  workspace_update: { in_app: true, email: false, push: true }
+};
+
+/**
+ * Fill in events and channels missing from stored preferences with the defaults
+ */
+export const resolveNotificationPreferences = (stored?: Partial<Record<NotificationEvent, Partial<Record<NotificationChannel, boolean>>>> | null): NotificationPreferences => {
+  return NOTIFICATION_EVENTS.reduce((preferences, event) => {
+    const defaults = DEFAULT_NOTIFICATION_PREFERENCES[event.id];
+    const saved = stored?.[event.id] || {};
+
+    preferences[event.id] = {
+      in_app: saved.in_app ?? defaults.in_app,
+      // Channels an event can't use are always off
+      email: event.channels.includes('email') ? saved.email ?? defaults.email : false,
+      push: saved.push ?? defaults.push
+    };
+    return preferences;
+  }, {} as NotificationPreferences);
+};
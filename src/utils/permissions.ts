@@ -0,0 +1,111 @@
+import { Permission, UserRole, WorkspaceMember, WorkspaceSettings } from '../types/workspace';
+
+export type PermissionResource = Permission['resource'];
+export type PermissionAction = Permission['action'];
+
+type PermissionSubject = Pick<WorkspaceMember, 'role'> & Partial<Pick<WorkspaceMember, 'permissions'>>;
+
+// What each role may do, per resource
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<PermissionResource, PermissionAction[]>>> = {
+  owner: {
+    workspace: ['read', 'update', 'delete', 'invite', 'manage'],
+    page: ['create', 'read', 'update', 'delete'],
+    task: ['create', 'read', 'update', 'delete'],
+    member: ['read', 'invite', 'update', 'delete', 'manage']
+  },
+  admin: {
+    workspace: ['read', 'update', 'invite'],
+    page: ['create', 'read', 'update', 'delete'],
+    task: ['create', 'read', 'update', 'delete'],
+    member: ['read', 'invite', 'update', 'delete', 'manage']
+  },
+  member: {
+    workspace: ['read'],
+    page: ['create', 'read', 'update'],
+    task: ['create', 'read', 'update', 'delete'],
+    member: ['read']
+  },
+  guest: {
+    workspace: ['read'],
+    page: ['read'],
+    task: ['read'],
+    member: ['read']
+  }
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  guest: 'Guest'
+};
+
+// Expands a role into the Permission list stored on WorkspaceMember
+export const getRolePermissions = (role: UserRole): Permission[] => {
+  const grants = ROLE_PERMISSIONS[role] || {};
+  return (Object.keys(grants) as PermissionResource[]).flatMap(resource =>
+    grants[resource].map(action => ({ resource, action, granted: true }))
+  );
+};
+
+/**
+ * Whether a member may perform `action` on `resource`. An explicit entry
+ * in member.permissions wins; otherwise the role's defaults apply.
+ */
+export const can = (
+  member: PermissionSubject | null | undefined,
+  resource: PermissionResource,
+  action: PermissionAction
+): boolean => {
+  if (!member) return false;
+
+  const explicit = member.permissions?.find(p => p.resource === resource && p.action === action);
+  if (explicit) return explicit.granted;
+
+  return ROLE_PERMISSIONS[member.role]?.[resource]?.includes(action) ?? false;
+};
+
+// Short human summary of what a role allows, e.g. for invitations
+export const describeRole = (role: UserRole): string => {
+  if (can({ role }, 'workspace', 'delete')) return 'Full control of the workspace, its members and settings';
+  if (can({ role }, 'member', 'manage')) return 'Can manage members, settings and all tasks';
+  if (can({ role }, 'task', 'create')) return 'Can create and edit pages and tasks';
+  return 'Can view pages and tasks';
+};
+
+/**
+ * Reason `actor` cannot give `target` the role `newRole`, or null when
+ * the change is allowed. Mirrors update_workspace_member_role() in
+ * sql/ADD_MEMBER_ROLE_MANAGEMENT.sql.
+ */
+export const getRoleChangeError = (
+  actor: PermissionSubject | null | undefined,
+  target: Pick<WorkspaceMember, 'role'>,
+  newRole: UserRole,
+  members: Pick<WorkspaceMember, 'role'>[]
+): string | null => {
+  if (!can(actor, 'member', 'manage')) {
+    return 'You do not have permission to change roles';
+  }
+
+  if (actor.role !== 'owner' && (target.role === 'owner' || newRole === 'owner')) {
+    return 'Only owners can change owner roles';
+  }
+
+  if (target.role === 'owner' && newRole !== 'owner' &&
+      members.filter(member => member.role === 'owner').length <= 1) {
+    return 'A workspace must always have at least one owner';
+  }
+
+  return null;
+};
+
+// Role given to someone joining by invite code: the workspace's default
+// role, where guest only counts while guest access is allowed. Mirrors
+// get_join_role() in sql/ADD_JOIN_REQUESTS.sql, which has the final say.
+export const getJoinRole = (settings?: Partial<WorkspaceSettings> | null): UserRole => {
+  const role = settings?.defaultMemberRole;
+  if (!role || role === 'owner') return 'member';
+  if (role === 'guest' && !settings?.allowGuestAccess) return 'member';
+  return role;
+};
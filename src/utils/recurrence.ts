@@ -0,0 +1,256 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  format,
+  getDaysInMonth,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfWeek
+} from 'date-fns';
+import { Task, TaskRecurrence } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const ORDINAL_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Occurrences are capped so a daily rule cannot flood a calendar range
+const MAX_PROJECTED_OCCURRENCES = 366;
+
+export interface TaskOccurrence {
+  task: Task;
+  date: string; // yyyy-MM-dd
+  projected: boolean; // Future occurrence that does not exist as a task yet
+}
+
+export const parseTaskDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? startOfDay(date) : null;
+};
+
+// Fills in the fields a rule needs from the date it starts on
+export const createRecurrence = (frequency: TaskRecurrence['frequency'], anchor: Date = new Date()): TaskRecurrence => {
+  switch (frequency) {
+    case 'weekly':
+      return { frequency, interval: 1, weekdays: [anchor.getDay()] };
+    case 'monthly':
+      return { frequency, interval: 1, monthlyBy: 'date', monthDay: anchor.getDate() };
+    default:
+      return { frequency, interval: 1 };
+  }
+};
+
+// 1-4 for the nth weekday of the month, -1 when it is the last one
+export const getWeekdayOrdinal = (date: Date): number => {
+  const ordinal = Math.ceil(date.getDate() / 7);
+  return date.getDate() + 7 > getDaysInMonth(date) ? -1 : Math.min(ordinal, 4);
+};
+
+const nthWeekdayOfMonth = (month: Date, weekday: number, ordinal: number): Date => {
+  if (ordinal === -1) {
+    const last = startOfDay(endOfMonth(month));
+    return addDays(last, -((last.getDay() - weekday + 7) % 7));
+  }
+
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  return addDays(first, ((weekday - first.getDay() + 7) % 7) + (ordinal - 1) * 7);
+};
+
+/**
+ * The occurrence date after `from`, ignoring the rule's end.
+ * `from` is expected to be an occurrence of the rule.
+ */
+export const getNextOccurrenceDate = (rule: TaskRecurrence, from: Date): Date => {
+  const interval = Math.max(1, rule.interval || 1);
+  const current = startOfDay(from);
+
+  if (rule.frequency === 'daily') {
+    return addDays(current, interval);
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = [...(rule.weekdays?.length ? rule.weekdays : [current.getDay()])].sort((a, b) => a - b);
+    const laterThisWeek = weekdays.find(day => day > current.getDay());
+    if (laterThisWeek !== undefined) {
+      return addDays(current, laterThisWeek - current.getDay());
+    }
+    return addDays(addWeeks(startOfWeek(current), interval), weekdays[0]);
+  }
+
+  const month = addMonths(new Date(current.getFullYear(), current.getMonth(), 1), interval);
+
+  if (rule.monthlyBy === 'weekday') {
+    return nthWeekdayOfMonth(
+      month,
+      rule.weekday ?? current.getDay(),
+      rule.weekdayOrdinal ?? getWeekdayOrdinal(current)
+    );
+  }
+
+  const day = Math.min(rule.monthDay ?? current.getDate(), getDaysInMonth(month));
+  return new Date(month.getFullYear(), month.getMonth(), day);
+};
+
+// Whether occurrence number `index` (1-based) on `date` is still within the rule's end
+export const isWithinRecurrenceEnd = (rule: TaskRecurrence, date: Date, index: number): boolean => {
+  if (rule.count && index > rule.count) return false;
+  const until = parseTaskDate(rule.until);
+  return !until || date <= until;
+};
+
+/**
+ * Next occurrence for a task being completed, or null when the series has
+ * ended. Tasks without a due date repeat from the day they are completed.
+ */
+export const getNextTaskOccurrence = (task: Task, completedOn: Date = new Date()): { dueDate: string; index: number } | null => {
+  if (!task.recurrence) return null;
+
+  const from = parseTaskDate(task.dueDate) || startOfDay(completedOn);
+  const next = getNextOccurrenceDate(task.recurrence, from);
+  const index = (task.recurrenceIndex || 1) + 1;
+
+  if (!isWithinRecurrenceEnd(task.recurrence, next, index)) return null;
+  return { dueDate: format(next, 'yyyy-MM-dd'), index };
+};
+
+/**
+ * Future occurrences of an open recurring task that fall inside
+ * [rangeStart, rangeEnd]. The task's own due date is not included.
+ */
+export const getProjectedOccurrences = (task: Task, rangeStart: Date, rangeEnd: Date): string[] => {
+  const start = parseTaskDate(task.dueDate);
+  if (!task.recurrence || !start) return [];
+
+  const dates: string[] = [];
+  let date = start;
+  let index = task.recurrenceIndex || 1;
+
+  for (let step = 0; step < MAX_PROJECTED_OCCURRENCES; step++) {
+    date = getNextOccurrenceDate(task.recurrence, date);
+    index += 1;
+
+    if (date > rangeEnd || !isWithinRecurrenceEnd(task.recurrence, date, index)) break;
+    if (date >= startOfDay(rangeStart)) dates.push(format(date, 'yyyy-MM-dd'));
+  }
+
+  return dates;
+};
+
+/**
+ * Every dated task plus the projected occurrences of open recurring
+ * tasks, for calendar views. Finished occurrences have already spawned
+ * their successor, so only open ones are projected.
+ */
+export const expandTaskOccurrences = (tasks: Task[], rangeStart: Date, rangeEnd: Date): TaskOccurrence[] => {
+  const occurrences: TaskOccurrence[] = [];
+
+  tasks.forEach(task => {
+    const due = parseTaskDate(task.dueDate);
+    if (!due) return;
+
+    occurrences.push({ task, date: format(due, 'yyyy-MM-dd'), projected: false });
+
+    if (task.recurrence && task.status !== 'done' && task.status !== 'cancelled') {
+      getProjectedOccurrences(task, rangeStart, rangeEnd).forEach(date => {
+        occurrences.push({ task, date, projected: true });
+      });
+    }
+  });
+
+  return occurrences;
+};
+
+export const describeRecurrence = (rule: TaskRecurrence): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    text += ` on ${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+
+  if (rule.frequency === 'monthly') {
+    if (rule.monthlyBy === 'weekday' && rule.weekday !== undefined) {
+      text += ` on the ${ORDINAL_LABELS[rule.weekdayOrdinal ?? 1]} ${WEEKDAY_LABELS[rule.weekday]}`;
+    } else if (rule.monthDay) {
+      text += ` on day ${rule.monthDay}`;
+    }
+  }
+
+  if (rule.count) text += `, ${rule.count} times`;
+  const until = parseTaskDate(rule.until);
+  if (until) text += `, until ${format(until, 'MMM d, yyyy')}`;
+
+  return text;
+};
+
+// RFC 5545 RRULE value (without the "RRULE:" prefix)
+export const toRRule = (rule: TaskRecurrence): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`];
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map(day => RRULE_DAYS[day]).join(',')}`);
+  }
+
+  if (rule.frequency === 'monthly') {
+    if (rule.monthlyBy === 'weekday' && rule.weekday !== undefined) {
+      parts.push(`BYDAY=${rule.weekdayOrdinal ?? 1}${RRULE_DAYS[rule.weekday]}`);
+    } else if (rule.monthDay) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`);
+    }
+  }
+
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+};
+
+/**
+ * Repeat rule from an RFC 5545 RRULE value, or null when it uses a
+ * frequency or shape tasks cannot repeat on (yearly, hourly, ...).
+ */
+export const fromRRule = (value: string): TaskRecurrence | null => {
+  const parts = new Map(
+    value.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').toUpperCase()] as const;
+    })
+  );
+
+  const frequency = ({ DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly' } as const)[parts.get('FREQ') as 'DAILY' | 'WEEKLY' | 'MONTHLY'];
+  if (!frequency) return null;
+
+  const rule: TaskRecurrence = { frequency, interval: Math.max(1, Number(parts.get('INTERVAL')) || 1) };
+  const byDay = (parts.get('BYDAY') || '').split(',').filter(Boolean);
+
+  if (frequency === 'weekly' && byDay.length > 0) {
+    rule.weekdays = byDay.map(day => RRULE_DAYS.indexOf(day.slice(-2))).filter(day => day >= 0);
+  }
+
+  if (frequency === 'monthly') {
+    const nthWeekday = byDay[0]?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (nthWeekday) {
+      const ordinal = Number(nthWeekday[1] || 1);
+      rule.monthlyBy = 'weekday';
+      rule.weekday = RRULE_DAYS.indexOf(nthWeekday[2]);
+      rule.weekdayOrdinal = ordinal < 0 ? -1 : Math.min(Math.max(ordinal, 1), 4);
+    } else if (Number(parts.get('BYMONTHDAY')) > 0) {
+      rule.monthlyBy = 'date';
+      rule.monthDay = Number(parts.get('BYMONTHDAY'));
+    }
+  }
+
+  const count = Number(parts.get('COUNT'));
+  if (count > 0) rule.count = count;
+
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+
+  return rule;
+};
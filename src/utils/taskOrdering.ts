@@ -0,0 +1,51 @@
+import { Task } from '../types';
+
+// Tasks are ordered by a fractional rank stored in tasks.sort_order.
+// Moving a task picks a rank between its new neighbours, so only the
+// moved row has to be written back to the database.
+export const ORDER_STEP = 1024;
+
+// Below this gap two neighbours can no longer be split reliably
+const MIN_ORDER_GAP = 1e-6;
+
+export const compareTaskOrder = (a: Task, b: Task): number => {
+  const diff = (a.order ?? 0) - (b.order ?? 0);
+  if (diff !== 0) return diff;
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+};
+
+export const sortTasksByOrder = (tasks: Task[]): Task[] => {
+  return [...tasks].sort(compareTaskOrder);
+};
+
+// Rank for a task appended to the end of a column
+export const getNextOrder = (tasks: Task[]): number => {
+  if (tasks.length === 0) return ORDER_STEP;
+  return Math.max(...tasks.map(task => task.order ?? 0)) + ORDER_STEP;
+};
+
+// Rank between two neighbours; returns null when there is no room left
+export const getOrderBetween = (before?: number, after?: number): number | null => {
+  if (before === undefined && after === undefined) return ORDER_STEP;
+  if (before === undefined) return after - ORDER_STEP;
+  if (after === undefined) return before + ORDER_STEP;
+  if (after - before <= MIN_ORDER_GAP) return null;
+  return before + (after - before) / 2;
+};
+
+/**
+ * Rank for inserting a task at `targetIndex` of an ordered column.
+ * `siblings` must already be sorted and must not contain the moved task.
+ */
+export const getOrderAtIndex = (siblings: Task[], targetIndex?: number): number | null => {
+  const index = targetIndex === undefined
+    ? siblings.length
+    : Math.max(0, Math.min(targetIndex, siblings.length));
+
+  return getOrderBetween(siblings[index - 1]?.order, siblings[index]?.order);
+};
+
+// Evenly respaced ranks for a column, used when neighbours run out of room
+export const rebalanceOrders = (tasks: Task[]): Array<{ id: string; order: number }> => {
+  return tasks.map((task, index) => ({ id: task.id, order: (index + 1) * ORDER_STEP }));
+};
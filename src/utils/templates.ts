@@ -0,0 +1,86 @@
+import { addDays, addMonths, addWeeks, format } from 'date-fns';
+import { TaskTemplate } from '../types';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+const RELATIVE_DATE_PATTERN = /^([+-])\s*(\d+)\s*([dwm])$/i;
+
+export interface TemplateSubtaskInput {
+  title: string;
+  description?: string;
+  dueDate?: string;
+}
+
+export interface InstantiatedTemplate {
+  title: string;
+  description: string;
+  dueDate?: string;
+  tags: string[];
+  subtasks: TemplateSubtaskInput[];
+}
+
+// Variable names used anywhere in the template, in first-seen order
+export const getTemplateVariables = (template: Pick<TaskTemplate, 'name' | 'description' | 'tags' | 'subtasks'>): string[] => {
+  const texts = [
+    template.name,
+    template.description,
+    ...template.tags,
+    ...template.subtasks.flatMap(subtask => [subtask.title, subtask.description || ''])
+  ];
+
+  const names = new Set<string>();
+  texts.forEach(text => {
+    for (const match of (text || '').matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  });
+  return Array.from(names);
+};
+
+// Replaces {{name}} with its value; unknown variables are left untouched
+export const fillTemplateText = (text: string, values: Record<string, string>): string =>
+  (text || '').replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined && values[name] !== '' ? values[name] : placeholder
+  );
+
+export const isRelativeDate = (expression: string): boolean => {
+  const value = expression.trim().toLowerCase();
+  return value === 'today' || value === 'tomorrow' || RELATIVE_DATE_PATTERN.test(value);
+};
+
+/**
+ * Turns "+3d", "-1w", "+2m", "today" or "tomorrow" into a yyyy-MM-dd
+ * date relative to `base`. Returns undefined for anything else.
+ */
+export const resolveRelativeDate = (expression: string | undefined, base: Date = new Date()): string | undefined => {
+  const value = expression?.trim().toLowerCase();
+  if (!value) return undefined;
+
+  if (value === 'today') return format(base, 'yyyy-MM-dd');
+  if (value === 'tomorrow') return format(addDays(base, 1), 'yyyy-MM-dd');
+
+  const match = value.match(RELATIVE_DATE_PATTERN);
+  if (!match) return undefined;
+
+  const amount = Number(match[2]) * (match[1] === '-' ? -1 : 1);
+  const add = { d: addDays, w: addWeeks, m: addMonths }[match[3] as 'd' | 'w' | 'm'];
+  return format(add(base, amount), 'yyyy-MM-dd');
+};
+
+// Fills variables and relative dates, giving what the new task should contain
+export const instantiateTemplate = (
+  template: TaskTemplate,
+  values: Record<string, string>,
+  base: Date = new Date()
+): InstantiatedTemplate => ({
+  title: fillTemplateText(template.name, values),
+  description: fillTemplateText(template.description, values),
+  dueDate: resolveRelativeDate(template.dueOffset, base),
+  tags: template.tags.map(tag => fillTemplateText(tag, values)).filter(Boolean),
+  subtasks: template.subtasks
+    .filter(subtask => subtask.title.trim())
+    .map(subtask => ({
+      title: fillTemplateText(subtask.title, values),
+      description: subtask.description ? fillTemplateText(subtask.description, values) : undefined,
+      dueDate: resolveRelativeDate(subtask.dueOffset, base)
+    }))
+});
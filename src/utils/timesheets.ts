@@ -0,0 +1,154 @@
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { TimeEntry, TimesheetRate } from '../types/workspace';
+
+// Timesheet weeks start on Monday, like date_trunc('week') in the database
+// (see sql/ADD_TIMESHEETS.sql)
+export const getWeekStart = (date: Date): string =>
+  format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+export const getWeekDays = (weekStart: string): string[] =>
+  Array.from({ length: 7 }, (_, i) => format(addDays(parseISO(weekStart), i), 'yyyy-MM-dd'));
+
+// A running timer has no duration yet and doesn't count towards totals
+export const getEntryMinutes = (entry: TimeEntry): number => entry.duration || 0;
+
+// 90 -> "1:30"
+export const formatHours = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}:${(minutes % 60).toString().padStart(2, '0')}`;
+
+// A running timer: 75 -> "1:15", 3725 -> "1:02:05"
+export const formatElapsed = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Minutes from what someone typed into a timesheet cell: "1.5", "1,5",
+ * "1:30", "1h 30m", "90m" or "2h". Returns null when it can't be read.
+ */
+export const parseHours = (input: string): number | null => {
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  const units = value.match(/^(?:(\d+(?:[.,]\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+  if (units && (units[1] || units[2])) {
+    return Math.round(Number((units[1] || '0').replace(',', '.')) * 60) + Number(units[2] || 0);
+  }
+
+  const decimal = value.match(/^\d+(?:[.,]\d+)?$/);
+  if (decimal) return Math.round(Number(value.replace(',', '.')) * 60);
+
+  return null;
+};
+
+/**
+ * Hourly rate for a member's time on a page: the page's rate when it has
+ * one, otherwise the member's, otherwise none
+ */
+export const resolveHourlyRate = (
+  rates: TimesheetRate[],
+  userId: string,
+  pageId?: string
+): number | undefined => {
+  const pageRate = pageId ? rates.find(rate => rate.pageId === pageId) : undefined;
+  return (pageRate ?? rates.find(rate => rate.userId === userId))?.hourlyRate;
+};
+
+// One grid row: a member's time on a task across the week
+export interface TimesheetRow {
+  key: string;
+  userId: string;
+  taskId: string;
+  minutesByDay: Record<string, number>;
+  totalMinutes: number;
+  billableMinutes: number;
+  entries: TimeEntry[];
+}
+
+export const buildTimesheetRows = (entries: TimeEntry[]): TimesheetRow[] => {
+  const rows = new Map<string, TimesheetRow>();
+
+  for (const entry of entries) {
+    const key = `${entry.userId}:${entry.taskId}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, userId: entry.userId, taskId: entry.taskId, minutesByDay: {}, totalMinutes: 0, billableMinutes: 0, entries: [] };
+      rows.set(key, row);
+    }
+
+    const minutes = getEntryMinutes(entry);
+    row.minutesByDay[entry.date] = (row.minutesByDay[entry.date] || 0) + minutes;
+    row.totalMinutes += minutes;
+    if (entry.billable) row.billableMinutes += minutes;
+    row.entries.push(entry);
+  }
+
+  return Array.from(rows.values());
+};
+
+export interface TimesheetCsvLine {
+  member: string;
+  email?: string;
+  page?: string;
+  task: string;
+  totalMinutes: number;
+  billableMinutes: number;
+  hourlyRate?: number;
+}
+
+const toDecimalHours = (minutes: number) => (minutes / 60).toFixed(2);
+
+export const getBillableAmount = (billableMinutes: number, hourlyRate?: number): number =>
+  hourlyRate === undefined ? 0 : Math.round((billableMinutes / 60) * hourlyRate * 100) / 100;
+
+// Quotes fields that need it, and keeps spreadsheet apps from running
+// a task title that starts with = as a formula
+const escapeCsv = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Week totals per member and task, as CSV for invoicing. Rates and
+ * amounts are only included for people allowed to see them.
+ */
+export const buildTimesheetCsv = (lines: TimesheetCsvLine[], includeRates: boolean): string => {
+  const header = ['Member', 'Email', 'Page', 'Task', 'Hours', 'Billable hours'];
+  if (includeRates) header.push('Hourly rate', 'Billable amount');
+
+  const totals = { minutes: 0, billable: 0, amount: 0 };
+  const rows = lines.map(line => {
+    const amount = getBillableAmount(line.billableMinutes, line.hourlyRate);
+    totals.minutes += line.totalMinutes;
+    totals.billable += line.billableMinutes;
+    totals.amount += amount;
+
+    const row = [
+      line.member,
+      line.email,
+      line.page,
+      line.task,
+      toDecimalHours(line.totalMinutes),
+      toDecimalHours(line.billableMinutes)
+    ];
+    if (includeRates) row.push(line.hourlyRate?.toFixed(2), amount.toFixed(2));
+    return row;
+  });
+
+  const totalRow = ['Total', '', '', '', toDecimalHours(totals.minutes), toDecimalHours(totals.billable)];
+  if (includeRates) totalRow.push('', totals.amount.toFixed(2));
+
+  return [header, ...rows, totalRow]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n');
+};
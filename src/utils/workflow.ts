@@ -0,0 +1,127 @@
+import { Task } from '../types';
+import {
+  StatusCategory,
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkspaceSettings
+} from '../types/workspace';
+
+// Workspaces without a saved workflow get the classic board. The ids
+// match the legacy Task.status values so existing tasks need no migration.
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  statuses: [
+    { id: 'todo', name: 'To Do', category: 'not_started', color: '#3b82f6', order: 0 },
+    { id: 'progress', name: 'In Progress', category: 'active', color: '#eab308', order: 1, wipLimit: 3 },
+    { id: 'done', name: 'Done', category: 'done', color: '#22c55e', order: 2 },
+    { id: 'cancelled', name: 'Cancelled', category: 'cancelled', color: '#6b7280', order: 3 }
+  ],
+  transitions: {}
+};
+
+export const STATUS_CATEGORIES: Record<StatusCategory, { label: string }> = {
+  not_started: { label: 'Not started' },
+  active: { label: 'Active' },
+  done: { label: 'Done' },
+  cancelled: { label: 'Cancelled' }
+};
+
+const CATEGORY_TO_TASK_STATUS: Record<StatusCategory, Task['status']> = {
+  not_started: 'todo',
+  active: 'progress',
+  done: 'done',
+  cancelled: 'cancelled'
+};
+
+export const categoryToTaskStatus = (category: StatusCategory): Task['status'] => {
+  return CATEGORY_TO_TASK_STATUS[category];
+};
+
+export const taskStatusToCategory = (status: Task['status']): StatusCategory => {
+  switch (status) {
+    case 'progress': return 'active';
+    case 'done': return 'done';
+    case 'cancelled': return 'cancelled';
+    default: return 'not_started';
+  }
+};
+
+export const getWorkflow = (settings?: Partial<WorkspaceSettings> | null): WorkflowDefinition => {
+  const workflow = settings?.workflow;
+  if (!workflow || !workflow.statuses || workflow.statuses.length === 0) {
+    return DEFAULT_WORKFLOW;
+  }
+  return { statuses: workflow.statuses, transitions: workflow.transitions || {} };
+};
+
+export const getOrderedStatuses = (workflow: WorkflowDefinition): WorkflowStatus[] => {
+  return [...workflow.statuses].sort((a, b) => a.order - b.order);
+};
+
+export const getWorkflowStatus = (workflow: WorkflowDefinition, statusId?: string): WorkflowStatus | undefined => {
+  return workflow.statuses.find(status => status.id === statusId);
+};
+
+/**
+ * Workflow status a task is shown under. Tasks saved before the workspace
+ * had a workflow (or whose status was removed) fall back to the first
+ * status in the same category as their stored status.
+ */
+export const resolveTaskWorkflowStatus = (
+  task: Pick<Task, 'status' | 'workflowStatus'>,
+  workflow: WorkflowDefinition
+): WorkflowStatus => {
+  const ordered = getOrderedStatuses(workflow);
+  const explicit = getWorkflowStatus(workflow, task.workflowStatus);
+  if (explicit) return explicit;
+
+  const category = taskStatusToCategory(task.status);
+  return ordered.find(status => status.category === category) || ordered[0];
+};
+
+// Updates that put a task into a workflow status, keeping tasks.status in step
+export const getWorkflowStatusUpdates = (status: WorkflowStatus): Pick<Task, 'status' | 'workflowStatus'> => {
+  return { status: categoryToTaskStatus(status.category), workflowStatus: status.id };
+};
+
+// Statuses without a transition list can move anywhere; an empty list makes a final status
+export const canTransition = (workflow: WorkflowDefinition, fromId: string, toId: string): boolean => {
+  if (fromId === toId) return true;
+  const allowed = workflow.transitions[fromId];
+  if (!allowed) return true;
+  return allowed.includes(toId);
+};
+
+// Returns a list of problems; an empty list means the workflow can be saved
+export const validateWorkflow = (workflow: WorkflowDefinition): string[] => {
+  const errors: string[] = [];
+  const ids = workflow.statuses.map(status => status.id);
+
+  if (workflow.statuses.length === 0) {
+    errors.push('A workflow needs at least one status');
+  }
+
+  if (workflow.statuses.some(status => !status.name.trim())) {
+    errors.push('Every status needs a name');
+  }
+
+  const names = workflow.statuses.map(status => status.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) {
+    errors.push('Status names must be unique');
+  }
+
+  if (!workflow.statuses.some(status => status.category === 'not_started')) {
+    errors.push('At least one status must be in the "Not started" category');
+  }
+
+  if (!workflow.statuses.some(status => status.category === 'done')) {
+    errors.push('At least one status must be in the "Done" category');
+  }
+
+  Object.entries(workflow.transitions).forEach(([fromId, targets]) => {
+    if (!ids.includes(fromId) || targets.some(id => !ids.includes(id))) {
+      errors.push('Transitions refer to a status that no longer exists');
+    }
+  });
+
+  return Array.from(new Set(errors));
+};
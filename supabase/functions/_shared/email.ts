@@ -0,0 +1,296 @@
+// Email delivery shared by the edge functions that send email
+//
+// The provider is picked with the EMAIL_PROVIDER secret:
+//   resend   - RESEND_API_KEY
+//   sendgrid - SENDGRID_API_KEY
+//   smtp     - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD (SMTP_TLS=false to disable TLS)
+//   file     - writes each email to EMAIL_SINK_DIR (default /tmp/emails); for local testing
+// Without EMAIL_PROVIDER, Resend is used; sending fails until RESEND_API_KEY
+// is set. The file sink is only used when asked for. EMAIL_FROM overrides the sender.
+//
+// Every email is recorded in email_deliveries (sql/ADD_EMAIL_DELIVERIES.sql).
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailProvider {
+  name: string;
+  // Returns the provider's message id, when it has one
+  send(email: OutgoingEmail): Promise<string | null>;
+}
+
+// Failures worth another attempt: network errors, rate limits and 5xx responses
+class ProviderError extends Error {
+  constructor(message: string, public retryable: boolean) {
+    super(message)
+  }
+}
+
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 500
+
+const DEFAULT_FROM = 'EasTask Team <noreply@resend.dev>'
+
+const checkResponse = async (response: Response, provider: string) => {
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new ProviderError(`${provider} API error (${response.status}): ${errorText}`, response.status === 429 || response.status >= 500)
+  }
+}
+
+class ResendProvider implements EmailProvider {
+  name = 'resend'
+
+  constructor(private apiKey: string) {}
+
+  async send(email: OutgoingEmail) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: email.from,
+        to: [email.to],
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        headers: email.headers,
+      }),
+    })
+
+    await checkResponse(response, 'Resend')
+    const result = await response.json()
+    return result.id ?? null
+  }
+}
+
+class SendGridProvider implements EmailProvider {
+  name = 'sendgrid'
+
+  constructor(private apiKey: string) {}
+
+  async send(email: OutgoingEmail) {
+    const match = email.from.match(/^(.*)<(.+)>$/)
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: email.to }] }],
+        from: match ? { name: match[1].trim(), email: match[2].trim() } : { email: email.from },
+        subject: email.subject,
+        content: [
+          ...(email.text ? [{ type: 'text/plain', value: email.text }] : []),
+          { type: 'text/html', value: email.html },
+        ],
+        headers: email.headers,
+      }),
+    })
+
+    await checkResponse(response, 'SendGrid')
+    return response.headers.get('X-Message-Id')
+  }
+}
+
+class SmtpProvider implements EmailProvider {
+  name = 'smtp'
+
+  async send(email: OutgoingEmail) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        tls: Deno.env.get('SMTP_TLS') !== 'false',
+        auth: Deno.env.get('SMTP_USER')
+          ? { username: Deno.env.get('SMTP_USER')!, password: Deno.env.get('SMTP_PASSWORD') ?? '' }
+          : undefined,
+      },
+    })
+
+    try {
+      await client.send({
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        content: email.text ?? 'auto',
+        html: email.html,
+        headers: email.headers,
+      })
+    } catch (error) {
+      throw new ProviderError(`SMTP error: ${error.message}`, true)
+    } finally {
+      await client.close()
+    }
+
+    return null
+  }
+}
+
+// Keeps emails on disk instead of sending them, for local development and tests
+class FileSinkProvider implements EmailProvider {
+  name = 'file'
+
+  async send(email: OutgoingEmail) {
+    const id = crypto.randomUUID()
+    const directory = Deno.env.get('EMAIL_SINK_DIR') ?? '/tmp/emails'
+
+    await Deno.mkdir(directory, { recursive: true })
+    await Deno.writeTextFile(`${directory}/${id}.json`, JSON.stringify({ id, ...email, sentAt: new Date().toISOString() }, null, 2))
+    console.log(`📧 Email to ${email.to} written to ${directory}/${id}.json`)
+
+    return id
+  }
+}
+
+export const createProvider = (): EmailProvider => {
+  const resendApiKey = Deno.env.get('RESEND_API_KEY')
+  const provider = Deno.env.get('EMAIL_PROVIDER') ?? 'resend'
+
+  switch (provider) {
+    case 'resend':
+      if (!resendApiKey) throw new Error('Resend API key not configured')
+      return new ResendProvider(resendApiKey)
+    case 'sendgrid': {
+      const apiKey = Deno.env.get('SENDGRID_API_KEY')
+      if (!apiKey) throw new Error('SendGrid API key not configured')
+      return new SendGridProvider(apiKey)
+    }
+    case 'smtp':
+      return new SmtpProvider()
+    case 'file':
+      return new FileSinkProvider()
+    default:
+      throw new Error(`Unknown email provider: ${provider}`)
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Sends with exponential backoff; `retries` is how many attempts after the first were needed
+const sendWithRetries = async (provider: EmailProvider, email: OutgoingEmail) => {
+  let lastError: Error | null = null
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (attempt > 0) await wait(RETRY_DELAY_MS * 2 ** (attempt - 1))
+
+    try {
+      return { messageId: await provider.send(email), retries: attempt, error: null }
+    } catch (error) {
+      lastError = error
+      if (error instanceof ProviderError && !error.retryable) {
+        return { messageId: null, retries: attempt, error }
+      }
+    }
+  }
+
+  return { messageId: null, retries: MAX_ATTEMPTS - 1, error: lastError }
+}
+
+export interface EmailDelivery {
+  id: string;
+  user_id: string;
+  to_email: string;
+  subject: string;
+  html: string;
+  text: string | null;
+  unsubscribe_url: string | null;
+  email_type: string;
+  status: 'queued' | 'sent' | 'failed';
+  retry_count: number;
+}
+
+export interface NewEmail {
+  userId: string; // Whose delivery log the email shows up in
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  unsubscribeUrl?: string; // Sent as List-Unsubscribe for one-click unsubscribe
+  type: string;
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  messageId: string | null;
+  error: Error | null;
+}
+
+// Log a new email as queued; the client must use the service role
+export const queueDelivery = async (adminClient: SupabaseClient, provider: EmailProvider, email: NewEmail): Promise<EmailDelivery> => {
+  const { data, error } = await adminClient
+    .from('email_deliveries')
+    .insert({
+      user_id: email.userId,
+      to_email: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text ?? null,
+      unsubscribe_url: email.unsubscribeUrl ?? null,
+      email_type: email.type,
+      provider: provider.name,
+      status: 'queued',
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Send a logged email, retrying transient failures, and record the outcome
+export const sendDelivery = async (
+  adminClient: SupabaseClient,
+  provider: EmailProvider,
+  delivery: EmailDelivery,
+  { manualRetry = false }: { manualRetry?: boolean } = {}
+): Promise<DeliveryResult> => {
+  const result = await sendWithRetries(provider, {
+    from: Deno.env.get('EMAIL_FROM') ?? DEFAULT_FROM,
+    to: delivery.to_email,
+    subject: delivery.subject,
+    html: delivery.html,
+    text: delivery.text ?? undefined,
+    headers: delivery.unsubscribe_url
+      ? {
+          'List-Unsubscribe': `<${delivery.unsubscribe_url}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }
+      : undefined,
+  })
+
+  // A manual retry counts as one more attempt on top of the earlier ones
+  const retryCount = delivery.retry_count + result.retries + (manualRetry ? 1 : 0)
+
+  await adminClient
+    .from('email_deliveries')
+    .update(result.error
+      ? { status: 'failed', provider: provider.name, retry_count: retryCount, last_error: result.error.message }
+      : {
+          status: 'sent',
+          provider: provider.name,
+          provider_message_id: result.messageId,
+          retry_count: retryCount,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+        })
+    .eq('id', delivery.id)
+
+  if (result.error) {
+    console.error('Email delivery failed:', result.error)
+  }
+
+  return { success: !result.error, messageId: result.messageId, error: result.error }
+}
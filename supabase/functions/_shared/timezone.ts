@@ -0,0 +1,71 @@
+// Timezone helpers for the scheduled edge functions (send-reminders, send-digests)
+// Users' schedules and quiet hours are wall-clock times in the timezone stored
+// in user_settings, which the app keeps in step with the browser.
+
+// The wall-clock date and time of an instant in a timezone
+export const getZonedParts = (date: Date, timezone: string): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '00'
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}:${get('second')}`
+  }
+}
+
+// Convert a wall-clock date (yyyy-MM-dd) and time (HH:mm[:ss]) in a timezone to an instant
+export const zonedTimeToUtc = (date: string, time: string, timezone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+
+  // Offset of the timezone at that moment; a second pass settles DST changes
+  const offsetAt = (instant: number) => {
+    const zoned = getZonedParts(new Date(instant), timezone)
+    const [zYear, zMonth, zDay] = zoned.date.split('-').map(Number)
+    const [zHours, zMinutes, zSeconds] = zoned.time.split(':').map(Number)
+    return Date.UTC(zYear, zMonth - 1, zDay, zHours, zMinutes, zSeconds) - instant
+  }
+
+  const guess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(guess))
+}
+
+// Check if a time falls within quiet hours (HH:mm) in a timezone; the range may cross midnight
+export const isWithinQuietHours = (start: string, end: string, timezone: string, date: Date = new Date()): boolean => {
+  const now = getZonedParts(date, timezone).time.slice(0, 5)
+
+  if (start === end) return false
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end
+}
+
+// When a task is due. Date-only due dates are stored as midnight UTC and
+// count as due at the end of that day in the user's timezone.
+export const getTaskDueInstant = (dueDate: string, timezone: string): Date => {
+  const due = new Date(dueDate)
+  if (due.getUTCHours() !== 0 || due.getUTCMinutes() !== 0) return due
+
+  return zonedTimeToUtc(due.toISOString().slice(0, 10), '23:59:59', timezone)
+}
+
+// Fall back to UTC for missing or unknown timezone names
+export const resolveTimezone = (timezone: string | null | undefined): string => {
+  if (!timezone) return 'UTC'
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return timezone
+  } catch {
+    return 'UTC'
+  }
+}
@@ -0,0 +1,213 @@
+// Supabase Edge Function serving a workspace calendar as an iCalendar feed
+// Calendar apps cannot sign in, so the per-user token in the URL is the
+// only credential. Deploy with JWT verification turned off:
+//   supabase functions deploy calendar-feed --no-verify-jwt
+// Requires sql/ADD_CALENDAR_FEED.sql. Keep the output in step with
+// src/utils/ical.ts, which builds the same file for downloads.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+interface FeedRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval?: number;
+  weekdays?: number[];
+  monthlyBy?: 'date' | 'weekday';
+  monthDay?: number;
+  weekdayOrdinal?: number;
+  weekday?: number;
+  until?: string;
+  count?: number;
+}
+
+interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  priority: string | null;
+  due_date: string;
+  start_date: string | null;
+  tags: string[] | null;
+  link: string | null;
+  recurrence: FeedRecurrence | null;
+  updated_at: string;
+}
+
+interface FeedEvent {
+  id: string;
+  title: string;
+  description: string;
+  event_date: string;
+  start_time: string;
+  end_time: string;
+  event_type: string;
+  priority: string;
+  status: 'pending' | 'confirmed' | 'completed' | 'cancelled';
+  meeting_link: string | null;
+  location: string | null;
+  updated_at: string;
+  attendees: Array<{ email: string; name: string }>;
+}
+
+const UID_DOMAIN = 'eastask.app'
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const PRIORITIES: Record<string, number> = { urgent: 1, high: 3, medium: 5, low: 9 }
+const TASK_STATUSES: Record<FeedTask['status'], string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+}
+const EVENT_STATUSES: Record<FeedEvent['status'], string> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+const utcStamp = (value: string | Date) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const dateValue = (value: string) => value.slice(0, 10).replace(/-/g, '')
+
+const toRRule = (rule: FeedRecurrence) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`]
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map(day => RRULE_DAYS[day]).join(',')}`)
+  }
+  if (rule.frequency === 'monthly') {
+    if (rule.monthlyBy === 'weekday' && rule.weekday !== undefined) {
+      parts.push(`BYDAY=${rule.weekdayOrdinal ?? 1}${RRULE_DAYS[rule.weekday]}`)
+    } else if (rule.monthDay) {
+      parts.push(`BYMONTHDAY=${rule.monthDay}`)
+    }
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+
+  return parts.join(';')
+}
+
+const buildTodo = (task: FeedTask, stamp: string) => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:task-${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${utcStamp(task.updated_at)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `DUE;VALUE=DATE:${dateValue(task.due_date)}`,
+    `STATUS:${TASK_STATUSES[task.status] || 'NEEDS-ACTION'}`,
+    `PRIORITY:${PRIORITIES[task.priority || 'medium'] || 5}`,
+  ]
+
+  if (task.start_date && task.start_date.slice(0, 10) <= task.due_date.slice(0, 10)) {
+    lines.push(`DTSTART;VALUE=DATE:${dateValue(task.start_date)}`)
+  }
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`)
+  if (task.tags?.length) lines.push(`CATEGORIES:${task.tags.map(escapeText).join(',')}`)
+  if (task.link) lines.push(`URL:${task.link}`)
+  if (task.recurrence) lines.push(`RRULE:${toRRule(task.recurrence)}`)
+
+  lines.push('END:VTODO')
+  return lines
+}
+
+// Event times are wall-clock times, written as floating local times
+const buildEvent = (event: FeedEvent, stamp: string) => {
+  const day = dateValue(event.event_date)
+  const time = (value: string) => value.slice(0, 5).replace(':', '') + '00'
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `LAST-MODIFIED:${utcStamp(event.updated_at)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DTSTART:${day}T${time(event.start_time)}`,
+    `DTEND:${day}T${time(event.end_time)}`,
+    `STATUS:${EVENT_STATUSES[event.status] || 'CONFIRMED'}`,
+    `PRIORITY:${PRIORITIES[event.priority] || 5}`,
+    `CATEGORIES:${event.event_type.toUpperCase()}`,
+  ]
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.meeting_link) lines.push(`URL:${event.meeting_link}`)
+  event.attendees.forEach(attendee => {
+    lines.push(`ATTENDEE;CN="${attendee.name.replace(/"/g, '')}":mailto:${attendee.email}`)
+  })
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) {
+    return new Response('Missing feed token', { status: 400 })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { data, error } = await supabaseClient.rpc('get_calendar_feed', { p_token: token })
+    if (error) throw error
+    if (!data?.success) {
+      return new Response('Calendar feed not found', { status: 404 })
+    }
+
+    const stamp = utcStamp(new Date())
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//EasTask//Tasks and Calendar//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeText(data.workspace_name || 'EasTask')}`,
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+      ...(data.tasks as FeedTask[]).flatMap(task => buildTodo(task, stamp)),
+      ...(data.events as FeedEvent[]).flatMap(event => buildEvent(event, stamp)),
+      'END:VCALENDAR',
+    ]
+
+    return new Response(lines.map(foldLine).join('\r\n') + '\r\n', {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="calendar.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+      status: 200,
+    })
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+    return new Response('Failed to build calendar feed', { status: 500 })
+  }
+})
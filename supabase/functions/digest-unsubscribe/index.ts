@@ -0,0 +1,78 @@
+// Supabase Edge Function behind the unsubscribe link in weekly digest emails
+// The token in the URL is the only credential. Deploy with JWT verification turned off:
+//   supabase functions deploy digest-unsubscribe --no-verify-jwt
+// Requires sql/ADD_WEEKLY_DIGEST.sql.
+//
+// GET is the link in the email and only shows a confirmation form, so link
+// scanners and prefetching can't unsubscribe anyone. POST unsubscribes: the
+// form, or the RFC 8058 one-click request mail clients send from the
+// List-Unsubscribe header.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const page = (title: string, message: string, status: number, form = '') =>
+  new Response(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 80px auto; padding: 0 20px; color: #111827; text-align: center;">
+  <h1 style="font-size: 22px;">${title}</h1>
+  <p style="color: #6b7280;">${message}</p>
+  ${form}
+</body>
+</html>`,
+    {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      status,
+    }
+  )
+
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) {
+    return page('Invalid link', 'This unsubscribe link is missing its token.', 400)
+  }
+
+  if (req.method === 'GET') {
+    // Posts back to this URL, token included
+    return page(
+      'Unsubscribe from the weekly digest?',
+      'You will stop getting the weekly digest email. You can turn it back on in Settings → Notifications.',
+      200,
+      `<form method="post">
+    <button type="submit" style="background: #111827; color: white; border: 0; padding: 10px 20px; border-radius: 6px; font-size: 15px; cursor: pointer;">Unsubscribe</button>
+  </form>`
+    )
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { data, error } = await supabaseClient.rpc('unsubscribe_weekly_digest', { p_token: token })
+    if (error) throw error
+    if (!data?.success) {
+      return page('Invalid link', 'This unsubscribe link is not valid any more.', 404)
+    }
+
+    return page(
+      'Unsubscribed',
+      'You will no longer receive the weekly digest. You can turn it back on in Settings → Notifications.',
+      200
+    )
+  } catch (error) {
+    console.error('Digest unsubscribe error:', error)
+    return page('Something went wrong', 'We could not unsubscribe you. Please try again later.', 500)
+  }
+})
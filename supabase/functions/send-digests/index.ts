@@ -0,0 +1,457 @@
+// Supabase Edge Function that sends the weekly digest, one email per workspace,
+// on the weekday and hour each user picked in Settings.
+// pg_cron calls it every 15 minutes with the service role key; see
+// sql/ADD_WEEKLY_DIGEST.sql. Deploy with JWT verification turned off:
+//   supabase functions deploy send-digests --no-verify-jwt
+// APP_URL sets the app address used in email links.
+//
+// Each digest is claimed before it is built and only marked sent once the
+// email is out, so a failed email is retried by a later run.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EmailProvider, createProvider, queueDelivery, sendDelivery } from '../_shared/email.ts'
+import { getTaskDueInstant, getZonedParts, resolveTimezone, zonedTimeToUtc } from '../_shared/timezone.ts'
+
+interface DigestUser {
+  user_id: string;
+  digest_weekday: number | null; // 0 = Sunday
+  digest_hour: number | null;
+  digest_unsubscribe_token: string;
+  timezone: string | null;
+}
+
+interface DigestMembership {
+  workspace_id: string;
+  display_name: string | null;
+  workspaces: { name: string } | null;
+}
+
+interface DigestTask {
+  id: string;
+  title: string;
+  dueDate?: string;
+}
+
+interface DigestMention {
+  taskId: string;
+  taskTitle: string;
+  authorName: string;
+  excerpt: string;
+}
+
+interface WeeklyDigest {
+  recipientName: string;
+  workspaceName: string;
+  periodStart: string;
+  periodEnd: string;
+  timezone: string;
+  completed: DigestTask[];
+  assigned: DigestTask[];
+  overdue: DigestTask[];
+  upcoming: DigestTask[];
+  mentions: DigestMention[];
+  minutesTracked: number;
+  unsubscribeUrl: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+// Longer lists are cut off; the email links to the app for the rest
+const DIGEST_LIST_LIMIT = 10
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'http://localhost:8081'
+
+// Same markup as src/utils/mentions.ts: @[Display Name](user-id)
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([0-9a-f-]{36})\)/g
+
+const mentionsToPlainText = (content: string) =>
+  content.replace(MENTION_PATTERN, (_, name: string) => `@${name}`)
+
+const getDigestUnsubscribeUrl = (token: string) =>
+  `${Deno.env.get('SUPABASE_URL')}/functions/v1/digest-unsubscribe?token=${token}`
+
+// The most recent scheduled send time at or before `now`, and its date in the user's timezone
+const getLastDigestSchedule = (weekday: number, hour: number, timezone: string, now: Date): { weekOf: string; at: Date } => {
+  const today = getZonedParts(now, timezone).date
+  const todayWeekday = new Date(`${today}T00:00:00Z`).getUTCDay()
+  const time = `${String(hour).padStart(2, '0')}:00`
+
+  const shiftDays = (date: string, days: number) =>
+    new Date(new Date(`${date}T00:00:00Z`).getTime() - days * DAY_MS).toISOString().slice(0, 10)
+
+  let weekOf = shiftDays(today, (todayWeekday - weekday + 7) % 7)
+  let at = zonedTimeToUtc(weekOf, time, timezone)
+
+  if (at > now) {
+    weekOf = shiftDays(weekOf, 7)
+    at = zonedTimeToUtc(weekOf, time, timezone)
+  }
+
+  return { weekOf, at }
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const formatDigestDate = (value: string, timezone: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: timezone, month: 'short', day: 'numeric' })
+
+const formatTrackedTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
+
+const taskUrl = (taskId: string) => `${APP_URL}/tasker?task=${taskId}`
+
+const renderDigestHtml = (data: WeeklyDigest) => {
+  const taskSection = (title: string, tasks: DigestTask[]) => tasks.length === 0 ? '' : `
+            <div class="section">
+              <h3>${title} (${tasks.length})</h3>
+              <ul>
+                ${tasks.map(task => `<li><a href="${taskUrl(task.id)}">${escapeHtml(task.title)}</a>${task.dueDate ? ` <span class="muted">· due ${formatDigestDate(task.dueDate, data.timezone)}</span>` : ''}</li>`).join('')}
+              </ul>
+            </div>`
+
+  const mentionSection = data.mentions.length === 0 ? '' : `
+            <div class="section">
+              <h3>Mentions (${data.mentions.length})</h3>
+              <ul>
+                ${data.mentions.map(mention => `<li><strong>${escapeHtml(mention.authorName)}</strong> on <a href="${taskUrl(mention.taskId)}">${escapeHtml(mention.taskTitle)}</a><br><span class="muted">${escapeHtml(mention.excerpt)}</span></li>`).join('')}
+              </ul>
+            </div>`
+
+  return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Weekly Digest</title>
+        <style>
+          body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: white; padding: 30px; border: 1px solid #e1e5e9; }
+          .stats { display: flex; gap: 12px; margin: 0 0 20px; }
+          .stat { flex: 1; background: #eff6ff; padding: 12px; border-radius: 6px; text-align: center; }
+          .stat strong { display: block; font-size: 22px; color: #1d4ed8; }
+          .section { margin: 20px 0; }
+          .section h3 { margin: 0 0 8px; font-size: 16px; }
+          .section ul { margin: 0; padding-left: 20px; }
+          .section a { color: #1d4ed8; }
+          .muted { color: #6c757d; font-size: 13px; }
+          .button { display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; margin: 20px 0; }
+          .footer { background: #f8f9fa; padding: 20px; text-align: center; color: #6c757d; font-size: 14px; border-radius: 0 0 8px 8px; }
+          .footer a { color: #6c757d; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📬 Your Week</h1>
+            <p>${escapeHtml(data.workspaceName)} · ${formatDigestDate(data.periodStart, data.timezone)} – ${formatDigestDate(data.periodEnd, data.timezone)}</p>
+          </div>
+
+          <div class="content">
+            <p>Hi ${escapeHtml(data.recipientName)}, here is what happened this week.</p>
+
+            <div class="stats">
+              <div class="stat"><strong>${data.completed.length}</strong>completed</div>
+              <div class="stat"><strong>${data.overdue.length}</strong>overdue</div>
+              <div class="stat"><strong>${formatTrackedTime(data.minutesTracked)}</strong>tracked</div>
+            </div>
+            ${taskSection('Overdue', data.overdue)}
+            ${taskSection('Due this week', data.upcoming)}
+            ${taskSection('Assigned to you', data.assigned)}
+            ${taskSection('Completed', data.completed)}
+            ${mentionSection}
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${APP_URL}/tasker" class="button">Open EasTask</a>
+            </div>
+          </div>
+
+          <div class="footer">
+            <p>You get this digest because it is turned on in your notification settings.</p>
+            <p><a href="${data.unsubscribeUrl}">Unsubscribe from the weekly digest</a></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+}
+
+// Plain-text alternative of the weekly digest
+const renderDigestText = (data: WeeklyDigest) => {
+  const taskLines = (title: string, tasks: DigestTask[]) => tasks.length === 0 ? [] : [
+    `${title.toUpperCase()} (${tasks.length})`,
+    ...tasks.map(task => `- ${task.title}${task.dueDate ? ` (due ${formatDigestDate(task.dueDate, data.timezone)})` : ''}: ${taskUrl(task.id)}`),
+    ''
+  ]
+
+  return [
+    `Your week in ${data.workspaceName}`,
+    `${formatDigestDate(data.periodStart, data.timezone)} - ${formatDigestDate(data.periodEnd, data.timezone)}`,
+    '',
+    `Hi ${data.recipientName}, here is what happened this week.`,
+    '',
+    `Completed: ${data.completed.length}   Overdue: ${data.overdue.length}   Time tracked: ${formatTrackedTime(data.minutesTracked)}`,
+    '',
+    ...taskLines('Overdue', data.overdue),
+    ...taskLines('Due this week', data.upcoming),
+    ...taskLines('Assigned to you', data.assigned),
+    ...taskLines('Completed', data.completed),
+    ...(data.mentions.length === 0 ? [] : [
+      `MENTIONS (${data.mentions.length})`,
+      ...data.mentions.map(mention => `- ${mention.authorName} on ${mention.taskTitle}: "${mention.excerpt}"`),
+      ''
+    ]),
+    `Open EasTask: ${APP_URL}/tasker`,
+    '',
+    `Unsubscribe from the weekly digest: ${data.unsubscribeUrl}`
+  ].join('\n')
+}
+
+// Everyone with the digest turned on
+const loadDigestUsers = async (adminClient: SupabaseClient): Promise<DigestUser[]> => {
+  const users: DigestUser[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('user_settings')
+      .select('user_id, digest_weekday, digest_hour, digest_unsubscribe_token, timezone')
+      .eq('weekly_digest', true)
+      .not('digest_unsubscribe_token', 'is', null)
+      .order('user_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    users.push(...(data as DigestUser[]))
+    if (data.length < PAGE_SIZE) return users
+  }
+}
+
+// Collect one workspace's week for the user
+const buildDigest = async (
+  adminClient: SupabaseClient,
+  userId: string,
+  recipientName: string,
+  membership: DigestMembership,
+  { periodStart, periodEnd, now, timezone, unsubscribeUrl }: {
+    periodStart: Date;
+    periodEnd: Date;
+    now: Date;
+    timezone: string;
+    unsubscribeUrl: string;
+  }
+): Promise<WeeklyDigest> => {
+  const workspaceId = membership.workspace_id
+
+  const [completedResult, openResult, mentionsResult, timeResult, membersResult] = await Promise.all([
+    adminClient
+      .from('tasks')
+      .select('id, title')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'completed')
+      .or(`assigned_to.eq.${userId},and(assigned_to.is.null,created_by.eq.${userId})`)
+      .gte('completed_at', periodStart.toISOString())
+      .lt('completed_at', periodEnd.toISOString())
+      .order('completed_at', { ascending: false }),
+    adminClient
+      .from('tasks')
+      .select('id, title, due_date, created_at')
+      .eq('workspace_id', workspaceId)
+      .eq('assigned_to', userId)
+      .not('status', 'in', '(completed,cancelled)')
+      .order('due_date', { ascending: true, nullsFirst: false }),
+    adminClient
+      .from('task_comments')
+      .select('content, user_id, task_id, tasks!inner(title, workspace_id)')
+      .eq('tasks.workspace_id', workspaceId)
+      .neq('user_id', userId)
+      .contains('mentions', [userId])
+      .gte('created_at', periodStart.toISOString())
+      .lt('created_at', periodEnd.toISOString())
+      .order('created_at', { ascending: false }),
+    adminClient
+      .from('task_time_entries')
+      .select('duration_minutes, tasks!inner(workspace_id)')
+      .eq('user_id', userId)
+      .eq('tasks.workspace_id', workspaceId)
+      .gte('start_time', periodStart.toISOString())
+      .lt('start_time', periodEnd.toISOString()),
+    adminClient
+      .from('workspace_members')
+      .select('user_id, display_name')
+      .eq('workspace_id', workspaceId)
+  ])
+
+  const failed = [completedResult, openResult, mentionsResult, timeResult, membersResult].find(result => result.error)
+  if (failed) throw failed.error
+
+  const openTasks = (openResult.data || []) as Array<{ id: string; title: string; due_date: string | null }>
+  const overdue: DigestTask[] = []
+  const upcoming: DigestTask[] = []
+  const assigned: DigestTask[] = []
+
+  openTasks.forEach(task => {
+    const item = { id: task.id, title: task.title, dueDate: task.due_date ?? undefined }
+    const dueAt = task.due_date ? getTaskDueInstant(task.due_date, timezone) : null
+
+    if (dueAt && dueAt <= now) overdue.push(item)
+    else if (dueAt && dueAt.getTime() - now.getTime() <= 7 * DAY_MS) upcoming.push(item)
+    else assigned.push(item)
+  })
+
+  const memberNames = new Map(
+    ((membersResult.data || []) as Array<{ user_id: string; display_name: string | null }>)
+      .map(member => [member.user_id, member.display_name || 'Someone'])
+  )
+
+  const mentions: DigestMention[] = ((mentionsResult.data || []) as unknown as Array<{
+    content: string;
+    user_id: string;
+    task_id: string;
+    tasks: { title: string };
+  }>).map(comment => {
+    const text = mentionsToPlainText(comment.content)
+    return {
+      taskId: comment.task_id,
+      taskTitle: comment.tasks.title,
+      authorName: memberNames.get(comment.user_id) || 'Someone',
+      excerpt: text.length > 140 ? `${text.slice(0, 140)}…` : text
+    }
+  })
+
+  const minutesTracked = ((timeResult.data || []) as Array<{ duration_minutes: number | null }>)
+    .reduce((total, entry) => total + (entry.duration_minutes || 0), 0)
+
+  return {
+    recipientName: membership.display_name || recipientName,
+    workspaceName: membership.workspaces?.name || 'your workspace',
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    timezone,
+    completed: ((completedResult.data || []) as DigestTask[]).slice(0, DIGEST_LIST_LIMIT),
+    assigned: assigned.slice(0, DIGEST_LIST_LIMIT),
+    overdue: overdue.slice(0, DIGEST_LIST_LIMIT),
+    upcoming: upcoming.slice(0, DIGEST_LIST_LIMIT),
+    mentions: mentions.slice(0, DIGEST_LIST_LIMIT),
+    minutesTracked,
+    unsubscribeUrl
+  }
+}
+
+// Claim, build and email every workspace digest of the user that is due; returns how many went out
+const sendDueDigests = async (adminClient: SupabaseClient, provider: EmailProvider, digestUser: DigestUser, now: Date): Promise<number> => {
+  const timezone = resolveTimezone(digestUser.timezone)
+  const { weekOf, at } = getLastDigestSchedule(digestUser.digest_weekday ?? 1, digestUser.digest_hour ?? 9, timezone, now)
+
+  const { data: memberships, error } = await adminClient
+    .from('workspace_members')
+    .select('workspace_id, display_name, workspaces(name)')
+    .eq('user_id', digestUser.user_id)
+
+  if (error) throw error
+  if (!memberships?.length) return 0
+
+  // Looked up once a digest is actually claimed; most runs have none due
+  let recipient: { email: string; name: string } | null = null
+  let sent = 0
+
+  for (const membership of memberships as unknown as DigestMembership[]) {
+    const { data: claim, error: claimError } = await adminClient.rpc('claim_weekly_digest', {
+      p_user_id: digestUser.user_id,
+      p_workspace_id: membership.workspace_id,
+      p_week_of: weekOf,
+    })
+
+    if (claimError || !claim?.success) {
+      console.error('Error claiming weekly digest:', claimError || claim?.error)
+      continue
+    }
+    if (!claim.claimed) continue
+
+    try {
+      if (!recipient) {
+        const { data: { user }, error: userError } = await adminClient.auth.admin.getUserById(digestUser.user_id)
+        if (userError) throw userError
+        if (!user?.email) return sent
+        recipient = { email: user.email, name: user.user_metadata?.full_name || user.email.split('@')[0] || 'there' }
+      }
+
+      const digest = await buildDigest(adminClient, digestUser.user_id, recipient.name, membership, {
+        periodStart: new Date(at.getTime() - 7 * DAY_MS),
+        periodEnd: at,
+        now,
+        timezone,
+        unsubscribeUrl: getDigestUnsubscribeUrl(digestUser.digest_unsubscribe_token),
+      })
+
+      // Nothing worth an email this week
+      const itemCount = digest.completed.length + digest.assigned.length + digest.overdue.length +
+        digest.upcoming.length + digest.mentions.length
+
+      if (itemCount > 0 || digest.minutesTracked > 0) {
+        const delivery = await queueDelivery(adminClient, provider, {
+          userId: digestUser.user_id,
+          to: recipient.email,
+          subject: `Your week in ${digest.workspaceName}`,
+          html: renderDigestHtml(digest),
+          text: renderDigestText(digest),
+          unsubscribeUrl: digest.unsubscribeUrl,
+          type: 'weekly_digest',
+        })
+
+        // Left unsent, so a later run retries it
+        const result = await sendDelivery(adminClient, provider, delivery)
+        if (!result.success) continue
+        sent++
+      }
+
+      await adminClient.rpc('mark_weekly_digest_sent', { p_digest_id: claim.digest_id })
+    } catch (error) {
+      console.error('Error sending weekly digest:', error)
+    }
+  }
+
+  return sent
+}
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  try {
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+    const provider = createProvider()
+    const now = new Date()
+    let sent = 0
+
+    for (const digestUser of await loadDigestUsers(adminClient)) {
+      try {
+        sent += await sendDueDigests(adminClient, provider, digestUser, now)
+      } catch (error) {
+        console.error('Error sending weekly digests for user:', digestUser.user_id, error)
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, sent }), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Digest run failed:', error)
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+})
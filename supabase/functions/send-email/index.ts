@@ -1,8 +1,12 @@
-// Supabase Edge Function for sending emails via Resend
+// Supabase Edge Function for sending emails
 // Deploy this to Supabase to handle email sending without CORS issues
+//
+// Providers and the delivery log live in ../_shared/email.ts; see there
+// for the secrets each provider needs.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EmailDelivery, createProvider, queueDelivery, sendDelivery } from '../_shared/email.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,12 +14,22 @@ const corsHeaders = {
 }
 
 interface EmailRequest {
-  to: string;
-  subject: string;
-  html: string;
-  type: string;
+  to?: string;
+  subject?: string;
+  html?: string;
+  text?: string;
+  type?: string;
+  unsubscribeUrl?: string; // Sent as List-Unsubscribe for one-click unsubscribe
+  deliveryId?: string; // Retry a failed delivery instead of sending a new email
+  action?: 'status'; // Report the configured provider without sending anything
 }
 
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -40,82 +54,95 @@ serve(async (req) => {
       }
     )
 
+    // The delivery log is written with the service role; users can only read it
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
     // Verify user is authenticated
     const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
     if (userError || !user) {
       throw new Error('Unauthorized')
     }
 
-    // Parse request body
-    const { to, subject, html, type }: EmailRequest = await req.json()
+    const request: EmailRequest = await req.json()
+    const provider = createProvider()
 
-    // Get Resend API key from environment
-    const resendApiKey = Deno.env.get('RESEND_API_KEY')
-    if (!resendApiKey) {
-      throw new Error('Resend API key not configured')
+    if (request.action === 'status') {
+      return jsonResponse({ success: true, provider: provider.name })
     }
 
-    // Send email via Resend
-    const emailResponse = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: 'EasTask Team <noreply@resend.dev>',
-        to: [to],
-        subject: subject,
-        html: html,
-      }),
-    })
+    // 1. Load the delivery to retry, or log the new email as queued
+    let delivery: EmailDelivery
 
-    if (!emailResponse.ok) {
-      const errorText = await emailResponse.text()
-      throw new Error(`Resend API error: ${errorText}`)
+    if (request.deliveryId) {
+      const { data, error } = await adminClient
+        .from('email_deliveries')
+        .select('*')
+        .eq('id', request.deliveryId)
+        .eq('user_id', user.id)
+        .single()
+
+      if (error || !data) throw new Error('Delivery not found')
+      if (data.status === 'sent') throw new Error('This email was already delivered')
+      delivery = data
+    } else {
+      if (!request.to || !request.subject) {
+        throw new Error('Missing recipient or subject')
+      }
+
+      delivery = await queueDelivery(adminClient, provider, {
+        userId: user.id,
+        to: request.to,
+        subject: request.subject,
+        html: request.html ?? '',
+        text: request.text,
+        unsubscribeUrl: request.unsubscribeUrl,
+        type: request.type ?? 'general',
+      })
     }
 
-    const emailResult = await emailResponse.json()
+    // 2. Send, retrying transient failures, and record the outcome; a retry
+    // reuses the stored text part and unsubscribe URL
+    const result = await sendDelivery(adminClient, provider, delivery, { manualRetry: !!request.deliveryId })
 
-    // Log the email sending activity
-    await supabaseClient
-      .from('user_activity')
+    if (!result.success) {
+      return jsonResponse({ success: false, error: result.error?.message, delivery_id: delivery.id })
+    }
+
+    // Log the email sending activity (sql/ADD_ACTIVITY_LOG.sql); the email
+    // is already out, so a failed log entry is only reported
+    const { error: activityError } = await supabaseClient
+      .from('user_activities')
       .insert({
         user_id: user.id,
         activity_type: 'email_sent',
         resource_type: 'email',
-        resource_id: emailResult.id || 'unknown',
-        details: {
-          to: to,
-          subject: subject,
-          type: type,
-          email_id: emailResult.id
+        resource_id: delivery.id,
+        activity_data: {
+          to: delivery.to_email,
+          subject: delivery.subject,
+          type: delivery.email_type,
+          email_id: result.messageId,
+          delivery_id: delivery.id
         }
       })
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Email sent successfully',
-        email_id: emailResult.id 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
+    if (activityError) {
+      console.error('Failed to log email activity:', activityError)
+    }
+
+    return jsonResponse({
+      success: true,
+      message: 'Email sent successfully',
+      email_id: result.messageId,
+      delivery_id: delivery.id,
+      provider: provider.name
+    })
 
   } catch (error) {
     console.error('Email sending error:', error)
-    return new Response(
-      JSON.stringify({ 
-        success: false, 
-        error: error.message 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      },
-    )
+    return jsonResponse({ success: false, error: error.message }, 400)
   }
 })
@@ -0,0 +1,343 @@
+// Supabase Edge Function that sends due-date reminders (in-app notification plus email)
+// pg_cron calls it every 5 minutes with the service role key; see
+// sql/ADD_TASK_REMINDERS.sql. Deploy with JWT verification turned off:
+//   supabase functions deploy send-reminders --no-verify-jwt
+// APP_URL sets the app address used in email links.
+//
+// Each reminder is claimed before it is sent and only marked sent once the
+// email is out, so a failed email is retried by a later run.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EmailProvider, createProvider, queueDelivery, sendDelivery } from '../_shared/email.ts'
+import { getTaskDueInstant, isWithinQuietHours, resolveTimezone } from '../_shared/timezone.ts'
+
+type ReminderThreshold = 'upcoming' | 'overdue'
+
+interface DueTask {
+  id: string;
+  title: string;
+  due_date: string;
+  workspace_id: string;
+  assigned_to: string | null;
+  created_by: string | null;
+  workspaces: { name: string } | null;
+}
+
+interface ReminderSettings {
+  taskReminders: boolean;
+  leadHours: number;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string; // HH:mm
+  quietHoursEnd: string; // HH:mm
+  timezone: string;
+}
+
+interface RecipientRow {
+  user_id: string;
+  email: string | null;
+  preferences: Record<string, { in_app?: boolean; email?: boolean; push?: boolean }>;
+  email_enabled: boolean;
+  push_enabled: boolean;
+}
+
+interface Channels {
+  in_app: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  taskReminders: true,
+  leadHours: 24,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  timezone: 'UTC',
+}
+
+// Tasks that went overdue longer ago than this are not reminded about,
+// so turning reminders on doesn't flood the inbox with old tasks
+const OVERDUE_LOOKBACK_DAYS = 7
+// The longest lead time Settings offers
+const MAX_LEAD_HOURS = 168
+const PAGE_SIZE = 1000
+const HOUR_MS = 60 * 60 * 1000
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'http://localhost:8081'
+
+// Which reminder a task is due for right now, if any
+const getReminderThreshold = (dueAt: Date, leadHours: number, now: Date): ReminderThreshold | null => {
+  const remaining = dueAt.getTime() - now.getTime()
+
+  if (remaining <= 0) return 'overdue'
+  if (remaining <= leadHours * HOUR_MS) return 'upcoming'
+  return null
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+
+// Open tasks with a due date in the window any user's settings could remind about
+const loadDueTasks = async (adminClient: SupabaseClient, now: Date): Promise<DueTask[]> => {
+  // Date-only due dates fall due after their stored midnight (by up to 36 hours),
+  // so only the overdue lookback needs slack
+  const horizon = new Date(now.getTime() + MAX_LEAD_HOURS * HOUR_MS)
+  const lookback = new Date(now.getTime() - (OVERDUE_LOOKBACK_DAYS + 2) * 24 * HOUR_MS)
+  const tasks: DueTask[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await adminClient
+      .from('tasks')
+      .select('id, title, due_date, workspace_id, assigned_to, created_by, workspaces(name)')
+      .not('status', 'in', '(completed,cancelled)')
+      .gte('due_date', lookback.toISOString())
+      .lte('due_date', horizon.toISOString())
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    tasks.push(...(data as unknown as DueTask[]))
+    if (data.length < PAGE_SIZE) return tasks
+  }
+}
+
+const loadSettings = async (adminClient: SupabaseClient, userIds: string[]): Promise<Map<string, ReminderSettings>> => {
+  const settings = new Map<string, ReminderSettings>()
+
+  for (let i = 0; i < userIds.length; i += 200) {
+    const { data, error } = await adminClient
+      .from('user_settings')
+      .select('*')
+      .in('user_id', userIds.slice(i, i + 200))
+
+    if (error) throw error
+
+    for (const row of data) {
+      settings.set(row.user_id, {
+        taskReminders: row.task_reminders ?? DEFAULT_SETTINGS.taskReminders,
+        leadHours: row.reminder_lead_hours ?? DEFAULT_SETTINGS.leadHours,
+        quietHoursEnabled: row.quiet_hours_enabled ?? DEFAULT_SETTINGS.quietHoursEnabled,
+        quietHoursStart: row.quiet_hours_start?.slice(0, 5) || DEFAULT_SETTINGS.quietHoursStart,
+        quietHoursEnd: row.quiet_hours_end?.slice(0, 5) || DEFAULT_SETTINGS.quietHoursEnd,
+        timezone: resolveTimezone(row.timezone),
+      })
+    }
+  }
+
+  return settings
+}
+
+// How each user wants to hear about reminders in a workspace. Missing
+// preferences default to every channel on, as in src/utils/notificationPreferences.ts.
+const loadChannels = async (adminClient: SupabaseClient, workspaceId: string, userIds: string[]) => {
+  const channels = new Map<string, { email: string | null; channels: Channels }>()
+
+  const { data, error } = await adminClient.rpc('get_notification_recipients', {
+    p_workspace_id: workspaceId,
+    p_user_ids: userIds,
+  })
+
+  if (error || !data?.success) {
+    console.error('Error loading reminder recipients:', error || data?.error)
+    return channels
+  }
+
+  for (const row of (data.recipients || []) as RecipientRow[]) {
+    const saved = row.preferences?.task_reminder || {}
+    channels.set(row.user_id, {
+      email: row.email,
+      channels: {
+        in_app: saved.in_app ?? true,
+        email: (saved.email ?? true) && row.email_enabled && !!row.email,
+        push: (saved.push ?? true) && row.push_enabled,
+      },
+    })
+  }
+
+  return channels
+}
+
+const renderReminderEmail = (task: DueTask, dueLabel: string, threshold: ReminderThreshold) => {
+  const overdue = threshold === 'overdue'
+  const workspaceName = task.workspaces?.name || 'your workspace'
+  const taskLink = `${APP_URL}/tasker?task=${task.id}`
+  const sentence = overdue
+    ? `This task in ${workspaceName} was due ${dueLabel} and is now overdue.`
+    : `This task in ${workspaceName} is due ${dueLabel} and needs your attention.`
+
+  return {
+    subject: `${overdue ? 'Task overdue' : 'Task due soon'}: ${task.title}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #dc2626 0%, #b91c1c 100%); padding: 30px 20px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px;">Task Reminder</h1>
+        </div>
+        <div style="padding: 30px 20px; background: #ffffff;">
+          <h2 style="color: #1f2937; margin: 0 0 20px 0;">${escapeHtml(task.title)}</h2>
+          <p style="color: #4b5563; line-height: 1.6; margin: 0 0 20px 0;">${escapeHtml(sentence)}</p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${taskLink}" style="background: linear-gradient(135deg, #dc2626 0%, #b91c1c 100%); color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+              Complete Task
+            </a>
+          </div>
+        </div>
+      </div>
+    `,
+    text: `${task.title}\n\n${sentence}\n\nOpen the task: ${taskLink}\n`,
+  }
+}
+
+// Claim, email, notify and mark sent; returns whether the reminder went out
+const sendReminder = async (
+  adminClient: SupabaseClient,
+  provider: EmailProvider,
+  task: DueTask,
+  userId: string,
+  recipient: { email: string | null; channels: Channels },
+  dueAt: Date,
+  threshold: ReminderThreshold,
+  timezone: string
+): Promise<boolean> => {
+  const { data: claim, error } = await adminClient.rpc('claim_task_reminder', {
+    p_task_id: task.id,
+    p_user_id: userId,
+    p_threshold: threshold,
+  })
+
+  if (error || !claim?.success) {
+    console.error('Error claiming task reminder:', error || claim?.error)
+    return false
+  }
+  if (!claim.claimed) return false
+
+  const dueLabel = dueAt.toLocaleDateString('en-US', { timeZone: timezone, month: 'short', day: 'numeric', year: 'numeric' })
+
+  // Email first: if it fails the claim stays unsent and a later run retries
+  if (recipient.channels.email && recipient.email) {
+    const email = renderReminderEmail(task, dueLabel, threshold)
+    const delivery = await queueDelivery(adminClient, provider, {
+      userId,
+      to: recipient.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      type: 'task_reminder',
+    })
+    const result = await sendDelivery(adminClient, provider, delivery)
+    if (!result.success) return false
+  }
+
+  if (recipient.channels.in_app || recipient.channels.push) {
+    const { error: notificationError } = await adminClient
+      .from('notifications')
+      .insert({
+        user_id: userId,
+        workspace_id: task.workspace_id,
+        type: 'task_reminder',
+        title: threshold === 'overdue' ? 'Task overdue' : 'Task due soon',
+        message: threshold === 'overdue'
+          ? `"${task.title}" was due on ${dueLabel}`
+          : `"${task.title}" is due on ${dueLabel}`,
+        data: {
+          task_id: task.id,
+          task_title: task.title,
+          threshold,
+          due_date: task.due_date,
+          channels: { in_app: recipient.channels.in_app, push: recipient.channels.push },
+        },
+        read: false,
+        action_url: `/tasker?task=${task.id}`,
+      })
+
+    if (notificationError) {
+      console.error('Error creating reminder notification:', notificationError)
+      // Without the email nothing has been delivered yet, so leave it for a later run
+      if (!recipient.channels.email) return false
+    }
+  }
+
+  await adminClient.rpc('mark_task_reminder_sent', { p_reminder_id: claim.reminder_id })
+  return true
+}
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  try {
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+    const provider = createProvider()
+    const now = new Date()
+
+    // Reminders go to the assignee, or the creator of an unassigned task
+    const tasks = (await loadDueTasks(adminClient, now))
+      .map(task => ({ task, userId: task.assigned_to ?? task.created_by }))
+      .filter((entry): entry is { task: DueTask; userId: string } => !!entry.userId)
+
+    const settings = await loadSettings(adminClient, [...new Set(tasks.map(entry => entry.userId))])
+
+    // Only tasks that are due for a reminder now, grouped by workspace
+    const due = new Map<string, Array<{ task: DueTask; userId: string; dueAt: Date; threshold: ReminderThreshold; timezone: string }>>()
+
+    for (const { task, userId } of tasks) {
+      const userSettings = settings.get(userId) ?? DEFAULT_SETTINGS
+      if (!userSettings.taskReminders) continue
+
+      // Reminders held back during quiet hours go out on the first run afterwards
+      const { timezone } = userSettings
+      if (userSettings.quietHoursEnabled && isWithinQuietHours(userSettings.quietHoursStart, userSettings.quietHoursEnd, timezone, now)) {
+        continue
+      }
+
+      const dueAt = getTaskDueInstant(task.due_date, timezone)
+      const threshold = getReminderThreshold(dueAt, userSettings.leadHours, now)
+
+      if (!threshold) continue
+      if (threshold === 'overdue' && now.getTime() - dueAt.getTime() > OVERDUE_LOOKBACK_DAYS * 24 * HOUR_MS) continue
+
+      const entries = due.get(task.workspace_id) ?? []
+      entries.push({ task, userId, dueAt, threshold, timezone })
+      due.set(task.workspace_id, entries)
+    }
+
+    let sent = 0
+    let failed = 0
+
+    for (const [workspaceId, entries] of due) {
+      const recipients = await loadChannels(adminClient, workspaceId, [...new Set(entries.map(entry => entry.userId))])
+
+      for (const { task, userId, dueAt, threshold, timezone } of entries) {
+        // Not a member any more, or no channel is on
+        const recipient = recipients.get(userId)
+        if (!recipient || !(recipient.channels.in_app || recipient.channels.email || recipient.channels.push)) continue
+
+        try {
+          if (await sendReminder(adminClient, provider, task, userId, recipient, dueAt, threshold, timezone)) {
+            sent++
+          }
+        } catch (error) {
+          failed++
+          console.error('Error sending task reminder:', error)
+        }
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, sent, failed }), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Reminder run failed:', error)
+    return new Response(JSON.stringify({ success: false, error: error.message }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+})
@@ -68,6 +68,7 @@ const config: Config = {
         "task-todo": "hsl(var(--task-todo))",
         "task-progress": "hsl(var(--task-progress))",
         "task-done": "hsl(var(--task-done))",
+        "task-cancelled": "hsl(var(--task-cancelled))",
       },
       borderRadius: {
         lg: "var(--radius)",